@@ -42,6 +42,11 @@ const SCHEMA_EXPORTS = {
     title: 'Session Internal State',
     description: 'Internal session state structure used by Session Manager'
   },
+  'session-state-discriminated': {
+    schema: schemas.DiscriminatedSessionStateSchema,
+    title: 'Discriminated Session State',
+    description: 'Strict session state keyed on status, with per-status required fields'
+  },
   
   // Bridge Command API schemas
   'bridge-command-request': {
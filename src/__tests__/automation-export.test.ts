@@ -0,0 +1,118 @@
+/**
+ * UiPath / Power Automate Export Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseConditionExpression } from '../condition-expression.js';
+import type { ConditionNode } from '../condition-expression.js';
+import { compileConditionToVB, exportWorkflowToUiPath } from '../uipath-export.js';
+import { compileConditionToPowerAutomate, exportWorkflowToPowerAutomate } from '../power-automate-export.js';
+import { parseXml } from '../xml-parser.js';
+import type { VideoWorkflowGuideContent } from '../video-artifacts.js';
+
+function ast(condition: string): ConditionNode {
+  const parsed = parseConditionExpression(condition);
+  if (!parsed.success) throw new Error(parsed.error.message);
+  return parsed.ast;
+}
+
+const guide: VideoWorkflowGuideContent = {
+  schema_version: '3.0',
+  task_summary: { name: 'Pay "invoice" <fast>', goal: 'Pay a vendor invoice' },
+  temporal_phases: [{ phase_number: 1, name: 'Review', purpose: 'Check the invoice', key_actions: [] }],
+  step_by_step_guide: [
+    { step_number: 1, phase_number: 1, title: 'Open', action: 'Open the invoice', expected_result: 'Open' },
+    {
+      step_number: 2, phase_number: 1, title: 'Route', action: 'Route by amount', expected_result: 'Routed', step_type: 'conditional',
+      condition_details: { condition: "invoice.amount > 100 AND status = 'open'", true_action: 'Escalate', false_action: 'Pay', condition_language: 'simple_expr_v1' }
+    },
+    { step_number: 3, title: 'Approve', action: 'Manager approves', expected_result: 'Approved', step_type: 'hitl' }
+  ]
+};
+
+describe('VB.NET condition compiler', () => {
+
+  it('converts variables by the type of the other operand', () => {
+    expect(compileConditionToVB(ast("amount > 100 AND status = 'open'"))).toBe('(CDbl([amount]) > 100 AndAlso CStr([status]) = "open")');
+    expect(compileConditionToVB(ast('approved != TRUE OR NOT urgent'))).toBe('(CBool([approved]) <> True OrElse Not CBool([urgent]))');
+    expect(compileConditionToVB(ast('a.b <= c'))).toBe('CStr([a_b]) <= CStr([c])');
+  });
+
+  it('escapes variables named like VB keywords', () => {
+    expect(compileConditionToVB(ast('Date > 5 AND Next'))).toBe('(CDbl([Date]) > 5 AndAlso CBool([Next]))');
+  });
+
+  it('compiles string operators, emptiness and escaped literals', () => {
+    expect(compileConditionToVB(ast("note CONTAINS 'say \"hi\"'"))).toBe('If(CStr([note]), "").Contains("say ""hi""")');
+    expect(compileConditionToVB(ast("name STARTS_WITH 'A' AND name ENDS_WITH 'z'")))
+      .toBe('(If(CStr([name]), "").StartsWith("A") AndAlso If(CStr([name]), "").EndsWith("z"))');
+    expect(compileConditionToVB(ast('IS_NOT_EMPTY(comment)'))).toBe('Not String.IsNullOrWhiteSpace(CStr([comment]))');
+  });
+});
+
+describe('Power Automate condition compiler', () => {
+
+  const amount = "triggerBody()?['amount']";
+  const status = "triggerBody()?['status']";
+
+  it('converts variables by the type of the other operand, replacing null and empty inputs first', () => {
+    expect(compileConditionToPowerAutomate(ast("amount > 100 AND status = 'open'"))).toBe(
+      `and(and(not(equals(${amount}, null)), greater(float(if(empty(coalesce(${amount}, '')), 0, ${amount})), 100)), `
+      + `and(not(equals(${status}, null)), equals(string(coalesce(${status}, '')), 'open')))`
+    );
+    expect(compileConditionToPowerAutomate(ast('NOT urgent')))
+      .toBe("not(bool(if(empty(coalesce(triggerBody()?['urgent'], '')), false, triggerBody()?['urgent'])))");
+    expect(compileConditionToPowerAutomate(ast('a.b >= 2')))
+      .toBe("and(not(equals(triggerBody()?['a_b'], null)), greaterOrEquals(float(if(empty(coalesce(triggerBody()?['a_b'], '')), 0, triggerBody()?['a_b'])), 2))");
+  });
+
+  it('compiles string operators, emptiness and escaped literals', () => {
+    expect(compileConditionToPowerAutomate(ast("note CONTAINS 'it\\'s'")))
+      .toBe("and(not(equals(triggerBody()?['note'], null)), contains(string(coalesce(triggerBody()?['note'], '')), 'it''s'))");
+    expect(compileConditionToPowerAutomate(ast("name ENDS_WITH 'z'")))
+      .toBe("and(not(equals(triggerBody()?['name'], null)), endsWith(string(coalesce(triggerBody()?['name'], '')), 'z'))");
+    expect(compileConditionToPowerAutomate(ast('comment IS_EMPTY'))).toBe("empty(coalesce(triggerBody()?['comment'], ''))");
+  });
+});
+
+describe('automation exports', () => {
+
+  it('writes well-formed XAML with the condition variables declared', () => {
+    const { xaml, variables, report } = exportWorkflowToUiPath(guide);
+    expect(parseXml(xaml).success).toBe(true);
+    expect(variables).toEqual(['invoice_amount', 'status']);
+    expect(xaml).toContain('Condition="[(CDbl([invoice_amount]) &gt; 100 AndAlso CStr([status]) = &quot;open&quot;)]"');
+    expect(report.steps.map(step => step.status)).toEqual(['placeholder', 'mapped', 'mapped']);
+  });
+
+  it('writes a flow with the condition as an If expression and trigger inputs', () => {
+    const { flow, variables, report } = exportWorkflowToPowerAutomate(guide);
+    expect(variables).toEqual(['invoice_amount', 'status']);
+    expect(flow.definition.triggers).toMatchObject({
+      manual: { inputs: { schema: { properties: { invoice_amount: { type: 'string' }, status: { type: 'string' } } } } }
+    });
+    const phase = Object.values(flow.definition.actions)[0];
+    const route = Object.values(phase.actions ?? {})[1];
+    expect(route).toMatchObject({
+      type: 'If',
+      expression: { and: [{ equals: [expect.stringContaining("greater(float(if(empty(coalesce(triggerBody()?['invoice_amount'], '')), 0, "), true] }] }
+    });
+    expect(report).toMatchObject({ mapped: 2, placeholders: 1 });
+  });
+
+  it('gives variables that flatten to the same name distinct names', () => {
+    const clash: VideoWorkflowGuideContent = {
+      ...guide,
+      step_by_step_guide: guide.step_by_step_guide.map(step => step.condition_details
+        ? { ...step, condition_details: { ...step.condition_details, condition: 'order.total > 100 AND order_total < 5' } }
+        : step)
+    };
+    const uipath = exportWorkflowToUiPath(clash);
+    expect(uipath.variables).toEqual(['order_total', 'order_total_2']);
+    expect(uipath.xaml).toContain('CDbl([order_total]) &gt; 100 AndAlso CDbl([order_total_2]) &lt; 5');
+
+    const flow = exportWorkflowToPowerAutomate(clash);
+    expect(flow.variables).toEqual(['order_total', 'order_total_2']);
+    expect(JSON.stringify(flow.flow.definition.actions)).toContain("less(float(if(empty(coalesce(triggerBody()?['order_total_2'], '')), 0, ");
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Bridge Command Client Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createBridgeCommandDispatcher, createBridgeCommandRequest } from '../bridge-protocol.js';
+import { createBridgeClient, createInMemoryBridgeTransport } from '../bridge-client.js';
+import type { InMemoryBridgeFault } from '../bridge-client.js';
+import { ErrorEnvelopeSchema } from '../schemas.js';
+
+function createFakeBridge() {
+  const started: string[] = [];
+  const handleBridgeCommand = createBridgeCommandDispatcher({
+    audio_start: ({ session_id = 'sess_default' }) => {
+      if (started.includes(session_id)) {
+        return { success: false, error: { code: 'busy', message: `Already recording ${session_id}` } };
+      }
+      started.push(session_id);
+      return { success: true, result: { session_id, started_at: '2025-09-08T08:30:00.000Z' } };
+    }
+  });
+  return { started, handleBridgeCommand };
+}
+
+function createTestClient(faults: Array<InMemoryBridgeFault | undefined>) {
+  const bridge = createFakeBridge();
+  const delays: number[] = [];
+  const client = createBridgeClient({
+    transport: createInMemoryBridgeTransport(bridge.handleBridgeCommand, { fault: (_, call) => faults[call] }),
+    timeoutMs: 20,
+    generateRequestId: () => 'req_1',
+    sleep: async ms => { delays.push(ms); }
+  });
+  return { ...bridge, client, delays };
+}
+
+describe('bridge client', () => {
+
+  it('sends a correlated request and returns the echoed response', async () => {
+    const { client } = createTestClient([]);
+    const sent = await client.send('audio_start', { session_id: 'sess_1' });
+    expect(sent).toMatchObject({ success: true, attempts: 1, response: { success: true, request_id: 'req_1', command: 'audio_start' } });
+  });
+
+  it('retries a lost response with the same request_id without starting twice', async () => {
+    const { client, started, delays } = createTestClient(['drop_response']);
+    const sent = await client.send('audio_start', { session_id: 'sess_1' });
+    expect(sent.success && sent.response.success).toBe(true);
+    expect(sent.attempts).toBe(2);
+    expect(started).toEqual(['sess_1']);
+    expect(delays).toEqual([250]);
+  });
+
+  it('returns bridge failures as responses without retrying', async () => {
+    const { client } = createTestClient([]);
+    await client.send('audio_start', { session_id: 'sess_1' });
+    const second = await client.send('audio_start', { session_id: 'sess_1' }, { request_id: 'req_2' });
+    expect(second).toMatchObject({ success: true, attempts: 1, response: { success: false, error: { code: 'busy' } } });
+  });
+
+  it('maps exhausted retries to sm_timeout and sm_network_error envelopes', async () => {
+    const timedOut = await createTestClient(['drop_request', 'drop_request', 'drop_request']).client.send('audio_start', {});
+    expect(timedOut).toMatchObject({ success: false, attempts: 3, error: { code: 'sm_timeout', http: 503 } });
+
+    const { client, delays } = createTestClient(['network_error', 'network_error', 'network_error']);
+    const unreachable = await client.send('audio_start', {});
+    expect(unreachable).toMatchObject({ success: false, attempts: 3, error: { code: 'sm_network_error', http: 503 } });
+    expect(delays).toEqual([250, 500]);
+    if (!unreachable.success) expect(ErrorEnvelopeSchema.safeParse(unreachable.error).success).toBe(true);
+  });
+
+  it('maps malformed replies to upstream_error', async () => {
+    const client = createBridgeClient({ transport: async () => ({ success: true }), generateRequestId: () => 'req_1' });
+    const sent = await client.send('audio_start', {});
+    expect(sent).toMatchObject({ success: false, attempts: 1, error: { code: 'upstream_error', http: 502 } });
+  });
+
+  it('does not run requests that arrive after their deadline', async () => {
+    const { handleBridgeCommand, started } = createFakeBridge();
+    const late = createBridgeCommandRequest('audio_start', { session_id: 'sess_1' }, { request_id: 'req_1', deadline: Date.now() - 1 });
+    const reply = await handleBridgeCommand(late);
+    expect(reply).toMatchObject({ success: false, request_id: 'req_1', error: { code: 'deadline_exceeded' } });
+    expect(started).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Bridge Command Protocol Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createBridgeCommandDispatcher,
+  createBridgeCommandRequest,
+  fromLegacyBridgeCommandRequest,
+  parseBridgeCommandResponse,
+  BRIDGE_PROTOCOL_VERSION
+} from '../bridge-protocol.js';
+import type { BridgeCommandHandlers } from '../bridge-protocol.js';
+
+const NOW = 1757320200000;
+
+function dispatcher(handlers: BridgeCommandHandlers) {
+  return createBridgeCommandDispatcher(handlers, { now: () => NOW });
+}
+
+const ping = () => ({ success: true as const, result: { bridge_version: '2.3.0', uptime_seconds: 12 } });
+
+describe('bridge command dispatcher', () => {
+
+  it('runs the handler and echoes the request_id', async () => {
+    const reply = await dispatcher({ ping })(createBridgeCommandRequest('ping', {}, { request_id: 'req_1', timestamp: NOW }));
+    expect(reply).toEqual({
+      protocol_version: BRIDGE_PROTOCOL_VERSION,
+      request_id: 'req_1',
+      command: 'ping',
+      timestamp: NOW,
+      success: true,
+      result: { bridge_version: '2.3.0', uptime_seconds: 12 }
+    });
+    expect(parseBridgeCommandResponse('ping', reply).success).toBe(true);
+  });
+
+  it('rejects other protocol versions before validating the request', async () => {
+    const reply = await dispatcher({ ping })({ protocol_version: '2.0', request_id: 'req_1', command: 'ping', whatever: true });
+    expect(reply).toMatchObject({
+      success: false,
+      request_id: 'req_1',
+      command: 'ping',
+      error: { code: 'unsupported_version', details: { supported_versions: ['1.0'] } }
+    });
+  });
+
+  it('answers malformed requests and commands without a handler', async () => {
+    const handle = dispatcher({ ping });
+    expect(await handle({ protocol_version: '1.0', command: 'screen_start', args: {}, timestamp: NOW }))
+      .toMatchObject({ success: false, error: { code: 'invalid_request' } });
+    expect(await handle(createBridgeCommandRequest('status', {}, { timestamp: NOW })))
+      .toMatchObject({ success: false, error: { code: 'unsupported_command' } });
+    expect(await handle(fromLegacyBridgeCommandRequest({ command: 'ping', timestamp: NOW }))).toMatchObject({ success: true });
+  });
+
+  it('turns invalid results, invalid errors and empty exceptions into internal_error replies', async () => {
+    const handle = dispatcher({
+      ping: () => ({ success: true, result: { bridge_version: '2.3.0', uptime_seconds: -1 } }),
+      status: () => { throw new Error(''); },
+      audio_start: () => ({ success: false, error: { code: 'nope', message: '' } }) as never,
+      audio_stop: () => undefined as never
+    });
+
+    for (const command of ['ping', 'status', 'audio_start', 'audio_stop'] as const) {
+      const reply = await handle(createBridgeCommandRequest(command, {}, { request_id: `req_${command}`, timestamp: NOW }));
+      expect(reply).toMatchObject({ success: false, request_id: `req_${command}`, error: { code: 'internal_error' } });
+      expect(parseBridgeCommandResponse(command, reply).success).toBe(true);
+    }
+  });
+
+  it('passes valid handler errors through', async () => {
+    const handle = dispatcher({
+      audio_stop: () => ({ success: false, error: { code: 'not_recording', message: 'No audio recording in progress' } })
+    });
+    const reply = await handle(createBridgeCommandRequest('audio_stop', {}, { timestamp: NOW }));
+    expect(reply).toMatchObject({ success: false, error: { code: 'not_recording', message: 'No audio recording in progress' } });
+  });
+});
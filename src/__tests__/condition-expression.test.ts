@@ -0,0 +1,187 @@
+/**
+ * simple_expr_v1 Condition Language Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  tokenizeCondition,
+  parseConditionExpression,
+  validateConditionExpression,
+  evaluateConditionExpression,
+  formatConditionExpression,
+  toSimpleExpression
+} from '../condition-expression.js';
+import { ValidatedConditionalDetailsSchema } from '../video-artifacts.js';
+
+// Examples documented on ConditionalDetailsSchema
+const DOCUMENTED_EXAMPLES = [
+  'value > 5 AND value < 20',
+  "text CONTAINS 'blue'",
+  'NOT IS_EMPTY(value)',
+  "status = 'pending' OR status = 'draft'",
+  '(value > 5 AND value < 20) OR value = 0'
+];
+
+describe('simple_expr_v1', () => {
+
+  describe('tokenizer', () => {
+    it('tokenizes operators, keywords and literals with positions', () => {
+      const result = tokenizeCondition("name STARTS_WITH 'it\\'s' AND n >= -2.5");
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.tokens.map(t => [t.type, t.value, t.start])).toEqual([
+        ['identifier', 'name', 0],
+        ['keyword', 'STARTS_WITH', 5],
+        ['string', "it's", 17],
+        ['keyword', 'AND', 25],
+        ['identifier', 'n', 29],
+        ['operator', '>=', 31],
+        ['number', '-2.5', 34],
+        ['eof', '', 38]
+      ]);
+    });
+
+    it('reports unterminated strings at the opening quote', () => {
+      const result = tokenizeCondition("text CONTAINS 'blue");
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.position).toBe(14);
+    });
+  });
+
+  describe('parser', () => {
+    it('parses every documented example', () => {
+      for (const example of DOCUMENTED_EXAMPLES) {
+        expect(parseConditionExpression(example).success).toBe(true);
+      }
+    });
+
+    it('gives AND higher precedence than OR', () => {
+      const result = parseConditionExpression('a = 1 OR b = 2 AND c = 3');
+      if (!result.success) throw new Error(result.error.message);
+      expect(result.ast.kind).toBe('logical');
+      if (result.ast.kind !== 'logical') return;
+      expect(result.ast.operator).toBe('OR');
+      expect(result.ast.right.kind).toBe('logical');
+    });
+
+    it('accepts postfix emptiness checks', () => {
+      const result = parseConditionExpression('notes IS_NOT_EMPTY');
+      if (!result.success) throw new Error(result.error.message);
+      expect(result.ast).toMatchObject({ kind: 'emptiness', operator: 'IS_NOT_EMPTY', operand: { name: 'notes' } });
+    });
+
+    it('round-trips through the formatter', () => {
+      for (const example of DOCUMENTED_EXAMPLES) {
+        const parsed = parseConditionExpression(example);
+        if (!parsed.success) throw new Error(parsed.error.message);
+        const formatted = formatConditionExpression(parsed.ast);
+        const reparsed = parseConditionExpression(formatted);
+        if (!reparsed.success) throw new Error(reparsed.error.message);
+        expect(formatConditionExpression(reparsed.ast)).toBe(formatted);
+      }
+      const parsed = parseConditionExpression('(a = 1 OR b = 2) AND NOT (c = 3)');
+      if (!parsed.success) throw new Error(parsed.error.message);
+      expect(formatConditionExpression(parsed.ast)).toBe('(a = 1 OR b = 2) AND NOT c = 3');
+    });
+  });
+
+  describe('validator', () => {
+    it('reports syntax errors with character positions', () => {
+      expect(validateConditionExpression('value > ').errors).toEqual([
+        { message: 'Expected a variable or value but found end of expression', position: 8 }
+      ]);
+      expect(validateConditionExpression('(value > 5').errors[0].position).toBe(10);
+      expect(validateConditionExpression('value > 5 value').errors[0].position).toBe(10);
+    });
+
+    it('explains common mistakes', () => {
+      expect(validateConditionExpression('a > 1 and b < 2').errors[0].message).toContain('AND');
+      expect(validateConditionExpression('a == 1').errors[0].message).toContain("'='");
+      expect(validateConditionExpression('text CONTAINS "blue"').errors[0].message).toContain('single quotes');
+      expect(validateConditionExpression('   ').errors[0].message).toBe('Condition cannot be empty');
+    });
+
+    it('lists referenced variables', () => {
+      expect(validateConditionExpression("status = 'a' OR (total > 5 AND status != 'b')").variables)
+        .toEqual(['status', 'total']);
+    });
+  });
+
+  describe('evaluator', () => {
+    const evaluate = (expr: string, vars: Record<string, unknown>) => {
+      const result = evaluateConditionExpression(expr, vars);
+      if (!result.success) throw new Error(result.error.message);
+      return result.value;
+    };
+
+    it('evaluates numeric comparisons, coercing numeric strings', () => {
+      expect(evaluate('value > 5 AND value < 20', { value: 10 })).toBe(true);
+      expect(evaluate('value > 5 AND value < 20', { value: '25' })).toBe(false);
+      expect(evaluate('(value > 5 AND value < 20) OR value = 0', { value: 0 })).toBe(true);
+    });
+
+    it('evaluates string operators', () => {
+      expect(evaluate("text CONTAINS 'blue'", { text: 'light blue' })).toBe(true);
+      expect(evaluate("file ENDS_WITH '.pdf'", { file: 'invoice.pdf' })).toBe(true);
+      expect(evaluate("tags CONTAINS 'urgent'", { tags: ['urgent', 'vip'] })).toBe(true);
+    });
+
+    it('treats missing variables as empty', () => {
+      expect(evaluate('NOT IS_EMPTY(value)', {})).toBe(false);
+      expect(evaluate('IS_EMPTY(value)', { value: '  ' })).toBe(true);
+      expect(evaluate('value > 5', {})).toBe(false);
+    });
+
+    it('resolves dotted variable names through nested objects', () => {
+      expect(evaluate('order.total >= 100', { order: { total: 150 } })).toBe(true);
+    });
+
+    it('ignores inherited properties', () => {
+      expect(evaluate('toString', {})).toBe(false);
+      expect(evaluate('constructor IS_EMPTY', {})).toBe(true);
+      expect(evaluate('IS_EMPTY(__proto__)', {})).toBe(true);
+      expect(evaluate('order.constructor IS_EMPTY', { order: {} })).toBe(true);
+      expect(evaluate('text.length = 4', { text: 'blue' })).toBe(false);
+      expect(evaluate("toString = 'x'", { toString: 'x' })).toBe(true);
+    });
+
+    it('returns syntax errors instead of throwing', () => {
+      expect(evaluateConditionExpression('value >', {}).success).toBe(false);
+    });
+  });
+
+  describe('toSimpleExpression', () => {
+    it('converts JUEL, FEEL and n8n expressions', () => {
+      expect(toSimpleExpression('${amount > 1000 && currency == "USD"}')).toBe("amount > 1000 AND currency = 'USD'");
+      expect(toSimpleExpression('x > 5 and not(y = "a")')).toBe("x > 5 AND NOT y = 'a'");
+      expect(toSimpleExpression('={{ $json["status"] !== "open" || !$json.paid }}')).toBe("status != 'open' OR NOT paid");
+    });
+
+    it('rejects free text and, for labels, bare words', () => {
+      expect(toSimpleExpression('Amount over the limit')).toBeUndefined();
+      expect(toSimpleExpression('Yes', { requireComparison: true })).toBeUndefined();
+      expect(toSimpleExpression('approved')).toBe('approved');
+    });
+  });
+
+  describe('ValidatedConditionalDetailsSchema', () => {
+    it('accepts parseable conditions', () => {
+      const result = ValidatedConditionalDetailsSchema.safeParse({
+        condition: 'row_count > 0',
+        true_action: 'Process rows'
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('refines on parse failure with the position', () => {
+      const result = ValidatedConditionalDetailsSchema.safeParse({
+        condition: 'the invoice is large',
+        true_action: 'Forward to finance'
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(['condition']);
+      expect(result.error?.issues[0].message).toContain('position 4');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Deprecated Field Normalization Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeDeprecatedFields,
+  normalizeSessionInternalState,
+  normalizeVideoWorkflowGuideContent,
+  normalizeKnowledgeBaseContent,
+  SESSION_STATE_DEPRECATED_FIELDS
+} from '../deprecated-fields.js';
+
+describe('deprecated fields', () => {
+
+  it('moves legacy fields to their canonical names and drops the legacy keys', () => {
+    const input = { session_id: 'sess_1', start_time: '2025-09-08T08:00:00Z', stop_time: undefined, stopped_at: '2025-09-08T09:00:00Z' };
+    const { data, legacyFields } = normalizeDeprecatedFields(input, SESSION_STATE_DEPRECATED_FIELDS);
+    expect(data).toEqual({ session_id: 'sess_1', started_at: '2025-09-08T08:00:00Z', stopped_at: '2025-09-08T09:00:00Z' });
+    expect(legacyFields).toEqual(['start_time']);
+    expect(input).toHaveProperty('start_time');
+
+    // @ts-expect-error the result type no longer has the legacy key
+    expect(data.start_time).toBeUndefined();
+  });
+
+  it('lets the canonical value win when both are present', () => {
+    const result = normalizeSessionInternalState({
+      session_id: 'sess_1',
+      status: 'completed',
+      start_time: '2025-09-08T07:00:00Z',
+      started_at: '2025-09-08T08:00:00Z'
+    });
+    expect(result).toMatchObject({ success: true, legacyFields: ['start_time'] });
+    expect(result.success && result.data).toEqual({ session_id: 'sess_1', status: 'completed', started_at: '2025-09-08T08:00:00Z' });
+  });
+
+  it('reports nested and converted legacy fields of session content', () => {
+    const guide = normalizeVideoWorkflowGuideContent({
+      schema_version: '3.0',
+      task_summary: { name: 'Pay invoice', goal: 'Pay it', tools_used: ['SAP'] },
+      temporal_phases: [],
+      step_by_step_guide: []
+    });
+    expect(guide).toMatchObject({ success: true, legacyFields: ['task_summary.tools_used'] });
+    expect(guide.success && guide.data.task_summary).toEqual({ name: 'Pay invoice', goal: 'Pay it', applications: ['SAP'] });
+
+    const knowledgeBase = normalizeKnowledgeBaseContent({
+      session_summary: { topic: 'Vendor rules', subtopics: [], session_type: 'overview' },
+      knowledge_items: [],
+      key_takeaways: [' Pay on time. ', '', 'Check totals.']
+    });
+    expect(knowledgeBase).toMatchObject({ success: true, legacyFields: ['key_takeaways'], data: { abstract: 'Pay on time. Check totals.' } });
+    expect(normalizeKnowledgeBaseContent({})).toMatchObject({ success: false, legacyFields: [] });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Document Export (PDF / DOCX / XLSX) Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createWorkflowGuideDocument } from '../document-model.js';
+import { renderPdf } from '../pdf-renderer.js';
+import { renderDocx } from '../docx-writer.js';
+import { createWorkflowStepTable, renderXlsx } from '../tabular-export.js';
+import { createZip } from '../zip-writer.js';
+import { readZip } from '../zip-reader.js';
+import { parseXml } from '../xml-parser.js';
+import type { VideoWorkflowGuideContent } from '../video-artifacts.js';
+
+const guide: VideoWorkflowGuideContent = {
+  schema_version: '3.0',
+  task_summary: { name: 'Pay invoice <fast> & "safe"', goal: 'Pay a vendor invoice', applications: ['SAP'] },
+  temporal_phases: [{ phase_number: 1, name: 'Review', purpose: 'Check the invoice', key_actions: [], success_criteria: ['Total matches'] }],
+  step_by_step_guide: [
+    { step_number: 1, phase_number: 1, title: 'Open', action: 'Open the invoice\nin SAP', expected_result: 'Invoice is open', step_type: 'do' },
+    { step_number: 2, phase_number: 1, title: 'Approve', action: 'Ask a manager', expected_result: 'Approved', step_type: 'hitl' }
+  ],
+  workflow_notes: { success_criteria: ['Paid'], constraints: ['Four eyes'], pointers: [] }
+};
+
+const hebrew: VideoWorkflowGuideContent = {
+  ...guide,
+  task_summary: { name: 'תשלום חשבונית', goal: 'לשלם לספק' }
+};
+
+const document = createWorkflowGuideDocument(guide, { language: 'en', dir: 'ltr' });
+
+function latin1(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('latin1');
+}
+
+async function xmlEntries(bytes: Uint8Array): Promise<Map<string, string>> {
+  const zip = await readZip(bytes);
+  if (!zip.success) throw new Error(zip.message);
+  const xml = new Map<string, string>();
+  for (const [path, data] of zip.entries) {
+    if (/\.(xml|rels)$/.test(path)) xml.set(path, new TextDecoder().decode(data));
+  }
+  return xml;
+}
+
+describe('document export', () => {
+
+  it('writes a PDF whose xref offsets point at their objects', () => {
+    const pdf = renderPdf(document);
+    if (!pdf.success) throw new Error(pdf.message);
+    const text = latin1(pdf.data);
+    expect(text.startsWith('%PDF-1.7')).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1]);
+    expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+    const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(text.slice(startxref))!;
+    expect(Number(first)).toBe(0);
+
+    const entries = text.slice(startxref).split('\n').slice(3, 2 + Number(count));
+    expect(entries).toHaveLength(Number(count) - 1);
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+    expect(pdf.missingCharacters).toEqual([]);
+  });
+
+  it('reports characters the standard fonts cannot encode', () => {
+    const pdf = renderPdf(createWorkflowGuideDocument(hebrew, { language: 'he', dir: 'rtl' }));
+    if (!pdf.success) throw new Error(pdf.message);
+    expect(pdf.missingCharacters).toEqual(expect.arrayContaining(['ת', 'ש', 'ל', 'ם']));
+    expect(pdf.missingCharacters).not.toContain(' ');
+    expect(new Set(pdf.missingCharacters).size).toBe(pdf.missingCharacters.length);
+    expect(latin1(pdf.data)).toContain('(?');
+  });
+
+  it('writes well-formed DOCX and XLSX parts', async () => {
+    const parts = [
+      ...await xmlEntries(renderDocx(document)),
+      ...await xmlEntries(renderDocx(createWorkflowGuideDocument(hebrew, { language: 'he', dir: 'rtl' }))),
+      ...await xmlEntries(renderXlsx([createWorkflowStepTable(guide)]))
+    ];
+    expect(parts.map(([path]) => path)).toEqual(expect.arrayContaining(['word/document.xml', '[Content_Types].xml', 'xl/workbook.xml']));
+    for (const [path, xml] of parts) {
+      const parsed = parseXml(xml);
+      expect({ path, success: parsed.success }).toEqual({ path, success: true });
+    }
+  });
+
+  it('stamps ZIP entries with the UTC time regardless of the local timezone', () => {
+    const bytes = createZip([{ path: 'a.txt', data: 'a' }], { modifiedAt: new Date('2025-09-08T23:30:10Z') });
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const time = view.getUint16(10, true);
+    const date = view.getUint16(12, true);
+    expect([time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2]).toEqual([23, 30, 10]);
+    expect([(date >> 9) + 1980, (date >> 5) & 0xf, date & 0x1f]).toEqual([2025, 9, 8]);
+  });
+});
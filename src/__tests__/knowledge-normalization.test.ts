@@ -0,0 +1,47 @@
+/**
+ * Knowledge Item v1 → v2 Normalization Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { normalizeKnowledgeItem, normalizeKnowledgeBaseToV2, getOriginalImportance } from '../knowledge-normalization.js';
+import { StrictKnowledgeBaseContentSchema } from '../video-artifacts.js';
+import type { KnowledgeBaseContent, KnowledgeItem } from '../video-artifacts.js';
+
+function item(extra: Partial<KnowledgeItem>): KnowledgeItem {
+  return { title: 'Limit', content: 'Limit is 10000', type: 'fact', importance: 'standard', ...extra };
+}
+
+describe('knowledge normalization', () => {
+
+  it('reports the v1 importance so medium and low stay distinguishable', () => {
+    const medium = normalizeKnowledgeItem(item({ importance: 'medium' }));
+    const low = normalizeKnowledgeItem(item({ importance: 'Low' }));
+    expect(medium).toEqual({ item: item({ importance: 'standard' }), changes: [{ field: 'importance', from: 'medium', to: 'standard' }] });
+    expect(low.item).toEqual(item({ importance: 'standard' }));
+    expect(getOriginalImportance(medium)).toBe('medium');
+    expect(getOriginalImportance(low)).toBe('Low');
+
+    const unchanged = normalizeKnowledgeItem(item({ importance: 'critical' }));
+    expect(unchanged).toEqual({ item: item({ importance: 'critical' }), changes: [] });
+    expect(getOriginalImportance(unchanged)).toBe('critical');
+  });
+
+  it('keeps collapsed legacy types in subtype without overwriting existing values', () => {
+    expect(normalizeKnowledgeItem(item({ type: 'constraint', importance: 'High' })).item)
+      .toEqual(item({ type: 'rule', subtype: 'constraint', importance: 'critical' }));
+    expect(normalizeKnowledgeItem(item({ type: 'concept' })).item).not.toHaveProperty('subtype');
+    expect(normalizeKnowledgeItem(item({ type: 'condition', subtype: 'threshold' })).item)
+      .toMatchObject({ type: 'rule', subtype: 'threshold' });
+  });
+
+  it('normalizes a knowledge base into strict v2 content', () => {
+    const content: KnowledgeBaseContent = {
+      session_summary: { topic: 'Vendor rules', subtopics: [], session_type: 'overview' },
+      knowledge_items: [item({ item_id: 'kb_1', type: 'best_practice', importance: 'medium' }), item({ item_id: 'kb_2' })]
+    };
+    const result = normalizeKnowledgeBaseToV2(content);
+    expect(StrictKnowledgeBaseContentSchema.safeParse(result.content).success).toBe(true);
+    expect(result.changes.map(change => `${change.item_id}.${change.field}`))
+      .toEqual(['kb_1.type', 'kb_1.subtype', 'kb_1.importance']);
+  });
+});
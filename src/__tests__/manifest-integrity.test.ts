@@ -0,0 +1,160 @@
+/**
+ * Forge Manifest Integrity Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { sha256Hex, createSha256 } from '../sha256.js';
+import { canonicalJson } from '../canonical-json.js';
+import { computeManifestContentSha256, verifyManifestIntegrity } from '../manifest-integrity.js';
+import { computeTriggerHash } from '../trigger-hashing.js';
+import type { ForgeManifest, ForgeTrigger } from '../types.js';
+
+const ARTIFACT = new TextEncoder().encode('{"steps":[]}');
+
+function buildManifest(): ForgeManifest {
+  const manifest: ForgeManifest = {
+    version: '1.0',
+    processing_id: 'proc_123',
+    trigger_hash: 'abc',
+    session: { session_id: 'sess_1' },
+    options: { stages: ['A', 'E'] },
+    status: 'completed',
+    created_at: '2025-09-08T08:32:20Z',
+    completed_at: '2025-09-08T08:35:00Z',
+    artifacts: [{
+      name: 'workflow_guide',
+      type: 'workflow',
+      stage: 'E',
+      gcs_uri: 'gs://bucket/workflow_guide.json',
+      sha256: sha256Hex(ARTIFACT),
+      size_bytes: ARTIFACT.length,
+      mime: 'application/json',
+      created_at: '2025-09-08T08:34:00Z'
+    }],
+    counters: { events_processed: 10, media_files_processed: 1, timeline_entries: 4, llm_tokens_used: 900, processing_time_seconds: 160 },
+    stage_executions: [
+      { stage: 'A', status: 'completed', started_at: '2025-09-08T08:32:23Z', completed_at: '2025-09-08T08:32:24Z', artifacts_produced: [] },
+      { stage: 'E', status: 'completed', started_at: '2025-09-08T08:33:00Z', completed_at: '2025-09-08T08:34:00Z', artifacts_produced: ['workflow_guide'] }
+    ],
+    content_sha256: '',
+    errors: []
+  };
+  manifest.content_sha256 = computeManifestContentSha256(manifest);
+  return manifest;
+}
+
+const trigger: ForgeTrigger = {
+  pipeline_version: '2.1',
+  config_path: 'configs/default.yaml',
+  session: {
+    org_id: 'org_1',
+    device_id: 'dev_1',
+    time_range: { start: '2025-09-08T10:00:00+02:00', end: '2025-09-08T08:30:00Z' },
+    timezone: 'Europe/Berlin',
+    session_id: 'sess_1',
+    user_id: 'user_1',
+    user_email: 'user@example.com'
+  },
+  options: { stages: ['E', 'A', 'D', 'A'], media_processing: true, llm_enabled: true },
+  visibility: 'private',
+  source: 'on-demand'
+};
+
+describe('manifest integrity', () => {
+
+  it('computes SHA-256 test vectors in one call and incrementally', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    const text = 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq';
+    const hasher = createSha256();
+    for (let i = 0; i < text.length; i += 7) hasher.update(text.slice(i, i + 7));
+    expect(hasher.digestHex()).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('serializes canonical JSON like Python json.dumps(sort_keys=True)', () => {
+    expect(canonicalJson({ b: 1, a: ['é', null], c: undefined })).toBe('{"a":["\\u00e9",null],"b":1}');
+  });
+
+  it('accepts a consistent manifest and its artifact stream', async () => {
+    async function* chunks() {
+      yield ARTIFACT.subarray(0, 5);
+      yield ARTIFACT.subarray(5);
+    }
+    const report = await verifyManifestIntegrity(buildManifest(), { artifacts: { workflow_guide: chunks() } });
+    expect(report.issues).toEqual([]);
+    expect(report.valid).toBe(true);
+    expect(report.checks).toContain('artifact_bytes');
+  });
+
+  it('reports tampered content, bad timestamps and artifacts from unfinished stages', async () => {
+    const manifest = buildManifest();
+    manifest.completed_at = '2025-09-08T08:00:00Z';
+    manifest.stage_executions[1].status = 'failed';
+
+    const report = await verifyManifestIntegrity(manifest, { artifacts: { workflow_guide: new Uint8Array(3) } });
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => issue.path)).toEqual([
+      'content_sha256',
+      'artifacts[0].sha256',
+      'artifacts[0].size_bytes',
+      'completed_at',
+      'stage_executions[1].artifacts_produced',
+      'artifacts[0].stage'
+    ]);
+  });
+
+  it('reports missing lists, missing hashes and invalid triggers instead of throwing', async () => {
+    const { stage_executions: _executions, ...rest } = buildManifest();
+    const manifest: ForgeManifest = JSON.parse(JSON.stringify({ ...rest, artifacts: [{ ...rest.artifacts[0], sha256: undefined }] }));
+    manifest.content_sha256 = computeManifestContentSha256(manifest);
+
+    const report = await verifyManifestIntegrity(manifest, {
+      artifacts: { workflow_guide: ARTIFACT },
+      trigger: JSON.parse('{"pipeline_version":"2.1"}')
+    });
+    expect(report.issues.map(issue => `${issue.check} ${issue.path}`)).toEqual([
+      'stage_codes stage_executions',
+      'trigger_hash trigger_hash',
+      'artifact_bytes artifacts[0].sha256',
+      'artifact_stages artifacts[0].stage'
+    ]);
+    expect(report.issues[1].message).toMatch(/^Supplied trigger is invalid: .*session/);
+
+    const noArtifacts: ForgeManifest = JSON.parse(JSON.stringify({ ...buildManifest(), artifacts: null }));
+    expect((await verifyManifestIntegrity(noArtifacts)).issues.map(issue => issue.path)).toContain('artifacts');
+  });
+
+  it('compares every hash case-insensitively', async () => {
+    const manifest = buildManifest();
+    manifest.artifacts[0].sha256 = manifest.artifacts[0].sha256.toUpperCase();
+    manifest.content_sha256 = computeManifestContentSha256(manifest).toUpperCase();
+    expect((await verifyManifestIntegrity(manifest, { artifacts: { workflow_guide: ARTIFACT } })).issues).toEqual([]);
+
+    const withTrigger = { ...buildManifest(), trigger_hash: computeTriggerHash(trigger).toUpperCase() };
+    withTrigger.content_sha256 = computeManifestContentSha256(withTrigger);
+    expect((await verifyManifestIntegrity(withTrigger, { trigger })).issues).toEqual([]);
+  });
+
+  it('checks stage codes against the manifest pipeline', async () => {
+    const { stage_executions, artifacts, ...base } = buildManifest();
+    const manifest: ForgeManifest<'video_vlm'> = {
+      ...base,
+      pipeline: 'video_vlm',
+      artifacts: [{ ...artifacts[0], stage: 'S' }],
+      stage_executions: [
+        { ...stage_executions[0], stage: 'V' },
+        { ...stage_executions[1], stage: 'S' }
+      ]
+    };
+    manifest.content_sha256 = computeManifestContentSha256(manifest);
+    expect((await verifyManifestIntegrity(manifest)).issues).toEqual([]);
+
+    // The same manifest stored without its pipeline reads back as a bridge Forge manifest
+    const { pipeline: _pipeline, ...stored } = manifest;
+    const bridge: ForgeManifest = JSON.parse(JSON.stringify(stored));
+    bridge.content_sha256 = computeManifestContentSha256(bridge);
+    const report = await verifyManifestIntegrity(bridge);
+    expect(report.issues.filter(issue => issue.check === 'stage_codes').map(issue => issue.path))
+      .toEqual(['stage_executions[0].stage', 'stage_executions[1].stage']);
+  });
+});
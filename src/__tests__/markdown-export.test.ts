@@ -0,0 +1,55 @@
+/**
+ * Markdown Export Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { renderWorkflowGuideMarkdown, renderKnowledgeBaseMarkdown } from '../markdown-export.js';
+import type { VideoWorkflowGuideContent, KnowledgeBaseContent } from '../video-artifacts.js';
+
+const guide: VideoWorkflowGuideContent = {
+  schema_version: '3.0',
+  task_summary: { name: 'Pay *all* invoices', goal: 'Pay [vendor](http://x) invoices' },
+  temporal_phases: [{ phase_number: 1, name: 'Review', purpose: '# Not a heading\n1. not a list', key_actions: [] }],
+  step_by_step_guide: [
+    {
+      step_number: 1, phase_number: 1, title: 'Open', action: '> quoted\n- item <b>bold</b>', expected_result: 'Row | column\n## heading',
+      item_id: 'step_1', step_type: 'conditional',
+      condition_details: { condition: 'note CONTAINS "`"', true_action: 'Approve _now_', target_steps: { if_true: 1 }, condition_language: 'simple_expr_v1' }
+    }
+  ]
+};
+
+const knowledgeBase: KnowledgeBaseContent = {
+  session_summary: { topic: 'Fences', subtopics: ['a*b'], session_type: 'overview' },
+  knowledge_items: [
+    { item_id: 'kb_1', type: 'fact', title: 'Snippet', content: '**not bold**', importance: 'standard', code_snippet: 'before\n```\n# outside?\n```\nafter' }
+  ]
+};
+
+describe('markdown export', () => {
+
+  it('escapes every interpolated workflow field', () => {
+    const result = renderWorkflowGuideMarkdown({ content: guide });
+    if (!result.success) throw new Error(result.message);
+    const lines = result.markdown.split('\n');
+
+    expect(lines[0]).toBe('# Pay \\*all\\* invoices');
+    expect(lines).toContain('**Goal:** Pay \\[vendor\\](http://x) invoices');
+    expect(lines).toContain('\\# Not a heading');
+    expect(lines).toContain('1\\. not a list');
+    expect(lines).toContain('\\> quoted');
+    expect(lines).toContain('\\- item \\<b\\>bold\\</b\\>');
+    expect(lines).toContain('- **Expected result:** Row \\| column ## heading'); // joined onto one line
+    expect(lines).toContain('**Condition:** ``note CONTAINS "`"``');
+    expect(lines).toContain('- **If true:** Approve \\_now\\_ (go to step 1)');
+  });
+
+  it('fences code snippets longer than their own backtick runs', () => {
+    const result = renderKnowledgeBaseMarkdown({ content: knowledgeBase });
+    if (!result.success) throw new Error(result.message);
+
+    expect(result.markdown).toContain('\\*\\*not bold\\*\\*');
+    expect(result.markdown).toContain('**Subtopics:** a\\*b');
+    expect(result.markdown).toContain('````\nbefore\n```\n# outside?\n```\nafter\n````');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * n8n Export Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { compileConditionToN8nExpression } from '../n8n-export.js';
+import { parseConditionExpression, evaluateCondition } from '../condition-expression.js';
+import type { ConditionVariables } from '../condition-expression.js';
+
+function compile(expression: string): string {
+  const parsed = parseConditionExpression(expression);
+  if (!parsed.success) throw new Error(parsed.error.message);
+  return compileConditionToN8nExpression(parsed.ast);
+}
+
+/** Run a compiled expression the way n8n does, with the item JSON as $json */
+function run(expression: string, json: ConditionVariables): boolean {
+  return new Function('$json', `return ${compile(expression)};`)(json) as boolean;
+}
+
+describe('compileConditionToN8nExpression', () => {
+
+  it('compiles comparisons and logic over $json', () => {
+    expect(compile("status STARTS_WITH 'open' AND code ENDS_WITH suffix"))
+      .toBe('(($json.status != null && String($json.status).startsWith("open")) && ($json.code != null && $json.suffix != null && String($json.code).endsWith(String($json.suffix))))');
+    expect(compile('NOT IS_EMPTY(order.id)')).toBe("(() => { const isEmpty = v => v == null || (typeof v === 'string' ? v.trim() === ''"
+      + " : Array.isArray(v) ? v.length === 0 : typeof v === 'object' && Object.keys(v).length === 0); return !isEmpty($json.order?.id); })()");
+  });
+
+  it('only defines the helpers an expression uses', () => {
+    const compiled = compile("amount > 100 AND status = 'open'");
+    expect(compiled).toMatch(/^\(\(\) => \{ const toNumber = .*; const equal = .*; const order = .*; return \(\(order\(\$json\.amount, 100\) > 0\) && equal\(\$json\.status, "open"\)\); \}\)\(\)$/);
+    expect(compiled).not.toContain('isTruthy');
+  });
+
+  it('uses bracket access for numeric path segments', () => {
+    expect(compile('items.0.qty > 1')).toContain('order($json.items?.[0]?.qty, 1) > 0');
+    expect(run('items.0.qty > 1', { items: [{ qty: 2 }] })).toBe(true);
+    expect(run('items.1.qty > 1', { items: [{ qty: 2 }] })).toBe(false);
+  });
+
+  it('matches the evaluator on the documented edge cases', () => {
+    const cases: Array<[string, ConditionVariables]> = [
+      ["code CONTAINS '12'", { code: 3120 }],
+      ["code CONTAINS '12'", { code: null }],
+      ["tags CONTAINS 'vip'", { tags: ['new', 'vip'] }],
+      ["tags CONTAINS 'vi'", { tags: ['new', 'vip'] }],
+      ["code STARTS_WITH '31'", { code: 3120 }],
+      ['limit > spent', { limit: '9', spent: '10' }],
+      ['limit >= spent', { limit: '10', spent: 10 }],
+      ["total < '100'", { total: '20' }],
+      ['amount = 100', { amount: '100' }],
+      ['flag', { flag: 'false' }],
+      ['IS_EMPTY(list)', { list: [] }],
+      ['IS_EMPTY(meta)', { meta: {} }],
+      ["x = ''", { x: 0 }],
+      ["x != ''", { x: 0 }],
+      ['x = TRUE', { x: 'true' }],
+      ['x = y', {}],
+      ['x = y', { x: null }],
+      ['flag', { flag: [] }],
+      ['flag', { flag: 'FALSE' }],
+      ['flag', { flag: 0 }],
+      ['flag', { flag: ' yes ' }],
+      ['a > b', { a: 'b', b: 'a' }],
+      ['a < b', { a: 'b', b: 'a' }],
+      ['a >= b', { a: 'x', b: 'x' }],
+      ['a > 5', {}],
+      ['a <= b', { a: 2, b: '10' }],
+      ["x STARTS_WITH ''", {}],
+      ["x ENDS_WITH ''", { x: null }],
+      ['x STARTS_WITH y', { x: 'abc' }],
+      ['x CONTAINS y', { x: 'abc' }],
+      ['tags CONTAINS 1', { tags: ['1', 'x'] }]
+    ];
+    for (const [expression, json] of cases) {
+      const parsed = parseConditionExpression(expression);
+      if (!parsed.success) throw new Error(parsed.error.message);
+      expect([expression, run(expression, json)]).toEqual([expression, evaluateCondition(parsed.ast, json)]);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Per-Pipeline Progress Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { calculateProgress, isProcessingComplete, getFailedStages, validateStageExecution } from '../validation.js';
+import { PIPELINE_JOB_PROGRESS_SCHEMAS } from '../schemas.js';
+import type { StageExecution } from '../types.js';
+
+const video: StageExecution<'video_vlm'>[] = [
+  { stage: 'V', status: 'completed', started_at: '2025-09-08T08:00:00Z', completed_at: '2025-09-08T08:00:30Z', artifacts_produced: [] },
+  { stage: 'M', status: 'started', started_at: '2025-09-08T08:00:30Z', artifacts_produced: [] }
+];
+
+const text: StageExecution<'text_generation'>[] = [
+  { stage: 'T', status: 'completed', started_at: '2025-09-08T08:00:00Z', completed_at: '2025-09-08T08:00:10Z', artifacts_produced: [] },
+  { stage: 'G', status: 'completed', started_at: '2025-09-08T08:00:10Z', completed_at: '2025-09-08T08:01:10Z', artifacts_produced: [] },
+  { stage: 'S', status: 'completed', started_at: '2025-09-08T08:01:10Z', completed_at: '2025-09-08T08:01:20Z', artifacts_produced: [] },
+  { stage: 'U', status: 'failed', started_at: '2025-09-08T08:01:20Z', artifacts_produced: [] }
+];
+
+describe('pipeline progress', () => {
+
+  it('counts video VLM stages and labels the current one', () => {
+    const progress = calculateProgress(video, 'proc_video', 'video_vlm');
+    expect(progress).toMatchObject({
+      pipeline: 'video_vlm',
+      processing_id: 'proc_video',
+      progress_percent: 25,
+      current_stage: 'M',
+      stage_name: 'VLM analysis',
+      stages_completed: ['V'],
+      stages_total: 4,
+      stage_durations: { V: 30 }
+    });
+    expect(PIPELINE_JOB_PROGRESS_SCHEMAS.video_vlm.safeParse(progress).success).toBe(true);
+    expect(PIPELINE_JOB_PROGRESS_SCHEMAS.bridge_forge.safeParse(progress).success).toBe(false);
+    expect(isProcessingComplete(video, 'video_vlm')).toBe(false);
+  });
+
+  it('counts text generation stages and ignores stages of other pipelines', () => {
+    const progress = calculateProgress(text, 'proc_text', 'text_generation');
+    expect(progress).toMatchObject({ pipeline: 'text_generation', progress_percent: 75, current_stage: 'U', stages_completed: ['T', 'G', 'S'], stages_total: 4 });
+    expect(getFailedStages(text).map(s => s.stage)).toEqual(['U']);
+
+    // Read back from storage as a bridge Forge job: T, G and S are not bridge stages
+    const bridge = calculateProgress(JSON.parse(JSON.stringify(text)), 'proc_text');
+    expect(bridge).toMatchObject({ progress_percent: 0, current_stage: 'U', stages_total: 7 });
+    expect(bridge).not.toHaveProperty('pipeline');
+  });
+
+  it('still accepts executions without a processing_id', () => {
+    const bridge: StageExecution[] = [
+      { stage: 'A', status: 'completed', started_at: '2025-09-08T08:00:00Z', completed_at: '2025-09-08T08:00:10Z', artifacts_produced: [] }
+    ];
+    expect(calculateProgress(bridge)).toMatchObject({ processing_id: 'unknown', progress_percent: 14, current_stage: 'A', stages_total: 7 });
+  });
+
+  it('is complete once every stage of the pipeline has completed', () => {
+    const done = text.map(s => ({ ...s, status: 'completed' as const }));
+    expect(isProcessingComplete(done, 'text_generation')).toBe(true);
+    expect(isProcessingComplete(done)).toBe(false);
+  });
+
+  it('validates stage codes against the pipeline family', () => {
+    expect(validateStageExecution(video[1], 'video_vlm').success).toBe(true);
+    expect(validateStageExecution(video[1]).success).toBe(false);
+    expect(validateStageExecution(text[0], 'video_vlm').success).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * BPMN / n8n Process Import Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { importBpmnWorkflow } from '../bpmn-import.js';
+import { importN8nWorkflow } from '../n8n-import.js';
+import { exportWorkflowToN8n } from '../n8n-export.js';
+import { parseXml } from '../xml-parser.js';
+import type { VideoWorkflowGuideContent } from '../video-artifacts.js';
+
+const BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="defs">
+  <bpmn:process id="invoice" name="Invoice approval">
+    <bpmn:laneSet>
+      <bpmn:lane id="clerk" name="Clerk">
+        <bpmn:flowNodeRef>start</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>enter</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>check</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>pay</bpmn:flowNodeRef>
+      </bpmn:lane>
+      <bpmn:lane id="manager" name="Manager">
+        <bpmn:flowNodeRef>approve</bpmn:flowNodeRef>
+      </bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="start"/>
+    <bpmn:userTask id="enter" name="Enter invoice"><bpmn:documentation>Type the invoice into SAP</bpmn:documentation></bpmn:userTask>
+    <bpmn:exclusiveGateway id="check" name="Over limit?" default="small"/>
+    <bpmn:userTask id="approve" name="Approve invoice"/>
+    <bpmn:serviceTask id="pay" name="Pay invoice"/>
+    <bpmn:endEvent id="end"/>
+    <bpmn:textAnnotation id="note"><bpmn:text>Limit set by finance</bpmn:text></bpmn:textAnnotation>
+    <bpmn:sequenceFlow id="f1" sourceRef="start" targetRef="enter"/>
+    <bpmn:sequenceFlow id="f2" sourceRef="enter" targetRef="check"/>
+    <bpmn:sequenceFlow id="big" sourceRef="check" targetRef="approve" name="Yes">
+      <bpmn:conditionExpression><![CDATA[\${amount > 1000 && currency == "USD"}]]></bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="small" sourceRef="check" targetRef="pay" name="No"/>
+    <bpmn:sequenceFlow id="f3" sourceRef="approve" targetRef="pay"/>
+    <bpmn:sequenceFlow id="f4" sourceRef="pay" targetRef="end"/>
+  </bpmn:process>
+</bpmn:definitions>`;
+
+describe('process import', () => {
+
+  describe('parseXml', () => {
+    it('reports the position of malformed XML', () => {
+      const result = parseXml('<a><b></a>');
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.message).toContain('</b>');
+    });
+
+    it('decodes character references and rejects ones outside Unicode', () => {
+      const parsed = parseXml('<a t="&#x41;&#66;&#x1F600;"/>');
+      expect(parsed.success && parsed.root.attributes.t).toBe('AB\u{1F600}');
+
+      for (const reference of ['&#x110000;', '&#xD800;', '&#0;', '&#99999999999999999999;']) {
+        const result = parseXml(`<a t="${reference}"/>`);
+        expect(result).toMatchObject({ success: false, message: `Invalid character reference ${reference}` });
+      }
+    });
+  });
+
+  describe('importBpmnWorkflow', () => {
+    it('maps tasks, gateways and lanes into schema 3.0 content', () => {
+      const result = importBpmnWorkflow(BPMN);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const { content, report } = result;
+      expect(content.schema_version).toBe('3.0');
+      expect(content.task_summary.name).toBe('Invoice approval');
+      expect(content.temporal_phases.map(p => p.name)).toEqual(['Clerk', 'Manager']);
+      expect(content.step_by_step_guide.map(s => [s.step_number, s.title, s.step_type, s.phase_number])).toEqual([
+        [1, 'Enter invoice', 'do', 1],
+        [2, 'Over limit?', 'conditional', 1],
+        [3, 'Approve invoice', 'hitl', 2],
+        [4, 'Pay invoice', 'do', 1]
+      ]);
+      expect(content.step_by_step_guide[0].action).toBe('Type the invoice into SAP');
+      expect(content.step_by_step_guide[1].condition_details).toMatchObject({
+        condition: "amount > 1000 AND currency = 'USD'",
+        target_steps: { if_true: 3, if_false: 4 }
+      });
+      expect(report.expression_conditions).toBe(1);
+      expect(report.losses).toEqual([expect.objectContaining({ kind: 'element_skipped', source_id: 'note' })]);
+    });
+
+    it('keeps unconvertible conditions as text and reports them', () => {
+      const result = importBpmnWorkflow(BPMN.replace(/<bpmn:conditionExpression>.*<\/bpmn:conditionExpression>/, ''));
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.content.step_by_step_guide[1].condition_details?.condition).toBe('Over limit?');
+      expect(result.report.text_conditions).toBe(1);
+      expect(result.report.losses.map(l => l.kind)).toContain('condition_as_text');
+    });
+
+    it('rejects invalid character references instead of throwing', () => {
+      const result = importBpmnWorkflow('<definitions><process><task name="&#x110000;"/></process></definitions>');
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects documents that are not BPMN', () => {
+      const result = importBpmnWorkflow('<html></html>');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('importN8nWorkflow', () => {
+    it('round-trips a workflow exported with exportWorkflowToN8n', () => {
+      const content: VideoWorkflowGuideContent = {
+        schema_version: '3.0',
+        task_summary: { name: 'Pay invoice', goal: 'Pay it' },
+        temporal_phases: [
+          { phase_number: 1, name: 'Review', purpose: 'Check the invoice', key_actions: [] },
+          { phase_number: 2, name: 'Payment', purpose: 'Pay', key_actions: [] }
+        ],
+        step_by_step_guide: [
+          { step_number: 1, phase_number: 1, title: 'Open', action: 'Open the invoice', expected_result: 'Invoice is open' },
+          {
+            step_number: 2, phase_number: 1, title: 'Decide', action: 'Check amount', expected_result: '', step_type: 'conditional',
+            condition_details: { condition: "amount > 100 AND status = 'open'", true_action: 'Ask manager', false_action: 'Pay', target_steps: { if_true: 3, if_false: 4 }, condition_language: 'simple_expr_v1' }
+          },
+          { step_number: 3, phase_number: 2, title: 'Approve', action: 'Get approval', expected_result: 'Approved', step_type: 'hitl' },
+          { step_number: 4, phase_number: 2, title: 'Pay now', action: 'Pay', expected_result: 'Paid' }
+        ]
+      };
+      const { workflow } = exportWorkflowToN8n(content);
+      const result = importN8nWorkflow(JSON.stringify(workflow));
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const steps = result.content.step_by_step_guide;
+      expect(result.content.temporal_phases.map(p => p.name)).toEqual(['Review', 'Payment']);
+      expect(steps.map(s => [s.title, s.step_type, s.phase_number])).toEqual([
+        ['Open', 'do', 1], ['Decide', 'conditional', 1], ['Approve', 'hitl', 2], ['Pay now', 'do', 2]
+      ]);
+      expect(steps[0]).toMatchObject({ action: 'Open the invoice', expected_result: 'Invoice is open' });
+      expect(steps[1].condition_details).toMatchObject({
+        condition: "amount > 100 AND status = 'open'",
+        true_action: 'Ask manager',
+        target_steps: { if_true: 3, if_false: 4 }
+      });
+      expect(result.report.losses).toEqual([]);
+    });
+
+    it('reports dropped parameters and non-manual triggers', () => {
+      const result = importN8nWorkflow({
+        name: 'Notify',
+        nodes: [
+          { name: 'Schedule', type: 'n8n-nodes-base.scheduleTrigger', parameters: {} },
+          { name: 'Post message', type: 'n8n-nodes-base.slack', parameters: { resource: 'message', operation: 'post' } }
+        ],
+        connections: { Schedule: { main: [[{ node: 'Post message', type: 'main', index: 0 }]] } }
+      });
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.content.task_summary.applications).toEqual(['Slack']);
+      expect(result.content.step_by_step_guide[0].action).toBe('Slack: message post');
+      expect(result.report.losses.map(l => l.kind)).toEqual(['event_semantics', 'parameters_dropped']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Job Progress Engine Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { computeJobProgress, parseStageItems } from '../progress-engine.js';
+import { JobProgressSchema } from '../schemas.js';
+import type { ForgeManifest, SessionInternalState, StageExecution } from '../types.js';
+
+const NOW = new Date('2025-09-08T09:00:00.000Z');
+
+function at(secondsBeforeNow: number): string {
+  return new Date(NOW.getTime() - secondsBeforeNow * 1000).toISOString();
+}
+
+function execution(stage: StageExecution['stage'], startedAgo: number, completedAgo?: number): StageExecution {
+  return {
+    stage,
+    status: completedAgo === undefined ? 'started' : 'completed',
+    started_at: at(startedAgo),
+    ...(completedAgo !== undefined && { completed_at: at(completedAgo) }),
+    artifacts_produced: []
+  };
+}
+
+// A, B and C done; D started 30 s ago
+const EXECUTIONS = [execution('A', 100, 90), execution('B', 90, 80), execution('C', 80, 30), execution('D', 30)];
+
+const manifest: ForgeManifest = {
+  version: '1.0',
+  processing_id: 'proc_123',
+  trigger_hash: 'abc',
+  session: {},
+  options: {},
+  status: 'processing',
+  created_at: at(120),
+  artifacts: [],
+  counters: { events_processed: 0, media_files_processed: 0, timeline_entries: 0, llm_tokens_used: 0, processing_time_seconds: 0 },
+  stage_executions: EXECUTIONS,
+  content_sha256: 'def',
+  errors: []
+};
+
+const session: SessionInternalState = {
+  session_id: 'sess_1',
+  status: 'processing',
+  current_stage: 'D',
+  processing_status: 'Analyzing segment 3/10',
+  stage_executions: EXECUTIONS
+};
+
+// Typical seconds per stage; D dominates
+const HISTORY = [{ A: 10, B: 10, C: 20, D: 90, E: 40, F: 20, U: 10 }];
+
+describe('computeJobProgress', () => {
+
+  it('weights completed stages (A + B + C = 20 of 100)', () => {
+    const progress = computeJobProgress(manifest, { now: NOW });
+    expect(progress).toMatchObject({
+      processing_id: 'proc_123',
+      progress_percent: 20,
+      current_stage: 'D',
+      stages_completed: ['A', 'B', 'C'],
+      stages_total: 7,
+      elapsed_seconds: 100,
+      stage_durations: { A: 10, B: 10, C: 50 }
+    });
+    expect(progress.estimated_completion).toBeUndefined();
+    expect(JobProgressSchema.safeParse(progress).success).toBe(true);
+
+    const custom = computeJobProgress(manifest, { now: NOW, weights: { D: 0, E: 0, F: 0, U: 0 } });
+    expect(custom.progress_percent).toBe(99);
+  });
+
+  it('adds the finished fraction of stage D sub-items and uses the caller processing_id', () => {
+    // Segment 3 of 10 is running, so 2 are done: 20 + 45 * 0.2
+    const progress = computeJobProgress({ ...session, processing_id: 'proc_456' }, { now: NOW });
+    expect(progress).toMatchObject({ processing_id: 'proc_456', progress_percent: 29, current_stage: 'D' });
+    expect(parseStageItems('Analyzing segment 3/10')).toEqual({ completed: 3, total: 10 });
+    expect(parseStageItems('11/10')).toBeUndefined();
+  });
+
+  it('estimates completion from the median history', () => {
+    // D: 90 - 30 already spent, then E + F + U
+    const byTime = computeJobProgress(manifest, { now: NOW, history: HISTORY });
+    expect(byTime.estimated_completion).toBe(new Date(NOW.getTime() + 130_000).toISOString());
+
+    // Sub-items win over time spent: 90 * 0.8 left in D
+    const byItems = computeJobProgress(manifest, { now: NOW, history: HISTORY, stageItems: { D: { completed: 3, total: 10 } } });
+    expect(byItems.estimated_completion).toBe(new Date(NOW.getTime() + 142_000).toISOString());
+
+    // Stages missing from history are scaled by weight from the others
+    const partial = computeJobProgress(manifest, { now: NOW, history: [{ D: 90 }] });
+    expect(partial.estimated_completion).toBe(new Date(NOW.getTime() + (60 + 70) * 1000).toISOString());
+  });
+
+  it('reports 100% and the real completion time for finished jobs', () => {
+    const progress = computeJobProgress(
+      { ...manifest, status: 'completed', completed_at: at(5), stage_executions: [...EXECUTIONS.slice(0, 3), execution('D', 30, 5)] },
+      { now: NOW, history: HISTORY }
+    );
+    expect(progress).toMatchObject({ progress_percent: 100, current_stage: 'U', stages_total: 7, estimated_completion: at(5) });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Session Lifecycle State Machine Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  canTransition,
+  isTerminalSessionStatus,
+  getReachableStatuses,
+  getSessionStateViolations,
+  transitionSession
+} from '../session-lifecycle.js';
+import { ErrorEnvelopeSchema } from '../schemas.js';
+import { narrowSessionState } from '../validation.js';
+import type { SessionInternalState } from '../types.js';
+
+const recording: SessionInternalState = {
+  session_id: '550e8400-e29b-41d4-a716-446655440000',
+  status: 'recording',
+  started_at: '2025-09-08T08:30:00.000Z'
+};
+
+describe('Session Lifecycle', () => {
+
+  describe('Transition table', () => {
+    it('allows the forward lifecycle', () => {
+      expect(canTransition('recording', 'processing')).toBe(true);
+      expect(canTransition('processing', 'completed')).toBe(true);
+      expect(canTransition('processing', 'failed')).toBe(true);
+      expect(canTransition('recording', 'failed')).toBe(true);
+    });
+
+    it('rejects backward and skipping moves', () => {
+      expect(canTransition('processing', 'recording')).toBe(false);
+      expect(canTransition('recording', 'completed')).toBe(false);
+      expect(canTransition('completed', 'failed')).toBe(false);
+    });
+
+    it('treats completed and failed as terminal', () => {
+      expect(isTerminalSessionStatus('completed')).toBe(true);
+      expect(isTerminalSessionStatus('failed')).toBe(true);
+      expect(isTerminalSessionStatus('recording')).toBe(false);
+      expect(getReachableStatuses('recording')).toEqual(['processing', 'completed', 'failed']);
+    });
+  });
+
+  describe('getSessionStateViolations', () => {
+    it('accepts a consistent recording state', () => {
+      expect(getSessionStateViolations(recording)).toEqual([]);
+    });
+
+    it('accepts deprecated start_time in place of started_at', () => {
+      const legacy: SessionInternalState = {
+        session_id: 's1',
+        status: 'recording',
+        start_time: '2025-09-08T08:30:00.000Z'
+      };
+      expect(getSessionStateViolations(legacy)).toEqual([]);
+    });
+
+    it('flags recording with stopped_at', () => {
+      const violations = getSessionStateViolations({ ...recording, stopped_at: '2025-09-08T08:35:00.000Z' });
+      expect(violations).toEqual([expect.objectContaining({ field: 'stopped_at', kind: 'forbidden' })]);
+    });
+
+    it('flags completed without firestore_path', () => {
+      const violations = getSessionStateViolations({
+        ...recording,
+        status: 'completed',
+        stopped_at: '2025-09-08T08:35:00.000Z',
+        completed_at: '2025-09-08T08:40:00.000Z',
+        processing_id: 'proc_123'
+      });
+      expect(violations.map(v => v.field)).toEqual(['firestore_path']);
+    });
+  });
+
+  describe('transitionSession', () => {
+    it('walks recording → processing → completed', () => {
+      const stopped = transitionSession(recording, { type: 'stop', stopped_at: '2025-09-08T08:35:00.000Z' });
+      expect(stopped.success).toBe(true);
+      if (!stopped.success) return;
+      expect(stopped.state.status).toBe('processing');
+      expect(stopped.state.current_stage).toBe('A');
+
+      const progressed = transitionSession(stopped.state, { type: 'stage_progress', current_stage: 'D', progress_percent: 50 });
+      expect(progressed.success).toBe(true);
+      if (!progressed.success) return;
+
+      const completed = transitionSession(progressed.state, {
+        type: 'complete',
+        completed_at: '2025-09-08T08:40:00.000Z',
+        firestore_path: 'organizations/org/sessions/s1',
+        processing_id: 'proc_123'
+      });
+      expect(completed.success).toBe(true);
+      if (!completed.success) return;
+      expect(completed.state.status).toBe('completed');
+      expect(completed.state.progress_percent).toBe(100);
+    });
+
+    it('does not mutate the input state', () => {
+      const input = { ...recording };
+      transitionSession(input, { type: 'stop', stopped_at: '2025-09-08T08:35:00.000Z' });
+      expect(input).toEqual(recording);
+    });
+
+    it('rejects illegal moves with an ErrorEnvelope', () => {
+      const result = transitionSession(recording, {
+        type: 'complete',
+        completed_at: '2025-09-08T08:40:00.000Z',
+        firestore_path: 'organizations/org/sessions/s1'
+      });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(ErrorEnvelopeSchema.safeParse(result.error).success).toBe(true);
+      expect(result.error.code).toBe('invalid_request');
+      expect(result.error.details?.from_status).toBe('recording');
+    });
+
+    it('rejects a completion that leaves required fields missing', () => {
+      const stopped = transitionSession(recording, { type: 'stop', stopped_at: '2025-09-08T08:35:00.000Z' });
+      if (!stopped.success) throw new Error('stop failed');
+
+      const result = transitionSession(stopped.state, {
+        type: 'complete',
+        completed_at: '2025-09-08T08:40:00.000Z',
+        firestore_path: 'organizations/org/sessions/s1'
+      });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.message).toContain('processing_id');
+    });
+
+    it('rejects stage progress outside processing', () => {
+      const result = transitionSession(recording, { type: 'stage_progress', current_stage: 'B' });
+      expect(result.success).toBe(false);
+    });
+
+    it('allows failing from recording', () => {
+      const result = transitionSession(recording, { type: 'fail', error_message: 'Bridge disconnected' });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('narrowSessionState', () => {
+    it('narrows every state produced by transitionSession', () => {
+      const stopped = transitionSession(recording, { type: 'stop', stopped_at: '2025-09-08T08:35:00.000Z' });
+      if (!stopped.success) throw new Error('stop failed');
+      const completed = transitionSession(stopped.state, {
+        type: 'complete',
+        completed_at: '2025-09-08T08:40:00.000Z',
+        firestore_path: 'organizations/org/sessions/s1',
+        processing_id: 'proc_123'
+      });
+      if (!completed.success) throw new Error('complete failed');
+
+      for (const state of [recording, stopped.state, completed.state]) {
+        expect(narrowSessionState(state).success).toBe(true);
+      }
+    });
+
+    it('exposes status-specific fields after narrowing', () => {
+      const result = narrowSessionState({
+        ...recording,
+        status: 'failed',
+        error_message: 'Forge timeout'
+      });
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      switch (result.data.status) {
+        case 'failed':
+          expect(result.data.error_message).toBe('Forge timeout');
+          break;
+        default:
+          throw new Error(`unexpected status ${result.data.status}`);
+      }
+    });
+
+    it('rejects a completed state without processing_id', () => {
+      const result = narrowSessionState({
+        ...recording,
+        status: 'completed',
+        stopped_at: '2025-09-08T08:35:00.000Z',
+        completed_at: '2025-09-08T08:40:00.000Z',
+        firestore_path: 'organizations/org/sessions/s1'
+      });
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.message).toContain('processing_id');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Skill Export Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { generateWorkflowSkill, generateProjectSkill, SkillBundleSchema } from '../skill-export.js';
+import type { VideoWorkflowGuideContent, KnowledgeBaseContent } from '../video-artifacts.js';
+
+const GENERATED_AT = '2025-09-08T08:30:00.000Z';
+
+// Imported or hand-edited guides can repeat step and phase numbers
+const guide: VideoWorkflowGuideContent = {
+  schema_version: '3.0',
+  task_summary: { name: 'Pay invoice', goal: 'Pay a vendor invoice' },
+  temporal_phases: [
+    { phase_number: 1, name: 'Review', purpose: 'Check the invoice', key_actions: [] },
+    { phase_number: 1, name: 'Payment', purpose: 'Pay it', key_actions: [] }
+  ],
+  step_by_step_guide: [
+    { step_number: 1, title: 'Open', action: 'Open the invoice', expected_result: 'Invoice is open', item_id: 'step_open' },
+    { step_number: 1, title: 'Check', action: 'Check the total', expected_result: 'Total matches' },
+    { step_number: 2, title: 'Pay', action: 'Pay the invoice', expected_result: 'Paid', source_session_id: 'sess_other' }
+  ]
+};
+
+const knowledgeBase: KnowledgeBaseContent = {
+  session_summary: { topic: 'Vendor rules', subtopics: [], session_type: 'overview' },
+  knowledge_items: [
+    { item_id: 'kb_1', type: 'rule', title: 'Four eyes', content: 'Invoices over 10k need two approvers', importance: 'critical' }
+  ]
+};
+
+describe('skill export', () => {
+
+  it('keys sections by position so repeated step and phase numbers stay unique', () => {
+    const result = generateWorkflowSkill({ session_id: 'sess_1', session: { content: guide } }, { generatedAt: GENERATED_AT });
+    if (!result.success) throw new Error(result.message);
+
+    expect(result.bundle.sections.map(s => s.section_id)).toEqual([
+      'sess_1/overview',
+      'sess_1/phase-1',
+      'sess_1/phase-2',
+      'sess_1/step-1',
+      'sess_1/step-2',
+      'sess_1/step-3'
+    ]);
+    expect(result.bundle.sections[3]).toMatchObject({ item_id: 'step_open', step_number: 1, source_session_id: 'sess_1' });
+    expect(result.bundle.sections[5].source_session_id).toBe('sess_other');
+    expect(SkillBundleSchema.safeParse(result.bundle).success).toBe(true);
+  });
+
+  it('is reproducible for the same input and generatedAt', () => {
+    const input = { session_id: 'sess_1', session: { content: guide } };
+    expect(generateWorkflowSkill(input, { generatedAt: GENERATED_AT }))
+      .toEqual(generateWorkflowSkill(input, { generatedAt: GENERATED_AT }));
+  });
+
+  it('attributes the project overview to the project', () => {
+    const result = generateProjectSkill({
+      id: 'proj_1',
+      name: 'Accounts payable',
+      sessions: [
+        { session_id: 'sess_1', name: 'Pay invoice', recording_type: 'workflow_recording', content: guide },
+        { session_id: 'sess_2', name: 'Vendor rules', recording_type: 'teaching_session', content: knowledgeBase },
+        { session_id: 'sess_3', name: 'Empty', recording_type: 'teaching_session', content: undefined }
+      ]
+    }, { generatedAt: GENERATED_AT });
+    if (!result.success) throw new Error(result.message);
+
+    const [overview] = result.bundle.sections;
+    expect(overview).toMatchObject({ section_id: 'proj_1/overview', source_project_id: 'proj_1' });
+    expect(overview.source_session_id).toBeUndefined();
+    expect(result.bundle.instructions).toContain('_Source: [project:proj_1]_');
+    expect(result.bundle.instructions).toContain('_Source: [session:sess_2] [item:kb_1]_');
+    expect(result.bundle.manifest.sources.map(s => s.session_id)).toEqual(['sess_1', 'sess_2']);
+    expect(result.skipped.map(s => s.session_id)).toEqual(['sess_3']);
+  });
+
+  it('keeps snippets and titles from changing the SKILL.md structure', () => {
+    const snippet = 'Example:\n```\n## Not a heading\n```';
+    const result = generateProjectSkill({
+      id: 'proj_1',
+      name: 'Accounts payable',
+      sessions: [{
+        session_id: 'sess_1',
+        name: 'Vendor rules',
+        recording_type: 'teaching_session',
+        content: {
+          ...knowledgeBase,
+          knowledge_items: [{ ...knowledgeBase.knowledge_items[0], title: 'Four eyes\n# injected', code_snippet: snippet }]
+        }
+      }]
+    }, { generatedAt: GENERATED_AT });
+    if (!result.success) throw new Error(result.message);
+
+    const { instructions } = result.bundle;
+    expect(instructions).toContain('### Four eyes # injected\n');
+    expect(instructions).not.toMatch(/^# injected/m);
+    // The fence is longer than the snippet's own ``` lines, which stay inside it
+    expect(instructions).toContain(`\`\`\`\`\n${snippet}\n\`\`\`\`\n\n_Source: [session:sess_1] [item:kb_1]_`);
+  });
+
+  it('fails instead of returning a bundle that does not validate', () => {
+    const result = generateProjectSkill({
+      id: 'proj_1',
+      name: 'Duplicated',
+      sessions: [
+        { session_id: 'sess_1', name: 'Pay invoice', recording_type: 'workflow_recording', content: guide },
+        { session_id: 'sess_1', name: 'Pay invoice', recording_type: 'workflow_recording', content: guide }
+      ]
+    }, { generatedAt: GENERATED_AT });
+    expect(result).toMatchObject({ success: false, message: expect.stringContaining('Duplicate section_id sess_1/overview') });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Stage Dependency Graph Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { getUpstreamStages, getDownstreamStages, planStageRerun } from '../stage-graph.js';
+import { STAGES } from '../constants.js';
+import type { Stage } from '../constants.js';
+import type { ForgeArtifact, ForgeManifest, StageExecution } from '../types.js';
+
+function artifact(stage: Stage): ForgeArtifact {
+  const name = `stage_${stage.toLowerCase()}_output`;
+  return { name, type: 'analysis', stage, gcs_uri: `gs://bucket/${name}.json`, sha256: 'abc', size_bytes: 1, mime: 'application/json', created_at: '2025-09-08T08:35:00Z' };
+}
+
+function manifest(executions: StageExecution[] = STAGES.map(stage => ({
+  stage,
+  status: 'completed',
+  started_at: '2025-09-08T08:30:00Z',
+  completed_at: '2025-09-08T08:31:00Z',
+  artifacts_produced: []
+}))): ForgeManifest {
+  return {
+    version: '1.0',
+    processing_id: 'proc_123',
+    trigger_hash: 'abc',
+    session: { session_id: 'sess_1', timezone: 'Europe/Berlin' },
+    options: { stages: [...STAGES], output_language: 'en', llm_enabled: true },
+    status: 'completed',
+    created_at: '2025-09-08T08:30:00Z',
+    artifacts: STAGES.filter(stage => stage !== 'U').map(artifact),
+    counters: { events_processed: 0, media_files_processed: 0, timeline_entries: 0, llm_tokens_used: 0, processing_time_seconds: 0 },
+    stage_executions: executions,
+    content_sha256: 'def',
+    errors: []
+  };
+}
+
+describe('stage graph', () => {
+
+  it('derives upstream and downstream stages from the registry', () => {
+    expect(getUpstreamStages('E')).toEqual(['A', 'B', 'C', 'D']);
+    expect(getUpstreamStages('A')).toEqual([]);
+    expect(getDownstreamStages('E')).toEqual(['F', 'U']);
+    expect(getDownstreamStages('U')).toEqual([]);
+  });
+
+  it('re-runs synthesis and what follows after an output_language change', () => {
+    const plan = planStageRerun(manifest(), { output_language: 'es' });
+    expect(plan).toMatchObject({
+      stages: ['E', 'F', 'U'],
+      reused_stages: ['A', 'B', 'C', 'D'],
+      reasons: { E: 'output_language changed', F: 'needs output of stage E', U: 'needs output of stage E' },
+      changed_options: ['output_language']
+    });
+    expect(plan.reused_artifacts.map(a => a.stage)).toEqual(['A', 'B', 'C', 'D']);
+  });
+
+  it('ignores unchanged options and re-runs everything for unknown or global ones', () => {
+    expect(planStageRerun(manifest(), { output_language: 'en', timezone: 'Europe/Berlin' })).toMatchObject({ stages: [], changed_options: [] });
+    expect(planStageRerun(manifest(), { timezone: 'UTC' }).stages).toEqual(['C', 'D', 'E', 'F', 'U']);
+    expect(planStageRerun(manifest(), { brand_color: 'red' }).reasons.A).toBe('brand_color changed (not mapped to a stage)');
+    expect(planStageRerun(manifest(), { pipeline_version: '2.2' }).stages).toEqual([...STAGES]);
+  });
+
+  it('re-runs stages whose previous execution did not complete', () => {
+    const executions = manifest().stage_executions.map(execution =>
+      execution.stage === 'F' ? { ...execution, status: 'failed' as const, completed_at: undefined } : execution
+    );
+    expect(planStageRerun(manifest(executions), {})).toMatchObject({
+      stages: ['F', 'U'],
+      reasons: { F: 'previous execution did not complete', U: 'needs output of stage F' }
+    });
+  });
+});
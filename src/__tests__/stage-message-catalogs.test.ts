@@ -0,0 +1,92 @@
+/**
+ * Localized Stage Message Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createSeededRandom,
+  getLocalizedStageMessage,
+  resolveStageMessageCatalog,
+  validateStageMessageCatalogs,
+  STAGE_MESSAGE_CATALOGS
+} from '../stage-message-catalogs.js';
+import type { StageMessageCatalog } from '../stage-message-catalogs.js';
+
+describe('getLocalizedStageMessage', () => {
+
+  it('fills in the item count and rotates through the variants', () => {
+    expect(getLocalizedStageMessage('D', { language: 'es', n: 3, total: 10, rotation: 0 })).toBe('Inspeccionando plátano 3/10');
+    expect(getLocalizedStageMessage('D', { language: 'es', n: 3, total: 10, rotation: 3 })).toBe('Revisando racimo 3/10');
+    expect(getLocalizedStageMessage('D', { language: 'es', n: 3, total: 10, rotation: -1 })).toBe('Revisando racimo 3/10');
+    expect(getLocalizedStageMessage('D', { language: 'es', rotation: 0 })).toBe('Inspeccionando plátano {n}/{N}');
+  });
+
+  it('selects the plural form of the total', () => {
+    expect(getLocalizedStageMessage('D', { language: 'en', n: 1, total: 1, rotation: 0 })).toBe('Inspecting the only banana (1/1)');
+    expect(getLocalizedStageMessage('D', { language: 'ru', n: 2, total: 5, rotation: 1 })).toBe('Всего 5 бананов, проверяем 2-й');
+    expect(getLocalizedStageMessage('D', { language: 'ru', n: 1, total: 3, rotation: 1 })).toBe('Всего 3 банана, проверяем 1-й');
+    expect(getLocalizedStageMessage('D', { language: 'pl', n: 1, total: 1, rotation: 1 })).toBe('Został 1 banan do sprawdzenia');
+    // Fractions are 'other' in Polish
+    expect(getLocalizedStageMessage('D', { language: 'pl', n: 1, total: 1.5, rotation: 0 })).toBe('Sprawdzamy banana 1/1.5');
+  });
+
+  it('picks the same messages for the same seed', () => {
+    const pick = (seed: number) => {
+      const random = createSeededRandom(seed);
+      return Array.from({ length: 5 }, () => getLocalizedStageMessage('A', { language: 'es', random }));
+    };
+    expect(pick(42)).toEqual(pick(42));
+    for (const message of pick(7)) expect(STAGE_MESSAGE_CATALOGS.es.messages.A).toContain(message);
+    expect(getLocalizedStageMessage('A', { language: 'es', random: () => 0.999999 })).toBe('Recorriendo cada árbol');
+  });
+
+  it('falls back to English for stages missing from a catalog', () => {
+    const catalogs: Record<string, StageMessageCatalog> = {
+      xx: { language: 'xx', messages: { A: ['Only A'] } as StageMessageCatalog['messages'] }
+    };
+    expect(getLocalizedStageMessage('A', { language: 'xx', catalogs, rotation: 0 })).toBe('Only A');
+    expect(STAGE_MESSAGE_CATALOGS.en.messages.B).toContain(getLocalizedStageMessage('B', { language: 'xx', catalogs, rotation: 0 }));
+  });
+});
+
+describe('resolveStageMessageCatalog', () => {
+
+  it('tries the full tag, then the base tag, then English', () => {
+    expect(resolveStageMessageCatalog('pt-BR').language).toBe('pt');
+    expect(resolveStageMessageCatalog('ES').language).toBe('es');
+    expect(resolveStageMessageCatalog('ja').language).toBe('en');
+    expect(resolveStageMessageCatalog('auto').language).toBe('en');
+    expect(resolveStageMessageCatalog(undefined).language).toBe('en');
+  });
+});
+
+describe('validateStageMessageCatalogs', () => {
+
+  it('accepts the shipped catalogs', () => {
+    expect(validateStageMessageCatalogs()).toEqual([]);
+  });
+
+  it('reports missing stages, missing plural forms and misplaced placeholders', () => {
+    const complete = STAGE_MESSAGE_CATALOGS.es.messages;
+    const broken: StageMessageCatalog = {
+      language: 'xx',
+      messages: {
+        ...complete,
+        A: ['Checking {n}', ' '],
+        D: { one: ['Only {n}'] } as unknown as StageMessageCatalog['messages']['D'],
+        U: undefined as unknown as string[]
+      }
+    };
+    expect(validateStageMessageCatalogs({ xx: broken })).toEqual([
+      { language: 'xx', stage: 'A', message: '"Checking {n}" uses {n}/{N}, which this stage does not provide' },
+      { language: 'xx', stage: 'A', message: 'Empty message' },
+      { language: 'xx', stage: 'D', message: 'Plural messages need a non-empty "other" form' },
+      { language: 'xx', stage: 'U', message: 'No messages for this stage' }
+    ]);
+
+    const uncounted = { xx: { language: 'xx', messages: { ...complete, D: ['Inspecting bananas'] } } };
+    expect(validateStageMessageCatalogs(uncounted)).toEqual([
+      { language: 'xx', stage: 'D', message: '"Inspecting bananas" does not show the item count ({n} or {N})' }
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Stage Registry Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  STAGE_REGISTRY,
+  PIPELINE_FAMILIES,
+  PIPELINE_STAGE_REGISTRIES,
+  getStageDefinition,
+  getPipelineStageDefinition
+} from '../stage-registry.js';
+import type { StageDefinition } from '../stage-registry.js';
+import { STAGES, TOTAL_STAGES, PIPELINE_STAGES } from '../constants.js';
+import { STAGE_MESSAGES, STAGE_LABELS, getStageNumber, getPipelineStageCodes, getPipelineStageLabel } from '../stage-messages.js';
+import { DEFAULT_STAGE_WEIGHTS } from '../progress-engine.js';
+import { StageExecutionSchema, PIPELINE_STAGE_EXECUTION_SCHEMAS } from '../schemas.js';
+
+describe('stage registry', () => {
+
+  it('derives the stage codes in pipeline order', () => {
+    expect(STAGES).toEqual(['A', 'B', 'C', 'D', 'E', 'F', 'U']);
+    expect(TOTAL_STAGES).toBe(7);
+    expect(PIPELINE_STAGES).toEqual({
+      bridge_forge: STAGES,
+      video_vlm: ['V', 'M', 'S', 'U'],
+      text_generation: ['T', 'G', 'S', 'U']
+    });
+    for (const pipeline of PIPELINE_FAMILIES) {
+      expect(getPipelineStageCodes(pipeline)).toEqual(PIPELINE_STAGE_REGISTRIES[pipeline].map(stage => stage.code));
+    }
+  });
+
+  it('looks up definitions with their 1-based order', () => {
+    expect(getStageDefinition('D')).toMatchObject({ code: 'D', order: 4, label: 'Normalizing data', weight: 45, counts_items: true });
+    expect(getPipelineStageDefinition('video_vlm', 'M')).toMatchObject({ code: 'M', order: 2, label: 'VLM analysis', weight: 70 });
+    expect(getPipelineStageDefinition('text_generation', 'U')).toMatchObject({ order: 4, label: 'Finalizing output' });
+    expect(getStageNumber('U')).toBe(7);
+    expect(getPipelineStageLabel('text_generation', 'G')).toBe('LLM generation');
+  });
+
+  it('derives labels, weights and message sets from the registry', () => {
+    expect(STAGE_LABELS).toEqual(Object.fromEntries(STAGE_REGISTRY.map(stage => [stage.code, stage.label])));
+    expect(DEFAULT_STAGE_WEIGHTS).toEqual({ A: 5, B: 5, C: 10, D: 45, E: 20, F: 10, U: 5 });
+    for (const pipeline of PIPELINE_FAMILIES) {
+      const registry: readonly StageDefinition[] = PIPELINE_STAGE_REGISTRIES[pipeline];
+      expect(registry.reduce((sum, stage) => sum + stage.weight, 0)).toBe(100);
+      for (const stage of registry) {
+        expect((STAGE_MESSAGES as unknown as Record<string, string[]>)[stage.message_key]?.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('only needs artifacts produced by an earlier stage of the same pipeline', () => {
+    const missing: string[] = [];
+    for (const pipeline of PIPELINE_FAMILIES) {
+      const produced = new Set<string>();
+      for (const stage of PIPELINE_STAGE_REGISTRIES[pipeline] as readonly StageDefinition[]) {
+        missing.push(...stage.needs.filter(need => !produced.has(need)).map(need => `${pipeline}/${stage.code}: ${need}`));
+        for (const artifact of stage.artifacts) produced.add(artifact);
+      }
+    }
+    expect(missing).toEqual([]);
+  });
+
+  it('limits stage executions to the codes of their pipeline', () => {
+    const execution = { status: 'completed', started_at: '2025-09-08T09:00:00.000Z', artifacts_produced: [] };
+    expect(StageExecutionSchema.safeParse({ ...execution, stage: 'D' }).success).toBe(true);
+    expect(StageExecutionSchema.safeParse({ ...execution, stage: 'M' }).success).toBe(false);
+    expect(PIPELINE_STAGE_EXECUTION_SCHEMAS.video_vlm.safeParse({ ...execution, stage: 'M' }).success).toBe(true);
+    expect(PIPELINE_STAGE_EXECUTION_SCHEMAS.video_vlm.safeParse({ ...execution, stage: 'G' }).success).toBe(false);
+    expect(PIPELINE_STAGE_EXECUTION_SCHEMAS.text_generation.safeParse({ ...execution, stage: 'G' }).success).toBe(true);
+  });
+});
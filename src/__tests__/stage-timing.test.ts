@@ -0,0 +1,98 @@
+/**
+ * Stage Timing Model Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createStageTimingModel,
+  recordManifestTimings,
+  getManifestTimingContext,
+  getStagePercentiles,
+  getJobDurationPercentiles,
+  predictRemainingTime,
+  formatRemainingTime,
+  getMediaSizeBand
+} from '../stage-timing.js';
+import type { StageTimingModel } from '../stage-timing.js';
+import type { ForgeManifest } from '../types.js';
+
+const START = Date.parse('2025-09-08T08:00:00Z');
+
+function at(seconds: number): string {
+  return new Date(START + seconds * 1000).toISOString();
+}
+
+/** Finished job: A takes 10 s, then D takes `d` seconds */
+function manifest(processing_id: string, d: number, input_type = 'workflow_recording'): ForgeManifest {
+  return {
+    version: '1.0',
+    processing_id,
+    trigger_hash: 'abc',
+    session: {},
+    options: { input_type },
+    status: 'completed',
+    created_at: at(0),
+    completed_at: at(10 + d),
+    artifacts: [],
+    counters: { events_processed: 0, media_files_processed: 1, timeline_entries: 0, llm_tokens_used: 0, processing_time_seconds: 10 + d },
+    stage_executions: [
+      { stage: 'A', status: 'completed', started_at: at(0), completed_at: at(10), artifacts_produced: [] },
+      { stage: 'D', status: 'completed', started_at: at(10), completed_at: at(10 + d), artifacts_produced: [] }
+    ],
+    content_sha256: 'def',
+    errors: []
+  };
+}
+
+function train(model: StageTimingModel, jobs: ForgeManifest[], mediaSeconds: number): StageTimingModel {
+  return jobs.reduce((current, job) => recordManifestTimings(current, job, getManifestTimingContext(job, mediaSeconds)), model);
+}
+
+const medium = [100, 200, 300, 400, 500].map((d, i) => manifest(`proc_${i}`, d));
+
+describe('stage timing model', () => {
+
+  it('computes interpolated percentiles and ignores replayed manifests', () => {
+    const model = train(createStageTimingModel(), [...medium, medium[0]], 300);
+    expect(getMediaSizeBand(300)).toBe('medium');
+    expect(getStagePercentiles(model, 'D', { input_type: 'workflow_recording', media_seconds: 300 }))
+      .toEqual({ p10: 140, p50: 300, p90: 460, samples: 5, bucket: 'workflow_recording|medium' });
+    expect(getJobDurationPercentiles(model)).toMatchObject({ p50: 310, samples: 5, bucket: '*|*' });
+    expect(getStagePercentiles(model, 'E')).toBeUndefined();
+  });
+
+  it('falls back to broader buckets when the specific one has too few samples', () => {
+    const teaching = [manifest('proc_t1', 20, 'teaching_session'), manifest('proc_t2', 40, 'teaching_session')];
+    const model = train(train(createStageTimingModel(), medium, 300), teaching, 60);
+
+    // No long workflow recordings yet: any size of the same input type
+    expect(getStagePercentiles(model, 'D', { input_type: 'workflow_recording', media_seconds: 2000 })?.bucket).toBe('workflow_recording|*');
+    // Two short teaching sessions are below min_samples (5): any input
+    expect(getStagePercentiles(model, 'D', { input_type: 'teaching_session', media_seconds: 60 })).toMatchObject({ bucket: '*|*', samples: 7 });
+
+    // No bucket is big enough: the one with the most samples wins
+    const sparse = train(createStageTimingModel({ minSamples: 10 }), teaching, 60);
+    expect(getStagePercentiles(sparse, 'D', { input_type: 'teaching_session', media_seconds: 60 })).toMatchObject({ bucket: 'teaching_session|short', samples: 2 });
+  });
+
+  it('predicts the unfinished part of the remaining stages', () => {
+    const model = train(createStageTimingModel(), medium, 300);
+    const context = { input_type: 'workflow_recording', media_seconds: 300 };
+
+    const byFraction = predictRemainingTime(model, { stages: ['D', 'E'], current_stage: 'D', current_stage_fraction: 0.5 }, context);
+    expect(byFraction).toEqual({ seconds: 150, low_seconds: 70, high_seconds: 230, confidence: 0.8, min_samples: 5, unknown_stages: ['E'] });
+
+    const byTime = predictRemainingTime(model, { stages: ['D'], current_stage: 'D', current_stage_elapsed_seconds: 200 }, context);
+    expect(byTime).toMatchObject({ seconds: 100, low_seconds: 0, high_seconds: 260 });
+
+    expect(predictRemainingTime(model, { stages: ['E', 'F'] }, context)).toBeUndefined();
+  });
+
+  it('formats the remaining time', () => {
+    expect(formatRemainingTime(undefined)).toBe('estimating time left');
+    expect(formatRemainingTime({ seconds: 20 })).toBe('less than a minute left');
+    expect(formatRemainingTime({ seconds: 170 })).toBe('about 3 min left');
+    expect(formatRemainingTime({ seconds: 7200 })).toBe('about 2 h left');
+    expect(formatRemainingTime({ seconds: 4500 })).toBe('about 1 h 15 min left');
+  });
+});
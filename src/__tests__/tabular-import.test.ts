@@ -0,0 +1,133 @@
+/**
+ * Tabular Export / Import Round-Trip Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { deflateRawSync } from 'node:zlib';
+import { createWorkflowStepTable, createKnowledgeItemTable, renderCsv, renderXlsx } from '../tabular-export.js';
+import { parseCsv, parseXlsx, applyWorkflowStepRows, applyKnowledgeItemRows } from '../tabular-import.js';
+import { crc32 } from '../zip-writer.js';
+import { readZip } from '../zip-reader.js';
+import type { VideoWorkflowGuideContent, KnowledgeBaseContent } from '../video-artifacts.js';
+
+const guide: VideoWorkflowGuideContent = {
+  schema_version: '3.0',
+  task_summary: { name: 'Pay invoice', goal: 'Pay a vendor invoice' },
+  temporal_phases: [{ phase_number: 1, name: 'Review', purpose: 'Check the invoice', key_actions: [] }],
+  step_by_step_guide: [
+    { step_number: 1, phase_number: 1, title: "'Quoted' title", action: '=SUM(A1:A3)', expected_result: "'=literal", item_id: 'step_1' },
+    { step_number: 2, phase_number: 1, title: 'Check, then "save"', action: 'Line one\nLine two', expected_result: '-5 degrees', item_id: 'step_2', timestamp: 12.5 },
+    {
+      step_number: 3, phase_number: 1, title: 'Route', action: 'Route by amount', expected_result: 'Routed', item_id: 'step_3', step_type: 'conditional',
+      condition_details: { condition: 'amount > 100', true_action: 'Ask manager', target_steps: { if_true: 1 }, condition_language: 'simple_expr_v1' }
+    }
+  ]
+};
+
+const knowledgeBase: KnowledgeBaseContent = {
+  session_summary: { topic: 'Vendor rules', subtopics: [], session_type: 'overview' },
+  knowledge_items: [
+    { item_id: 'kb_1', type: 'rule', title: '@mentions', content: "+1 approver; 'two' if over 10k", importance: 'critical', related_items: ['kb_2'] },
+    { item_id: 'kb_2', type: 'fact', title: 'Limit', content: 'Limit is 10000', importance: 'standard', code_snippet: 'if (x) {\n  approve();\n}' }
+  ]
+};
+
+/** ZIP with deflated entries, like a workbook saved by a spreadsheet app */
+function deflatedZip(files: Record<string, string>): Uint8Array {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [path, text] of Object.entries(files)) {
+    const name = Buffer.from(path);
+    const data = Buffer.from(text);
+    const packed = deflateRawSync(data);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(crc32(data), 14);
+    header.writeUInt32LE(packed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    header.copy(entry, 16, 14, 26);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    local.push(header, name, packed);
+    central.push(entry, name);
+    offset += header.length + name.length + packed.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...local, directory, end]));
+}
+
+describe('tabular round trip', () => {
+
+  it('re-imports exported CSV without changing the content', () => {
+    const csv = renderCsv(createWorkflowStepTable(guide));
+    expect(csv).toContain("'=SUM(A1:A3)");
+    expect(csv).toContain("''=literal");
+
+    const parsed = parseCsv(csv);
+    if (!parsed.success) throw new Error(parsed.message);
+    const result = applyWorkflowStepRows(guide, parsed.rows);
+    expect(result).toMatchObject({ success: true, updated: 0, added: 0, removed: 0, warnings: [] });
+    if (result.success) expect(result.content).toEqual(guide);
+
+    const items = parseCsv(renderCsv(createKnowledgeItemTable(knowledgeBase)), { delimiter: ',' });
+    if (!items.success) throw new Error(items.message);
+    const itemResult = applyKnowledgeItemRows(knowledgeBase, items.rows);
+    expect(itemResult.success && itemResult.content).toEqual(knowledgeBase);
+  });
+
+  it('keeps apostrophes the exporter did not add', () => {
+    const parsed = parseCsv("title,note\r\n'Quoted',''=x\r\n'5,'-1\r\n");
+    expect(parsed.success && parsed.rows).toEqual([['title', 'note'], ["'Quoted'", "'=x"], ["'5", '-1']]);
+  });
+
+  it('re-imports exported XLSX without changing the content', async () => {
+    const bytes = renderXlsx([createWorkflowStepTable(guide), createKnowledgeItemTable(knowledgeBase)]);
+    const parsed = await parseXlsx(bytes);
+    if (!parsed.success) throw new Error(parsed.message);
+    expect(parsed.sheets.map(sheet => sheet.name)).toEqual(['Steps', 'Knowledge']);
+
+    const steps = applyWorkflowStepRows(guide, parsed.sheets[0].rows);
+    expect(steps).toMatchObject({ success: true, updated: 0, warnings: [] });
+    if (steps.success) expect(steps.content).toEqual(guide);
+    const items = applyKnowledgeItemRows(knowledgeBase, parsed.sheets[1].rows);
+    expect(items.success && items.content).toEqual(knowledgeBase);
+  });
+
+  it('reads deflated workbooks with shared strings and sparse cells', async () => {
+    const main = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+    const bytes = deflatedZip({
+      'xl/workbook.xml': `<workbook ${main} xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Steps" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Target="/xl/worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': `<sst ${main}><si><t>title</t></si><si><r><t>Open </t></r><r><t xml:space="preserve">the file</t></r><rPh><t>x</t></rPh></si></sst>`,
+      'xl/worksheets/sheet1.xml': `<worksheet ${main}><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>done</t></is></c></row>` +
+        '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3"><v>2.5</v></c><c r="C3" t="b"><v>1</v></c></row></sheetData></worksheet>'
+    });
+    expect(bytes[8]).toBe(8); // deflate
+
+    const parsed = await parseXlsx(bytes);
+    expect(parsed.success && parsed.sheets).toEqual([{
+      name: 'Steps',
+      rows: [['title', '', 'done'], ['', '', ''], ['Open the file', '2.5', 'TRUE']]
+    }]);
+  });
+
+  it('reports files that are not workbooks', async () => {
+    expect(await parseXlsx(new TextEncoder().encode('step_number,title'))).toMatchObject({ success: false });
+    const corrupt = deflatedZip({ 'xl/workbook.xml': '<workbook/>' });
+    corrupt[corrupt.length - 22 - 46 - 'xl/workbook.xml'.length - 1] ^= 0xff; // last compressed byte
+    expect((await readZip(corrupt)).success).toBe(false);
+  });
+});
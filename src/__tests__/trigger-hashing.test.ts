@@ -0,0 +1,102 @@
+/**
+ * Trigger Hashing and Idempotency Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildIdempotencyHeaders,
+  canonicalizeTrigger,
+  computeTriggerHash,
+  decideIdempotentReuse,
+  explainTriggerHashDifference,
+  readIdempotencyHeaders
+} from '../trigger-hashing.js';
+import type { ForgeTrigger } from '../types.js';
+
+const trigger: ForgeTrigger = {
+  pipeline_version: '2.1',
+  config_path: 'configs/default.yaml',
+  session: {
+    org_id: 'org_1',
+    device_id: 'dev_1',
+    time_range: { start: '2025-09-08T10:00:00+02:00', end: '2025-09-08T08:30:00Z' },
+    timezone: 'Europe/Berlin',
+    session_id: 'sess_1',
+    user_id: 'user_1',
+    user_email: 'user@example.com'
+  },
+  options: { stages: ['E', 'A', 'D', 'A'], media_processing: true, llm_enabled: true },
+  visibility: 'private',
+  source: 'on-demand'
+};
+
+describe('canonicalizeTrigger', () => {
+
+  it('de-duplicates stages and puts them in pipeline order', () => {
+    const canonical = canonicalizeTrigger(trigger);
+    expect('options' in canonical && canonical.options.stages).toEqual(['A', 'D', 'E']);
+  });
+
+  it('normalizes the time range to UTC and leaves unparseable timestamps alone', () => {
+    const canonical = canonicalizeTrigger(trigger);
+    expect('session' in canonical && canonical.session.time_range)
+      .toEqual({ start: '2025-09-08T08:00:00.000Z', end: '2025-09-08T08:30:00.000Z' });
+
+    const odd = canonicalizeTrigger({ ...trigger, session: { ...trigger.session, time_range: { start: 'yesterday', end: trigger.session.time_range.end } } });
+    expect('session' in odd && odd.session.time_range.start).toBe('yesterday');
+  });
+
+  it('applies schema defaults before hashing', () => {
+    const { source: _source, ...withoutSource } = trigger;
+    expect(computeTriggerHash(JSON.parse(JSON.stringify(withoutSource)))).toBe(computeTriggerHash(trigger));
+  });
+});
+
+describe('trigger hashing', () => {
+
+  it('hashes equivalent triggers identically', () => {
+    const equivalent: ForgeTrigger = {
+      ...trigger,
+      session: { ...trigger.session, time_range: { start: '2025-09-08T08:00:00.000Z', end: '2025-09-08T08:30:00Z' } },
+      options: { ...trigger.options, stages: ['A', 'D', 'E'] }
+    };
+    expect(computeTriggerHash(equivalent)).toBe(computeTriggerHash(trigger));
+    expect(explainTriggerHashDifference(trigger, equivalent).differences).toEqual([]);
+  });
+
+  it('decides idempotent reuse and explains hash differences', () => {
+    const previous = { trigger_hash: computeTriggerHash(trigger), status: 'completed' as const };
+    const headers = readIdempotencyHeaders({ 'Idempotency-Key': 'session-sess_1' });
+    expect(decideIdempotentReuse(trigger, headers, previous)).toMatchObject({ idempotent_reuse: true, reason: 'same_trigger' });
+    expect(decideIdempotentReuse(trigger, { ...headers!, 'x-force-rerun': 'true' }, previous).reason).toBe('force_rerun');
+
+    const changed: ForgeTrigger = { ...trigger, options: { ...trigger.options, llm_enabled: false } };
+    expect(decideIdempotentReuse(changed, headers, previous).reason).toBe('trigger_changed');
+    expect(explainTriggerHashDifference(trigger, changed).differences).toEqual([
+      { path: 'options.llm_enabled', change: 'changed', before: true, after: false }
+    ]);
+  });
+});
+
+describe('readIdempotencyHeaders', () => {
+
+  it('matches header names and force-rerun values in any case', () => {
+    expect(readIdempotencyHeaders({ 'IDEMPOTENCY-KEY': ' session-sess_1 ', 'X-Force-Rerun': 'TRUE' }))
+      .toEqual({ 'idempotency-key': 'session-sess_1', 'x-force-rerun': 'true' });
+    expect(readIdempotencyHeaders({ 'idempotency-key': ['session-sess_1', 'session-other'], 'x-force-rerun': 'False' }))
+      .toEqual({ 'idempotency-key': 'session-sess_1', 'x-force-rerun': 'false' });
+  });
+
+  it('drops unknown force-rerun values and returns undefined without a key', () => {
+    expect(readIdempotencyHeaders({ 'Idempotency-Key': 'session-sess_1', 'x-force-rerun': 'yes' }))
+      .toEqual({ 'idempotency-key': 'session-sess_1' });
+    expect(readIdempotencyHeaders({ 'Idempotency-Key': '  ', 'x-force-rerun': 'true' })).toBeUndefined();
+    expect(readIdempotencyHeaders({})).toBeUndefined();
+  });
+
+  it('reads back the headers buildIdempotencyHeaders sends', () => {
+    const sent = buildIdempotencyHeaders(trigger, { forceRerun: true });
+    expect(sent).toEqual({ 'idempotency-key': 'session-sess_1', 'x-force-rerun': 'true' });
+    expect(readIdempotencyHeaders({ ...sent })).toEqual(sent);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Workflow Flowchart Rendering Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { renderWorkflowMermaid, renderWorkflowDot } from '../workflow-flowchart.js';
+import type { VideoWorkflowGuideContent } from '../video-artifacts.js';
+
+const guide: VideoWorkflowGuideContent = {
+  schema_version: '3.0',
+  task_summary: { name: 'Pay invoice', goal: 'Pay a vendor invoice' },
+  temporal_phases: [{ phase_number: 1, name: 'Review', purpose: 'Check the invoice', key_actions: [] }],
+  step_by_step_guide: [
+    { step_number: 1, phase_number: 1, title: 'Open "invoice"', action: 'Open it', expected_result: 'Open' },
+    {
+      step_number: 2, phase_number: 1, title: 'Check amount', action: 'Compare', expected_result: 'Compared', step_type: 'conditional',
+      condition_details: { condition: 'amount > 100', true_action: 'Escalate', target_steps: { if_true: 4 }, condition_language: 'simple_expr_v1' }
+    },
+    { step_number: 3, title: 'Manager approves', action: 'Approve', expected_result: 'Approved', step_type: 'hitl' },
+    { step_number: 4, title: 'Unknown', action: 'Not shown in the recording', expected_result: '', step_type: 'gap' }
+  ]
+};
+
+describe('workflow flowchart', () => {
+
+  it('renders Mermaid with phase subgraphs, step shapes and branch labels', () => {
+    expect(renderWorkflowMermaid(guide)).toBe([
+      'flowchart TD',
+      '  start(["Start"])',
+      '  subgraph phase_1["1. Review"]',
+      '    step_1["1. Open #quot;invoice#quot;"]',
+      '    step_2{"2. Check amount"}',
+      '  end',
+      '  step_3[/"3. Manager approves"/]',
+      '  step_4{{"4. Unknown"}}',
+      '  end_node(["End"])',
+      '  start --> step_1',
+      '  step_1 --> step_2',
+      '  step_2 -->|"Yes: Escalate"| step_4',
+      '  step_2 -->|"No"| step_3',
+      '  step_3 --> step_4',
+      '  step_4 --> end_node',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders Graphviz DOT with phase clusters', () => {
+    expect(renderWorkflowDot(guide, { direction: 'left-right' })).toBe([
+      'digraph workflow {',
+      '  rankdir=LR;',
+      '  node [fontname="Helvetica"];',
+      '  edge [fontname="Helvetica"];',
+      '  start [label="Start", shape=oval];',
+      '  subgraph cluster_1 {',
+      '    label="1. Review";',
+      '    step_1 [label="1. Open \\"invoice\\"", shape=box];',
+      '    step_2 [label="2. Check amount", shape=diamond];',
+      '  }',
+      '  step_3 [label="3. Manager approves", shape=parallelogram];',
+      '  step_4 [label="4. Unknown", shape=hexagon, style=dashed];',
+      '  end_node [label="End", shape=oval];',
+      '  start -> step_1;',
+      '  step_1 -> step_2;',
+      '  step_2 -> step_4 [label="Yes: Escalate"];',
+      '  step_2 -> step_3 [label="No"];',
+      '  step_3 -> step_4;',
+      '  step_4 -> end_node;',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('truncates labels, supports fractional step numbers and can omit Start/End', () => {
+    const edited: VideoWorkflowGuideContent = {
+      ...guide,
+      temporal_phases: [],
+      step_by_step_guide: [
+        { step_number: 1, title: 'Open the vendor invoice in the accounting system', action: 'Open', expected_result: 'Open' },
+        { step_number: 1.5, title: 'Check', action: 'Check', expected_result: 'Checked', step_type: 'check' }
+      ]
+    };
+    expect(renderWorkflowMermaid(edited, { maxLabelLength: 20, includeStartEnd: false })).toBe([
+      'flowchart TD',
+      '  step_1["1. Open the vendor…"]',
+      '  step_1_5("1.5. Check")',
+      '  step_1 --> step_1_5',
+      ''
+    ].join('\n'));
+  });
+});
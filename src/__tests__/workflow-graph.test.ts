@@ -0,0 +1,68 @@
+/**
+ * Workflow Control-Flow Graph Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { analyzeWorkflowGraph, buildWorkflowGraph, getStepSuccessors } from '../workflow-graph.js';
+import type { VideoWorkflowGuideContent, VideoWorkflowStep } from '../video-artifacts.js';
+
+function step(step_number: number, extra: Partial<VideoWorkflowStep> = {}): VideoWorkflowStep {
+  return { step_number, title: `Step ${step_number}`, action: 'Do it', expected_result: 'Done', ...extra };
+}
+
+function branch(step_number: number, if_true?: number, if_false?: number): VideoWorkflowStep {
+  return step(step_number, {
+    step_type: 'conditional',
+    condition_details: { condition: 'amount > 100', true_action: 'Escalate', false_action: 'Continue', target_steps: { if_true, if_false }, condition_language: 'simple_expr_v1' }
+  });
+}
+
+function guide(steps: VideoWorkflowStep[]): VideoWorkflowGuideContent {
+  return { schema_version: '3.0', task_summary: { name: 'Pay invoice', goal: 'Pay it' }, temporal_phases: [], step_by_step_guide: steps };
+}
+
+const codes = (content: VideoWorkflowGuideContent) => analyzeWorkflowGraph(content).issues.map(issue => issue.code);
+
+describe('workflow graph', () => {
+
+  it('links branches to their targets and falls through otherwise', () => {
+    const graph = buildWorkflowGraph(guide([step(1), branch(2, 4), step(3), step(4)]));
+    expect(graph.entry).toBe(1);
+    expect(getStepSuccessors(graph, 1)).toEqual([{ from: 1, to: 2, kind: 'next', explicit: false }]);
+    expect(getStepSuccessors(graph, 2)).toEqual([
+      { from: 2, to: 4, kind: 'if_true', label: 'Escalate', explicit: true },
+      { from: 2, to: 3, kind: 'if_false', label: 'Continue', explicit: false }
+    ]);
+    expect(getStepSuccessors(graph, 4)).toEqual([{ from: 4, to: 'end', kind: 'next', explicit: false }]);
+    expect(analyzeWorkflowGraph(guide([step(1), branch(2, 4), step(3), step(4)]))).toMatchObject({ issues: [], valid: true });
+  });
+
+  it('warns about loops that can exit and rejects loops that cannot', () => {
+    const loop = analyzeWorkflowGraph(guide([step(1), step(2), branch(3, 1)]));
+    expect(loop.valid).toBe(true);
+    expect(loop.issues).toEqual([expect.objectContaining({ code: 'cycle', severity: 'warning', details: { steps: [1, 2, 3] } })]);
+
+    const trapped = analyzeWorkflowGraph(guide([step(1), branch(2, 1, 1), step(3)]));
+    expect(trapped.valid).toBe(false);
+    expect(trapped.issues.map(issue => issue.code)).toEqual(['unreachable_step', 'non_terminating']);
+  });
+
+  it('reports unreachable steps and dangling targets', () => {
+    const analysis = analyzeWorkflowGraph(guide([step(1), branch(2, 4, 4), step(3), step(4), branch(5, 9)]));
+    expect(analysis.valid).toBe(false);
+    expect(analysis.issues).toEqual([
+      expect.objectContaining({ code: 'dangling_target', step_number: 5, details: { branch: 'if_true', target: 9 } }),
+      expect.objectContaining({ code: 'unreachable_step', step_number: 3 })
+    ]);
+  });
+
+  it('reports gaps and duplicates in step numbering', () => {
+    expect(codes(guide([step(1), step(2), step(2), step(3)]))).toEqual(['duplicate_step_number']);
+
+    const gaps = analyzeWorkflowGraph(guide([step(2), step(3), step(7)]));
+    expect(gaps.valid).toBe(true);
+    expect(gaps.issues).toEqual([
+      expect.objectContaining({ code: 'step_number_gap', message: 'Step numbering skips 1, 4-6', details: { gaps: [{ from: 1, to: 1 }, { from: 4, to: 6 }] } })
+    ]);
+  });
+});
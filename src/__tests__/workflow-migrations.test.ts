@@ -0,0 +1,154 @@
+/**
+ * Workflow Guide Migration Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  migrateWorkflowGuide,
+  inferStepType,
+  deriveConditionDetails
+} from '../workflow-migrations.js';
+import { VideoWorkflowGuideContentSchema } from '../video-artifacts.js';
+import type { VideoWorkflowGuideContent } from '../video-artifacts.js';
+
+const legacyGuide: VideoWorkflowGuideContent = VideoWorkflowGuideContentSchema.parse({
+  task_summary: {
+    name: 'Approve invoice',
+    goal: 'Approve a vendor invoice in the ERP',
+    tools_used: ['SAP', 'Outlook']
+  },
+  temporal_phases: [
+    { phase_number: 1, name: 'Review', purpose: 'Review the invoice', key_actions: ['Open invoice'] }
+  ],
+  step_by_step_guide: [
+    { step_number: 1, title: 'Open the invoice', action: 'Open the invoice from the inbox', expected_result: 'Invoice visible' },
+    { step_number: 2, title: 'Verify the total', action: 'Compare the total with the PO', expected_result: 'Totals match' },
+    {
+      step_number: 3,
+      title: 'Route large invoices',
+      action: 'If amount > 10000, then forward to finance. Otherwise approve it directly.',
+      expected_result: 'Invoice routed'
+    },
+    {
+      step_number: 4,
+      title: 'Escalate disputes',
+      action: 'If the vendor disputes the amount, then call the account manager.',
+      expected_result: 'Dispute escalated'
+    }
+  ],
+  quick_reference: {
+    prerequisites: ['ERP access'],
+    key_commands: ['Ctrl+S saves'],
+    common_issues: ['Session timeout'],
+    verification_steps: ['Invoice status is Approved']
+  }
+});
+
+describe('Workflow Guide Migrations', () => {
+
+  it('upgrades a 1.0 guide to 3.0 and passes the schema', () => {
+    const result = migrateWorkflowGuide(legacyGuide);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.fromVersion).toBe('1.0');
+    expect(result.content.schema_version).toBe('3.0');
+    expect(result.content.task_summary.applications).toEqual(['SAP', 'Outlook']);
+    expect(result.content.task_summary.tools_used).toBeUndefined();
+    expect(result.content.quick_reference).toBeUndefined();
+    expect(result.content.workflow_notes).toEqual({
+      success_criteria: ['Invoice status is Approved'],
+      constraints: ['ERP access'],
+      pointers: ['Ctrl+S saves', 'Session timeout']
+    });
+    expect(result.content.step_by_step_guide.map(s => s.step_type)).toEqual(['do', 'check', 'conditional', 'conditional']);
+    expect(result.content.step_by_step_guide[2].condition_details).toEqual({
+      condition: 'amount > 10000',
+      true_action: 'forward to finance',
+      false_action: 'approve it directly',
+      condition_language: 'simple_expr_v1'
+    });
+    expect(VideoWorkflowGuideContentSchema.safeParse(result.content).success).toBe(true);
+  });
+
+  it('leaves natural-language conditions unconverted and warns about them', () => {
+    const result = migrateWorkflowGuide(legacyGuide);
+    if (!result.success) throw new Error(result.message);
+
+    const step = result.content.step_by_step_guide[3];
+    expect(step.step_type).toBe('conditional');
+    expect(step.condition_details).toBeUndefined();
+    expect(step.action).toBe('If the vendor disputes the amount, then call the account manager.');
+    expect(result.warnings).toEqual([{
+      path: 'step_by_step_guide[3]',
+      message: expect.stringContaining('not a simple_expr_v1 expression'),
+      from_version: '2.0',
+      to_version: '3.0'
+    }]);
+  });
+
+  it('reports every changed field with its version step', () => {
+    const result = migrateWorkflowGuide(legacyGuide);
+    if (!result.success) throw new Error(result.message);
+
+    const paths = result.changes.map(c => `${c.from_version}->${c.to_version} ${c.path}`);
+    expect(paths).toEqual([
+      '1.0->2.0 task_summary.tools_used',
+      '1.0->2.0 quick_reference',
+      '1.0->2.0 step_by_step_guide[0].step_type',
+      '1.0->2.0 step_by_step_guide[1].step_type',
+      '1.0->2.0 step_by_step_guide[2].step_type',
+      '1.0->2.0 step_by_step_guide[3].step_type',
+      '1.0->2.0 schema_version',
+      '2.0->3.0 step_by_step_guide[2].condition_details',
+      '2.0->3.0 schema_version'
+    ]);
+  });
+
+  it('stops at an intermediate target version', () => {
+    const result = migrateWorkflowGuide(legacyGuide, '2.0');
+    if (!result.success) throw new Error(result.message);
+    expect(result.content.schema_version).toBe('2.0');
+    expect(result.content.step_by_step_guide[2].condition_details).toBeUndefined();
+  });
+
+  it('does not mutate its input', () => {
+    const snapshot = structuredClone(legacyGuide);
+    migrateWorkflowGuide(legacyGuide);
+    expect(legacyGuide).toEqual(snapshot);
+  });
+
+  it('is a no-op for content already at the target version', () => {
+    const result = migrateWorkflowGuide({ ...legacyGuide, schema_version: '3.0' });
+    if (!result.success) throw new Error(result.message);
+    expect(result.changes).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('rejects downgrades', () => {
+    const result = migrateWorkflowGuide({ ...legacyGuide, schema_version: '3.0' }, '1.0');
+    expect(result.success).toBe(false);
+  });
+
+  describe('heuristics', () => {
+    it('infers step types from text', () => {
+      expect(inferStepType({ title: 'Click Save', action: 'Click the save button' })).toBe('do');
+      expect(inferStepType({ title: 'Confirm the email', action: 'Look for the confirmation' })).toBe('check');
+      expect(inferStepType({ title: 'Branch', action: 'If the cell is empty, skip the row' })).toBe('conditional');
+    });
+
+    it('falls back to title and action when the text has no if/then shape', () => {
+      expect(deriveConditionDetails({ title: 'customer.tier = "vip"', action: 'Offer a discount' })).toEqual({
+        condition: "customer.tier = 'vip'",
+        true_action: 'Offer a discount',
+        condition_language: 'simple_expr_v1'
+      });
+    });
+
+    it('derives nothing from natural-language conditions', () => {
+      expect(deriveConditionDetails({ title: 'Customer is VIP', action: 'Offer a discount' })).toBeUndefined();
+      expect(deriveConditionDetails({ title: 'Approve', action: 'Approve the request' })).toBeUndefined();
+      expect(deriveConditionDetails({ title: 'Branch', action: 'If the cell is empty, then skip the row' })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Automation Export (shared)
+ *
+ * Common pieces for the deterministic RPA/automation exporters (n8n, UiPath,
+ * Power Automate). Each exporter walks the control-flow graph from
+ * workflow-graph.ts, maps what it can onto native nodes/activities and turns
+ * everything else into an annotated placeholder. The report lists which steps
+ * were mapped and which still need a human (or the LLM pass) to fill them in.
+ */
+
+import { parseConditionExpression } from './condition-expression.js';
+import type { ConditionNode } from './condition-expression.js';
+import type { VideoWorkflowStep, StepType } from './video-artifacts.js';
+import { WORKFLOW_GRAPH_END } from './workflow-graph.js';
+import type { WorkflowGraph, WorkflowGraphIssue, WorkflowGraphNode } from './workflow-graph.js';
+
+// ============================================================================
+// Report
+// ============================================================================
+
+export type AutomationStepStatus = 'mapped' | 'placeholder';
+
+export interface AutomationStepMapping {
+  step_number: number;
+  title: string;
+  step_type: StepType;
+  /** Name/id of the node or activity the step was exported as */
+  node: string;
+  status: AutomationStepStatus;
+  /** Why the step is a placeholder */
+  reason?: string;
+}
+
+export interface AutomationExportReport {
+  steps: AutomationStepMapping[];
+  mapped: number;
+  placeholders: number;
+  /** Structural problems found in the step graph (dangling targets, loops, ...) */
+  issues: WorkflowGraphIssue[];
+}
+
+/**
+ * Summarize per-step mappings into a report
+ */
+export function createAutomationExportReport(
+  steps: AutomationStepMapping[],
+  issues: WorkflowGraphIssue[] = []
+): AutomationExportReport {
+  const mapped = steps.filter(step => step.status === 'mapped').length;
+  return { steps, mapped, placeholders: steps.length - mapped, issues };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export type StepConditionResult =
+  | { success: true; ast: ConditionNode }
+  | { success: false; message: string };
+
+/**
+ * Parse a conditional step's condition_details.condition (simple_expr_v1)
+ */
+export function parseStepCondition(step: VideoWorkflowStep): StepConditionResult {
+  if (!step.condition_details) {
+    return { success: false, message: 'Conditional step has no condition_details' };
+  }
+  const parsed = parseConditionExpression(step.condition_details.condition);
+  if (!parsed.success) {
+    return {
+      success: false,
+      message: `Condition could not be parsed: ${parsed.error.message} at position ${parsed.error.position}`
+    };
+  }
+  return { success: true, ast: parsed.ast };
+}
+
+/**
+ * Plain-text description of a step, used for node notes and placeholder comments
+ */
+export function describeStepForAutomation(step: VideoWorkflowStep): string {
+  const lines = [step.action.trim()];
+  if (step.expected_result?.trim()) lines.push(`Expected result: ${step.expected_result.trim()}`);
+  if (step.visual_cues?.trim()) lines.push(`Visual cues: ${step.visual_cues.trim()}`);
+  return lines.join('\n');
+}
+
+/**
+ * Flat variable name for a condition variable (order.total -> order_total),
+ * for targets whose variables/inputs cannot be dotted paths
+ */
+export function toAutomationVariableName(name: string): string {
+  return name.replace(/\./g, '_');
+}
+
+/**
+ * Returns a function that gives each condition variable its flat name, unique
+ * within one export: a variable whose flat name is already taken by another
+ * (order.total and order_total) gets a numeric suffix (order_total_2).
+ */
+export function createAutomationVariableNamer(): (variable: string) => string {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  return (variable: string) => {
+    const known = names.get(variable);
+    if (known !== undefined) return known;
+    const base = toAutomationVariableName(variable);
+    let candidate = base;
+    for (let n = 2; used.has(candidate); n++) candidate = `${base}_${n}`;
+    names.set(variable, candidate);
+    used.add(candidate);
+    return candidate;
+  };
+}
+
+/**
+ * Returns a function that hands out unique display names, truncated to maxLength
+ * (most automation tools key connections on node/activity names).
+ * `suffix` formats the de-duplicated name (default: "Name (2)").
+ */
+export function createNameAllocator(
+  maxLength = 80,
+  suffix: (base: string, n: number) => string = (base, n) => `${base} (${n})`
+): (name: string) => string {
+  const used = new Set<string>();
+  return (name: string) => {
+    const base = name.replace(/\s+/g, ' ').trim().slice(0, maxLength) || 'Step';
+    let candidate = base;
+    for (let n = 2; used.has(candidate); n++) candidate = suffix(base, n);
+    used.add(candidate);
+    return candidate;
+  };
+}
+
+// ============================================================================
+// Structured (sequence-based) targets
+// ============================================================================
+
+export interface AutomationPhaseSegment {
+  /** Phase array index, null for ungrouped steps */
+  phase_index: number | null;
+  nodes: WorkflowGraphNode[];
+}
+
+/**
+ * Split the graph's steps (in guide order) into runs of consecutive steps that
+ * share a phase. Sequence-based targets nest each run in a Sequence/Scope.
+ */
+export function groupStepsByPhase(graph: WorkflowGraph): AutomationPhaseSegment[] {
+  const segments: AutomationPhaseSegment[] = [];
+  for (const node of graph.nodes) {
+    const last = segments[segments.length - 1];
+    if (last && last.phase_index === node.phase_index) last.nodes.push(node);
+    else segments.push({ phase_index: node.phase_index, nodes: [node] });
+  }
+  return segments;
+}
+
+/**
+ * Explicit branch targets of a conditional step that a sequence cannot express
+ * (anything other than falling through to the next step), as a report reason.
+ * Returns undefined when both branches simply continue with the next step.
+ */
+export function describeBranchJumps(graph: WorkflowGraph, stepNumber: number): string | undefined {
+  const index = graph.nodes.findIndex(node => node.step_number === stepNumber);
+  const fallThrough = graph.nodes[index + 1]?.step_number ?? WORKFLOW_GRAPH_END;
+  const jumps = graph.edges
+    .filter(edge => edge.from === stepNumber && edge.explicit && edge.to !== fallThrough)
+    .map(edge => `${edge.kind === 'if_true' ? 'true' : 'false'} branch continues at step ${edge.to}`);
+  return jumps.length > 0 ? `Sequence cannot jump: ${jumps.join(', ')}` : undefined;
+}
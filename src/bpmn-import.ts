@@ -0,0 +1,231 @@
+/**
+ * BPMN 2.0 Import
+ *
+ * Reads a BPMN 2.0 XML process into a ProcessDefinition and builds workflow
+ * guide content from it (see process-import.ts):
+ * - Tasks become steps; businessRuleTask becomes a check step, user/manual
+ *   tasks named like approvals ("Approve", "Review", "Sign off") become hitl
+ * - Exclusive/inclusive gateways become conditional steps; conditionExpression
+ *   (JUEL/FEEL) or the flow name is converted to simple_expr_v1 where possible
+ * - Lanes become temporal_phases
+ *
+ * Sub-process contents, data objects, annotations and event semantics (timers,
+ * messages, errors) are not carried over and are listed in the report.
+ */
+
+import { parseXml, xmlChildren, xmlLocalName, xmlText } from './xml-parser.js';
+import type { XmlElement } from './xml-parser.js';
+import { buildWorkflowGuideFromProcess } from './process-import.js';
+import type {
+  ProcessDefinition,
+  ProcessNode,
+  ProcessNodeKind,
+  ProcessEdge,
+  ProcessLane,
+  ProcessImportResult,
+  ImportLossEntry
+} from './process-import.js';
+
+export interface BpmnImportOptions {
+  /** id of the process to import (default: the first process with flow elements) */
+  processId?: string;
+  /** Workflow name (default: process, participant or definitions name) */
+  name?: string;
+}
+
+const TASK_KINDS: Record<string, ProcessNodeKind> = {
+  task: 'task',
+  userTask: 'task',
+  manualTask: 'task',
+  serviceTask: 'task',
+  scriptTask: 'task',
+  sendTask: 'task',
+  receiveTask: 'wait',
+  businessRuleTask: 'check',
+  callActivity: 'task',
+  subProcess: 'task',
+  adHocSubProcess: 'task',
+  transaction: 'task'
+};
+
+const GATEWAY_KINDS: Record<string, ProcessNodeKind> = {
+  exclusiveGateway: 'decision',
+  inclusiveGateway: 'decision',
+  complexGateway: 'decision',
+  eventBasedGateway: 'decision',
+  parallelGateway: 'parallel'
+};
+
+/** Elements that carry no process semantics of their own */
+const STRUCTURAL = new Set(['laneSet', 'extensionElements', 'documentation', 'ioSpecification', 'property', 'sequenceFlow']);
+
+const APPROVAL_NAME = /\b(approv\w*|review\w*|sign[- ]?off|authori[sz]\w*)\b/i;
+
+function documentation(element: XmlElement): string | undefined {
+  const text = xmlChildren(element, 'documentation').map(xmlText).filter(Boolean).join('\n');
+  return text || undefined;
+}
+
+function eventDefinition(element: XmlElement): string | undefined {
+  const definition = element.children.find(
+    (child): child is XmlElement => typeof child !== 'string' && xmlLocalName(child.name).endsWith('EventDefinition')
+  );
+  return definition ? xmlLocalName(definition.name).replace('EventDefinition', '') : undefined;
+}
+
+/** Leaf lanes (nested childLaneSets flattened) with the flow node ids they contain */
+function readLanes(process: XmlElement): Array<ProcessLane & { nodes: string[] }> {
+  const lanes: Array<ProcessLane & { nodes: string[] }> = [];
+  const visit = (laneSet: XmlElement) => {
+    for (const lane of xmlChildren(laneSet, 'lane')) {
+      const children = xmlChildren(lane, 'childLaneSet');
+      if (children.length > 0) {
+        children.forEach(visit);
+        continue;
+      }
+      lanes.push({
+        id: lane.attributes.id ?? `lane-${lanes.length + 1}`,
+        name: lane.attributes.name ?? '',
+        description: documentation(lane),
+        nodes: xmlChildren(lane, 'flowNodeRef').map(xmlText)
+      });
+    }
+  };
+  xmlChildren(process, 'laneSet').forEach(visit);
+  return lanes;
+}
+
+/**
+ * Import a BPMN 2.0 process as workflow guide content (schema 3.0)
+ *
+ * @example
+ * const result = importBpmnWorkflow(fs.readFileSync('invoice.bpmn', 'utf8'));
+ * if (result.success) {
+ *   save(result.content);
+ *   result.report.losses.forEach(loss => console.warn(loss.source_id, loss.message));
+ * }
+ */
+export function importBpmnWorkflow(xml: string, options: BpmnImportOptions = {}): ProcessImportResult {
+  const parsed = parseXml(xml);
+  if (!parsed.success) return { success: false, message: `Invalid XML at position ${parsed.position}: ${parsed.message}` };
+  const definitions = parsed.root;
+  if (xmlLocalName(definitions.name) !== 'definitions') {
+    return { success: false, message: `Not a BPMN 2.0 document (root element is <${definitions.name}>)` };
+  }
+
+  const processes = xmlChildren(definitions, 'process');
+  const hasFlow = (process: XmlElement) => xmlChildren(process).some(child => !STRUCTURAL.has(xmlLocalName(child.name)));
+  const process = options.processId
+    ? processes.find(p => p.attributes.id === options.processId)
+    : processes.find(hasFlow) ?? processes[0];
+  if (!process) {
+    return {
+      success: false,
+      message: options.processId ? `No process with id "${options.processId}"` : 'The document contains no <process>'
+    };
+  }
+
+  const losses: ImportLossEntry[] = [];
+  for (const other of processes) {
+    if (other !== process && hasFlow(other)) {
+      losses.push({ kind: 'element_skipped', source_id: other.attributes.id ?? '', source_name: other.attributes.name, message: 'Only one process is imported per workflow; import this process separately' });
+    }
+  }
+
+  const participant = xmlChildren(definitions, 'collaboration')
+    .flatMap(collaboration => xmlChildren(collaboration, 'participant'))
+    .find(p => p.attributes.processRef === process.attributes.id);
+  const name = options.name || process.attributes.name || participant?.attributes.name || definitions.attributes.name || 'Imported process';
+
+  const lanes = readLanes(process);
+  const laneOf = new Map(lanes.flatMap(lane => lane.nodes.map(id => [id, lane.id] as const)));
+
+  const nodes: ProcessNode[] = [];
+  const edges: ProcessEdge[] = [];
+  const defaults = new Set<string>();
+
+  for (const element of xmlChildren(process)) {
+    const type = xmlLocalName(element.name);
+    const id = element.attributes.id ?? '';
+    const label = element.attributes.name?.trim() ?? '';
+    const node = (kind: ProcessNodeKind, description = documentation(element)): ProcessNode => ({
+      id,
+      name: label,
+      kind,
+      ...(description ? { description } : {}),
+      ...(laneOf.has(id) ? { lane: laneOf.get(id) } : {})
+    });
+    const lose = (kind: ImportLossEntry['kind'], message: string) => {
+      losses.push({ kind, source_id: id || type, ...(label ? { source_name: label } : {}), message });
+    };
+
+    if (STRUCTURAL.has(type)) continue;
+
+    if (TASK_KINDS[type]) {
+      let kind = TASK_KINDS[type];
+      if ((type === 'userTask' || type === 'manualTask') && APPROVAL_NAME.test(label)) kind = 'wait';
+      nodes.push(node(kind));
+      if (type === 'scriptTask' && xmlChildren(element, 'script').length > 0) lose('parameters_dropped', 'Script body is not imported');
+      if (type === 'subProcess' || type === 'adHocSubProcess' || type === 'transaction') {
+        const inner = xmlChildren(element).filter(child => !STRUCTURAL.has(xmlLocalName(child.name))).length;
+        lose('element_skipped', `Sub-process imported as a single step; its ${inner} inner element(s) are not expanded`);
+      }
+      if (xmlChildren(element, 'multiInstanceLoopCharacteristics').length > 0 || xmlChildren(element, 'standardLoopCharacteristics').length > 0) {
+        lose('event_semantics', 'Loop/multi-instance marker is not represented');
+      }
+    } else if (GATEWAY_KINDS[type]) {
+      nodes.push(node(GATEWAY_KINDS[type]));
+      if (element.attributes.default) defaults.add(element.attributes.default);
+      if (type === 'inclusiveGateway') lose('event_semantics', 'Inclusive gateway imported as exclusive (only one branch is taken)');
+      if (type === 'eventBasedGateway') lose('event_semantics', 'Event-based gateway imported as a decision; the events it waits for are not represented');
+      if (type === 'complexGateway') lose('event_semantics', 'Complex gateway activation condition is not represented');
+    } else if (type === 'startEvent') {
+      nodes.push(node('start'));
+      const trigger = eventDefinition(element);
+      if (trigger) lose('event_semantics', `Process is started by a ${trigger} event; the trigger is not a step`);
+    } else if (type === 'endEvent') {
+      nodes.push(node('end'));
+      const result = eventDefinition(element);
+      if (result && result !== 'terminate') lose('event_semantics', `${result} end event is imported as a plain end`);
+    } else if (type === 'intermediateCatchEvent') {
+      const trigger = eventDefinition(element);
+      nodes.push(node('wait'));
+      lose('event_semantics', `Waits for a ${trigger ?? 'catch'} event; imported as a hitl step`);
+    } else if (type === 'intermediateThrowEvent') {
+      // Named throw events ("Notify customer") read as actions; unnamed ones are pass-through
+      nodes.push(node(label ? 'task' : 'merge'));
+    } else if (type === 'boundaryEvent') {
+      // Exception path: ordered after the activity it is attached to
+      nodes.push(node('merge'));
+      if (element.attributes.attachedToRef) edges.push({ from: element.attributes.attachedToRef, to: id });
+      lose('event_semantics', `${eventDefinition(element) ?? 'Boundary'} event on ${element.attributes.attachedToRef ?? 'an activity'}: its path is imported as ordinary steps`);
+    } else if (type === 'textAnnotation') {
+      lose('element_skipped', `Annotation not imported: "${xmlChildren(element, 'text').map(xmlText).join(' ')}"`);
+    } else if (type === 'association' || type === 'dataInputAssociation' || type === 'dataOutputAssociation') {
+      continue;
+    } else {
+      lose('element_skipped', `<${type}> is not supported`);
+    }
+  }
+
+  for (const flow of xmlChildren(process, 'sequenceFlow')) {
+    const condition = xmlChildren(flow, 'conditionExpression').map(xmlText).find(Boolean);
+    const label = flow.attributes.name?.trim();
+    edges.push({
+      from: flow.attributes.sourceRef ?? '',
+      to: flow.attributes.targetRef ?? '',
+      ...(label ? { label } : {}),
+      ...(condition ? { expressions: [condition] } : {}),
+      ...(defaults.has(flow.attributes.id ?? '') ? { isDefault: true } : {})
+    });
+  }
+
+  const definition: ProcessDefinition = {
+    name,
+    ...(documentation(process) ? { description: documentation(process) } : {}),
+    nodes,
+    edges,
+    lanes: lanes.map(({ nodes: _nodes, ...lane }) => lane)
+  };
+  return buildWorkflowGuideFromProcess(definition, 'bpmn', losses);
+}
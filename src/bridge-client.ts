@@ -0,0 +1,267 @@
+/**
+ * Bridge Command Client
+ *
+ * Transport-agnostic sender for the v1 bridge protocol (bridge-protocol.ts),
+ * used by the Session Manager. Every command gets a request_id that is kept
+ * across retries, a per-attempt deadline and an attempt number. Attempts that
+ * time out or fail in transport are retried with exponential backoff; the
+ * final failure is reported as an ErrorEnvelope:
+ * - sm_timeout: no reply within the timeout (or the bridge answered deadline_exceeded)
+ * - sm_network_error: the transport failed (connection refused, reset, ...)
+ * - upstream_error: the reply does not match the protocol or answers another request
+ *
+ * Failure responses from the bridge (busy, not_recording, ...) are replies,
+ * not errors: they come back as `response` with `success: false` and are not
+ * retried.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { createBridgeCommandRequest, parseBridgeCommandResponse } from './bridge-protocol.js';
+import type {
+  BridgeCommandName,
+  BridgeCommandArgs,
+  BridgeProtocolRequest,
+  BridgeProtocolResponse,
+  HandleBridgeCommand
+} from './bridge-protocol.js';
+import type { ErrorEnvelope } from './types.js';
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+export interface BridgeTransportContext {
+  /** Aborted when the attempt times out */
+  signal: AbortSignal;
+  timeoutMs: number;
+}
+
+/**
+ * Delivers one request and resolves with the bridge's raw reply (HTTP, IPC,
+ * WebSocket, ...). Rejects on transport failure.
+ */
+export type BridgeTransport = (request: BridgeProtocolRequest, context: BridgeTransportContext) => Promise<unknown>;
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export interface BridgeRetryPolicy {
+  /** Retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry */
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Delay multiplier per further retry */
+  factor: number;
+}
+
+export const DEFAULT_BRIDGE_RETRY_POLICY: BridgeRetryPolicy = {
+  retries: 2,
+  initialDelayMs: 250,
+  maxDelayMs: 2000,
+  factor: 2
+};
+
+export const DEFAULT_BRIDGE_TIMEOUT_MS = 5000;
+
+export interface BridgeClientOptions {
+  transport: BridgeTransport;
+  /** Per-attempt timeout (default: DEFAULT_BRIDGE_TIMEOUT_MS) */
+  timeoutMs?: number;
+  retry?: Partial<BridgeRetryPolicy>;
+  /** Default: uuid v4 */
+  generateRequestId?: () => string;
+  /** Clock for timestamps and deadlines (default: Date.now) */
+  now?: () => number;
+  /** Backoff wait (default: setTimeout); inject to test without waiting */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface BridgeSendOptions {
+  timeoutMs?: number;
+  retry?: Partial<BridgeRetryPolicy>;
+  /** Reuse a request_id, e.g. when resending a command after a restart */
+  request_id?: string;
+}
+
+export type BridgeSendResult<C extends BridgeCommandName> =
+  | { success: true; response: BridgeProtocolResponse<C>; attempts: number }
+  | { success: false; error: ErrorEnvelope; attempts: number };
+
+export interface BridgeClient {
+  send<C extends BridgeCommandName>(
+    command: C,
+    args: BridgeCommandArgs<C>,
+    options?: BridgeSendOptions
+  ): Promise<BridgeSendResult<C>>;
+}
+
+/**
+ * Backoff before retry number `retry` (1-based)
+ *
+ * @example
+ * getBridgeRetryDelay(1) // 250
+ * getBridgeRetryDelay(3) // 1000
+ */
+export function getBridgeRetryDelay(retry: number, policy: BridgeRetryPolicy = DEFAULT_BRIDGE_RETRY_POLICY): number {
+  return Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.factor, retry - 1));
+}
+
+type AttemptOutcome =
+  | { kind: 'reply'; response: BridgeProtocolResponse }
+  | { kind: 'timeout' }
+  | { kind: 'network'; message: string }
+  | { kind: 'invalid'; message: string };
+
+async function sendAttempt(
+  transport: BridgeTransport,
+  request: BridgeProtocolRequest,
+  timeoutMs: number
+): Promise<AttemptOutcome> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<{ timeout: true }>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve({ timeout: true });
+    }, timeoutMs);
+  });
+  // Never rejects, so a transport failing after the timeout is not an unhandled rejection
+  const delivered = Promise.resolve()
+    .then(() => transport(request, { signal: controller.signal, timeoutMs }))
+    .then(data => ({ data }), (error: unknown) => ({ error }));
+
+  const settled = await Promise.race([delivered, timedOut]);
+  clearTimeout(timer);
+
+  if ('timeout' in settled) return { kind: 'timeout' };
+  if ('error' in settled) {
+    const error = settled.error;
+    return { kind: 'network', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  const parsed = parseBridgeCommandResponse(request.command, settled.data);
+  if (!parsed.success) return { kind: 'invalid', message: parsed.message };
+  if (parsed.response.request_id !== request.request_id) {
+    return { kind: 'invalid', message: `request_id: expected "${request.request_id}", got "${parsed.response.request_id}"` };
+  }
+  if (!parsed.response.success && parsed.response.error.code === 'deadline_exceeded') return { kind: 'timeout' };
+  return { kind: 'reply', response: parsed.response };
+}
+
+/**
+ * Create a bridge command client over a transport
+ *
+ * @example
+ * const bridge = createBridgeClient({ transport: httpBridgeTransport, timeoutMs: 3000 });
+ * const sent = await bridge.send('audio_start', { session_id });
+ * if (!sent.success) return res.status(sent.error.http).json(sent.error); // sm_timeout, sm_network_error, upstream_error
+ * if (!sent.response.success) return handleBridgeFailure(sent.response.error); // busy, permission_denied, ...
+ */
+export function createBridgeClient(options: BridgeClientOptions): BridgeClient {
+  const transport = options.transport;
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const generateRequestId = options.generateRequestId ?? (() => `req_${uuidv4()}`);
+
+  async function send<C extends BridgeCommandName>(
+    command: C,
+    args: BridgeCommandArgs<C>,
+    sendOptions: BridgeSendOptions = {}
+  ): Promise<BridgeSendResult<C>> {
+    const timeoutMs = sendOptions.timeoutMs ?? options.timeoutMs ?? DEFAULT_BRIDGE_TIMEOUT_MS;
+    const policy = { ...DEFAULT_BRIDGE_RETRY_POLICY, ...options.retry, ...sendOptions.retry };
+    const requestId = sendOptions.request_id ?? generateRequestId();
+    const details = { command, request_id: requestId };
+
+    for (let attempt = 1; ; attempt++) {
+      const timestamp = now();
+      const request = createBridgeCommandRequest(command, args, {
+        request_id: requestId,
+        timestamp,
+        deadline: timestamp + timeoutMs,
+        attempt
+      });
+      const outcome = await sendAttempt(transport, request, timeoutMs);
+
+      if (outcome.kind === 'reply') {
+        return { success: true, response: outcome.response as BridgeProtocolResponse<C>, attempts: attempt };
+      }
+      if (outcome.kind === 'invalid') {
+        return {
+          success: false,
+          attempts: attempt,
+          error: { code: 'upstream_error', http: 502, message: `Invalid bridge response to ${command}: ${outcome.message}`, details: { ...details, attempts: attempt } }
+        };
+      }
+      if (attempt > policy.retries) {
+        return {
+          success: false,
+          attempts: attempt,
+          error: outcome.kind === 'timeout'
+            ? { code: 'sm_timeout', http: 503, message: `Bridge did not answer ${command} within ${timeoutMs} ms`, details: { ...details, attempts: attempt, timeout_ms: timeoutMs } }
+            : { code: 'sm_network_error', http: 503, message: `Bridge unreachable for ${command}: ${outcome.message}`, details: { ...details, attempts: attempt, cause: outcome.message } }
+        };
+      }
+      await sleep(getBridgeRetryDelay(attempt, policy));
+    }
+  }
+
+  return { send };
+}
+
+// ============================================================================
+// In-memory Bridge (tests)
+// ============================================================================
+
+/**
+ * Fault injected into one call of the in-memory transport:
+ * - drop_request: the bridge never sees the request (the attempt times out)
+ * - drop_response: the bridge runs the command but the reply is lost
+ * - network_error: the transport rejects immediately
+ */
+export type InMemoryBridgeFault = 'drop_request' | 'drop_response' | 'network_error';
+
+export interface InMemoryBridgeTransportOptions {
+  /** Fault for a call (0-based call index across all requests) */
+  fault?: (request: BridgeProtocolRequest, call: number) => InMemoryBridgeFault | undefined;
+  /** Delay before the bridge receives each request */
+  latencyMs?: number;
+}
+
+function waitForAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    const abort = () => reject(new Error('Request aborted'));
+    if (signal.aborted) abort();
+    else signal.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Transport that delivers requests to a dispatcher in the same process, with
+ * JSON round-tripping like a real wire and optional faults
+ *
+ * @example
+ * const bridge = createBridgeCommandDispatcher({ audio_start: startAudio });
+ * const client = createBridgeClient({
+ *   transport: createInMemoryBridgeTransport(bridge, { fault: (_, call) => call === 0 ? 'drop_response' : undefined }),
+ *   timeoutMs: 50
+ * });
+ */
+export function createInMemoryBridgeTransport(
+  handleBridgeCommand: HandleBridgeCommand,
+  options: InMemoryBridgeTransportOptions = {}
+): BridgeTransport {
+  let calls = 0;
+  return async (request, { signal }) => {
+    const fault = options.fault?.(request, calls++);
+    if (fault === 'network_error') throw new Error('connect ECONNREFUSED (in-memory bridge)');
+    if (fault === 'drop_request') return waitForAbort(signal);
+
+    if (options.latencyMs) await new Promise(resolve => setTimeout(resolve, options.latencyMs));
+    const reply = await handleBridgeCommand(JSON.parse(JSON.stringify(request)) as unknown);
+    if (fault === 'drop_response') return waitForAbort(signal);
+    return JSON.parse(JSON.stringify(reply)) as unknown;
+  };
+}
@@ -0,0 +1,434 @@
+/**
+ * Bridge Command Protocol (v1)
+ *
+ * Typed request/response pairs for the commands the Session Manager sends to
+ * the bridge. Every command has its own args and result schema, requests and
+ * responses carry a protocol version, and both sides are checked against the
+ * same contract: the bridge implements BridgeCommandHandlers and serves them
+ * through createBridgeCommandDispatcher; the Session Manager builds requests
+ * with createBridgeCommandRequest and validates replies with
+ * parseBridgeCommandResponse.
+ *
+ * Requests are correlated by request_id: the response echoes it, a retry
+ * resends the same request_id with the next `attempt` (the dispatcher replays
+ * its earlier response instead of running the command twice), and `deadline`
+ * tells the bridge when the sender stops waiting. createBridgeClient
+ * (bridge-client.ts) fills these in.
+ *
+ * BridgeCommandRequestSchema / BridgeCommandResponseSchema (schemas.ts) stay
+ * as the legacy, argument-less protocol; fromLegacyBridgeCommandRequest maps
+ * a legacy request onto v1.
+ */
+
+import { z } from 'zod';
+import type { BridgeCommandRequest } from './types.js';
+
+export const BRIDGE_PROTOCOL_VERSION = '1.0' as const;
+
+// ============================================================================
+// Command Schemas
+// ============================================================================
+
+export const BridgeCollectorSchema = z.object({
+  name: z.string(),
+  enabled: z.boolean(),
+  running: z.boolean(),
+  version: z.string().optional()
+});
+
+/**
+ * Args and result of every bridge command
+ */
+export const BRIDGE_COMMAND_SCHEMAS = {
+  ping: {
+    args: z.object({}),
+    result: z.object({
+      bridge_version: z.string(),
+      uptime_seconds: z.number().min(0)
+    })
+  },
+  status: {
+    args: z.object({}),
+    result: z.object({
+      recording: z.boolean(),
+      session_id: z.string().nullable(),
+      collectors: z.array(z.string()),
+      timeout_seconds: z.number().optional()
+    })
+  },
+  audio_start: {
+    // session_id is optional so legacy (argument-less) requests map onto v1
+    args: z.object({
+      session_id: z.string().min(1).optional(),
+      timeout_seconds: z.number().int().positive().optional()
+    }),
+    result: z.object({
+      session_id: z.string(),
+      started_at: z.string(),
+      timeout_seconds: z.number().optional()
+    })
+  },
+  audio_stop: {
+    args: z.object({
+      session_id: z.string().min(1).optional()
+    }),
+    result: z.object({
+      session_id: z.string(),
+      stopped_at: z.string(),
+      duration_seconds: z.number().min(0)
+    })
+  },
+  screen_start: {
+    args: z.object({
+      session_id: z.string().min(1),
+      display_id: z.string().optional(), // Default: primary display
+      fps: z.number().int().min(1).max(60).optional()
+    }),
+    result: z.object({
+      session_id: z.string(),
+      display_id: z.string(),
+      started_at: z.string()
+    })
+  },
+  screen_stop: {
+    args: z.object({
+      session_id: z.string().min(1)
+    }),
+    result: z.object({
+      session_id: z.string(),
+      stopped_at: z.string(),
+      frames_captured: z.number().int().min(0)
+    })
+  },
+  collectors_list: {
+    args: z.object({}),
+    result: z.object({
+      collectors: z.array(BridgeCollectorSchema)
+    })
+  },
+  config_get: {
+    args: z.object({
+      keys: z.array(z.string()).optional() // Default: all keys
+    }),
+    result: z.object({
+      config: z.record(z.string(), z.unknown())
+    })
+  }
+} as const;
+
+export type BridgeCommandName = keyof typeof BRIDGE_COMMAND_SCHEMAS;
+export type BridgeCommandArgs<C extends BridgeCommandName> = z.infer<typeof BRIDGE_COMMAND_SCHEMAS[C]['args']>;
+export type BridgeCommandResult<C extends BridgeCommandName> = z.infer<typeof BRIDGE_COMMAND_SCHEMAS[C]['result']>;
+export type BridgeCollector = z.infer<typeof BridgeCollectorSchema>;
+
+export const BRIDGE_COMMANDS = Object.keys(BRIDGE_COMMAND_SCHEMAS) as BridgeCommandName[];
+
+// ============================================================================
+// Request / Response Envelopes
+// ============================================================================
+
+const EnvelopeSchema = z.object({
+  protocol_version: z.literal(BRIDGE_PROTOCOL_VERSION),
+  request_id: z.string().optional(), // Echoed in the response
+  timestamp: z.number() // Epoch milliseconds
+});
+
+function commandRequestSchema<C extends BridgeCommandName, A extends z.ZodTypeAny>(
+  command: C,
+  schemas: { args: A }
+) {
+  return EnvelopeSchema.extend({
+    command: z.literal(command),
+    deadline: z.number().optional(), // Epoch milliseconds after which the sender no longer waits
+    attempt: z.number().int().min(1).optional(), // 1 for the first send, +1 per retry of the same request_id
+    args: schemas.args
+  });
+}
+
+function commandSuccessSchema<C extends BridgeCommandName, R extends z.ZodTypeAny>(
+  command: C,
+  schemas: { result: R }
+) {
+  return EnvelopeSchema.extend({
+    command: z.literal(command),
+    success: z.literal(true),
+    result: schemas.result
+  });
+}
+
+export const BridgeProtocolRequestSchema = z.discriminatedUnion('command', [
+  commandRequestSchema('ping', BRIDGE_COMMAND_SCHEMAS.ping),
+  commandRequestSchema('status', BRIDGE_COMMAND_SCHEMAS.status),
+  commandRequestSchema('audio_start', BRIDGE_COMMAND_SCHEMAS.audio_start),
+  commandRequestSchema('audio_stop', BRIDGE_COMMAND_SCHEMAS.audio_stop),
+  commandRequestSchema('screen_start', BRIDGE_COMMAND_SCHEMAS.screen_start),
+  commandRequestSchema('screen_stop', BRIDGE_COMMAND_SCHEMAS.screen_stop),
+  commandRequestSchema('collectors_list', BRIDGE_COMMAND_SCHEMAS.collectors_list),
+  commandRequestSchema('config_get', BRIDGE_COMMAND_SCHEMAS.config_get)
+]).describe('Bridge command request (protocol v1)');
+
+export const BridgeCommandSuccessSchema = z.discriminatedUnion('command', [
+  commandSuccessSchema('ping', BRIDGE_COMMAND_SCHEMAS.ping),
+  commandSuccessSchema('status', BRIDGE_COMMAND_SCHEMAS.status),
+  commandSuccessSchema('audio_start', BRIDGE_COMMAND_SCHEMAS.audio_start),
+  commandSuccessSchema('audio_stop', BRIDGE_COMMAND_SCHEMAS.audio_stop),
+  commandSuccessSchema('screen_start', BRIDGE_COMMAND_SCHEMAS.screen_start),
+  commandSuccessSchema('screen_stop', BRIDGE_COMMAND_SCHEMAS.screen_stop),
+  commandSuccessSchema('collectors_list', BRIDGE_COMMAND_SCHEMAS.collectors_list),
+  commandSuccessSchema('config_get', BRIDGE_COMMAND_SCHEMAS.config_get)
+]);
+
+export const BridgeProtocolErrorSchema = z.object({
+  code: z.enum([
+    'invalid_request',      // Request does not match the protocol
+    'unsupported_version',  // protocol_version not spoken by this bridge
+    'unsupported_command',  // Command not implemented by this bridge
+    'busy',                 // Another recording is active
+    'not_recording',        // Stop without a matching start
+    'permission_denied',    // OS permission missing (microphone, screen recording)
+    'deadline_exceeded',    // Request arrived after its deadline and was not run
+    'internal_error'        // Handler failed or returned an invalid result
+  ]),
+  message: z.string().min(1),
+  details: z.record(z.string(), z.unknown()).optional()
+});
+
+// command is a plain string: failures also answer requests that named no valid command
+export const BridgeProtocolFailureSchema = EnvelopeSchema.extend({
+  command: z.string(),
+  success: z.literal(false),
+  error: BridgeProtocolErrorSchema
+});
+
+export const BridgeProtocolResponseSchema = z.union([
+  BridgeCommandSuccessSchema,
+  BridgeProtocolFailureSchema
+]).describe('Bridge command response (protocol v1)');
+
+export type BridgeProtocolRequest<C extends BridgeCommandName = BridgeCommandName> =
+  Extract<z.infer<typeof BridgeProtocolRequestSchema>, { command: C }>;
+export type BridgeCommandSuccess<C extends BridgeCommandName = BridgeCommandName> =
+  Extract<z.infer<typeof BridgeCommandSuccessSchema>, { command: C }>;
+export type BridgeProtocolError = z.infer<typeof BridgeProtocolErrorSchema>;
+export type BridgeProtocolErrorCode = BridgeProtocolError['code'];
+export type BridgeProtocolFailure = z.infer<typeof BridgeProtocolFailureSchema>;
+export type BridgeProtocolResponse<C extends BridgeCommandName = BridgeCommandName> =
+  BridgeCommandSuccess<C> | BridgeProtocolFailure;
+
+// ============================================================================
+// Requests (Session Manager side)
+// ============================================================================
+
+export interface BridgeRequestOptions {
+  request_id?: string;
+  /** Epoch milliseconds (default: Date.now()) */
+  timestamp?: number;
+  /** Epoch milliseconds after which the bridge should not run the command */
+  deadline?: number;
+  /** Send attempt, starting at 1 */
+  attempt?: number;
+}
+
+/**
+ * Build a v1 request for a command
+ *
+ * @example
+ * createBridgeCommandRequest('screen_start', { session_id: 'sess_1', fps: 2 }, { request_id: 'req_9' })
+ * // { protocol_version: '1.0', command: 'screen_start', args: { ... }, request_id: 'req_9', timestamp: 1757320340000 }
+ */
+export function createBridgeCommandRequest<C extends BridgeCommandName>(
+  command: C,
+  args: BridgeCommandArgs<C>,
+  options: BridgeRequestOptions = {}
+): BridgeProtocolRequest<C> {
+  return {
+    protocol_version: BRIDGE_PROTOCOL_VERSION,
+    command,
+    args,
+    ...(options.request_id !== undefined && { request_id: options.request_id }),
+    timestamp: options.timestamp ?? Date.now(),
+    ...(options.deadline !== undefined && { deadline: options.deadline }),
+    ...(options.attempt !== undefined && { attempt: options.attempt })
+  } as BridgeProtocolRequest<C>;
+}
+
+/**
+ * Map a legacy request (BridgeCommandRequestSchema) onto v1, with empty args
+ */
+export function fromLegacyBridgeCommandRequest(request: BridgeCommandRequest): BridgeProtocolRequest {
+  return createBridgeCommandRequest(request.command, {}, { timestamp: request.timestamp });
+}
+
+export type BridgeCommandResponseParseResult<C extends BridgeCommandName> =
+  | { success: true; response: BridgeProtocolResponse<C> }
+  | { success: false; message: string };
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Validate a bridge reply to a command. A well-formed failure response is a
+ * successful parse; check `response.success` for the command's outcome.
+ *
+ * @example
+ * const parsed = parseBridgeCommandResponse('status', body);
+ * if (parsed.success && parsed.response.success) console.log(parsed.response.result.recording);
+ */
+export function parseBridgeCommandResponse<C extends BridgeCommandName>(
+  command: C,
+  data: unknown
+): BridgeCommandResponseParseResult<C> {
+  const result = BridgeProtocolResponseSchema.safeParse(data);
+  if (!result.success) return { success: false, message: formatIssues(result.error) };
+  if (result.data.success && result.data.command !== command) {
+    return { success: false, message: `command: expected "${command}", got "${result.data.command}"` };
+  }
+  return { success: true, response: result.data as BridgeProtocolResponse<C> };
+}
+
+// ============================================================================
+// Dispatch (bridge side)
+// ============================================================================
+
+/** What a handler reports: the command's result, or a protocol error */
+export type BridgeCommandOutcome<C extends BridgeCommandName> =
+  | { success: true; result: BridgeCommandResult<C> }
+  | { success: false; error: BridgeProtocolError };
+
+export type BridgeCommandHandler<C extends BridgeCommandName> = (
+  args: BridgeCommandArgs<C>,
+  request: BridgeProtocolRequest<C>
+) => BridgeCommandOutcome<C> | Promise<BridgeCommandOutcome<C>>;
+
+/** Handlers per command; commands without one answer 'unsupported_command' */
+export type BridgeCommandHandlers = {
+  [C in BridgeCommandName]?: BridgeCommandHandler<C>;
+};
+
+/** Dispatcher returned by createBridgeCommandDispatcher */
+export interface HandleBridgeCommand {
+  <R extends BridgeProtocolRequest>(request: R): Promise<BridgeProtocolResponse<R['command']>>;
+  (request: unknown): Promise<BridgeProtocolResponse>;
+}
+
+export interface BridgeDispatcherOptions {
+  /** Clock for response timestamps and deadlines (default: Date.now) */
+  now?: () => number;
+  /** Responses kept for replaying retried request_ids (default: 100) */
+  replayLimit?: number;
+}
+
+/**
+ * Create the bridge's command dispatcher
+ *
+ * The dispatcher never throws: malformed requests, other protocol versions,
+ * commands without a handler, handler exceptions, and results or errors that
+ * do not match their schemas all become failure responses (invalid handler
+ * output becomes 'internal_error').
+ *
+ * A request whose request_id was seen before (a retry) gets the earlier
+ * response without running the handler again; the last `replayLimit`
+ * request_ids are remembered. A request past its deadline is answered with
+ * 'deadline_exceeded' and not run.
+ *
+ * @example
+ * const handleBridgeCommand = createBridgeCommandDispatcher({
+ *   ping: () => ({ success: true, result: { bridge_version: '2.3.0', uptime_seconds: process.uptime() } }),
+ *   audio_stop: async ({ session_id }) => recorder.active
+ *     ? { success: true, result: await recorder.stop(session_id) }
+ *     : { success: false, error: { code: 'not_recording', message: 'No audio recording in progress' } }
+ * });
+ * res.json(await handleBridgeCommand(req.body));
+ */
+export function createBridgeCommandDispatcher(
+  handlers: BridgeCommandHandlers,
+  options: BridgeDispatcherOptions = {}
+): HandleBridgeCommand {
+  const now = options.now ?? Date.now;
+  const replayLimit = options.replayLimit ?? 100;
+  const replies = new Map<string, Promise<BridgeProtocolResponse>>();
+
+  async function handleBridgeCommand(raw: unknown): Promise<BridgeProtocolResponse> {
+    const fields = typeof raw === 'object' && raw !== null ? raw as Record<string, unknown> : {};
+    const envelope = {
+      protocol_version: BRIDGE_PROTOCOL_VERSION,
+      ...(typeof fields.request_id === 'string' && { request_id: fields.request_id }),
+      command: typeof fields.command === 'string' ? fields.command : 'unknown'
+    };
+    const fail = (error: BridgeProtocolError): BridgeProtocolFailure =>
+      ({ ...envelope, timestamp: now(), success: false, error });
+
+    if (fields.protocol_version !== undefined && fields.protocol_version !== BRIDGE_PROTOCOL_VERSION) {
+      return fail({
+        code: 'unsupported_version',
+        message: `Protocol version ${String(fields.protocol_version)} is not supported`,
+        details: { supported_versions: [BRIDGE_PROTOCOL_VERSION] }
+      });
+    }
+
+    const parsed = BridgeProtocolRequestSchema.safeParse(raw);
+    if (!parsed.success) return fail({ code: 'invalid_request', message: formatIssues(parsed.error) });
+    const request = parsed.data;
+
+    const replayKey = request.request_id !== undefined ? `${request.command}:${request.request_id}` : undefined;
+    const previous = replayKey !== undefined ? replies.get(replayKey) : undefined;
+    if (previous) return previous;
+
+    if (request.deadline !== undefined && now() > request.deadline) {
+      return fail({
+        code: 'deadline_exceeded',
+        message: 'Request arrived after its deadline',
+        details: { deadline: request.deadline, attempt: request.attempt ?? 1 }
+      });
+    }
+
+    const reply = execute(request, fail);
+    if (replayKey !== undefined && replayLimit > 0) {
+      replies.set(replayKey, reply);
+      if (replies.size > replayLimit) replies.delete(replies.keys().next().value as string);
+    }
+    return reply;
+  }
+
+  async function execute(
+    request: BridgeProtocolRequest,
+    fail: (error: BridgeProtocolError) => BridgeProtocolFailure
+  ): Promise<BridgeProtocolResponse> {
+    const envelope = {
+      protocol_version: BRIDGE_PROTOCOL_VERSION,
+      ...(request.request_id !== undefined && { request_id: request.request_id }),
+      command: request.command
+    };
+    const handler = handlers[request.command] as BridgeCommandHandler<BridgeCommandName> | undefined;
+    if (!handler) {
+      return fail({ code: 'unsupported_command', message: `Command "${request.command}" is not supported by this bridge` });
+    }
+
+    // Handler failures are checked too: a reply must always parse on the sender side
+    const internalError = (message: string): BridgeProtocolError =>
+      ({ code: 'internal_error', message: message.trim() || `${request.command} handler failed` });
+
+    let outcome: BridgeCommandOutcome<BridgeCommandName>;
+    try {
+      outcome = await handler(request.args, request);
+    } catch (error) {
+      return fail(internalError(error instanceof Error ? error.message : String(error)));
+    }
+    if (typeof outcome !== 'object' || outcome === null) {
+      return fail(internalError(`Invalid ${request.command} outcome: expected an object`));
+    }
+    if (!outcome.success) {
+      const error = BridgeProtocolErrorSchema.safeParse(outcome.error);
+      return fail(error.success ? error.data : internalError(`Invalid ${request.command} error: ${formatIssues(error.error)}`));
+    }
+
+    const result = BRIDGE_COMMAND_SCHEMAS[request.command].result.safeParse(outcome.result);
+    if (!result.success) {
+      return fail({ code: 'internal_error', message: `Invalid ${request.command} result: ${formatIssues(result.error)}` });
+    }
+    return { ...envelope, timestamp: now(), success: true, result: result.data } as BridgeProtocolResponse;
+  }
+
+  return handleBridgeCommand as HandleBridgeCommand;
+}
@@ -0,0 +1,42 @@
+/**
+ * Canonical JSON
+ *
+ * Deterministic JSON serialization for hashing (manifest content_sha256,
+ * trigger_hash). Matches Python's json.dumps(value, sort_keys=True,
+ * separators=(',', ':')) so hashes agree with the Forge pipeline, except for
+ * floats with an integral value (Python writes 1.0, JavaScript 1).
+ */
+
+function canonicalString(value: string): string {
+  // JSON.stringify escapes quotes, backslashes and control characters; Python also escapes non-ASCII
+  return JSON.stringify(value).replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+/**
+ * Serialize a JSON value with sorted object keys, no whitespace and non-ASCII
+ * characters escaped. Object properties that are undefined are omitted (as in
+ * JSON.stringify); non-finite numbers are rejected.
+ *
+ * @example
+ * canonicalJson({ b: 1, a: ['é', null] }) // '{"a":["\\u00e9",null],"b":1}'
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null) return 'null';
+  switch (typeof value) {
+    case 'string':
+      return canonicalString(value);
+    case 'number':
+      if (!Number.isFinite(value)) throw new Error(`Cannot serialize ${value} as canonical JSON`);
+      return JSON.stringify(value);
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'object': {
+      if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+      const record = value as Record<string, unknown>;
+      const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+      return `{${keys.map(key => `${canonicalString(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+    }
+    default:
+      throw new Error(`Cannot serialize a ${typeof value} as canonical JSON`);
+  }
+}
@@ -0,0 +1,657 @@
+/**
+ * simple_expr_v1 Condition Language
+ *
+ * Tokenizer, parser, AST, evaluator and validator for the expression language
+ * documented on ConditionalDetailsSchema:
+ * - Comparisons: >, <, =, >=, <=, !=
+ * - String ops: CONTAINS, STARTS_WITH, ENDS_WITH
+ * - Emptiness: IS_EMPTY(x), IS_NOT_EMPTY(x) (or postfix: x IS_EMPTY)
+ * - Logic: AND, OR, NOT (uppercase), parentheses for grouping
+ * - Literals: numbers, single-quoted strings ('blue', 'it\'s'), TRUE, FALSE
+ *
+ * Precedence (lowest to highest): OR, AND, NOT, comparison.
+ * Exporters walk the AST to produce platform-specific branches; importers and
+ * migrations convert other dialects with toSimpleExpression.
+ */
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+export type ConditionTokenType =
+  | 'identifier'
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'operator'
+  | 'keyword'
+  | 'lparen'
+  | 'rparen'
+  | 'eof';
+
+export interface ConditionToken {
+  type: ConditionTokenType;
+  /** Source text for identifiers/operators/keywords; decoded value for strings */
+  value: string;
+  /** 0-based character offset of the token start */
+  start: number;
+  /** 0-based character offset just past the token end */
+  end: number;
+}
+
+export const CONDITION_KEYWORDS = [
+  'AND', 'OR', 'NOT',
+  'CONTAINS', 'STARTS_WITH', 'ENDS_WITH',
+  'IS_EMPTY', 'IS_NOT_EMPTY'
+] as const;
+export type ConditionKeyword = typeof CONDITION_KEYWORDS[number];
+
+export const COMPARISON_OPERATORS = ['=', '!=', '>', '<', '>=', '<=', 'CONTAINS', 'STARTS_WITH', 'ENDS_WITH'] as const;
+export type ComparisonOperator = typeof COMPARISON_OPERATORS[number];
+
+export type EmptinessOperator = 'IS_EMPTY' | 'IS_NOT_EMPTY';
+
+export interface ConditionSyntaxError {
+  message: string;
+  /** 0-based character offset where the error was detected */
+  position: number;
+}
+
+const KEYWORD_SET = new Set<string>(CONDITION_KEYWORDS);
+const SYMBOL_OPERATORS = ['>=', '<=', '!=', '=', '>', '<'];
+
+function isIdentifierStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch);
+}
+
+function isIdentifierPart(ch: string): boolean {
+  return /[A-Za-z0-9_.]/.test(ch);
+}
+
+function isDigit(ch: string | undefined): boolean {
+  return ch !== undefined && ch >= '0' && ch <= '9';
+}
+
+export type ConditionTokenizeResult =
+  | { success: true; tokens: ConditionToken[] }
+  | { success: false; error: ConditionSyntaxError };
+
+/**
+ * Split an expression into tokens. The token list always ends with an 'eof' token.
+ */
+export function tokenizeCondition(input: string): ConditionTokenizeResult {
+  const tokens: ConditionToken[] = [];
+  let i = 0;
+
+  const previousIsOperand = () => {
+    const prev = tokens[tokens.length - 1];
+    return prev !== undefined && ['identifier', 'number', 'string', 'boolean', 'rparen'].includes(prev.type);
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          value += input[i + 1];
+          i += 2;
+        } else {
+          value += input[i];
+          i++;
+        }
+      }
+      if (i >= input.length) {
+        return { success: false, error: { message: 'Unterminated string literal', position: start } };
+      }
+      i++; // closing quote
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+
+    if (ch === '"') {
+      return { success: false, error: { message: 'Strings must use single quotes', position: i } };
+    }
+
+    // Numbers (a leading minus is part of the number when an operand is expected)
+    if (isDigit(ch) || (ch === '-' && isDigit(input[i + 1]) && !previousIsOperand())) {
+      const start = i;
+      i++;
+      while (isDigit(input[i])) i++;
+      if (input[i] === '.' && isDigit(input[i + 1])) {
+        i++;
+        while (isDigit(input[i])) i++;
+      }
+      tokens.push({ type: 'number', value: input.slice(start, i), start, end: i });
+      continue;
+    }
+
+    const symbol = SYMBOL_OPERATORS.find(op => input.startsWith(op, i));
+    if (symbol) {
+      if (symbol === '=' && input[i + 1] === '=') {
+        return { success: false, error: { message: "Use '=' for equality, not '=='", position: i } };
+      }
+      tokens.push({ type: 'operator', value: symbol, start: i, end: i + symbol.length });
+      i += symbol.length;
+      continue;
+    }
+
+    if (isIdentifierStart(ch)) {
+      const start = i;
+      while (i < input.length && isIdentifierPart(input[i])) i++;
+      const word = input.slice(start, i);
+      if (word === 'TRUE' || word === 'FALSE') {
+        tokens.push({ type: 'boolean', value: word, start, end: i });
+      } else if (KEYWORD_SET.has(word)) {
+        tokens.push({ type: 'keyword', value: word, start, end: i });
+      } else {
+        tokens.push({ type: 'identifier', value: word, start, end: i });
+      }
+      continue;
+    }
+
+    if (ch === '&' || ch === '|') {
+      return {
+        success: false,
+        error: { message: `Use ${ch === '&' ? 'AND' : 'OR'} instead of '${ch}'`, position: i }
+      };
+    }
+
+    return { success: false, error: { message: `Unexpected character '${ch}'`, position: i } };
+  }
+
+  tokens.push({ type: 'eof', value: '', start: input.length, end: input.length });
+  return { success: true, tokens };
+}
+
+// ============================================================================
+// AST
+// ============================================================================
+
+export interface ConditionSpan {
+  start: number;
+  end: number;
+}
+
+export type ConditionValueNode = ConditionSpan & (
+  | { kind: 'variable'; name: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean'; value: boolean }
+);
+
+export type ConditionNode = ConditionSpan & (
+  | { kind: 'logical'; operator: 'AND' | 'OR'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: ConditionValueNode; right: ConditionValueNode }
+  | { kind: 'emptiness'; operator: EmptinessOperator; operand: ConditionValueNode }
+  /** Bare value used as a condition (truthiness), e.g. `is_approved` */
+  | { kind: 'value'; value: ConditionValueNode }
+);
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+export type ConditionParseResult =
+  | { success: true; ast: ConditionNode }
+  | { success: false; error: ConditionSyntaxError };
+
+class ConditionParseError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+function describeToken(token: ConditionToken): string {
+  switch (token.type) {
+    case 'eof': return 'end of expression';
+    case 'string': return `string '${token.value}'`;
+    default: return `'${token.value}'`;
+  }
+}
+
+function parseTokens(tokens: ConditionToken[]): ConditionNode {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isKeyword = (token: ConditionToken, keyword: ConditionKeyword) =>
+    token.type === 'keyword' && token.value === keyword;
+
+  const expect = (type: ConditionTokenType, what: string): ConditionToken => {
+    const token = peek();
+    if (token.type !== type) {
+      throw new ConditionParseError(`Expected ${what} but found ${describeToken(token)}`, token.start);
+    }
+    return next();
+  };
+
+  const parseValue = (): ConditionValueNode => {
+    const token = peek();
+    switch (token.type) {
+      case 'identifier': {
+        const upper = token.value.toUpperCase();
+        if (KEYWORD_SET.has(upper) || upper === 'TRUE' || upper === 'FALSE') {
+          throw new ConditionParseError(`Keywords must be uppercase: use ${upper} instead of ${token.value}`, token.start);
+        }
+        next();
+        return { kind: 'variable', name: token.value, start: token.start, end: token.end };
+      }
+      case 'string':
+        next();
+        return { kind: 'string', value: token.value, start: token.start, end: token.end };
+      case 'number':
+        next();
+        return { kind: 'number', value: Number(token.value), start: token.start, end: token.end };
+      case 'boolean':
+        next();
+        return { kind: 'boolean', value: token.value === 'TRUE', start: token.start, end: token.end };
+      default:
+        throw new ConditionParseError(`Expected a variable or value but found ${describeToken(token)}`, token.start);
+    }
+  };
+
+  const parsePrimary = (): ConditionNode => {
+    const token = peek();
+
+    if (token.type === 'lparen') {
+      next();
+      const inner = parseOr();
+      const close = expect('rparen', "')'");
+      return { ...inner, start: token.start, end: close.end };
+    }
+
+    if (isKeyword(token, 'IS_EMPTY') || isKeyword(token, 'IS_NOT_EMPTY')) {
+      next();
+      expect('lparen', `'(' after ${token.value}`);
+      const operand = parseValue();
+      const close = expect('rparen', "')'");
+      return {
+        kind: 'emptiness',
+        operator: token.value as EmptinessOperator,
+        operand,
+        start: token.start,
+        end: close.end
+      };
+    }
+
+    const left = parseValue();
+    const op = peek();
+
+    if (op.type === 'operator' || isKeyword(op, 'CONTAINS') || isKeyword(op, 'STARTS_WITH') || isKeyword(op, 'ENDS_WITH')) {
+      next();
+      const right = parseValue();
+      return {
+        kind: 'comparison',
+        operator: op.value as ComparisonOperator,
+        left,
+        right,
+        start: left.start,
+        end: right.end
+      };
+    }
+
+    if (isKeyword(op, 'IS_EMPTY') || isKeyword(op, 'IS_NOT_EMPTY')) {
+      next();
+      return { kind: 'emptiness', operator: op.value as EmptinessOperator, operand: left, start: left.start, end: op.end };
+    }
+
+    return { kind: 'value', value: left, start: left.start, end: left.end };
+  };
+
+  const parseUnary = (): ConditionNode => {
+    const token = peek();
+    if (isKeyword(token, 'NOT')) {
+      next();
+      const operand = parseUnary();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseUnary();
+    while (isKeyword(peek(), 'AND')) {
+      next();
+      const right = parseUnary();
+      left = { kind: 'logical', operator: 'AND', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseOr = (): ConditionNode => {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      next();
+      const right = parseAnd();
+      left = { kind: 'logical', operator: 'OR', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const ast = parseOr();
+  const trailing = peek();
+  if (trailing.type !== 'eof') {
+    const hint = trailing.type === 'identifier' && KEYWORD_SET.has(trailing.value.toUpperCase())
+      ? ` (keywords must be uppercase: ${trailing.value.toUpperCase()})`
+      : '';
+    throw new ConditionParseError(`Unexpected ${describeToken(trailing)}${hint}`, trailing.start);
+  }
+  return ast;
+}
+
+/**
+ * Parse a simple_expr_v1 expression into an AST
+ *
+ * @example
+ * const result = parseConditionExpression("value > 5 AND text CONTAINS 'blue'");
+ * if (result.success) console.log(result.ast.kind); // 'logical'
+ */
+export function parseConditionExpression(input: string): ConditionParseResult {
+  const tokenized = tokenizeCondition(input);
+  if (!tokenized.success) return tokenized;
+
+  if (tokenized.tokens.length === 1) {
+    return { success: false, error: { message: 'Condition cannot be empty', position: 0 } };
+  }
+
+  try {
+    return { success: true, ast: parseTokens(tokenized.tokens) };
+  } catch (error) {
+    if (error instanceof ConditionParseError) {
+      return { success: false, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export interface ConditionValidationResult {
+  valid: boolean;
+  errors: ConditionSyntaxError[];
+  /** Variables referenced by the expression (empty when invalid) */
+  variables: string[];
+}
+
+/**
+ * Collect the variable names referenced by an expression, in order of first use
+ */
+export function getConditionVariables(ast: ConditionNode): string[] {
+  const names: string[] = [];
+  const visitValue = (value: ConditionValueNode) => {
+    if (value.kind === 'variable' && !names.includes(value.name)) names.push(value.name);
+  };
+  const visit = (node: ConditionNode): void => {
+    switch (node.kind) {
+      case 'logical': visit(node.left); visit(node.right); break;
+      case 'not': visit(node.operand); break;
+      case 'comparison': visitValue(node.left); visitValue(node.right); break;
+      case 'emptiness': visitValue(node.operand); break;
+      case 'value': visitValue(node.value); break;
+    }
+  };
+  visit(ast);
+  return names;
+}
+
+/**
+ * Validate an expression, reporting syntax errors with character positions
+ *
+ * @example
+ * validateConditionExpression("value > ").errors
+ * // [{ message: "Expected a variable or value but found end of expression", position: 8 }]
+ */
+export function validateConditionExpression(input: string): ConditionValidationResult {
+  const result = parseConditionExpression(input);
+  if (!result.success) {
+    return { valid: false, errors: [result.error], variables: [] };
+  }
+  return { valid: true, errors: [], variables: getConditionVariables(result.ast) };
+}
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+export type ConditionVariables = Record<string, unknown>;
+
+function lookupVariable(variables: ConditionVariables, name: string): unknown {
+  // Own properties only, so toString or __proto__ do not resolve to Object.prototype members
+  if (Object.hasOwn(variables, name)) return variables[name];
+  // Dotted names walk nested objects: order.total -> variables.order.total
+  let current: unknown = variables;
+  for (const part of name.split('.')) {
+    if (current === null || typeof current !== 'object' || !Object.hasOwn(current, part)) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function resolveValue(node: ConditionValueNode, variables: ConditionVariables): unknown {
+  return node.kind === 'variable' ? lookupVariable(variables, node.name) : node.value;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+  }
+  return undefined;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  if (left === undefined || left === null || right === undefined || right === null) {
+    return (left ?? null) === (right ?? null);
+  }
+  const l = toNumber(left);
+  const r = toNumber(right);
+  if (l !== undefined && r !== undefined) return l === r;
+  return String(left) === String(right);
+}
+
+function compareValues(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '=':
+      return valuesEqual(left, right);
+    case '!=':
+      return !valuesEqual(left, right);
+    case '>':
+    case '<':
+    case '>=':
+    case '<=': {
+      if (left === undefined || left === null || right === undefined || right === null) return false;
+      const l = toNumber(left);
+      const r = toNumber(right);
+      const [a, b]: [number | string, number | string] = l !== undefined && r !== undefined
+        ? [l, r]
+        : [String(left), String(right)];
+      if (operator === '>') return a > b;
+      if (operator === '<') return a < b;
+      if (operator === '>=') return a >= b;
+      return a <= b;
+    }
+    case 'CONTAINS':
+      if (Array.isArray(left)) return left.some(item => valuesEqual(item, right));
+      if (left === undefined || left === null || right === undefined || right === null) return false;
+      return String(left).includes(String(right));
+    case 'STARTS_WITH':
+      if (left === undefined || left === null || right === undefined || right === null) return false;
+      return String(left).startsWith(String(right));
+    case 'ENDS_WITH':
+      if (left === undefined || left === null || right === undefined || right === null) return false;
+      return String(left).endsWith(String(right));
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  if (typeof value === 'string') return value.trim() !== '' && value.toLowerCase() !== 'false';
+  return !isEmptyValue(value) && value !== false && value !== 0;
+}
+
+/**
+ * Evaluate a parsed expression against a variable map.
+ * Missing variables resolve to undefined: comparisons against them are false
+ * (except != ), and IS_EMPTY is true.
+ */
+export function evaluateCondition(ast: ConditionNode, variables: ConditionVariables): boolean {
+  switch (ast.kind) {
+    case 'logical':
+      return ast.operator === 'AND'
+        ? evaluateCondition(ast.left, variables) && evaluateCondition(ast.right, variables)
+        : evaluateCondition(ast.left, variables) || evaluateCondition(ast.right, variables);
+    case 'not':
+      return !evaluateCondition(ast.operand, variables);
+    case 'comparison':
+      return compareValues(ast.operator, resolveValue(ast.left, variables), resolveValue(ast.right, variables));
+    case 'emptiness': {
+      const empty = isEmptyValue(resolveValue(ast.operand, variables));
+      return ast.operator === 'IS_EMPTY' ? empty : !empty;
+    }
+    case 'value':
+      return isTruthy(resolveValue(ast.value, variables));
+  }
+}
+
+export type ConditionEvaluationResult =
+  | { success: true; value: boolean }
+  | { success: false; error: ConditionSyntaxError };
+
+/**
+ * Parse and evaluate an expression in one call
+ *
+ * @example
+ * evaluateConditionExpression("status = 'pending' OR status = 'draft'", { status: 'draft' })
+ * // { success: true, value: true }
+ */
+export function evaluateConditionExpression(input: string, variables: ConditionVariables): ConditionEvaluationResult {
+  const parsed = parseConditionExpression(input);
+  if (!parsed.success) return parsed;
+  return { success: true, value: evaluateCondition(parsed.ast, variables) };
+}
+
+// ============================================================================
+// Formatter
+// ============================================================================
+
+function formatValue(value: ConditionValueNode): string {
+  switch (value.kind) {
+    case 'variable': return value.name;
+    case 'number': return String(value.value);
+    case 'boolean': return value.value ? 'TRUE' : 'FALSE';
+    case 'string': return `'${value.value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+}
+
+const PRECEDENCE: Record<ConditionNode['kind'], number> = {
+  logical: 0, // refined per operator below
+  not: 3,
+  comparison: 4,
+  emptiness: 4,
+  value: 4
+};
+
+function precedenceOf(node: ConditionNode): number {
+  if (node.kind === 'logical') return node.operator === 'OR' ? 1 : 2;
+  return PRECEDENCE[node.kind];
+}
+
+/**
+ * Format an AST back into canonical simple_expr_v1 text, adding parentheses
+ * only where precedence requires them.
+ */
+export function formatConditionExpression(ast: ConditionNode): string {
+  const wrap = (node: ConditionNode, minPrecedence: number) => {
+    const text = formatConditionExpression(node);
+    return precedenceOf(node) < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (ast.kind) {
+    case 'logical': {
+      const p = precedenceOf(ast);
+      return `${wrap(ast.left, p)} ${ast.operator} ${wrap(ast.right, p + 1)}`;
+    }
+    case 'not':
+      return `NOT ${wrap(ast.operand, 3)}`;
+    case 'comparison':
+      return `${formatValue(ast.left)} ${ast.operator} ${formatValue(ast.right)}`;
+    case 'emptiness':
+      return `${ast.operator}(${formatValue(ast.operand)})`;
+    case 'value':
+      return formatValue(ast.value);
+  }
+}
+
+// ============================================================================
+// Condition Conversion
+// ============================================================================
+
+/**
+ * Convert a condition written in a common expression dialect (JUEL `${a > 1}`,
+ * FEEL `a > 1 and b = "x"`, JavaScript/n8n `={{ $json.a === "x" && !$json.b }}`)
+ * into canonical simple_expr_v1, or undefined when it does not convert.
+ * With `requireComparison`, a bare word such as "Yes" is not accepted as a
+ * truthiness check (used for edge labels).
+ *
+ * @example
+ * toSimpleExpression('${amount > 100 && status == "open"}')
+ * // "amount > 100 AND status = 'open'"
+ */
+export function toSimpleExpression(source: string, options: { requireComparison?: boolean } = {}): string | undefined {
+  let text = source.trim();
+  const wrapped = /^(?:=?\{\{([\s\S]*)\}\}|[$#]\{([\s\S]*)\})$/.exec(text);
+  if (wrapped) text = (wrapped[1] ?? wrapped[2]).trim();
+  text = text.replace(/\$json\[\s*(["'])([A-Za-z_][\w.]*)\1\s*\]/g, '$2');
+
+  // Rewrite operators outside string literals; double-quoted strings become single-quoted
+  const parts = text.split(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/);
+  const rewritten = parts.map((part, i) => {
+    if (i % 2 === 1) {
+      if (part.startsWith("'")) return part;
+      const value = part.slice(1, -1).replace(/\\(.)/g, '$1');
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+    return part
+      .replace(/\$json(\?\.|\.)/g, '')
+      .replace(/\?\./g, '.')
+      .replace(/\bNumber\(([\w.]+)\)/g, '$1')
+      .replace(/!==?/g, '!=')
+      .replace(/===?/g, '=')
+      .replace(/&&/g, ' AND ')
+      .replace(/\|\|/g, ' OR ')
+      .replace(/!(?!=)/g, ' NOT ')
+      .replace(/\b(and|or|not)\b/g, word => word.toUpperCase())
+      .replace(/\b(true|false)\b/gi, word => word.toUpperCase());
+  }).join('');
+
+  const parsed = parseConditionExpression(rewritten);
+  if (!parsed.success) return undefined;
+  if (options.requireComparison && parsed.ast.kind === 'value') return undefined;
+  return formatConditionExpression(parsed.ast);
+}
@@ -1,15 +1,26 @@
 /**
  * Flingoos Pipeline Constants
  * 
- * Source of truth for stage definitions and other system constants.
+ * System constants. Stage definitions live in stage-registry.ts.
  * Extracted from actual pipeline execution in COMPLETE_PAYLOAD_EXTRACTION.md
  */
 
-export const STAGES = ['A', 'B', 'C', 'D', 'E', 'F', 'U'] as const;
+import type { PIPELINE_STAGE_REGISTRIES, StageCodeTuple, PipelineFamily, PipelineStageCodeTuple } from './stage-registry.js';
+
+// STAGE_REGISTRY codes in pipeline order; `satisfies` fails to compile if they drift apart
+export const STAGES = ['A', 'B', 'C', 'D', 'E', 'F', 'U'] as const satisfies StageCodeTuple;
 export type Stage = typeof STAGES[number];
 
 export const TOTAL_STAGES = STAGES.length;
 
+// Stage codes of every pipeline family in pipeline order, each checked against its registry
+export const PIPELINE_STAGES = {
+  bridge_forge: STAGES,
+  video_vlm: ['V', 'M', 'S', 'U'],
+  text_generation: ['T', 'G', 'S', 'U']
+} as const satisfies { readonly [P in PipelineFamily]: PipelineStageCodeTuple<P> };
+export type PipelineStage<P extends PipelineFamily = PipelineFamily> = typeof PIPELINE_STAGE_REGISTRIES[P][number]['code'];
+
 export const SESSION_STATUSES = ['recording', 'processing', 'completed', 'failed'] as const;
 export type SessionStatus = typeof SESSION_STATUSES[number];
 
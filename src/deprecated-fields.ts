@@ -0,0 +1,179 @@
+/**
+ * Deprecated Field Normalization
+ *
+ * Several schemas still accept deprecated field names next to their canonical
+ * replacements (start_time → started_at, tools_used → applications, ...).
+ * The helpers here read either form, output only the canonical fields and report
+ * which legacy fields were seen, so we can track when old writers are gone.
+ */
+
+import { SessionInternalStateSchema } from './schemas.js';
+import { VideoWorkflowGuideContentSchema, KnowledgeBaseContentSchema } from './video-artifacts.js';
+import type { VideoWorkflowGuideContent, VideoTaskSummary, KnowledgeBaseContent } from './video-artifacts.js';
+import type { SessionInternalState } from './types.js';
+import { safeParse } from './validation.js';
+import type { ValidationResult } from './validation.js';
+
+// ============================================================================
+// Generic Mechanism
+// ============================================================================
+
+/**
+ * One deprecated → canonical field mapping.
+ * When both fields are present, the canonical value wins.
+ */
+export interface DeprecatedFieldMapping {
+  legacy: string;
+  canonical: string;
+  /** Convert the legacy value into the canonical shape (defaults to identity) */
+  convert?: (value: unknown) => unknown;
+}
+
+export interface DeprecatedFieldNormalization<T> {
+  data: T;
+  /** Paths of legacy fields that were present in the input (e.g. "task_summary.tools_used") */
+  legacyFields: string[];
+}
+
+/**
+ * Move deprecated fields onto their canonical names and drop the legacy keys.
+ * The input object is not mutated. The result type leaves out the legacy keys
+ * when the mappings are declared with literal names (`as const`).
+ *
+ * @param input - Object that may carry deprecated fields
+ * @param mappings - Deprecated → canonical field mappings to apply
+ * @param pathPrefix - Prefix for reported paths when normalizing a nested object
+ *
+ * @example
+ * const { data } = normalizeDeprecatedFields(state, SESSION_STATE_DEPRECATED_FIELDS);
+ * data.started_at // data.start_time is a type error
+ */
+export function normalizeDeprecatedFields<T extends object, L extends string>(
+  input: T,
+  mappings: readonly (DeprecatedFieldMapping & { legacy: L })[],
+  pathPrefix?: string
+): DeprecatedFieldNormalization<Omit<T, L>> {
+  const data = { ...input } as Record<string, unknown>;
+  const legacyFields: string[] = [];
+
+  for (const mapping of mappings) {
+    if (!(mapping.legacy in data)) continue;
+
+    const legacyValue = data[mapping.legacy];
+    delete data[mapping.legacy];
+    if (legacyValue === undefined) continue;
+
+    legacyFields.push(pathPrefix ? `${pathPrefix}.${mapping.legacy}` : mapping.legacy);
+    if (data[mapping.canonical] === undefined) {
+      data[mapping.canonical] = mapping.convert ? mapping.convert(legacyValue) : legacyValue;
+    }
+  }
+
+  // Every legacy key was deleted above; canonical keys already belong to T
+  return { data: data as Omit<T, L>, legacyFields };
+}
+
+/**
+ * Validation result that also reports deprecated fields seen in the input
+ */
+export type NormalizedValidationResult<T> = ValidationResult<T> & { legacyFields: string[] };
+
+// ============================================================================
+// Known Deprecations
+// ============================================================================
+
+export const SESSION_STATE_DEPRECATED_FIELDS = [
+  { legacy: 'start_time', canonical: 'started_at' },
+  { legacy: 'stop_time', canonical: 'stopped_at' }
+] as const satisfies readonly DeprecatedFieldMapping[];
+
+export const VIDEO_TASK_SUMMARY_DEPRECATED_FIELDS = [
+  { legacy: 'tools_used', canonical: 'applications' }
+] as const satisfies readonly DeprecatedFieldMapping[];
+
+export const KNOWLEDGE_BASE_DEPRECATED_FIELDS = [
+  // key_takeaways was a bullet list; abstract is a single paragraph
+  {
+    legacy: 'key_takeaways',
+    canonical: 'abstract',
+    convert: (value) => Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean).join(' ') : value
+  }
+] as const satisfies readonly DeprecatedFieldMapping[];
+
+// ============================================================================
+// Canonical Types
+// ============================================================================
+
+type LegacyKeys<M extends readonly DeprecatedFieldMapping[]> = M[number]['legacy'];
+
+export type CanonicalSessionInternalState = Omit<SessionInternalState, LegacyKeys<typeof SESSION_STATE_DEPRECATED_FIELDS>>;
+
+export type CanonicalVideoWorkflowGuideContent = Omit<VideoWorkflowGuideContent, 'task_summary'> & {
+  task_summary: Omit<VideoTaskSummary, LegacyKeys<typeof VIDEO_TASK_SUMMARY_DEPRECATED_FIELDS>>;
+};
+
+export type CanonicalKnowledgeBaseContent = Omit<KnowledgeBaseContent, LegacyKeys<typeof KNOWLEDGE_BASE_DEPRECATED_FIELDS>>;
+
+// ============================================================================
+// Normalizing Parse Paths
+// ============================================================================
+
+function withLegacyFields<T, R>(
+  result: ValidationResult<T>,
+  normalize: (data: T) => DeprecatedFieldNormalization<R>
+): NormalizedValidationResult<R> {
+  if (!result.success) {
+    return { ...result, legacyFields: [] };
+  }
+  const normalized = normalize(result.data);
+  return { success: true, data: normalized.data, legacyFields: normalized.legacyFields };
+}
+
+/**
+ * Parse a session document accepting started_at/stopped_at or the deprecated
+ * start_time/stop_time, and output only the canonical fields.
+ *
+ * @example
+ * const result = normalizeSessionInternalState(doc);
+ * if (result.success && result.legacyFields.length > 0) {
+ *   logger.info('legacy session fields', { fields: result.legacyFields });
+ * }
+ */
+export function normalizeSessionInternalState(data: unknown): NormalizedValidationResult<CanonicalSessionInternalState> {
+  return withLegacyFields(
+    safeParse(SessionInternalStateSchema, data),
+    (state): DeprecatedFieldNormalization<CanonicalSessionInternalState> =>
+      normalizeDeprecatedFields(state, SESSION_STATE_DEPRECATED_FIELDS)
+  );
+}
+
+/**
+ * Parse workflow guide content, moving task_summary.tools_used onto applications
+ */
+export function normalizeVideoWorkflowGuideContent(data: unknown): NormalizedValidationResult<CanonicalVideoWorkflowGuideContent> {
+  return withLegacyFields(
+    safeParse(VideoWorkflowGuideContentSchema, data),
+    (content) => {
+      const summary = normalizeDeprecatedFields(
+        content.task_summary,
+        VIDEO_TASK_SUMMARY_DEPRECATED_FIELDS,
+        'task_summary'
+      );
+      return {
+        data: { ...content, task_summary: summary.data },
+        legacyFields: summary.legacyFields
+      };
+    }
+  );
+}
+
+/**
+ * Parse knowledge base content, moving key_takeaways onto abstract
+ */
+export function normalizeKnowledgeBaseContent(data: unknown): NormalizedValidationResult<CanonicalKnowledgeBaseContent> {
+  return withLegacyFields(
+    safeParse(KnowledgeBaseContentSchema, data),
+    (content): DeprecatedFieldNormalization<CanonicalKnowledgeBaseContent> =>
+      normalizeDeprecatedFields(content, KNOWLEDGE_BASE_DEPRECATED_FIELDS)
+  );
+}
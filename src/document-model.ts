@@ -0,0 +1,380 @@
+/**
+ * Export Document Model
+ *
+ * Format-neutral document built once from a workflow guide or knowledge base
+ * and consumed by the PDF renderer and the DOCX writer (and any future format).
+ * Every block carries its own resolved direction ('rtl' | 'ltr'), so renderers
+ * never re-detect language: RTL documents stay RTL except for code and
+ * condition expressions, which are always LTR.
+ */
+
+import { getStepPhaseIndex } from './video-artifacts.js';
+import type {
+  VideoWorkflowGuideContent,
+  VideoWorkflowStep,
+  StepType,
+  KnowledgeItemTypeV2,
+  AugmentationHistoryEntry
+} from './video-artifacts.js';
+import type { SessionContentDoc, FreshnessStatus } from './session-translations.js';
+import { resolveWorkflowGuideForExport, resolveKnowledgeBaseForExport } from './export-content.js';
+import type { ExportContentOptions } from './export-content.js';
+import type { CanonicalKnowledgeBaseContent } from './deprecated-fields.js';
+import { normalizeKnowledgeItem } from './knowledge-normalization.js';
+import { MARKDOWN_LABELS_EN } from './markdown-export.js';
+import type { MarkdownLabels } from './markdown-export.js';
+
+// ============================================================================
+// Model Types
+// ============================================================================
+
+export type BlockDirection = 'rtl' | 'ltr';
+
+export interface DocumentRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  /** Monospace, always laid out left-to-right */
+  code?: boolean;
+}
+
+/** One paragraph of inline runs */
+export type DocumentParagraph = DocumentRun[];
+
+export interface DocumentStepItem {
+  /** Display number (step_number as text, e.g. "2.5") */
+  number: string;
+  title: string;
+  step_type: StepType;
+  /** Localized step type label (e.g. "Decision") */
+  badge: string;
+  paragraphs: DocumentParagraph[];
+}
+
+export type DocumentBlock = { dir: BlockDirection } & (
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; runs: DocumentParagraph }
+  | { type: 'list'; ordered: boolean; items: DocumentParagraph[] }
+  | { type: 'steps'; items: DocumentStepItem[] }
+  /** hitl and gap steps are called out instead of listed */
+  | { type: 'callout'; tone: 'hitl' | 'gap' | 'note'; title: string; paragraphs: DocumentParagraph[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'code'; text: string }
+);
+
+export type DocumentBlockType = DocumentBlock['type'];
+
+export interface ExportDocument {
+  title: string;
+  kind: 'workflow' | 'knowledge_base';
+  /** Language of the content (BCP-47) */
+  language: string;
+  /** Direction of the document as a whole */
+  dir: BlockDirection;
+  blocks: DocumentBlock[];
+}
+
+export interface DocumentBuildOptions extends ExportContentOptions {
+  labels?: Partial<MarkdownLabels>;
+  /** Include per-step/item provenance and augmentation history (default: true) */
+  includeProvenance?: boolean;
+}
+
+export type DocumentBuildResult = {
+  success: true;
+  document: ExportDocument;
+  freshnessStatus: FreshnessStatus;
+} | {
+  success: false;
+  message: string;
+};
+
+// ============================================================================
+// Direction
+// ============================================================================
+
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHAR = /[A-Za-z\u00C0-\u024F\u0370-\u04FF]/;
+
+/**
+ * Direction of the first strong character in the text, undefined when there is none
+ */
+export function detectTextDirection(text: string): BlockDirection | undefined {
+  for (const ch of text) {
+    if (RTL_CHAR.test(ch)) return 'rtl';
+    if (LTR_CHAR.test(ch)) return 'ltr';
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Builder
+// ============================================================================
+
+class BlockBuilder {
+  readonly blocks: DocumentBlock[] = [];
+
+  constructor(private readonly baseDir: 'rtl' | 'ltr' | 'auto') {}
+
+  /** Block direction: the document direction, or detected per block when it is 'auto' */
+  dirFor(text: string): BlockDirection {
+    if (this.baseDir !== 'auto') return this.baseDir;
+    return detectTextDirection(text) ?? 'ltr';
+  }
+
+  heading(level: 1 | 2 | 3, text: string): void {
+    this.blocks.push({ type: 'heading', level, text, dir: this.dirFor(text) });
+  }
+
+  paragraph(runs: DocumentParagraph): void {
+    if (runs.every(run => !run.text.trim())) return;
+    this.blocks.push({ type: 'paragraph', runs, dir: this.dirFor(runs.map(r => r.text).join(' ')) });
+  }
+
+  list(items: DocumentParagraph[], ordered = false): void {
+    if (items.length === 0) return;
+    this.blocks.push({ type: 'list', ordered, items, dir: this.dirFor(items.flat().map(r => r.text).join(' ')) });
+  }
+
+  table(header: string[], rows: string[][]): void {
+    if (rows.length === 0) return;
+    this.blocks.push({ type: 'table', header, rows, dir: this.dirFor([...header, ...rows.flat()].join(' ')) });
+  }
+
+  code(text: string): void {
+    this.blocks.push({ type: 'code', text, dir: 'ltr' });
+  }
+
+  steps(items: DocumentStepItem[]): void {
+    if (items.length === 0) return;
+    const last = this.blocks[this.blocks.length - 1];
+    if (last?.type === 'steps') last.items.push(...items);
+    else this.blocks.push({ type: 'steps', items, dir: this.dirFor(items.map(i => i.title).join(' ')) });
+  }
+
+  callout(tone: 'hitl' | 'gap' | 'note', title: string, paragraphs: DocumentParagraph[]): void {
+    this.blocks.push({ type: 'callout', tone, title, paragraphs, dir: this.dirFor(title) });
+  }
+}
+
+function labeled(label: string, text: string): DocumentParagraph {
+  return [{ text: `${label}: `, bold: true }, { text }];
+}
+
+function provenance(
+  item: { source_session_id?: string; added_at?: string; augmentation_of_session_id?: string },
+  labels: MarkdownLabels
+): DocumentParagraph[] {
+  if (!item.augmentation_of_session_id || !item.source_session_id) return [];
+  const date = item.added_at ? ` (${item.added_at.slice(0, 10)})` : '';
+  return [[{ text: `${labels.addedFromSession} `, italic: true }, { text: item.source_session_id, code: true }, { text: date, italic: true }]];
+}
+
+function augmentationTable(b: BlockBuilder, history: AugmentationHistoryEntry[] | undefined, labels: MarkdownLabels): void {
+  if (!history?.length) return;
+  b.heading(2, labels.augmentationHistory);
+  b.table(
+    [labels.session, labels.date, labels.itemsAdded],
+    history.map(entry => [entry.session_id, entry.timestamp.slice(0, 10), String(entry.items_added)])
+  );
+}
+
+function stepParagraphs(step: VideoWorkflowStep, labels: MarkdownLabels, withProvenance: boolean): DocumentParagraph[] {
+  const paragraphs: DocumentParagraph[] = [[{ text: step.action }]];
+  if (step.expected_result) paragraphs.push(labeled(labels.expectedResult, step.expected_result));
+  if (step.visual_cues) paragraphs.push(labeled(labels.visualCues, step.visual_cues));
+
+  const cond = step.condition_details;
+  if (cond) {
+    const target = (n: number | undefined) => n !== undefined ? ` (${labels.goToStep} ${n})` : '';
+    paragraphs.push([{ text: `${labels.condition}: `, bold: true }, { text: cond.condition, code: true }]);
+    paragraphs.push(labeled(labels.ifTrue, cond.true_action + target(cond.target_steps?.if_true)));
+    if (cond.false_action || cond.target_steps?.if_false !== undefined) {
+      paragraphs.push(labeled(labels.ifFalse, (cond.false_action ?? '') + target(cond.target_steps?.if_false)));
+    }
+  }
+  if (withProvenance) paragraphs.push(...provenance(step, labels));
+  return paragraphs;
+}
+
+function addSteps(b: BlockBuilder, steps: VideoWorkflowStep[], labels: MarkdownLabels, withProvenance: boolean): void {
+  for (const step of steps) {
+    const type = step.step_type ?? 'do';
+    const paragraphs = stepParagraphs(step, labels, withProvenance);
+    if (type === 'hitl' || type === 'gap') {
+      b.callout(type, `${step.step_number}. ${step.title} · ${labels.stepTypes[type]}`, paragraphs);
+    } else {
+      b.steps([{ number: String(step.step_number), title: step.title, step_type: type, badge: labels.stepTypes[type], paragraphs }]);
+    }
+  }
+}
+
+/**
+ * Build the document model for already-resolved workflow guide content
+ */
+export function createWorkflowGuideDocument(
+  content: VideoWorkflowGuideContent,
+  meta: { language: string; dir: 'rtl' | 'ltr' | 'auto' },
+  options: Pick<DocumentBuildOptions, 'labels' | 'includeProvenance'> = {}
+): ExportDocument {
+  const labels: MarkdownLabels = { ...MARKDOWN_LABELS_EN, ...options.labels };
+  const withProvenance = options.includeProvenance ?? true;
+  const b = new BlockBuilder(meta.dir);
+  const summary = content.task_summary;
+
+  b.heading(1, summary.name);
+  b.paragraph(labeled(labels.goal, summary.goal));
+  if (summary.abstract) b.paragraph([{ text: summary.abstract }]);
+  if (summary.applications?.length) b.paragraph(labeled(labels.applications, summary.applications.join(', ')));
+  if (summary.estimated_duration_minutes !== undefined) {
+    b.paragraph(labeled(labels.estimatedDuration, `${summary.estimated_duration_minutes} ${labels.minutes}`));
+  }
+
+  const byPhase = content.temporal_phases.map(() => [] as VideoWorkflowStep[]);
+  const ungrouped: VideoWorkflowStep[] = [];
+  for (const step of content.step_by_step_guide) {
+    const idx = getStepPhaseIndex(step, content.temporal_phases);
+    if (idx === null) ungrouped.push(step);
+    else byPhase[idx].push(step);
+  }
+
+  content.temporal_phases.forEach((phase, i) => {
+    b.heading(2, `${labels.phase} ${phase.phase_number}: ${phase.name}`);
+    b.paragraph([{ text: phase.purpose }]);
+    if (phase.success_criteria?.length) {
+      b.paragraph([{ text: `${labels.successCriteria}:`, bold: true }]);
+      b.list(phase.success_criteria.map(text => [{ text }]));
+    }
+    addSteps(b, byPhase[i], labels, withProvenance);
+  });
+
+  if (ungrouped.length > 0) {
+    if (content.temporal_phases.length > 0) b.heading(2, labels.additionalSteps);
+    addSteps(b, ungrouped, labels, withProvenance);
+  }
+
+  const notes = content.workflow_notes;
+  if (notes) {
+    const columns: Array<[string, string[]]> = [
+      [labels.successCriteria, notes.success_criteria],
+      [labels.constraints, notes.constraints],
+      [labels.pointers, notes.pointers]
+    ].filter((column): column is [string, string[]] => column[1].length > 0);
+    if (columns.length > 0) {
+      b.heading(2, labels.workflowNotes);
+      const rowCount = Math.max(...columns.map(([, items]) => items.length));
+      b.table(
+        columns.map(([title]) => title),
+        Array.from({ length: rowCount }, (_, row) => columns.map(([, items]) => items[row] ?? ''))
+      );
+    }
+  }
+
+  if (content.knowledge_items?.length) {
+    b.heading(2, labels.relatedKnowledge);
+    b.list(content.knowledge_items.map(item => labeled(item.title, item.content)));
+  }
+
+  if (withProvenance) augmentationTable(b, content.augmentation_history, labels);
+
+  return { title: summary.name, kind: 'workflow', language: meta.language, dir: b.dirFor(summary.name), blocks: b.blocks };
+}
+
+const KNOWLEDGE_TYPE_ORDER: KnowledgeItemTypeV2[] = ['fact', 'procedure', 'rule', 'pointer', 'example', 'identity', 'gap'];
+
+/**
+ * Build the document model for already-resolved knowledge base content
+ */
+export function createKnowledgeBaseDocument(
+  content: CanonicalKnowledgeBaseContent,
+  meta: { language: string; dir: 'rtl' | 'ltr' | 'auto' },
+  options: Pick<DocumentBuildOptions, 'labels' | 'includeProvenance'> = {}
+): ExportDocument {
+  const labels: MarkdownLabels = { ...MARKDOWN_LABELS_EN, ...options.labels };
+  const withProvenance = options.includeProvenance ?? true;
+  const b = new BlockBuilder(meta.dir);
+  const summary = content.session_summary;
+  const items = content.knowledge_items.map(item => normalizeKnowledgeItem(item).item);
+
+  b.heading(1, summary.topic);
+  if (content.abstract) b.paragraph([{ text: content.abstract }]);
+  if (summary.subtopics.length > 0) b.paragraph(labeled(labels.subtopics, summary.subtopics.join(', ')));
+
+  const titleFor = (ref: string) => items.find(i => i.item_id === ref || i.title === ref)?.title ?? ref;
+
+  for (const type of KNOWLEDGE_TYPE_ORDER) {
+    const ofType = items.filter(item => item.type === type);
+    if (ofType.length === 0) continue;
+    b.heading(2, labels.knowledgeTypes[type]);
+    for (const item of ofType) {
+      const paragraphs: DocumentParagraph[] = [[{ text: item.content }]];
+      if (item.related_items?.length) {
+        paragraphs.push(labeled(labels.related, item.related_items.map(titleFor).join(', ')));
+      }
+      if (withProvenance) paragraphs.push(...provenance(item, labels));
+
+      if (type === 'gap') {
+        b.callout('gap', item.title, paragraphs);
+      } else if (item.importance === 'critical') {
+        b.callout('note', item.title, paragraphs);
+      } else {
+        b.heading(3, item.title);
+        paragraphs.forEach(p => b.paragraph(p));
+      }
+      if (item.code_snippet) b.code(item.code_snippet);
+    }
+  }
+
+  if (content.concept_relationships?.length) {
+    b.heading(2, labels.conceptRelationships);
+    b.list(content.concept_relationships.map(rel => [
+      { text: titleFor(rel.from), bold: true },
+      { text: ` ${rel.relationship.replace(/_/g, ' ')} `, italic: true },
+      { text: titleFor(rel.to), bold: true },
+      { text: ` — ${rel.description}` }
+    ]));
+  }
+
+  if (withProvenance) augmentationTable(b, content.augmentation_history, labels);
+
+  return { title: summary.topic, kind: 'knowledge_base', language: meta.language, dir: b.dirFor(summary.topic), blocks: b.blocks };
+}
+
+/**
+ * Resolve a workflow guide session (translations included) and build its document model
+ *
+ * @example
+ * const result = buildWorkflowGuideDocument(sessionDoc, { language: 'he' });
+ * if (result.success) {
+ *   const pdf = renderPdf(result.document, { font: { regular: notoSansHebrew } });
+ *   const docx = renderDocx(result.document);
+ * }
+ */
+export function buildWorkflowGuideDocument(
+  session: SessionContentDoc,
+  options: DocumentBuildOptions = {}
+): DocumentBuildResult {
+  const resolved = resolveWorkflowGuideForExport(session, options);
+  if (!resolved.success) return resolved;
+  return {
+    success: true,
+    document: createWorkflowGuideDocument(resolved.content, { language: resolved.languageUsed, dir: resolved.dir }, options),
+    freshnessStatus: resolved.freshnessStatus
+  };
+}
+
+/**
+ * Resolve a knowledge base session (translations included) and build its document model
+ */
+export function buildKnowledgeBaseDocument(
+  session: SessionContentDoc,
+  options: DocumentBuildOptions = {}
+): DocumentBuildResult {
+  const resolved = resolveKnowledgeBaseForExport(session, options);
+  if (!resolved.success) return resolved;
+  return {
+    success: true,
+    document: createKnowledgeBaseDocument(resolved.content, { language: resolved.languageUsed, dir: resolved.dir }, options),
+    freshnessStatus: resolved.freshnessStatus
+  };
+}
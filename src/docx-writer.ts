@@ -0,0 +1,255 @@
+/**
+ * DOCX Writer
+ *
+ * Writes an ExportDocument as a Word (OOXML) document. RTL blocks get
+ * paragraph-level <w:bidi/>, run-level <w:rtl/> and <w:bidiVisual/> on tables,
+ * so Hebrew and Arabic documents open right-to-left in Word, Google Docs and
+ * LibreOffice. Code runs stay LTR.
+ *
+ * Lists and step numbers are written as literal prefixes (no numbering part),
+ * which keeps the package to the minimum set of parts.
+ */
+
+import type { ExportDocument, DocumentBlock, DocumentParagraph, DocumentRun, BlockDirection } from './document-model.js';
+import { createZip } from './zip-writer.js';
+
+export interface DocxOptions {
+  /** Body font; it must cover the document's script (default: 'Arial') */
+  font?: string;
+  /** Monospace font for code (default: 'Consolas') */
+  codeFont?: string;
+  /** Timestamp written to the ZIP entries (default: 1980-01-01 for reproducible output) */
+  modifiedAt?: Date;
+}
+
+// ============================================================================
+// XML Helpers
+// ============================================================================
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+const CALLOUT_COLORS: Record<'hitl' | 'gap' | 'note', { fill: string; border: string }> = {
+  hitl: { fill: 'E0F2FE', border: '0284C7' },
+  gap: { fill: 'FEF3C7', border: 'D97706' },
+  note: { fill: 'F3F4F6', border: '6B7280' }
+};
+
+interface ParagraphProps {
+  dir: BlockDirection;
+  style?: string;
+  indent?: number;
+  hanging?: number;
+  spacingAfter?: number;
+  keepNext?: boolean;
+  box?: { fill: string; border: string };
+}
+
+function paragraphProps(props: ParagraphProps): string {
+  const parts: string[] = [];
+  if (props.style) parts.push(`<w:pStyle w:val="${props.style}"/>`);
+  if (props.keepNext) parts.push('<w:keepNext/>');
+  if (props.box) {
+    const side = (name: string) => `<w:${name} w:val="single" w:sz="8" w:space="4" w:color="${props.box!.border}"/>`;
+    parts.push(`<w:pBdr>${side('top')}${side('left')}${side('bottom')}${side('right')}</w:pBdr>`);
+    parts.push(`<w:shd w:val="clear" w:color="auto" w:fill="${props.box.fill}"/>`);
+  }
+  if (props.dir === 'rtl') parts.push('<w:bidi/>');
+  if (props.spacingAfter !== undefined) parts.push(`<w:spacing w:after="${props.spacingAfter}"/>`);
+  if (props.indent) {
+    parts.push(`<w:ind w:start="${props.indent}"${props.hanging ? ` w:hanging="${props.hanging}"` : ''}/>`);
+  }
+  return parts.length > 0 ? `<w:pPr>${parts.join('')}</w:pPr>` : '';
+}
+
+function run(r: DocumentRun, dir: BlockDirection, options: Required<Pick<DocxOptions, 'codeFont'>>, color?: string): string {
+  const props: string[] = [];
+  if (r.code) props.push(`<w:rFonts w:ascii="${options.codeFont}" w:hAnsi="${options.codeFont}" w:cs="${options.codeFont}"/>`);
+  if (r.bold) props.push('<w:b/><w:bCs/>');
+  if (r.italic) props.push('<w:i/><w:iCs/>');
+  if (color) props.push(`<w:color w:val="${color}"/>`);
+  if (r.code) props.push('<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>');
+  if (dir === 'rtl' && !r.code) props.push('<w:rtl/>');
+  const rPr = props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+  const body = r.text
+    .split('\n')
+    .map(line => line.split('\t').map(part => `<w:t xml:space="preserve">${xmlEscape(part)}</w:t>`).join('<w:tab/>'))
+    .join('<w:br/>');
+  return `<w:r>${rPr}${body}</w:r>`;
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+interface WriterContext {
+  codeFont: string;
+}
+
+function paragraph(runs: DocumentParagraph, props: ParagraphProps, ctx: WriterContext): string {
+  return `<w:p>${paragraphProps(props)}${runs.map(r => run(r, props.dir, ctx)).join('')}</w:p>`;
+}
+
+function table(block: Extract<DocumentBlock, { type: 'table' }>, ctx: WriterContext): string {
+  const columns = Math.max(block.header.length, ...block.rows.map(row => row.length));
+  const width = Math.floor(9638 / columns); // A4 text width in twips
+  const border = (name: string) => `<w:${name} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`;
+  const cell = (text: string, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : ''}</w:tcPr>` +
+    paragraph([{ text, bold: header }], { dir: block.dir, spacingAfter: 0 }, ctx) +
+    '</w:tc>';
+  const row = (cells: string[], header: boolean) =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}` +
+    Array.from({ length: columns }, (_, i) => cell(cells[i] ?? '', header)).join('') +
+    '</w:tr>';
+
+  return '<w:tbl>' +
+    '<w:tblPr>' +
+    (block.dir === 'rtl' ? '<w:bidiVisual/>' : '') +
+    '<w:tblW w:w="5000" w:type="pct"/>' +
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>` +
+    '</w:tblPr>' +
+    `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>` +
+    row(block.header, true) +
+    block.rows.map(cells => row(cells, false)).join('') +
+    '</w:tbl>' +
+    '<w:p/>'; // Word needs a paragraph between consecutive tables
+}
+
+function blockXml(block: DocumentBlock, ctx: WriterContext): string {
+  const dir = block.dir;
+  switch (block.type) {
+    case 'heading':
+      return paragraph([{ text: block.text }], { dir, style: `Heading${block.level}`, keepNext: true }, ctx);
+    case 'paragraph':
+      return paragraph(block.runs, { dir }, ctx);
+    case 'list':
+      return block.items
+        .map((item, i) => paragraph(
+          [{ text: block.ordered ? `${i + 1}.\t` : '•\t' }, ...item],
+          { dir, indent: 720, hanging: 360, spacingAfter: 60 },
+          ctx
+        ))
+        .join('');
+    case 'steps':
+      return block.items
+        .map(item => [
+          `<w:p>${paragraphProps({ dir, keepNext: true, spacingAfter: 60 })}` +
+            run({ text: `${item.number}. ${item.title}`, bold: true }, dir, ctx) +
+            run({ text: `  [${item.badge}]` }, dir, ctx, '6B7280') +
+            '</w:p>',
+          ...item.paragraphs.map((p, i) => paragraph(p, { dir, indent: 360, spacingAfter: i === item.paragraphs.length - 1 ? 200 : 60 }, ctx))
+        ].join(''))
+        .join('');
+    case 'callout': {
+      const box = CALLOUT_COLORS[block.tone];
+      return [
+        paragraph([{ text: block.title, bold: true }], { dir, box, keepNext: true, spacingAfter: 0 }, ctx),
+        ...block.paragraphs.map(p => paragraph(p, { dir, box, spacingAfter: 0 }, ctx)),
+        '<w:p/>'
+      ].join('');
+    }
+    case 'table':
+      return table(block, ctx);
+    case 'code':
+      return block.text
+        .split('\n')
+        .map(line => paragraph([{ text: line, code: true }], { dir: 'ltr', style: 'Code', spacingAfter: 0 }, ctx))
+        .join('') + '<w:p/>';
+  }
+}
+
+// ============================================================================
+// Package Parts
+// ============================================================================
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const XML_DECL = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+function stylesXml(document: ExportDocument, font: string, codeFont: string): string {
+  const lang = document.dir === 'rtl' ? `w:val="en-US" w:bidi="${xmlEscape(document.language)}"` : `w:val="${xmlEscape(document.language)}"`;
+  const heading = (level: number, size: number) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/>` +
+    `<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${level === 1 ? 0 : 240}" w:after="120"/>` +
+    `<w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:bCs/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+  return XML_DECL +
+    `<w:styles xmlns:w="${W_NS}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr>' +
+    `<w:rFonts w:ascii="${xmlEscape(font)}" w:hAnsi="${xmlEscape(font)}" w:eastAsia="${xmlEscape(font)}" w:cs="${xmlEscape(font)}"/>` +
+    `<w:sz w:val="21"/><w:szCs w:val="21"/><w:lang ${lang}/>` +
+    '</w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    heading(1, 36) + heading(2, 28) + heading(3, 23) +
+    '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>' +
+    `<w:rPr><w:rFonts w:ascii="${xmlEscape(codeFont)}" w:hAnsi="${xmlEscape(codeFont)}" w:cs="${xmlEscape(codeFont)}"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>` +
+    '</w:styles>';
+}
+
+/**
+ * Write an ExportDocument as a .docx file
+ *
+ * @example
+ * const result = buildWorkflowGuideDocument(sessionDoc, { language: 'ar' });
+ * if (result.success) fs.writeFileSync('guide.docx', renderDocx(result.document));
+ */
+export function renderDocx(document: ExportDocument, options: DocxOptions = {}): Uint8Array {
+  const font = options.font ?? 'Arial';
+  const codeFont = options.codeFont ?? 'Consolas';
+  const ctx: WriterContext = { codeFont };
+
+  const documentXml = XML_DECL +
+    `<w:document xmlns:w="${W_NS}" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+    '<w:body>' +
+    document.blocks.map(block => blockXml(block, ctx)).join('') +
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>' +
+    '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/>' +
+    (document.dir === 'rtl' ? '<w:bidi/>' : '') +
+    '</w:sectPr></w:body></w:document>';
+
+  const coreXml = XML_DECL +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    `<dc:title>${xmlEscape(document.title)}</dc:title><dc:language>${xmlEscape(document.language)}</dc:language>` +
+    '</cp:coreProperties>';
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      data: XML_DECL +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '</Types>'
+    },
+    {
+      path: '_rels/.rels',
+      data: XML_DECL +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      path: 'word/_rels/document.xml.rels',
+      data: XML_DECL +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>'
+    },
+    { path: 'word/document.xml', data: documentXml },
+    { path: 'word/styles.xml', data: stylesXml(document, font, codeFont) },
+    { path: 'docProps/core.xml', data: coreXml }
+  ], { modifiedAt: options.modifiedAt });
+}
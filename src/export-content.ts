@@ -0,0 +1,82 @@
+/**
+ * Export Content Resolution
+ *
+ * Shared first step for every exporter: pick the content for the selected
+ * language via getResolvedContent (so translations are exported), validate it,
+ * and bring it onto the current shape (latest workflow schema version,
+ * deprecated fields moved to their canonical names).
+ */
+
+import { getResolvedContent } from './session-translations.js';
+import type { SessionContentDoc, FreshnessStatus } from './session-translations.js';
+import { migrateWorkflowGuide } from './workflow-migrations.js';
+import { normalizeVideoWorkflowGuideContent, normalizeKnowledgeBaseContent } from './deprecated-fields.js';
+import type { CanonicalKnowledgeBaseContent } from './deprecated-fields.js';
+import type { VideoWorkflowGuideContent } from './video-artifacts.js';
+
+export interface ExportContentOptions {
+  /** Language to export (BCP-47 or OutputLanguage); defaults to the original language */
+  language?: string | null;
+}
+
+export type ResolvedExportContent<T> = {
+  success: true;
+  content: T;
+  dir: 'rtl' | 'ltr' | 'auto';
+  languageUsed: string;
+  freshnessStatus: FreshnessStatus;
+} | {
+  success: false;
+  message: string;
+};
+
+/**
+ * Resolve a workflow guide for export, migrated to the latest schema version
+ */
+export function resolveWorkflowGuideForExport(
+  session: SessionContentDoc,
+  options: ExportContentOptions = {}
+): ResolvedExportContent<VideoWorkflowGuideContent> {
+  const resolved = getResolvedContent(session, options.language);
+  if (!resolved) return { success: false, message: 'Session has no content to export' };
+
+  const parsed = normalizeVideoWorkflowGuideContent(resolved.contentToUse);
+  if (!parsed.success) {
+    return { success: false, message: `Invalid workflow guide content: ${parsed.message}` };
+  }
+
+  const migrated = migrateWorkflowGuide(parsed.data);
+  if (!migrated.success) return { success: false, message: migrated.message };
+
+  return {
+    success: true,
+    content: migrated.content,
+    dir: resolved.dir,
+    languageUsed: resolved.languageUsed,
+    freshnessStatus: resolved.freshnessStatus
+  };
+}
+
+/**
+ * Resolve a knowledge base for export, with key_takeaways folded into abstract
+ */
+export function resolveKnowledgeBaseForExport(
+  session: SessionContentDoc,
+  options: ExportContentOptions = {}
+): ResolvedExportContent<CanonicalKnowledgeBaseContent> {
+  const resolved = getResolvedContent(session, options.language);
+  if (!resolved) return { success: false, message: 'Session has no content to export' };
+
+  const parsed = normalizeKnowledgeBaseContent(resolved.contentToUse);
+  if (!parsed.success) {
+    return { success: false, message: `Invalid knowledge base content: ${parsed.message}` };
+  }
+
+  return {
+    success: true,
+    content: parsed.data,
+    dir: resolved.dir,
+    languageUsed: resolved.languageUsed,
+    freshnessStatus: resolved.freshnessStatus
+  };
+}
@@ -15,6 +15,42 @@ export * from './video-artifacts.js';
 export * from './session-translations.js';
 export * from './project.js';
 export * from './edit-history.js';
+export * from './session-lifecycle.js';
+export * from './deprecated-fields.js';
+export * from './workflow-migrations.js';
+export * from './knowledge-normalization.js';
+export * from './condition-expression.js';
+export * from './workflow-graph.js';
+export * from './workflow-flowchart.js';
+export * from './export-content.js';
+export * from './markdown-export.js';
+export * from './automation-export.js';
+export * from './n8n-export.js';
+export * from './uipath-export.js';
+export * from './power-automate-export.js';
+export * from './skill-export.js';
+export * from './zip-writer.js';
+export * from './zip-reader.js';
+export * from './document-model.js';
+export * from './docx-writer.js';
+export * from './pdf-renderer.js';
+export * from './tabular-export.js';
+export * from './tabular-import.js';
+export * from './xml-parser.js';
+export * from './process-import.js';
+export * from './bpmn-import.js';
+export * from './n8n-import.js';
+export * from './progress-engine.js';
+export * from './stage-timing.js';
+export * from './sha256.js';
+export * from './canonical-json.js';
+export * from './manifest-integrity.js';
+export * from './trigger-hashing.js';
+export * from './stage-graph.js';
+export * from './stage-message-catalogs.js';
+export * from './stage-registry.js';
+export * from './bridge-protocol.js';
+export * from './bridge-client.js';
 
 // Usage logging module (explicit namespace to avoid conflicts)
 export * as UsageLogging from './usage-logging/index.js';
@@ -24,6 +60,7 @@ export {
   // Constants
   STAGES,
   TOTAL_STAGES,
+  PIPELINE_STAGES,
   SESSION_STATUSES,
   PROCESSING_STATUSES
 } from './constants.js';
@@ -32,6 +69,11 @@ export type {
   // Core types
   Session,
   SessionInternalState,
+  DiscriminatedSessionState,
+  RecordingSessionState,
+  ProcessingSessionState,
+  CompletedSessionState,
+  FailedSessionState,
   ForgeJob,
   ForgeJobResponse,
   JobProgress,
@@ -54,6 +96,7 @@ export type {
   
   // Utility types
   Stage,
+  PipelineStage,
   SessionStatus,
   ProcessingStatus
 } from './types.js';
@@ -69,6 +112,7 @@ export {
   validateForgeJobResponse,
   validateBridgeCommandRequest,
   validateSessionInternalState,
+  narrowSessionState,
 
   // Utility functions
   calculateProgress,
@@ -85,6 +129,9 @@ export {
   getStageLabel,
   getStageNumber,
   getAllStageCodes,
+  getStageMessageKey,
+  getPipelineStageMessage,
+  getPipelineStageLabel,
   STAGE_MESSAGES,
   STAGE_LABELS
 } from './stage-messages.js';
@@ -98,6 +145,7 @@ export {
   // Key schemas for runtime validation
   SessionStartResponseSchema,
   SessionInternalStateSchema,
+  DiscriminatedSessionStateSchema,
   ForgeJobResponseSchema,
   BridgeCommandRequestSchema,
   StageExecutionSchema,
@@ -0,0 +1,155 @@
+/**
+ * Knowledge Item v1 → v2 Normalization
+ *
+ * Maps legacy knowledge item types and importance values onto the v2 vocabulary:
+ * - Types: concept → fact, best_practice → pointer, constraint/condition → rule
+ * - Importance: High/high → critical, Medium/medium/Low/low → standard
+ *
+ * Where the mapping would lose information (e.g. constraint vs condition both
+ * become rule), the original type is kept in `subtype`. The original importance
+ * (medium vs low) is recorded in the normalization report's importance change.
+ */
+
+import type {
+  KnowledgeItem,
+  KnowledgeItemType,
+  KnowledgeItemTypeV2,
+  KnowledgeImportance,
+  KnowledgeImportanceV2,
+  KnowledgeBaseContent,
+  StrictKnowledgeItem,
+  StrictKnowledgeBaseContent
+} from './video-artifacts.js';
+
+// ============================================================================
+// Vocabulary Maps
+// ============================================================================
+
+/**
+ * v2 type for every accepted type value, and whether the original value should
+ * be preserved in subtype because several legacy values collapse into one.
+ */
+export const KNOWLEDGE_TYPE_V2_MAP: Record<KnowledgeItemType, { type: KnowledgeItemTypeV2; keepAsSubtype: boolean }> = {
+  fact: { type: 'fact', keepAsSubtype: false },
+  procedure: { type: 'procedure', keepAsSubtype: false },
+  rule: { type: 'rule', keepAsSubtype: false },
+  pointer: { type: 'pointer', keepAsSubtype: false },
+  example: { type: 'example', keepAsSubtype: false },
+  identity: { type: 'identity', keepAsSubtype: false },
+  gap: { type: 'gap', keepAsSubtype: false },
+  // Legacy
+  concept: { type: 'fact', keepAsSubtype: false }, // terminology change only
+  best_practice: { type: 'pointer', keepAsSubtype: true },
+  constraint: { type: 'rule', keepAsSubtype: true },
+  condition: { type: 'rule', keepAsSubtype: true }
+};
+
+export const KNOWLEDGE_IMPORTANCE_V2_MAP: Record<KnowledgeImportance, KnowledgeImportanceV2> = {
+  critical: 'critical',
+  standard: 'standard',
+  High: 'critical',
+  high: 'critical',
+  Medium: 'standard',
+  medium: 'standard',
+  Low: 'standard',
+  low: 'standard'
+};
+
+/**
+ * Map any accepted knowledge item type onto the v2 type
+ * (useful for search ranking and UI filters that only handle v2 values).
+ */
+export function toKnowledgeItemTypeV2(type: KnowledgeItemType): KnowledgeItemTypeV2 {
+  return KNOWLEDGE_TYPE_V2_MAP[type].type;
+}
+
+/**
+ * Map any accepted importance value onto the binary v2 importance
+ */
+export function toKnowledgeImportanceV2(importance: KnowledgeImportance): KnowledgeImportanceV2 {
+  return KNOWLEDGE_IMPORTANCE_V2_MAP[importance];
+}
+
+// ============================================================================
+// Item / Content Normalization
+// ============================================================================
+
+export interface KnowledgeNormalizationChange {
+  item_index: number;
+  item_id?: string;
+  field: 'type' | 'importance' | 'subtype';
+  from: string | undefined;
+  to: string;
+}
+
+export interface KnowledgeItemNormalization {
+  item: StrictKnowledgeItem;
+  changes: Omit<KnowledgeNormalizationChange, 'item_index' | 'item_id'>[];
+}
+
+/**
+ * Normalize one knowledge item onto the v2 vocabulary.
+ * An existing subtype is never overwritten.
+ */
+export function normalizeKnowledgeItem(item: KnowledgeItem): KnowledgeItemNormalization {
+  const changes: KnowledgeItemNormalization['changes'] = [];
+  const { type, keepAsSubtype } = KNOWLEDGE_TYPE_V2_MAP[item.type];
+  const importance = toKnowledgeImportanceV2(item.importance);
+  const normalized: StrictKnowledgeItem = { ...item, type, importance };
+
+  if (type !== item.type) {
+    changes.push({ field: 'type', from: item.type, to: type });
+    if (keepAsSubtype && !item.subtype) {
+      normalized.subtype = item.type;
+      changes.push({ field: 'subtype', from: undefined, to: item.type });
+    }
+  }
+  if (importance !== item.importance) {
+    changes.push({ field: 'importance', from: item.importance, to: importance });
+  }
+
+  return { item: normalized, changes };
+}
+
+/**
+ * Importance of an item before v2 normalization, read from the normalization
+ * report (the v2 value if it was not changed)
+ *
+ * @example
+ * getOriginalImportance(normalizeKnowledgeItem({ ...item, importance: 'low' })) // 'low'
+ */
+export function getOriginalImportance(normalization: KnowledgeItemNormalization): KnowledgeImportance {
+  const from = normalization.changes.find(change => change.field === 'importance')?.from;
+  return from !== undefined && isKnowledgeImportance(from) ? from : normalization.item.importance;
+}
+
+function isKnowledgeImportance(value: string): value is KnowledgeImportance {
+  return Object.hasOwn(KNOWLEDGE_IMPORTANCE_V2_MAP, value);
+}
+
+export interface KnowledgeBaseNormalization {
+  content: StrictKnowledgeBaseContent;
+  changes: KnowledgeNormalizationChange[];
+}
+
+/**
+ * Normalize every knowledge item in a knowledge base onto the v2 vocabulary.
+ * The result validates against StrictKnowledgeBaseContentSchema.
+ *
+ * @example
+ * const { content, changes } = normalizeKnowledgeBaseToV2(kb);
+ * // content.knowledge_items[i].type is one of the seven v2 types
+ */
+export function normalizeKnowledgeBaseToV2(content: KnowledgeBaseContent): KnowledgeBaseNormalization {
+  const changes: KnowledgeNormalizationChange[] = [];
+
+  const knowledge_items = content.knowledge_items.map((item, item_index) => {
+    const result = normalizeKnowledgeItem(item);
+    for (const change of result.changes) {
+      changes.push({ item_index, ...(item.item_id && { item_id: item.item_id }), ...change });
+    }
+    return result.item;
+  });
+
+  return { content: { ...content, knowledge_items }, changes };
+}
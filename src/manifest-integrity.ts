@@ -0,0 +1,262 @@
+/**
+ * Forge Manifest Integrity
+ *
+ * Verifies what a ForgeManifest claims about itself:
+ * - content_sha256: SHA-256 of the canonical JSON of the manifest without the
+ *   content_sha256 field
+ * - trigger_hash: hash of the trigger that started the job (trigger-hashing.ts)
+ * - artifact sha256/size_bytes against the artifact bytes
+ * - structural invariants (timestamps, stage codes, which stages produced
+ *   artifacts)
+ */
+
+import { ZodError } from 'zod';
+import { PIPELINE_STAGES } from './constants.js';
+import type { ForgeManifest, ForgeArtifact, StageExecution } from './types.js';
+import type { PipelineFamily } from './stage-registry.js';
+import { createSha256, sha256Hex } from './sha256.js';
+import { canonicalJson } from './canonical-json.js';
+import { computeTriggerHash } from './trigger-hashing.js';
+import type { HashableTrigger } from './trigger-hashing.js';
+
+// ============================================================================
+// Hashes
+// ============================================================================
+
+/**
+ * Recompute a manifest's content_sha256 (canonical JSON without the field itself)
+ */
+export function computeManifestContentSha256(manifest: ForgeManifest<PipelineFamily>): string {
+  const { content_sha256: _hash, ...content } = manifest;
+  return sha256Hex(canonicalJson(content));
+}
+
+// ============================================================================
+// Integrity Report
+// ============================================================================
+
+export type IntegrityCheck =
+  | 'content_sha256'
+  | 'trigger_hash'
+  | 'artifact_bytes'
+  | 'timestamps'
+  | 'stage_codes'
+  | 'artifact_stages';
+
+export interface IntegrityIssue {
+  check: IntegrityCheck;
+  /** Location in the manifest, e.g. 'artifacts[2].sha256' */
+  path: string;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface ManifestIntegrityReport {
+  /** True when no check found an issue */
+  valid: boolean;
+  processing_id: string;
+  /** Checks that ran; hash checks are skipped when their input is not supplied */
+  checks: IntegrityCheck[];
+  issues: IntegrityIssue[];
+}
+
+/** Artifact content: bytes, or chunks as read from a file or download stream */
+export type ArtifactBytes = Uint8Array | Iterable<Uint8Array> | AsyncIterable<Uint8Array>;
+
+export interface ManifestIntegrityOptions {
+  /** Trigger that started the job; enables the trigger_hash check */
+  trigger?: HashableTrigger;
+  /** Artifact content by artifact name; enables the artifact_bytes check for those artifacts */
+  artifacts?: Record<string, ArtifactBytes>;
+  /** Report manifest artifacts missing from `artifacts` (default: false) */
+  requireAllArtifacts?: boolean;
+}
+
+async function hashArtifact(bytes: ArtifactBytes): Promise<{ sha256: string; size: number }> {
+  const hasher = createSha256();
+  let size = 0;
+  if (bytes instanceof Uint8Array) {
+    hasher.update(bytes);
+    size = bytes.length;
+  } else {
+    for await (const chunk of bytes) {
+      hasher.update(chunk);
+      size += chunk.length;
+    }
+  }
+  return { sha256: hasher.digestHex(), size };
+}
+
+function parseTime(value: string | undefined): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/** Hex digests compare case-insensitively; non-strings never match */
+function normalizeHash(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.toLowerCase() : undefined;
+}
+
+/**
+ * List field of a manifest that may not have been schema-validated; a missing
+ * or non-array value is reported and treated as empty
+ */
+function listField<T>(value: T[] | undefined, path: string, check: IntegrityCheck, issues: IntegrityIssue[]): T[] {
+  if (Array.isArray(value)) return value;
+  issues.push({ check, path, message: `${path} is missing or not a list`, actual: value === undefined ? undefined : typeof value });
+  return [];
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ZodError) return error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Structural invariants that need no external input */
+function checkStructure(
+  manifest: ForgeManifest<PipelineFamily>,
+  stageExecutions: StageExecution<PipelineFamily>[],
+  artifacts: ForgeArtifact[],
+  issues: IntegrityIssue[]
+): void {
+  const created = parseTime(manifest.created_at);
+  const completed = parseTime(manifest.completed_at);
+  if (created === undefined) {
+    issues.push({ check: 'timestamps', path: 'created_at', message: 'created_at is not a valid timestamp', actual: manifest.created_at });
+  }
+  if (manifest.completed_at !== undefined && completed === undefined) {
+    issues.push({ check: 'timestamps', path: 'completed_at', message: 'completed_at is not a valid timestamp', actual: manifest.completed_at });
+  }
+  if (created !== undefined && completed !== undefined && completed < created) {
+    issues.push({
+      check: 'timestamps',
+      path: 'completed_at',
+      message: 'completed_at is before created_at',
+      expected: `>= ${manifest.created_at}`,
+      actual: manifest.completed_at
+    });
+  }
+
+  // Stage codes of the manifest's pipeline (bridge Forge when absent)
+  const stages: readonly string[] = PIPELINE_STAGES[manifest.pipeline ?? 'bridge_forge'];
+  const completedStages = new Set<string>();
+  const producedBy = new Map<string, string>();
+  stageExecutions.forEach((execution, index) => {
+    const path = `stage_executions[${index}]`;
+    if (!stages.includes(execution.stage)) {
+      issues.push({ check: 'stage_codes', path: `${path}.stage`, message: `Unknown stage "${execution.stage}"`, expected: stages.join('|'), actual: String(execution.stage) });
+    }
+    const started = parseTime(execution.started_at);
+    const ended = parseTime(execution.completed_at);
+    if (started !== undefined && ended !== undefined && ended < started) {
+      issues.push({ check: 'timestamps', path: `${path}.completed_at`, message: `Stage ${execution.stage} completed before it started`, actual: execution.completed_at });
+    }
+    if (execution.status === 'completed') completedStages.add(execution.stage);
+    for (const name of execution.artifacts_produced ?? []) {
+      if (execution.status !== 'completed') {
+        issues.push({ check: 'artifact_stages', path: `${path}.artifacts_produced`, message: `Stage ${execution.stage} produced "${name}" but did not complete (${execution.status})` });
+      }
+      producedBy.set(name, execution.stage);
+    }
+  });
+
+  artifacts.forEach((artifact, index) => {
+    const path = `artifacts[${index}].stage`;
+    if (!completedStages.has(artifact.stage)) {
+      issues.push({
+        check: 'artifact_stages',
+        path,
+        message: `Artifact "${artifact.name}" comes from stage ${artifact.stage}, which has no completed execution`,
+        actual: artifact.stage
+      });
+    } else if (producedBy.has(artifact.name) && producedBy.get(artifact.name) !== artifact.stage) {
+      issues.push({
+        check: 'artifact_stages',
+        path,
+        message: `Artifact "${artifact.name}" is listed under stage ${artifact.stage} but produced by stage ${producedBy.get(artifact.name)}`,
+        expected: producedBy.get(artifact.name),
+        actual: artifact.stage
+      });
+    }
+  });
+}
+
+/**
+ * Verify a manifest's hashes and structural invariants
+ *
+ * Values are checked at runtime, so a manifest read from JSON can be passed
+ * before (or instead of) schema validation: missing lists and hashes, and a
+ * trigger that does not match its schema, are reported as issues. Hashes are
+ * compared case-insensitively.
+ *
+ * @example
+ * const report = await verifyManifestIntegrity(manifest, {
+ *   trigger,
+ *   artifacts: { workflow_guide: fs.createReadStream(path) }
+ * });
+ * if (!report.valid) report.issues.forEach(issue => console.warn(issue.path, issue.message));
+ */
+export async function verifyManifestIntegrity(
+  manifest: ForgeManifest<PipelineFamily>,
+  options: ManifestIntegrityOptions = {}
+): Promise<ManifestIntegrityReport> {
+  const issues: IntegrityIssue[] = [];
+  const checks: IntegrityCheck[] = ['content_sha256', 'timestamps', 'stage_codes', 'artifact_stages'];
+
+  const stageExecutions = listField<StageExecution<PipelineFamily>>(manifest.stage_executions, 'stage_executions', 'stage_codes', issues);
+  const artifacts = listField<ForgeArtifact>(manifest.artifacts, 'artifacts', 'artifact_stages', issues);
+
+  const contentSha256 = computeManifestContentSha256(manifest);
+  if (contentSha256 !== normalizeHash(manifest.content_sha256)) {
+    issues.push({ check: 'content_sha256', path: 'content_sha256', message: 'content_sha256 does not match the manifest content', expected: contentSha256, actual: manifest.content_sha256 });
+  }
+
+  if (options.trigger) {
+    checks.push('trigger_hash');
+    let triggerHash: string | undefined;
+    try {
+      triggerHash = computeTriggerHash(options.trigger);
+    } catch (error) {
+      issues.push({ check: 'trigger_hash', path: 'trigger_hash', message: `Supplied trigger is invalid: ${describeError(error)}` });
+    }
+    if (triggerHash !== undefined && triggerHash !== normalizeHash(manifest.trigger_hash)) {
+      issues.push({ check: 'trigger_hash', path: 'trigger_hash', message: 'trigger_hash does not match the supplied trigger', expected: triggerHash, actual: manifest.trigger_hash });
+    }
+  }
+
+  if (options.artifacts || options.requireAllArtifacts) {
+    checks.push('artifact_bytes');
+    const supplied = options.artifacts ?? {};
+    const known = new Set(artifacts.map(artifact => artifact.name));
+    for (const [index, artifact] of artifacts.entries()) {
+      const bytes = supplied[artifact.name];
+      if (bytes === undefined) {
+        if (options.requireAllArtifacts) {
+          issues.push({ check: 'artifact_bytes', path: `artifacts[${index}]`, message: `No content supplied for artifact "${artifact.name}"` });
+        }
+        continue;
+      }
+      const { sha256, size } = await hashArtifact(bytes);
+      const expected = normalizeHash(artifact.sha256);
+      if (expected === undefined) {
+        issues.push({ check: 'artifact_bytes', path: `artifacts[${index}].sha256`, message: `Artifact "${artifact.name}" has no sha256`, actual: sha256 });
+      } else if (sha256 !== expected) {
+        issues.push({ check: 'artifact_bytes', path: `artifacts[${index}].sha256`, message: `Content of "${artifact.name}" does not match its sha256`, expected: artifact.sha256, actual: sha256 });
+      }
+      if (size !== artifact.size_bytes) {
+        issues.push({ check: 'artifact_bytes', path: `artifacts[${index}].size_bytes`, message: `Content of "${artifact.name}" is ${size} bytes, manifest says ${artifact.size_bytes}`, expected: String(artifact.size_bytes), actual: String(size) });
+      }
+    }
+    for (const name of Object.keys(supplied)) {
+      if (!known.has(name)) {
+        issues.push({ check: 'artifact_bytes', path: 'artifacts', message: `Supplied artifact "${name}" is not listed in the manifest` });
+      }
+    }
+  }
+
+  checkStructure(manifest, stageExecutions, artifacts, issues);
+
+  return { valid: issues.length === 0, processing_id: manifest.processing_id, checks, issues };
+}
@@ -0,0 +1,404 @@
+/**
+ * Markdown Export
+ *
+ * Renders workflow guides and knowledge bases as Markdown from their structured
+ * content (guide_markdown is deprecated and no longer generated). Content is
+ * taken from getResolvedContent so translations are exported, and RTL output is
+ * wrapped in a dir="rtl" block.
+ */
+
+import { getStepPhaseIndex } from './video-artifacts.js';
+import type {
+  VideoWorkflowGuideContent,
+  VideoWorkflowStep,
+  StepType,
+  KnowledgeItemTypeV2,
+  StrictKnowledgeItem,
+  AugmentationHistoryEntry
+} from './video-artifacts.js';
+import type { SessionContentDoc, FreshnessStatus } from './session-translations.js';
+import { resolveWorkflowGuideForExport, resolveKnowledgeBaseForExport } from './export-content.js';
+import type { ExportContentOptions } from './export-content.js';
+import type { CanonicalKnowledgeBaseContent } from './deprecated-fields.js';
+import { normalizeKnowledgeItem } from './knowledge-normalization.js';
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+/**
+ * Fixed text used by the Markdown renderers. Override for localized exports.
+ */
+export interface MarkdownLabels {
+  goal: string;
+  applications: string;
+  estimatedDuration: string;
+  minutes: string;
+  phase: string;
+  additionalSteps: string;
+  expectedResult: string;
+  visualCues: string;
+  condition: string;
+  ifTrue: string;
+  ifFalse: string;
+  goToStep: string;
+  successCriteria: string;
+  workflowNotes: string;
+  constraints: string;
+  pointers: string;
+  relatedKnowledge: string;
+  knowledgeItems: string;
+  conceptRelationships: string;
+  augmentationHistory: string;
+  addedFromSession: string;
+  subtopics: string;
+  related: string;
+  session: string;
+  date: string;
+  itemsAdded: string;
+  stepTypes: Record<StepType, string>;
+  knowledgeTypes: Record<KnowledgeItemTypeV2, string>;
+}
+
+export const MARKDOWN_LABELS_EN: MarkdownLabels = {
+  goal: 'Goal',
+  applications: 'Applications',
+  estimatedDuration: 'Estimated duration',
+  minutes: 'minutes',
+  phase: 'Phase',
+  additionalSteps: 'Additional Steps',
+  expectedResult: 'Expected result',
+  visualCues: 'Visual cues',
+  condition: 'Condition',
+  ifTrue: 'If true',
+  ifFalse: 'If false',
+  goToStep: 'go to step',
+  successCriteria: 'Success criteria',
+  workflowNotes: 'Workflow Notes',
+  constraints: 'Constraints',
+  pointers: 'Pointers',
+  relatedKnowledge: 'Related Knowledge',
+  knowledgeItems: 'Knowledge Items',
+  conceptRelationships: 'Concept Relationships',
+  augmentationHistory: 'Augmentation History',
+  addedFromSession: 'Added from session',
+  subtopics: 'Subtopics',
+  related: 'Related',
+  session: 'Session',
+  date: 'Date',
+  itemsAdded: 'Items added',
+  stepTypes: {
+    do: 'Action',
+    check: 'Check',
+    hitl: 'Human review',
+    conditional: 'Decision',
+    gap: 'Gap'
+  },
+  knowledgeTypes: {
+    fact: 'Facts',
+    procedure: 'Procedures',
+    rule: 'Rules',
+    pointer: 'Pointers',
+    example: 'Examples',
+    identity: 'Identity',
+    gap: 'Open Questions'
+  }
+};
+
+export interface MarkdownExportOptions extends ExportContentOptions {
+  /** Override any of the fixed labels (e.g. for a localized export) */
+  labels?: Partial<MarkdownLabels>;
+  /** Include augmentation provenance (default: true) */
+  includeProvenance?: boolean;
+  /** Wrap RTL output in <div dir="rtl"> (default: true) */
+  wrapDirection?: boolean;
+}
+
+export type MarkdownExportResult = {
+  success: true;
+  markdown: string;
+  dir: 'rtl' | 'ltr' | 'auto';
+  languageUsed: string;
+  freshnessStatus: FreshnessStatus;
+} | {
+  success: false;
+  message: string;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Escape text for a single-line context (heading, list item, table cell) */
+export function escapeInline(text: string): string {
+  return escapeMarkup(text.replace(/\s*\n\s*/g, ' '));
+}
+
+/** Escape multi-line text, including block markers (#, >, -, 1.) at line starts */
+function escapeBlock(text: string): string {
+  return escapeMarkup(text)
+    .replace(/^(\s*)([#>+\-=])/gm, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/gm, '$1\\$2');
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+}
+
+function longestBacktickRun(text: string): number {
+  return Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+}
+
+/** Inline code whose delimiters are longer than any backtick run in the text */
+function codeSpan(text: string): string {
+  const ticks = '`'.repeat(longestBacktickRun(text) + 1);
+  const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${ticks}${pad}${text.replace(/\s*\n\s*/g, ' ')}${pad}${ticks}`;
+}
+
+/** Fenced code block whose fence cannot be closed by the snippet itself */
+export function codeBlock(text: string): string[] {
+  const fence = '`'.repeat(Math.max(3, longestBacktickRun(text) + 1));
+  return [fence, text, fence, ''];
+}
+
+function paragraph(text: string | undefined): string[] {
+  return text && text.trim() ? [escapeBlock(text.trim()), ''] : [];
+}
+
+function bulletList(items: readonly string[]): string[] {
+  return items.length > 0 ? [...items.map(item => `- ${item}`), ''] : [];
+}
+
+function provenanceLine(
+  item: { source_session_id?: string; added_at?: string; augmentation_of_session_id?: string },
+  labels: MarkdownLabels
+): string[] {
+  if (!item.augmentation_of_session_id || !item.source_session_id) return [];
+  const date = item.added_at ? ` (${escapeInline(item.added_at.slice(0, 10))})` : '';
+  return [`> _${labels.addedFromSession} ${codeSpan(item.source_session_id)}${date}_`, ''];
+}
+
+function augmentationTable(history: AugmentationHistoryEntry[] | undefined, labels: MarkdownLabels): string[] {
+  if (!history || history.length === 0) return [];
+  return [
+    `## ${labels.augmentationHistory}`,
+    '',
+    `| ${labels.session} | ${labels.date} | ${labels.itemsAdded} |`,
+    '| --- | --- | --- |',
+    ...history.map(entry =>
+      `| ${codeSpan(entry.session_id)} | ${escapeInline(entry.timestamp.slice(0, 10))} | ${entry.items_added}${entry.cross_type ? ' (cross-type)' : ''} |`
+    ),
+    ''
+  ];
+}
+
+function finish(lines: string[], dir: 'rtl' | 'ltr' | 'auto', options: MarkdownExportOptions): string {
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  const body = lines.join('\n');
+  if (dir === 'rtl' && (options.wrapDirection ?? true)) {
+    return `<div dir="rtl">\n\n${body}\n\n</div>\n`;
+  }
+  return `${body}\n`;
+}
+
+// ============================================================================
+// Workflow Guide
+// ============================================================================
+
+function renderStep(
+  step: VideoWorkflowStep,
+  labels: MarkdownLabels,
+  options: MarkdownExportOptions
+): string[] {
+  const type = step.step_type ?? 'do';
+  const lines = [`### ${step.step_number}. ${escapeInline(step.title)} ${codeSpan(labels.stepTypes[type])}`, ''];
+  lines.push(...paragraph(step.action));
+
+  const details: string[] = [];
+  if (step.expected_result) details.push(`**${labels.expectedResult}:** ${escapeInline(step.expected_result)}`);
+  if (step.visual_cues) details.push(`**${labels.visualCues}:** ${escapeInline(step.visual_cues)}`);
+  lines.push(...bulletList(details));
+
+  const cond = step.condition_details;
+  if (cond) {
+    const target = (n: number | undefined) => n !== undefined ? ` (${labels.goToStep} ${n})` : '';
+    lines.push(`**${labels.condition}:** ${codeSpan(cond.condition)}`, '');
+    lines.push(`- **${labels.ifTrue}:** ${escapeInline(cond.true_action)}${target(cond.target_steps?.if_true)}`);
+    if (cond.false_action || cond.target_steps?.if_false !== undefined) {
+      lines.push(`- **${labels.ifFalse}:** ${escapeInline(cond.false_action ?? '')}${target(cond.target_steps?.if_false)}`.trimEnd());
+    }
+    lines.push('');
+  }
+
+  if (options.includeProvenance ?? true) lines.push(...provenanceLine(step, labels));
+  return lines;
+}
+
+function renderWorkflowGuide(content: VideoWorkflowGuideContent, options: MarkdownExportOptions): string[] {
+  const labels: MarkdownLabels = { ...MARKDOWN_LABELS_EN, ...options.labels };
+  const summary = content.task_summary;
+  const lines = [`# ${escapeInline(summary.name)}`, ''];
+
+  lines.push(`**${labels.goal}:** ${escapeInline(summary.goal)}`, '');
+  lines.push(...paragraph(summary.abstract));
+  const meta: string[] = [];
+  if (summary.applications?.length) meta.push(`**${labels.applications}:** ${summary.applications.map(escapeInline).join(', ')}`);
+  if (summary.estimated_duration_minutes !== undefined) {
+    meta.push(`**${labels.estimatedDuration}:** ${summary.estimated_duration_minutes} ${labels.minutes}`);
+  }
+  lines.push(...bulletList(meta));
+
+  // Steps grouped by phase; ungrouped steps go to "Additional Steps"
+  const byPhase = content.temporal_phases.map(() => [] as VideoWorkflowStep[]);
+  const ungrouped: VideoWorkflowStep[] = [];
+  for (const step of content.step_by_step_guide) {
+    const idx = getStepPhaseIndex(step, content.temporal_phases);
+    if (idx === null) ungrouped.push(step);
+    else byPhase[idx].push(step);
+  }
+
+  content.temporal_phases.forEach((phase, i) => {
+    lines.push(`## ${labels.phase} ${phase.phase_number}: ${escapeInline(phase.name)}`, '');
+    lines.push(...paragraph(phase.purpose));
+    if (phase.success_criteria?.length) {
+      lines.push(`**${labels.successCriteria}:**`, '', ...bulletList(phase.success_criteria.map(escapeInline)));
+    }
+    for (const step of byPhase[i]) lines.push(...renderStep(step, labels, options));
+  });
+
+  if (ungrouped.length > 0) {
+    if (content.temporal_phases.length > 0) lines.push(`## ${labels.additionalSteps}`, '');
+    for (const step of ungrouped) lines.push(...renderStep(step, labels, options));
+  }
+
+  const notes = content.workflow_notes;
+  if (notes && (notes.success_criteria.length || notes.constraints.length || notes.pointers.length)) {
+    lines.push(`## ${labels.workflowNotes}`, '');
+    const sections: Array<[string, string[]]> = [
+      [labels.successCriteria, notes.success_criteria],
+      [labels.constraints, notes.constraints],
+      [labels.pointers, notes.pointers]
+    ];
+    for (const [title, items] of sections) {
+      if (items.length > 0) lines.push(`### ${title}`, '', ...bulletList(items.map(escapeInline)));
+    }
+  }
+
+  if (content.knowledge_items?.length) {
+    lines.push(`## ${labels.relatedKnowledge}`, '');
+    for (const item of content.knowledge_items) {
+      lines.push(`- **${escapeInline(item.title)}:** ${escapeInline(item.content)}`);
+    }
+    lines.push('');
+  }
+
+  if (options.includeProvenance ?? true) lines.push(...augmentationTable(content.augmentation_history, labels));
+  return lines;
+}
+
+/**
+ * Render a workflow guide session as Markdown.
+ *
+ * @param session - Session document (content, translations, language metadata)
+ * @param options - Language to export, label overrides, provenance toggle
+ *
+ * @example
+ * const result = renderWorkflowGuideMarkdown(sessionDoc, { language: 'he' });
+ * if (result.success) download(result.markdown);
+ */
+export function renderWorkflowGuideMarkdown(
+  session: SessionContentDoc,
+  options: MarkdownExportOptions = {}
+): MarkdownExportResult {
+  const resolved = resolveWorkflowGuideForExport(session, options);
+  if (!resolved.success) return resolved;
+
+  return {
+    success: true,
+    markdown: finish(renderWorkflowGuide(resolved.content, options), resolved.dir, options),
+    dir: resolved.dir,
+    languageUsed: resolved.languageUsed,
+    freshnessStatus: resolved.freshnessStatus
+  };
+}
+
+// ============================================================================
+// Knowledge Base
+// ============================================================================
+
+const KNOWLEDGE_TYPE_ORDER: KnowledgeItemTypeV2[] = ['fact', 'procedure', 'rule', 'pointer', 'example', 'identity', 'gap'];
+
+function renderKnowledgeItem(
+  item: StrictKnowledgeItem,
+  titleFor: (ref: string) => string,
+  labels: MarkdownLabels,
+  options: MarkdownExportOptions
+): string[] {
+  const tags = [item.subtype?.replace(/_/g, ' '), item.importance === 'critical' ? 'critical' : undefined].filter(Boolean);
+  const lines = [`#### ${escapeInline(item.title)}${tags.length ? ` ${codeSpan(tags.join(' · '))}` : ''}`, ''];
+  lines.push(...paragraph(item.content));
+  if (item.code_snippet) lines.push(...codeBlock(item.code_snippet));
+  if (item.related_items?.length) {
+    lines.push(`**${labels.related}:** ${item.related_items.map(titleFor).join(', ')}`, '');
+  }
+  if (options.includeProvenance ?? true) lines.push(...provenanceLine(item, labels));
+  return lines;
+}
+
+function renderKnowledgeBase(content: CanonicalKnowledgeBaseContent, options: MarkdownExportOptions): string[] {
+  const labels: MarkdownLabels = { ...MARKDOWN_LABELS_EN, ...options.labels };
+  const summary = content.session_summary;
+  const lines = [`# ${escapeInline(summary.topic)}`, ''];
+
+  lines.push(...paragraph(content.abstract));
+  if (summary.subtopics.length > 0) lines.push(`**${labels.subtopics}:** ${summary.subtopics.map(escapeInline).join(', ')}`, '');
+
+  // Relationships reference item_ids; older data may reference titles
+  const titleFor = (ref: string) => {
+    const item = content.knowledge_items.find(i => i.item_id === ref || i.title === ref);
+    return item ? escapeInline(item.title) : escapeInline(ref);
+  };
+
+  // Legacy types are grouped under their v2 type and shown as a subtype tag
+  const normalized = content.knowledge_items.map(item => normalizeKnowledgeItem(item).item);
+  lines.push(`## ${labels.knowledgeItems}`, '');
+  for (const type of KNOWLEDGE_TYPE_ORDER) {
+    const items = normalized.filter(item => item.type === type);
+    if (items.length === 0) continue;
+    lines.push(`### ${labels.knowledgeTypes[type]}`, '');
+    for (const item of items) lines.push(...renderKnowledgeItem(item, titleFor, labels, options));
+  }
+
+  if (content.concept_relationships?.length) {
+    lines.push(`## ${labels.conceptRelationships}`, '');
+    lines.push(...bulletList(content.concept_relationships.map(rel =>
+      `**${titleFor(rel.from)}** _${escapeInline(rel.relationship.replace(/_/g, ' '))}_ **${titleFor(rel.to)}** — ${escapeInline(rel.description)}`
+    )));
+  }
+
+  if (options.includeProvenance ?? true) lines.push(...augmentationTable(content.augmentation_history, labels));
+  return lines;
+}
+
+/**
+ * Render a knowledge base session as Markdown, grouping items by v2 type.
+ *
+ * @example
+ * const result = renderKnowledgeBaseMarkdown(sessionDoc, { language: 'ar' });
+ */
+export function renderKnowledgeBaseMarkdown(
+  session: SessionContentDoc,
+  options: MarkdownExportOptions = {}
+): MarkdownExportResult {
+  const resolved = resolveKnowledgeBaseForExport(session, options);
+  if (!resolved.success) return resolved;
+
+  return {
+    success: true,
+    markdown: finish(renderKnowledgeBase(resolved.content, options), resolved.dir, options),
+    dir: resolved.dir,
+    languageUsed: resolved.languageUsed,
+    freshnessStatus: resolved.freshnessStatus
+  };
+}
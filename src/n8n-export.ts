@@ -0,0 +1,365 @@
+/**
+ * n8n Workflow Export
+ *
+ * Deterministic conversion of a VideoWorkflowGuideContent into importable n8n
+ * workflow JSON:
+ * - A manual trigger feeds the first step
+ * - Conditional steps become IF nodes; the simple_expr_v1 condition is compiled
+ *   into an n8n expression over $json (output 0 = true, output 1 = false)
+ * - hitl steps become Wait nodes that resume on webhook (manual approval)
+ * - Everything else becomes a No-Op node annotated with the step description
+ *
+ * The AI-powered export pass then only fills in details (credentials, concrete
+ * nodes for the placeholders) instead of building the whole graph.
+ */
+
+import type { VideoWorkflowGuideContent } from './video-artifacts.js';
+import type { ConditionNode, ConditionValueNode } from './condition-expression.js';
+import { analyzeWorkflowGraph, WORKFLOW_GRAPH_END } from './workflow-graph.js';
+import type { WorkflowGraphNode } from './workflow-graph.js';
+import {
+  createAutomationExportReport,
+  createNameAllocator,
+  describeStepForAutomation,
+  parseStepCondition
+} from './automation-export.js';
+import type { AutomationExportReport, AutomationStepMapping } from './automation-export.js';
+
+// ============================================================================
+// n8n Workflow Types
+// ============================================================================
+
+export const N8N_NODE_TYPES = {
+  manualTrigger: 'n8n-nodes-base.manualTrigger',
+  if: 'n8n-nodes-base.if',
+  wait: 'n8n-nodes-base.wait',
+  noOp: 'n8n-nodes-base.noOp',
+  stickyNote: 'n8n-nodes-base.stickyNote'
+} as const;
+
+export interface N8nNode {
+  id: string;
+  name: string;
+  type: string;
+  typeVersion: number;
+  position: [number, number];
+  parameters: Record<string, unknown>;
+  notes?: string;
+  notesInFlow?: boolean;
+}
+
+export interface N8nConnectionTarget {
+  node: string;
+  type: 'main';
+  index: number;
+}
+
+/** Keyed by source node name; main[outputIndex] lists the targets of that output */
+export type N8nConnections = Record<string, { main: N8nConnectionTarget[][] }>;
+
+export interface N8nWorkflow {
+  name: string;
+  nodes: N8nNode[];
+  connections: N8nConnections;
+  active: false;
+  settings: { executionOrder: 'v1' };
+  pinData: Record<string, never>;
+}
+
+export interface N8nExportOptions {
+  /** Workflow name (default: task_summary.name) */
+  name?: string;
+  /** Add a sticky note per temporal phase (default: true) */
+  includePhaseNotes?: boolean;
+}
+
+export interface N8nExportResult {
+  workflow: N8nWorkflow;
+  report: AutomationExportReport;
+}
+
+// ============================================================================
+// Condition Compilation
+// ============================================================================
+
+function compileVariable(name: string): string {
+  const [first, ...rest] = name.split('.');
+  // a.0 -> $json.a?.[0]: numeric segments index arrays and are not valid property names
+  return rest.reduce((path, part) =>
+    /^[A-Za-z_$][\w$]*$/.test(part) ? `${path}?.${part}` : `${path}?.[${/^\d+$/.test(part) ? part : JSON.stringify(part)}]`,
+  `$json.${first}`);
+}
+
+/**
+ * JavaScript helpers mirroring the evaluator in condition-expression.ts
+ * (toNumber, isEmptyValue, valuesEqual, compareValues, isTruthy), in
+ * dependency order. Only the helpers an expression uses are emitted.
+ */
+const N8N_CONDITION_HELPERS = {
+  toNumber: "v => typeof v === 'number' ? (Number.isFinite(v) ? v : undefined)"
+    + " : typeof v === 'string' && v.trim() !== '' && Number.isFinite(Number(v)) ? Number(v) : undefined",
+  isEmpty: "v => v == null || (typeof v === 'string' ? v.trim() === ''"
+    + " : Array.isArray(v) ? v.length === 0 : typeof v === 'object' && Object.keys(v).length === 0)",
+  equal: '(a, b) => a == null || b == null ? (a ?? null) === (b ?? null)'
+    + ' : toNumber(a) !== undefined && toNumber(b) !== undefined ? toNumber(a) === toNumber(b) : String(a) === String(b)',
+  order: '(a, b) => a == null || b == null ? NaN'
+    + ' : toNumber(a) !== undefined && toNumber(b) !== undefined ? Math.sign(toNumber(a) - toNumber(b))'
+    + ' : String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0',
+  isTruthy: "v => typeof v === 'string' ? v.trim() !== '' && v.toLowerCase() !== 'false' : !isEmpty(v) && v !== false && v !== 0",
+  contains: '(a, b) => Array.isArray(a) ? a.some(item => equal(item, b)) : a != null && b != null && String(a).includes(String(b))'
+} as const;
+
+type N8nConditionHelper = keyof typeof N8N_CONDITION_HELPERS;
+
+const HELPER_DEPENDENCIES: Record<N8nConditionHelper, N8nConditionHelper[]> = {
+  toNumber: [],
+  isEmpty: [],
+  equal: ['toNumber'],
+  order: ['toNumber'],
+  isTruthy: ['isEmpty'],
+  contains: ['equal']
+};
+
+function compileValue(node: ConditionValueNode): string {
+  switch (node.kind) {
+    case 'variable': return compileVariable(node.name);
+    case 'string': return JSON.stringify(node.value);
+    case 'number': return String(node.value);
+    case 'boolean': return String(node.value);
+  }
+}
+
+/** `value != null` for variables; literals are never null */
+function notNull(node: ConditionValueNode): string[] {
+  return node.kind === 'variable' ? [`${compileValue(node)} != null`] : [];
+}
+
+function compileNode(ast: ConditionNode, use: (helper: N8nConditionHelper) => string): string {
+  switch (ast.kind) {
+    case 'logical':
+      return `(${compileNode(ast.left, use)} ${ast.operator === 'AND' ? '&&' : '||'} ${compileNode(ast.right, use)})`;
+    case 'not':
+      return `!${compileNode(ast.operand, use)}`;
+    case 'emptiness':
+      return `${ast.operator === 'IS_EMPTY' ? '' : '!'}${use('isEmpty')}(${compileValue(ast.operand)})`;
+    case 'value':
+      return `${use('isTruthy')}(${compileValue(ast.value)})`;
+    case 'comparison': {
+      const left = compileValue(ast.left);
+      const right = compileValue(ast.right);
+      switch (ast.operator) {
+        case '=': return `${use('equal')}(${left}, ${right})`;
+        case '!=': return `!${use('equal')}(${left}, ${right})`;
+        case '>':
+        case '<':
+        case '>=':
+        case '<=':
+          // NaN (a null side) makes every ordering false, as in the evaluator
+          return `(${use('order')}(${left}, ${right}) ${ast.operator} 0)`;
+        case 'CONTAINS': return `${use('contains')}(${left}, ${right})`;
+        case 'STARTS_WITH':
+        case 'ENDS_WITH': {
+          const method = ast.operator === 'STARTS_WITH' ? 'startsWith' : 'endsWith';
+          const prefix = ast.right.kind === 'string' ? right : `String(${right})`;
+          return `(${[...notNull(ast.left), ...notNull(ast.right), `String(${left}).${method}(${prefix})`].join(' && ')})`;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Compile a simple_expr_v1 AST into an n8n (JavaScript) expression body over $json.
+ * The result gives the same answer as evaluateCondition() for the same data:
+ * helpers that port the evaluator's rules ('=' compares as numbers when both
+ * sides convert, else as strings; ordering likewise; missing values never
+ * compare; bare values use the evaluator's truthiness) are defined in an
+ * immediately invoked function when the expression needs them.
+ *
+ * @example
+ * compileConditionToN8nExpression(parseConditionExpression("status STARTS_WITH 'open'").ast)
+ * // ($json.status != null && String($json.status).startsWith("open"))
+ */
+export function compileConditionToN8nExpression(ast: ConditionNode): string {
+  const used = new Set<N8nConditionHelper>();
+  const use = (helper: N8nConditionHelper): string => {
+    const add = (name: N8nConditionHelper): void => {
+      used.add(name);
+      HELPER_DEPENDENCIES[name].forEach(add);
+    };
+    add(helper);
+    return helper;
+  };
+  const body = compileNode(ast, use);
+  if (used.size === 0) return body;
+
+  const helpers = (Object.keys(N8N_CONDITION_HELPERS) as N8nConditionHelper[])
+    .filter(helper => used.has(helper))
+    .map(helper => `const ${helper} = ${N8N_CONDITION_HELPERS[helper]};`);
+  return `(() => { ${helpers.join(' ')} return ${body}; })()`;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const X_START = 240;
+const X_STEP = 240;
+const Y_MAIN = 300;
+
+function ifParameters(expression: string): Record<string, unknown> {
+  return {
+    conditions: {
+      options: { caseSensitive: true, leftValue: '', typeValidation: 'loose' },
+      conditions: [{
+        id: 'condition',
+        leftValue: `={{ ${expression} }}`,
+        rightValue: '',
+        operator: { type: 'boolean', operation: 'true', singleValue: true }
+      }],
+      combinator: 'and'
+    },
+    options: {}
+  };
+}
+
+function stepNode(
+  graphNode: WorkflowGraphNode,
+  name: string,
+  position: [number, number]
+): { node: N8nNode; mapping: AutomationStepMapping } {
+  const step = graphNode.step;
+  const notes = describeStepForAutomation(step);
+  const base = { id: `step-${String(graphNode.step_number).replace('.', '-')}`, name, position, notesInFlow: true };
+  const mapping = { step_number: graphNode.step_number, title: step.title, step_type: graphNode.step_type, node: name };
+
+  if (graphNode.step_type === 'conditional' && step.condition_details) {
+    const parsed = parseStepCondition(step);
+    const details = step.condition_details;
+    const branches = [`If true: ${details.true_action}`, details.false_action && `If false: ${details.false_action}`]
+      .filter(Boolean).join('\n');
+    if (parsed.success) {
+      return {
+        node: {
+          ...base, type: N8N_NODE_TYPES.if, typeVersion: 2,
+          parameters: ifParameters(compileConditionToN8nExpression(parsed.ast)),
+          notes: `${details.condition}\n${branches}`
+        },
+        mapping: { ...mapping, status: 'mapped' }
+      };
+    }
+    // Keep the IF node (and both outputs) so only the expression needs filling in
+    return {
+      node: {
+        ...base, type: N8N_NODE_TYPES.if, typeVersion: 2,
+        parameters: ifParameters('false'),
+        notes: `TODO: implement condition "${details.condition}"\n${branches}`
+      },
+      mapping: { ...mapping, status: 'placeholder', reason: parsed.message }
+    };
+  }
+
+  if (graphNode.step_type === 'hitl') {
+    return {
+      node: {
+        ...base, type: N8N_NODE_TYPES.wait, typeVersion: 1.1,
+        parameters: { resume: 'webhook', options: {} },
+        notes: `Human review: ${notes}`
+      },
+      mapping: { ...mapping, status: 'mapped' }
+    };
+  }
+
+  const reason = graphNode.step_type === 'conditional'
+    ? 'Conditional step has no condition_details'
+    : `No deterministic n8n equivalent for '${graphNode.step_type}' steps`;
+  return {
+    node: {
+      ...base, type: N8N_NODE_TYPES.noOp, typeVersion: 1, parameters: {},
+      notes: graphNode.step_type === 'gap' ? `GAP: ${notes}` : notes
+    },
+    mapping: { ...mapping, status: 'placeholder', reason }
+  };
+}
+
+/**
+ * Convert a workflow guide into n8n workflow JSON plus a mapping report.
+ * Steps with missing or duplicate step_numbers are left out (see report.issues).
+ *
+ * @example
+ * const { workflow, report } = exportWorkflowToN8n(content);
+ * fs.writeFileSync('workflow.json', JSON.stringify(workflow, null, 2));
+ * console.log(`${report.placeholders} steps need attention`);
+ */
+export function exportWorkflowToN8n(
+  content: VideoWorkflowGuideContent,
+  options: N8nExportOptions = {}
+): N8nExportResult {
+  const { graph, issues } = analyzeWorkflowGraph(content);
+  const allocate = createNameAllocator();
+
+  const trigger: N8nNode = {
+    id: 'trigger',
+    name: allocate('Start'),
+    type: N8N_NODE_TYPES.manualTrigger,
+    typeVersion: 1,
+    position: [X_START, Y_MAIN],
+    parameters: {}
+  };
+
+  const nodes: N8nNode[] = [trigger];
+  const mappings: AutomationStepMapping[] = [];
+  const nameByStep = new Map<number, string>();
+
+  graph.nodes.forEach((graphNode, i) => {
+    const name = allocate(`${graphNode.step_number}. ${graphNode.title}`);
+    const { node, mapping } = stepNode(graphNode, name, [X_START + X_STEP * (i + 1), Y_MAIN]);
+    nodes.push(node);
+    mappings.push(mapping);
+    nameByStep.set(graphNode.step_number, name);
+  });
+
+  const connections: N8nConnections = {};
+  const connect = (from: string, output: number, to: string) => {
+    const main = (connections[from] ??= { main: [] }).main;
+    while (main.length <= output) main.push([]);
+    main[output].push({ node: to, type: 'main', index: 0 });
+  };
+
+  if (graph.entry !== null) connect(trigger.name, 0, nameByStep.get(graph.entry)!);
+  for (const edge of graph.edges) {
+    if (edge.to === WORKFLOW_GRAPH_END) continue;
+    connect(nameByStep.get(edge.from)!, edge.kind === 'if_false' ? 1 : 0, nameByStep.get(edge.to)!);
+  }
+
+  if (options.includePhaseNotes ?? true) {
+    content.temporal_phases.forEach((phase, phaseIndex) => {
+      const first = graph.nodes.findIndex(n => n.phase_index === phaseIndex);
+      if (first < 0) return;
+      let last = first;
+      graph.nodes.forEach((n, i) => { if (n.phase_index === phaseIndex) last = i; });
+      const text = [`## ${phase.phase_number}. ${phase.name}`, phase.purpose, ...(phase.success_criteria ?? []).map(c => `- ${c}`)];
+      // Sized to enclose the phase's steps so the grouping survives a re-import
+      nodes.push({
+        id: `phase-${phase.phase_number}`,
+        name: allocate(`Phase ${phase.phase_number}`),
+        type: N8N_NODE_TYPES.stickyNote,
+        typeVersion: 1,
+        position: [X_START + X_STEP * (first + 1) - 40, Y_MAIN - 220],
+        parameters: { content: text.filter(Boolean).join('\n'), width: X_STEP * (last - first) + 200, height: 400 }
+      });
+    });
+  }
+
+  return {
+    workflow: {
+      name: options.name ?? content.task_summary.name,
+      nodes,
+      connections,
+      active: false,
+      settings: { executionOrder: 'v1' },
+      pinData: {}
+    },
+    report: createAutomationExportReport(mappings, issues)
+  };
+}
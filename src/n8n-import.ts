@@ -0,0 +1,364 @@
+/**
+ * n8n Workflow Import
+ *
+ * Reads n8n workflow JSON into a ProcessDefinition and builds workflow guide
+ * content from it (see process-import.ts):
+ * - Trigger nodes start the flow and are not steps
+ * - IF / Switch nodes become conditional steps; their conditions are converted
+ *   to simple_expr_v1 where possible
+ * - Wait nodes become hitl steps; Filter nodes become check steps
+ * - Other nodes become "do" steps (their parameters and credentials are not
+ *   carried over)
+ * - Sticky notes that enclose nodes become temporal_phases
+ *
+ * Workflows produced by exportWorkflowToN8n round-trip: step notes, expected
+ * results and the original conditions are read back from the node notes.
+ */
+
+import { z } from 'zod';
+import { buildWorkflowGuideFromProcess } from './process-import.js';
+import type {
+  ProcessDefinition,
+  ProcessNode,
+  ProcessNodeKind,
+  ProcessEdge,
+  ProcessLane,
+  ProcessImportResult,
+  ImportLossEntry
+} from './process-import.js';
+
+// ============================================================================
+// Input Schema
+// ============================================================================
+
+const N8nImportNodeSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  type: z.string(),
+  typeVersion: z.number().optional(),
+  position: z.tuple([z.number(), z.number()]).optional(),
+  parameters: z.record(z.unknown()).optional(),
+  notes: z.string().optional(),
+  disabled: z.boolean().optional()
+}).passthrough();
+
+const N8nImportConnectionSchema = z.object({
+  node: z.string(),
+  type: z.string().optional(),
+  index: z.number().optional()
+}).passthrough();
+
+/** Permissive shape of an n8n workflow export, as accepted by importN8nWorkflow */
+export const N8nImportWorkflowSchema = z.object({
+  name: z.string().optional(),
+  nodes: z.array(N8nImportNodeSchema),
+  connections: z.record(z.record(z.array(z.array(N8nImportConnectionSchema).nullable()))).optional()
+}).passthrough();
+export type N8nImportWorkflow = z.infer<typeof N8nImportWorkflowSchema>;
+type N8nImportNode = z.infer<typeof N8nImportNodeSchema>;
+
+export interface N8nImportOptions {
+  /** Workflow name (default: the n8n workflow name) */
+  name?: string;
+}
+
+// ============================================================================
+// Node Classification
+// ============================================================================
+
+function shortType(type: string): string {
+  return type.slice(type.lastIndexOf('.') + 1);
+}
+
+const TRIGGER_TYPES = new Set(['manualTrigger', 'start', 'webhook', 'formTrigger', 'scheduleTrigger', 'cron', 'interval', 'executeWorkflowTrigger', 'chatTrigger']);
+
+/** Core nodes that do not name an application */
+const CORE_TYPES = new Set([
+  'if', 'switch', 'merge', 'noOp', 'wait', 'set', 'code', 'function', 'functionItem', 'stickyNote', 'filter',
+  'splitInBatches', 'splitOut', 'aggregate', 'itemLists', 'dateTime', 'respondToWebhook', 'executeWorkflow',
+  'httpRequest', 'stopAndError', 'limit', 'sort', 'removeDuplicates', 'summarize', 'compareDatasets', 'renameKeys',
+  ...TRIGGER_TYPES
+]);
+
+function isTrigger(type: string): boolean {
+  const short = shortType(type);
+  return TRIGGER_TYPES.has(short) || short.endsWith('Trigger');
+}
+
+/** 'googleSheets' -> 'Google Sheets' */
+function applicationName(type: string): string {
+  return shortType(type)
+    .replace(/(Trigger|Tool)$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/^./, ch => ch.toUpperCase());
+}
+
+/** Notes written by exportWorkflowToN8n: description lines plus labelled extras */
+function parseNotes(notes: string | undefined): { description?: string; expected_result?: string; visual_cues?: string } {
+  if (!notes?.trim()) return {};
+  const description: string[] = [];
+  let expected_result: string | undefined;
+  let visual_cues: string | undefined;
+  for (const line of notes.trim().split('\n')) {
+    if (line.startsWith('Expected result: ')) expected_result = line.slice('Expected result: '.length).trim();
+    else if (line.startsWith('Visual cues: ')) visual_cues = line.slice('Visual cues: '.length).trim();
+    else description.push(line);
+  }
+  return {
+    ...(description.join('\n').trim() ? { description: description.join('\n').trim() } : {}),
+    ...(expected_result ? { expected_result } : {}),
+    ...(visual_cues ? { visual_cues } : {})
+  };
+}
+
+// ============================================================================
+// Condition Parameters
+// ============================================================================
+
+/** Operand of an n8n condition as expression text ('={{ $json.a }}' -> '$json.a') */
+function operand(value: unknown, type?: string): string | undefined {
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const expression = /^=\s*\{\{([\s\S]*)\}\}\s*$/.exec(value);
+  if (expression) return expression[1].trim();
+  if (value.startsWith('=')) return undefined;
+  if (type === 'number' && value.trim() !== '' && !Number.isNaN(Number(value))) return value.trim();
+  return JSON.stringify(value);
+}
+
+const V2_OPERATIONS: Record<string, string> = {
+  equals: '==', notEquals: '!=', gt: '>', lt: '<', gte: '>=', lte: '<=', after: '>', before: '<',
+  afterOrEquals: '>=', beforeOrEquals: '<=', contains: 'CONTAINS', startsWith: 'STARTS_WITH', endsWith: 'ENDS_WITH'
+};
+const V1_OPERATIONS: Record<string, string> = {
+  equal: '==', notEqual: '!=', larger: '>', smaller: '<', largerEqual: '>=', smallerEqual: '<=',
+  contains: 'CONTAINS', startsWith: 'STARTS_WITH', endsWith: 'ENDS_WITH'
+};
+
+function comparison(left: string | undefined, operation: string, right: string | undefined, table: Record<string, string>): string | undefined {
+  if (left === undefined) return undefined;
+  switch (operation) {
+    case 'empty': case 'isEmpty': case 'notExists': return `IS_EMPTY(${left})`;
+    case 'notEmpty': case 'isNotEmpty': case 'exists': return `IS_NOT_EMPTY(${left})`;
+    case 'true': return left;
+    case 'false': return `!(${left})`;
+  }
+  const operator = table[operation];
+  return operator && right !== undefined ? `(${left} ${operator} ${right})` : undefined;
+}
+
+/**
+ * Expression text for IF (v1/v2) or Filter condition parameters, before
+ * conversion; undefined when an operation has no simple_expr_v1 equivalent
+ */
+function conditionsToExpression(parameters: Record<string, unknown>): string | undefined {
+  const conditions = parameters.conditions as Record<string, unknown> | undefined;
+  if (!conditions) return undefined;
+
+  // v2: { conditions: [{ leftValue, rightValue, operator: { type, operation } }], combinator }
+  if (Array.isArray(conditions.conditions)) {
+    const parts = (conditions.conditions as Array<Record<string, unknown>>).map(c => {
+      const operator = (c.operator ?? {}) as { type?: string; operation?: string };
+      return comparison(operand(c.leftValue, operator.type), operator.operation ?? '', operand(c.rightValue, operator.type), V2_OPERATIONS);
+    });
+    if (parts.length === 0 || parts.some(part => part === undefined)) return undefined;
+    return parts.join(conditions.combinator === 'or' ? ' || ' : ' && ');
+  }
+
+  // v1: { conditions: { string: [...], number: [...], boolean: [...] }, combineOperation }
+  const parts: Array<string | undefined> = [];
+  for (const [type, list] of Object.entries(conditions)) {
+    if (!Array.isArray(list)) continue;
+    for (const c of list as Array<Record<string, unknown>>) {
+      parts.push(type === 'boolean'
+        ? comparison(operand(c.value1, type), c.operation === 'notEqual' ? '!=' : '==', operand(c.value2, type), { '==': '==', '!=': '!=' })
+        : comparison(operand(c.value1, type), String(c.operation ?? 'equal'), operand(c.value2, type), V1_OPERATIONS));
+    }
+  }
+  if (parts.length === 0 || parts.some(part => part === undefined)) return undefined;
+  return parts.join(parameters.combineOperation === 'any' ? ' || ' : ' && ');
+}
+
+/** Condition candidates and label for one output of an IF/Switch node */
+interface N8nBranch {
+  expressions?: string[];
+  label?: string;
+}
+
+/** Per-output condition expressions of a Switch node (v3 rules; v1/v2 value rules) */
+function switchOutputs(parameters: Record<string, unknown>): N8nBranch[] {
+  const rules = parameters.rules as Record<string, unknown> | undefined;
+  const values = (rules?.values ?? rules?.rules) as Array<Record<string, unknown>> | undefined;
+  if (!Array.isArray(values)) return [];
+  const switchValue = operand(parameters.value1 ?? parameters.value, parameters.dataType as string | undefined);
+  return values.map(rule => {
+    const label = typeof rule.outputKey === 'string' ? rule.outputKey : undefined;
+    const expression = rule.conditions
+      ? conditionsToExpression({ conditions: rule.conditions })
+      : comparison(switchValue, String(rule.operation ?? 'equal'), operand(rule.value2, parameters.dataType as string | undefined), V1_OPERATIONS);
+    return { ...(expression ? { expressions: [expression] } : {}), ...(label ? { label } : {}) };
+  });
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/** Sticky notes that enclose nodes; each node belongs to the smallest enclosing note */
+function readPhases(stickies: N8nImportNode[], nodes: N8nImportNode[], losses: ImportLossEntry[]): { lanes: ProcessLane[]; laneOf: Map<string, string> } {
+  const boxes = stickies.map(sticky => {
+    const [x, y] = sticky.position ?? [0, 0];
+    const width = Number(sticky.parameters?.width ?? 240);
+    const height = Number(sticky.parameters?.height ?? 160);
+    return { sticky, x, y, width, height };
+  });
+  const laneOf = new Map<string, string>();
+  for (const node of nodes) {
+    if (!node.position) continue;
+    const [x, y] = node.position;
+    const inside = boxes
+      .filter(box => x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height)
+      .sort((a, b) => a.width * a.height - b.width * b.height);
+    if (inside.length > 0) laneOf.set(node.name, inside[0].sticky.name);
+  }
+
+  const used = new Set(laneOf.values());
+  const lanes: ProcessLane[] = [];
+  for (const { sticky } of boxes) {
+    const lines = String(sticky.parameters?.content ?? '').split('\n').map(line => line.trim()).filter(Boolean);
+    if (!used.has(sticky.name)) {
+      if (lines.length > 0) losses.push({ kind: 'element_skipped', source_id: sticky.name, message: 'Sticky note does not enclose any node; its text is not imported' });
+      continue;
+    }
+    const title = (lines[0] ?? '').replace(/^#+\s*/, '').replace(/[*_]/g, '').replace(/^\d+\.\s+/, '').trim();
+    lanes.push({ id: sticky.name, name: title || sticky.name, ...(lines.length > 1 ? { description: lines.slice(1).join('\n') } : {}) });
+  }
+  return { lanes, laneOf };
+}
+
+/**
+ * Import an n8n workflow (JSON text or parsed object) as workflow guide content (schema 3.0)
+ *
+ * @example
+ * const result = importN8nWorkflow(fs.readFileSync('workflow.json', 'utf8'));
+ * if (result.success) console.log(`${result.report.steps} steps, ${result.report.losses.length} losses`);
+ */
+export function importN8nWorkflow(input: string | unknown, options: N8nImportOptions = {}): ProcessImportResult {
+  let json: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      json = JSON.parse(input);
+    } catch (error) {
+      return { success: false, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+  const parsed = N8nImportWorkflowSchema.safeParse(json);
+  if (!parsed.success) {
+    return { success: false, message: `Not an n8n workflow: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}` };
+  }
+  const workflow = parsed.data;
+  const losses: ImportLossEntry[] = [];
+
+  const stickies = workflow.nodes.filter(node => shortType(node.type) === 'stickyNote');
+  const flowNodes = workflow.nodes.filter(node => shortType(node.type) !== 'stickyNote');
+  const { lanes, laneOf } = readPhases(stickies, flowNodes, losses);
+
+  const nodes: ProcessNode[] = [];
+  const branchesByNode = new Map<string, N8nBranch[]>();
+  const ifNodes = new Set<string>();
+  const applications = new Set<string>();
+
+  for (const n8nNode of flowNodes) {
+    const type = shortType(n8nNode.type);
+    const parameters = n8nNode.parameters ?? {};
+    const notes = parseNotes(n8nNode.notes);
+    const lose = (kind: ImportLossEntry['kind'], message: string) => { losses.push({ kind, source_id: n8nNode.name, message }); };
+    const node = (kind: ProcessNodeKind, extra: Partial<ProcessNode> = {}): ProcessNode => ({
+      id: n8nNode.name,
+      name: n8nNode.name.replace(/^\d+(\.\d+)?\.\s+/, ''),
+      kind,
+      ...notes,
+      ...(laneOf.has(n8nNode.name) ? { lane: laneOf.get(n8nNode.name) } : {}),
+      ...extra
+    });
+
+    if (!CORE_TYPES.has(type) && !n8nNode.type.startsWith('@n8n/n8n-nodes-langchain')) applications.add(applicationName(n8nNode.type));
+
+    if (n8nNode.disabled) {
+      nodes.push(node('merge'));
+      lose('element_skipped', 'Disabled node is not imported');
+    } else if (isTrigger(n8nNode.type)) {
+      nodes.push(node('start'));
+      if (type !== 'manualTrigger' && type !== 'start') lose('event_semantics', `Started by ${applicationName(n8nNode.type)} trigger; the trigger is not a step`);
+    } else if (type === 'if') {
+      // exportWorkflowToN8n notes: condition, then "If true: ..." / "If false: ..." lines
+      const lines = (n8nNode.notes ?? '').split('\n');
+      const todo = /^TODO: implement condition "(.*)"$/.exec(lines[0] ?? '');
+      const fromNotes = todo ? todo[1] : lines[0]?.startsWith('If ') ? undefined : lines[0]?.trim();
+      const branchLabel = (prefix: string) => lines.find(line => line.startsWith(prefix))?.slice(prefix.length).trim();
+      const expressions = [conditionsToExpression(parameters), fromNotes].filter((e): e is string => !!e);
+      ifNodes.add(n8nNode.name);
+      branchesByNode.set(n8nNode.name, [
+        {
+          ...(expressions.length > 0 ? { expressions } : {}),
+          ...(branchLabel('If true: ') ? { label: branchLabel('If true: ') } : {})
+        },
+        { ...(branchLabel('If false: ') ? { label: branchLabel('If false: ') } : {}) }
+      ]);
+      nodes.push(node('decision', { description: undefined }));
+    } else if (type === 'switch') {
+      branchesByNode.set(n8nNode.name, switchOutputs(parameters));
+      nodes.push(node('decision', { description: undefined }));
+      if (parameters.mode === 'expression') lose('condition_as_text', 'Switch in expression mode: output routing expression is not converted');
+    } else if (type === 'wait') {
+      nodes.push(node('wait', notes.description ? { description: notes.description.replace(/^Human review:\s*/, '') } : {}));
+    } else if (type === 'filter') {
+      const expression = conditionsToExpression(parameters);
+      nodes.push(node('check', notes.description || !expression ? {} : { description: `Keep items where ${expression}` }));
+    } else if (type === 'merge') {
+      nodes.push(node('merge'));
+    } else if (type === 'noOp') {
+      const gap = notes.description?.startsWith('GAP: ');
+      nodes.push(node(gap ? 'gap' : 'task', gap ? { description: notes.description!.slice('GAP: '.length) } : {}));
+    } else {
+      const operation = [parameters.resource, parameters.operation].filter(value => typeof value === 'string').join(' ');
+      nodes.push(node('task', notes.description ? {} : { description: `${applicationName(n8nNode.type)}${operation ? `: ${operation}` : ''}` }));
+      if (type === 'code' || type === 'function' || type === 'functionItem') lose('parameters_dropped', 'Code is not imported');
+      else if (Object.keys(parameters).length > 0) lose('parameters_dropped', 'Node parameters and credentials are not imported');
+    }
+  }
+
+  const edges: ProcessEdge[] = [];
+  for (const [source, outputs] of Object.entries(workflow.connections ?? {})) {
+    for (const [connectionType, targets] of Object.entries(outputs)) {
+      if (connectionType !== 'main') {
+        losses.push({ kind: 'element_skipped', source_id: source, message: `'${connectionType}' connections are not imported` });
+        continue;
+      }
+      const branches = branchesByNode.get(source);
+      targets.forEach((list, output) => {
+        for (const target of list ?? []) {
+          const branch = branches?.[output];
+          edges.push({
+            from: source,
+            to: target.node,
+            ...(branch?.label ? { label: branch.label } : {}),
+            ...(branch?.expressions ? { expressions: branch.expressions } : {}),
+            ...(ifNodes.has(source) ? { branch: output === 0 ? 'true' as const : 'false' as const } : {}),
+            // Switch fallback output
+            ...(branches && !ifNodes.has(source) && output >= branches.length ? { isDefault: true } : {})
+          });
+        }
+      });
+    }
+  }
+
+  const definition: ProcessDefinition = {
+    name: options.name || workflow.name || 'Imported n8n workflow',
+    applications: [...applications],
+    nodes,
+    edges,
+    lanes
+  };
+  return buildWorkflowGuideFromProcess(definition, 'n8n', losses);
+}
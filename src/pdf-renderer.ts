@@ -0,0 +1,743 @@
+/**
+ * PDF Renderer
+ *
+ * Pure-TypeScript PDF writer for ExportDocument (no native or npm dependencies,
+ * so it runs in Cloud Functions, edge runtimes and the browser alike).
+ *
+ * Fonts:
+ * - Without a font, the standard Helvetica/Courier fonts are used with
+ *   WinAnsiEncoding; characters outside it are replaced with '?' and reported
+ *   in `missingCharacters`.
+ * - With `font.regular` (a TrueType .ttf, e.g. Noto Sans Hebrew), the font is
+ *   embedded as a CIDFontType2 with Identity-H encoding and a ToUnicode map, so
+ *   any script the font covers renders and stays copyable.
+ *
+ * RTL blocks are laid out right-aligned and reordered per line with a
+ * simplified bidi pass (RTL words reversed, embedded Latin/number runs kept in
+ * order). Arabic contextual shaping is not applied: letters render in the
+ * forms the font maps to their base code points.
+ */
+
+import type { ExportDocument, DocumentBlock, DocumentParagraph, BlockDirection } from './document-model.js';
+
+export interface PdfFontSource {
+  /** TrueType (glyf-based .ttf) font data */
+  regular: Uint8Array;
+  /** Optional bold face; the regular face is used for bold text when omitted */
+  bold?: Uint8Array;
+}
+
+export interface PdfOptions {
+  pageSize?: 'a4' | 'letter';
+  font?: PdfFontSource;
+}
+
+export type PdfRenderResult = {
+  success: true;
+  data: Uint8Array;
+  pageCount: number;
+  /** Characters that could not be rendered with the available fonts (deduplicated) */
+  missingCharacters: string[];
+} | {
+  success: false;
+  message: string;
+};
+
+// ============================================================================
+// Standard Fonts (WinAnsiEncoding)
+// ============================================================================
+
+// AFM advance widths for ASCII 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// WinAnsi code points 0x80-0x9F that differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+};
+const WIN_ANSI_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000, 0xa0: 278
+};
+
+function toWinAnsi(codePoint: number): number | undefined {
+  if (codePoint >= 0x20 && codePoint <= 0x7e) return codePoint;
+  if (codePoint >= 0xa0 && codePoint <= 0xff) return codePoint;
+  return WIN_ANSI_EXTRAS[codePoint];
+}
+
+// ============================================================================
+// TrueType Parsing
+// ============================================================================
+
+interface TrueTypeFont {
+  data: Uint8Array;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  bbox: [number, number, number, number];
+  glyphFor(codePoint: number): number;
+  advance(glyph: number): number;
+}
+
+function parseTrueType(data: Uint8Array): TrueTypeFont {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tag = (offset: number) => String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+
+  const tables = new Map<string, number>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) tables.set(tag(12 + i * 16), view.getUint32(12 + i * 16 + 8));
+
+  const table = (name: string) => {
+    const offset = tables.get(name);
+    if (offset === undefined) throw new Error(`TrueType font has no '${name}' table`);
+    return offset;
+  };
+  if (!tables.has('glyf')) throw new Error('Only TrueType (glyf) fonts can be embedded; CFF-based OpenType is not supported');
+
+  const head = table('head');
+  const unitsPerEm = view.getUint16(head + 18);
+  const bbox: [number, number, number, number] = [
+    view.getInt16(head + 36), view.getInt16(head + 38), view.getInt16(head + 40), view.getInt16(head + 42)
+  ];
+
+  const hhea = table('hhea');
+  const ascent = view.getInt16(hhea + 4);
+  const descent = view.getInt16(hhea + 6);
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+  const hmtx = table('hmtx');
+  const advance = (glyph: number) => view.getUint16(hmtx + 4 * Math.min(glyph, numberOfHMetrics - 1));
+
+  // cmap: prefer a full-Unicode format 12 subtable, else a BMP format 4 subtable
+  const cmap = table('cmap');
+  let format4: number | undefined;
+  let format12: number | undefined;
+  for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = view.getUint16(record);
+    const encoding = view.getUint16(record + 2);
+    const sub = cmap + view.getUint32(record + 4);
+    const format = view.getUint16(sub);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!unicode) continue;
+    if (format === 12) format12 ??= sub;
+    if (format === 4) format4 ??= sub;
+  }
+  if (format12 === undefined && format4 === undefined) throw new Error('TrueType font has no Unicode cmap (format 4 or 12)');
+
+  const glyphFor = (codePoint: number): number => {
+    if (format12 !== undefined) {
+      const groups = view.getUint32(format12 + 12);
+      for (let g = 0; g < groups; g++) {
+        const rec = format12 + 16 + g * 12;
+        const start = view.getUint32(rec);
+        const end = view.getUint32(rec + 4);
+        if (codePoint >= start && codePoint <= end) return view.getUint32(rec + 8) + (codePoint - start);
+      }
+      return 0;
+    }
+    if (codePoint > 0xffff) return 0;
+    const sub = format4!;
+    const segCount = view.getUint16(sub + 6) / 2;
+    const endCodes = sub + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    for (let s = 0; s < segCount; s++) {
+      if (codePoint > view.getUint16(endCodes + s * 2)) continue;
+      const start = view.getUint16(startCodes + s * 2);
+      if (codePoint < start) return 0;
+      const delta = view.getInt16(idDeltas + s * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + s * 2);
+      if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+      const glyph = view.getUint16(idRangeOffsets + s * 2 + rangeOffset + (codePoint - start) * 2);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+
+  return { data, unitsPerEm, ascent, descent, bbox, glyphFor, advance };
+}
+
+// ============================================================================
+// Font Abstraction
+// ============================================================================
+
+type FontKey = 'regular' | 'bold' | 'italic' | 'code';
+
+interface PdfFont {
+  resource: string;
+  /** Width of the text in text space units (1/1000 em) */
+  width(text: string): number;
+  /** Encoded string operand for Tj */
+  encode(text: string): string;
+}
+
+function escapeLiteral(bytes: number[]): string {
+  let out = '(';
+  for (const b of bytes) {
+    if (b === 0x28 || b === 0x29 || b === 0x5c) out += `\\${String.fromCharCode(b)}`;
+    else if (b < 0x20 || b > 0x7e) out += `\\${b.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(b);
+  }
+  return `${out})`;
+}
+
+function standardFont(resource: string, widths: number[] | 'mono', missing: Set<string>): PdfFont {
+  const codes = (text: string) => Array.from(text).map(ch => {
+    const code = toWinAnsi(ch.codePointAt(0)!);
+    if (code === undefined) missing.add(ch);
+    return code ?? 0x3f;
+  });
+  const widthOf = (code: number) => widths === 'mono'
+    ? 600
+    : code <= 0x7e ? widths[code - 32] : WIN_ANSI_WIDTHS[code] ?? 556;
+  return {
+    resource,
+    width: text => codes(text).reduce((sum, code) => sum + widthOf(code), 0),
+    encode: text => escapeLiteral(codes(text))
+  };
+}
+
+interface EmbeddedFont extends PdfFont {
+  font: TrueTypeFont;
+  /** glyph id -> text it was used for (ToUnicode) */
+  used: Map<number, string>;
+}
+
+function embeddedFont(resource: string, font: TrueTypeFont, missing: Set<string>): EmbeddedFont {
+  const used = new Map<number, string>();
+  const scale = 1000 / font.unitsPerEm;
+  const glyphs = (text: string) => Array.from(text).map(ch => {
+    const glyph = font.glyphFor(ch.codePointAt(0)!);
+    if (glyph === 0 && ch.trim() !== '') missing.add(ch);
+    if (!used.has(glyph)) used.set(glyph, ch);
+    return glyph;
+  });
+  return {
+    resource,
+    font,
+    used,
+    width: text => glyphs(text).reduce((sum, g) => sum + Math.round(font.advance(g) * scale), 0),
+    encode: text => `<${glyphs(text).map(g => g.toString(16).padStart(4, '0')).join('')}>`
+  };
+}
+
+// ============================================================================
+// Bidi (simplified, word level)
+// ============================================================================
+
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_STRONG = /[A-Za-z0-9\u00C0-\u024F\u0370-\u04FF]/;
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«' };
+
+function strength(text: string, code: boolean): 'R' | 'L' | 'N' {
+  if (code) return 'L';
+  if (RTL_CHAR.test(text)) return 'R';
+  return LTR_STRONG.test(text) ? 'L' : 'N';
+}
+
+/** Visual form of an RTL word: characters reversed, Latin/number runs kept in order */
+function reverseRtlWord(text: string): string {
+  const segments = text.match(/[A-Za-z0-9]+(?:[.,:][0-9]+)*|[^A-Za-z0-9]+/g) ?? [];
+  return segments
+    .reverse()
+    .map(seg => /^[A-Za-z0-9]/.test(seg) ? seg : Array.from(seg).reverse().map(ch => MIRRORED[ch] ?? ch).join(''))
+    .join('');
+}
+
+/**
+ * Reorder the tokens of one line into visual (left-to-right) order.
+ * Returns indexes into `strengths`.
+ */
+function visualOrder(strengths: Array<'R' | 'L' | 'N'>, dir: BlockDirection): number[] {
+  const foreign = dir === 'rtl' ? 'L' : 'R';
+  // Group runs of the opposite direction (neutrals between two such tokens join the run)
+  const groups: number[][] = [];
+  let i = 0;
+  while (i < strengths.length) {
+    if (strengths[i] !== foreign) {
+      groups.push([i++]);
+      continue;
+    }
+    let end = i;
+    for (let j = i + 1; j < strengths.length; j++) {
+      if (strengths[j] === foreign) end = j;
+      else if (strengths[j] !== 'N') break;
+    }
+    groups.push(Array.from({ length: end - i + 1 }, (_, k) => i + k));
+    i = end + 1;
+  }
+  // RTL lines are reversed as a whole; LTR runs keep their internal order
+  if (dir === 'rtl') return groups.reverse().flat();
+  return groups.flatMap(group => strengths[group[0]] === 'R' ? [...group].reverse() : group);
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+interface Token {
+  text: string;
+  font: FontKey;
+  size: number;
+  color?: string;
+  width: number;
+  spaceAfter: boolean;
+  code: boolean;
+  /** Forced line break after this token */
+  breakAfter?: boolean;
+}
+
+interface Line {
+  tokens: Token[];
+  width: number;
+}
+
+const PAGE_SIZES = { a4: [595.28, 841.89], letter: [612, 792] } as const;
+const MARGIN = 56;
+const BODY_SIZE = 10.5;
+const LINE_FACTOR = 1.4;
+const GREY = '0.42 0.45 0.5';
+const CALLOUT_COLORS: Record<'hitl' | 'gap' | 'note', { fill: string; bar: string }> = {
+  hitl: { fill: '0.88 0.95 1', bar: '0.01 0.52 0.78' },
+  gap: { fill: '1 0.95 0.78', bar: '0.85 0.47 0.02' },
+  note: { fill: '0.95 0.96 0.96', bar: '0.42 0.45 0.5' }
+};
+
+function num(n: number): string {
+  return (Math.round(n * 100) / 100).toString();
+}
+
+/**
+ * Render an ExportDocument as PDF bytes.
+ *
+ * @example
+ * const built = buildWorkflowGuideDocument(sessionDoc, { language: 'he' });
+ * if (built.success) {
+ *   const pdf = renderPdf(built.document, { font: { regular: notoSansHebrewTtf } });
+ *   if (pdf.success) fs.writeFileSync('guide.pdf', pdf.data);
+ * }
+ */
+export function renderPdf(document: ExportDocument, options: PdfOptions = {}): PdfRenderResult {
+  const missing = new Set<string>();
+  const [pageWidth, pageHeight] = PAGE_SIZES[options.pageSize ?? 'a4'];
+  const contentWidth = pageWidth - 2 * MARGIN;
+
+  // ----- Fonts -----
+  let embedded: { regular: EmbeddedFont; bold: EmbeddedFont } | undefined;
+  try {
+    if (options.font) {
+      const regular = embeddedFont('E1', parseTrueType(options.font.regular), missing);
+      const bold = options.font.bold ? embeddedFont('E2', parseTrueType(options.font.bold), missing) : regular;
+      embedded = { regular, bold };
+    }
+  } catch (error) {
+    return { success: false, message: `Invalid font: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const standard: Record<FontKey, PdfFont> = {
+    regular: standardFont('F1', HELVETICA_WIDTHS, missing),
+    bold: standardFont('F2', HELVETICA_BOLD_WIDTHS, missing),
+    italic: standardFont('F3', HELVETICA_WIDTHS, missing),
+    code: standardFont('F4', 'mono', missing)
+  };
+  const isWinAnsi = (text: string) => Array.from(text).every(ch => toWinAnsi(ch.codePointAt(0)!) !== undefined);
+  const fontFor = (key: FontKey, text: string): PdfFont => {
+    if (!embedded) return standard[key];
+    // Code stays monospace when Courier can encode it
+    if (key === 'code') return isWinAnsi(text) ? standard.code : embedded.regular;
+    return key === 'bold' ? embedded.bold : embedded.regular;
+  };
+  const measure = (text: string, key: FontKey, size: number) => fontFor(key, text).width(text) * size / 1000;
+
+  // ----- Pages -----
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = pageHeight - MARGIN;
+  };
+  newPage();
+  const ensure = (height: number) => {
+    if (y - height < MARGIN && y < pageHeight - MARGIN) newPage();
+  };
+
+  // ----- Tokenizing and line breaking -----
+  const tokenize = (runs: DocumentParagraph, size: number, base: FontKey = 'regular', color?: string): Token[] => {
+    const tokens: Token[] = [];
+    for (const run of runs) {
+      const key: FontKey = run.code ? 'code' : run.bold ? 'bold' : run.italic ? 'italic' : base;
+      const runSize = run.code ? size * 0.9 : size;
+      const lines = run.text.split('\n');
+      lines.forEach((lineText, lineIndex) => {
+        const parts = lineText.split(/(\s+)/);
+        for (let p = 0; p < parts.length; p += 2) {
+          const text = parts[p];
+          const spaceAfter = p + 1 < parts.length;
+          if (!text) {
+            if (spaceAfter && tokens.length > 0) tokens[tokens.length - 1].spaceAfter = true;
+            continue;
+          }
+          tokens.push({ text, font: key, size: runSize, color, width: measure(text, key, runSize), spaceAfter, code: !!run.code });
+        }
+        if (lineIndex < lines.length - 1 && tokens.length > 0) tokens[tokens.length - 1].breakAfter = true;
+      });
+    }
+    return tokens;
+  };
+
+  const spaceWidth = (token: Token) => measure(' ', token.font, token.size);
+
+  const breakLines = (tokens: Token[], width: number): Line[] => {
+    const lines: Line[] = [];
+    let current: Line = { tokens: [], width: 0 };
+    const push = () => {
+      if (current.tokens.length > 0) lines.push(current);
+      current = { tokens: [], width: 0 };
+    };
+    for (const original of tokens) {
+      let token = original;
+      // Hard-split tokens wider than the line
+      while (token.width > width) {
+        const chars = Array.from(token.text);
+        let cut = chars.length - 1;
+        while (cut > 1 && measure(chars.slice(0, cut).join(''), token.font, token.size) > width) cut--;
+        const head = chars.slice(0, cut).join('');
+        push();
+        lines.push({ tokens: [{ ...token, text: head, width: measure(head, token.font, token.size), spaceAfter: false }], width });
+        const rest = chars.slice(cut).join('');
+        token = { ...token, text: rest, width: measure(rest, token.font, token.size) };
+      }
+      const last = current.tokens[current.tokens.length - 1];
+      const gap = last?.spaceAfter ? spaceWidth(last) : 0;
+      if (current.tokens.length > 0 && current.width + gap + token.width > width) push();
+      const lead = current.tokens.length > 0 ? gap : 0;
+      current.tokens.push(token);
+      current.width += lead + token.width;
+      if (token.breakAfter) push();
+    }
+    push();
+    return lines;
+  };
+
+  // ----- Drawing -----
+  const drawText = (token: Token, x: number, baseline: number, dir: BlockDirection) => {
+    const visual = dir === 'rtl' && strength(token.text, token.code) === 'R' ? reverseRtlWord(token.text) : token.text;
+    const font = fontFor(token.font, token.text);
+    if (token.color) ops.push(`${token.color} rg`);
+    ops.push(`BT /${font.resource} ${num(token.size)} Tf 1 0 0 1 ${num(x)} ${num(baseline)} Tm ${font.encode(visual)} Tj ET`);
+    if (token.color) ops.push('0 0 0 rg');
+  };
+
+  const drawLine = (line: Line, x0: number, width: number, baseline: number, dir: BlockDirection) => {
+    const strengths = line.tokens.map(t => strength(t.text, t.code));
+    const order = visualOrder(strengths, dir);
+    let x = dir === 'rtl' ? x0 + width - line.width : x0;
+    order.forEach((index, k) => {
+      const token = line.tokens[index];
+      // RTL words in an LTR line are reversed individually as well
+      drawText(token, x, baseline, strengths[index] === 'R' ? 'rtl' : dir);
+      x += token.width;
+      const next = order[k + 1];
+      if (next === undefined) return;
+      const [first, second] = index < next ? [index, next] : [next, index];
+      const spaced = second - first === 1 ? line.tokens[first].spaceAfter : true;
+      if (spaced) x += spaceWidth(line.tokens[first]);
+    });
+  };
+
+  /** Lay out and draw a paragraph; returns nothing, advances y */
+  const paragraph = (
+    tokens: Token[],
+    dir: BlockDirection,
+    opts: { indent?: number; size?: number; after?: number; background?: { fill: string; bar: string }; padding?: number } = {}
+  ) => {
+    const size = opts.size ?? BODY_SIZE;
+    const lineHeight = size * LINE_FACTOR;
+    const padding = opts.padding ?? 0;
+    const indent = opts.indent ?? 0;
+    const x0 = MARGIN + (dir === 'ltr' ? indent : 0) + padding;
+    const width = contentWidth - indent - 2 * padding;
+    for (const line of breakLines(tokens, width)) {
+      ensure(lineHeight);
+      if (opts.background) {
+        const boxX = MARGIN + (dir === 'ltr' ? indent : 0);
+        const boxWidth = contentWidth - indent;
+        ops.push(`${opts.background.fill} rg ${num(boxX)} ${num(y - lineHeight)} ${num(boxWidth)} ${num(lineHeight)} re f`);
+        const barX = dir === 'rtl' ? boxX + boxWidth - 3 : boxX;
+        ops.push(`${opts.background.bar} rg ${num(barX)} ${num(y - lineHeight)} 3 ${num(lineHeight)} re f 0 0 0 rg`);
+      }
+      drawLine(line, x0, width, y - size, dir);
+      y -= lineHeight;
+    }
+    y -= opts.after ?? 6;
+  };
+
+  const table = (block: Extract<DocumentBlock, { type: 'table' }>) => {
+    const size = 9.5;
+    const lineHeight = size * LINE_FACTOR;
+    const pad = 4;
+    const columns = Math.max(block.header.length, ...block.rows.map(r => r.length));
+    const colWidth = contentWidth / columns;
+
+    const drawRow = (cells: string[], header: boolean) => {
+      const laid = Array.from({ length: columns }, (_, c) =>
+        breakLines(tokenize([{ text: cells[c] ?? '', bold: header }], size), colWidth - 2 * pad));
+      const height = Math.max(1, ...laid.map(lines => lines.length)) * lineHeight + 2 * pad;
+      return { laid, height, header };
+    };
+    const paint = (row: ReturnType<typeof drawRow>) => {
+      for (let c = 0; c < columns; c++) {
+        const visualColumn = block.dir === 'rtl' ? columns - 1 - c : c;
+        const x = MARGIN + visualColumn * colWidth;
+        if (row.header) ops.push(`0.95 0.96 0.96 rg ${num(x)} ${num(y - row.height)} ${num(colWidth)} ${num(row.height)} re f 0 0 0 rg`);
+        ops.push(`0.75 G 0.5 w ${num(x)} ${num(y - row.height)} ${num(colWidth)} ${num(row.height)} re S 0 G`);
+        let baseline = y - pad - size;
+        for (const line of row.laid[c]) {
+          drawLine(line, x + pad, colWidth - 2 * pad, baseline, block.dir);
+          baseline -= lineHeight;
+        }
+      }
+      y -= row.height;
+    };
+
+    const header = drawRow(block.header, true);
+    ensure(header.height + lineHeight * 2);
+    paint(header);
+    for (const cells of block.rows) {
+      const row = drawRow(cells, false);
+      if (y - row.height < MARGIN) {
+        newPage();
+        paint(header);
+      }
+      paint(row);
+    }
+    y -= 10;
+  };
+
+  const HEADING_SIZES = { 1: 20, 2: 15, 3: 12.5 } as const;
+  const HEADING_BEFORE = { 1: 0, 2: 14, 3: 8 } as const;
+
+  for (const block of document.blocks) {
+    const dir = block.dir;
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[block.level];
+        if (y < pageHeight - MARGIN) y -= HEADING_BEFORE[block.level];
+        // Keep the heading with at least two body lines
+        ensure(size * LINE_FACTOR + BODY_SIZE * LINE_FACTOR * 2);
+        paragraph(tokenize([{ text: block.text, bold: true }], size), dir, { size, after: 4 });
+        break;
+      }
+      case 'paragraph':
+        paragraph(tokenize(block.runs, BODY_SIZE), dir);
+        break;
+      case 'list':
+        block.items.forEach((item, i) => {
+          const marker = block.ordered ? `${i + 1}.` : '•';
+          paragraph(tokenize([{ text: `${marker} ` }, ...item], BODY_SIZE), dir, { indent: 12, after: 3 });
+        });
+        y -= 3;
+        break;
+      case 'steps':
+        for (const item of block.items) {
+          ensure(BODY_SIZE * LINE_FACTOR * 3);
+          paragraph([
+            ...tokenize([{ text: `${item.number}. ${item.title}`, bold: true }], 11.5),
+            ...tokenize([{ text: `[${item.badge}]` }], 9, 'regular', GREY)
+          ], dir, { size: 11.5, after: 2 });
+          for (const p of item.paragraphs) paragraph(tokenize(p, BODY_SIZE), dir, { indent: 16, after: 2 });
+          y -= 6;
+        }
+        break;
+      case 'callout': {
+        const background = CALLOUT_COLORS[block.tone];
+        ensure(BODY_SIZE * LINE_FACTOR * 3);
+        paragraph(tokenize([{ text: block.title, bold: true }], BODY_SIZE), dir, { background, padding: 8, after: 0 });
+        for (const p of block.paragraphs) paragraph(tokenize(p, BODY_SIZE), dir, { background, padding: 8, after: 0 });
+        y -= 10;
+        break;
+      }
+      case 'table':
+        table(block);
+        break;
+      case 'code':
+        paragraph(tokenize([{ text: block.text, code: true }], BODY_SIZE), 'ltr', {
+          background: { fill: '0.95 0.96 0.96', bar: '0.85 0.86 0.88' },
+          padding: 8,
+          after: 8
+        });
+        break;
+    }
+  }
+
+  return {
+    success: true,
+    data: serializePdf(document, pages, [pageWidth, pageHeight], embedded),
+    pageCount: pages.length,
+    missingCharacters: [...missing]
+  };
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function pdfTextString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return escapeLiteral(Array.from(text).map(ch => ch.charCodeAt(0)));
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+function toUnicodeCMap(used: Map<number, string>): string {
+  const entries = [...used.entries()].sort((a, b) => a[0] - b[0]);
+  const utf16 = (text: string) => Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('');
+  const chunks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    chunks.push(`${chunk.length} beginbfchar\n${chunk.map(([g, t]) => `<${g.toString(16).padStart(4, '0')}> <${utf16(t)}>`).join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...chunks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+}
+
+function serializePdf(
+  document: ExportDocument,
+  pages: string[][],
+  [pageWidth, pageHeight]: readonly [number, number],
+  embedded: { regular: EmbeddedFont; bold: EmbeddedFont } | undefined
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const objects: Array<Array<string | Uint8Array>> = [];
+  const reserve = () => {
+    objects.push([]);
+    return objects.length;
+  };
+  const set = (id: number, ...parts: Array<string | Uint8Array>) => { objects[id - 1] = parts; };
+  const stream = (id: number, dict: string, body: string | Uint8Array) => {
+    const bytes = typeof body === 'string' ? encoder.encode(body) : body;
+    set(id, `<< ${dict} /Length ${bytes.length} >>\nstream\n`, bytes, '\nendstream');
+  };
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const infoId = reserve();
+
+  // Standard fonts
+  const fontResources: string[] = [];
+  const standardFonts: Array<[string, string]> = [['F1', 'Helvetica'], ['F2', 'Helvetica-Bold'], ['F3', 'Helvetica-Oblique'], ['F4', 'Courier']];
+  for (const [resource, base] of standardFonts) {
+    const id = reserve();
+    set(id, `<< /Type /Font /Subtype /Type1 /BaseFont /${base} /Encoding /WinAnsiEncoding >>`);
+    fontResources.push(`/${resource} ${id} 0 R`);
+  }
+
+  // Embedded fonts
+  const faces = embedded ? [...new Set([embedded.regular, embedded.bold])] : [];
+  faces.forEach((face, i) => {
+    const name = i === 0 ? 'EmbeddedSans' : 'EmbeddedSans-Bold';
+    const scale = 1000 / face.font.unitsPerEm;
+    const fileId = reserve();
+    const descriptorId = reserve();
+    const cidId = reserve();
+    const toUnicodeId = reserve();
+    const fontId = reserve();
+    stream(fileId, `/Length1 ${face.font.data.length}`, face.font.data);
+    set(descriptorId,
+      `<< /Type /FontDescriptor /FontName /${name} /Flags 32 ` +
+      `/FontBBox [${face.font.bbox.map(v => Math.round(v * scale)).join(' ')}] /ItalicAngle 0 ` +
+      `/Ascent ${Math.round(face.font.ascent * scale)} /Descent ${Math.round(face.font.descent * scale)} ` +
+      `/CapHeight ${Math.round(face.font.ascent * scale)} /StemV 80 /FontFile2 ${fileId} 0 R >>`);
+    const widths = [...face.used.keys()].sort((a, b) => a - b)
+      .map(g => `${g} [${Math.round(face.font.advance(g) * scale)}]`).join(' ');
+    set(cidId,
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} ` +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ' +
+      `/FontDescriptor ${descriptorId} 0 R /W [${widths}] /CIDToGIDMap /Identity >>`);
+    stream(toUnicodeId, '', toUnicodeCMap(face.used));
+    set(fontId,
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H ` +
+      `/DescendantFonts [${cidId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`);
+    fontResources.push(`/${face.resource} ${fontId} 0 R`);
+  });
+
+  const pageIds: number[] = [];
+  for (const pageOps of pages) {
+    const pageId = reserve();
+    const contentId = reserve();
+    pageIds.push(pageId);
+    stream(contentId, '', pageOps.join('\n'));
+    set(pageId,
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] ` +
+      `/Resources << /Font << ${fontResources.join(' ')} >> >> /Contents ${contentId} 0 R >>`);
+  }
+
+  set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  set(catalogId,
+    `<< /Type /Catalog /Pages ${pagesId} 0 R /Lang ${pdfTextString(document.language)}` +
+    `${document.dir === 'rtl' ? ' /ViewerPreferences << /Direction /R2L >>' : ''} >>`);
+  set(infoId, `<< /Title ${pdfTextString(document.title)} /Producer (flingoos shared) >>`);
+
+  // Assemble with byte offsets for the xref table
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  write('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n');
+  const offsets: number[] = [];
+  objects.forEach((parts, i) => {
+    offsets.push(length);
+    write(`${i + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  });
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  for (const offset of offsets) write(`${String(offset).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, pos);
+    pos += chunk.length;
+  }
+  return out;
+}
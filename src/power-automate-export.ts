@@ -0,0 +1,339 @@
+/**
+ * Power Automate Export
+ *
+ * Deterministic conversion of a VideoWorkflowGuideContent into a Power Automate
+ * (Logic Apps workflow definition language) flow definition:
+ * - A manual (button) trigger whose inputs are the condition variables
+ * - Each temporal phase becomes a Scope; actions run after one another
+ * - Conditional steps become If actions with the simple_expr_v1 condition
+ *   compiled to a workflow expression over triggerBody()
+ * - hitl steps become "Start and wait for an approval" actions
+ * - do/check/gap steps become annotated Compose placeholders
+ *
+ * Like UiPath Sequences, Scopes cannot jump: conditional target_steps that skip
+ * ahead/back are annotated and reported rather than wired.
+ */
+
+import type { VideoWorkflowGuideContent } from './video-artifacts.js';
+import { getConditionVariables } from './condition-expression.js';
+import type { ConditionNode, ConditionValueNode } from './condition-expression.js';
+import { analyzeWorkflowGraph } from './workflow-graph.js';
+import type { WorkflowGraph, WorkflowGraphNode } from './workflow-graph.js';
+import {
+  createAutomationExportReport,
+  createAutomationVariableNamer,
+  createNameAllocator,
+  describeBranchJumps,
+  describeStepForAutomation,
+  groupStepsByPhase,
+  parseStepCondition,
+  toAutomationVariableName
+} from './automation-export.js';
+import type { AutomationExportReport, AutomationStepMapping } from './automation-export.js';
+
+// ============================================================================
+// Flow Definition Types
+// ============================================================================
+
+export const POWER_AUTOMATE_DEFINITION_SCHEMA =
+  'https://schema.management.azure.com/providers/Microsoft.Logic/schemas/2016-06-01/workflowdefinition.json#';
+
+export type PowerAutomateRunAfter = Record<string, Array<'Succeeded' | 'Failed' | 'Skipped' | 'TimedOut'>>;
+
+export interface PowerAutomateAction {
+  type: string;
+  runAfter: PowerAutomateRunAfter;
+  description?: string;
+  inputs?: unknown;
+  /** If actions only */
+  expression?: unknown;
+  /** Scope body / If true branch */
+  actions?: Record<string, PowerAutomateAction>;
+  /** If false branch */
+  else?: { actions: Record<string, PowerAutomateAction> };
+}
+
+export interface PowerAutomateFlowDefinition {
+  $schema: string;
+  contentVersion: '1.0.0.0';
+  parameters: Record<string, { type: string; defaultValue: unknown }>;
+  triggers: Record<string, unknown>;
+  actions: Record<string, PowerAutomateAction>;
+  outputs: Record<string, never>;
+}
+
+export interface PowerAutomateFlow {
+  displayName: string;
+  definition: PowerAutomateFlowDefinition;
+  connectionReferences: Record<string, { api: { name: string } }>;
+}
+
+export interface PowerAutomateExportOptions {
+  /** Flow display name (default: task_summary.name) */
+  displayName?: string;
+}
+
+export interface PowerAutomateExportResult {
+  flow: PowerAutomateFlow;
+  /** Trigger inputs (condition variables, dots replaced by '_', de-duplicated) */
+  variables: string[];
+  report: AutomationExportReport;
+}
+
+// ============================================================================
+// Expression Compilation
+// ============================================================================
+
+type VariableNamer = (variable: string) => string;
+
+function wdlValue(node: ConditionValueNode, name: VariableNamer): string {
+  switch (node.kind) {
+    case 'variable': return `triggerBody()?['${name(node.name)}']`;
+    case 'string': return `'${node.value.replace(/'/g, "''")}'`;
+    case 'number': return String(node.value);
+    case 'boolean': return String(node.value);
+  }
+}
+
+const WDL_ORDERING: Record<'>' | '<' | '>=' | '<=', string> = {
+  '>': 'greater',
+  '<': 'less',
+  '>=': 'greaterOrEquals',
+  '<=': 'lessOrEquals'
+};
+
+/**
+ * Convert a trigger input for a comparison. Missing inputs are null and empty
+ * ones '', which float() and bool() reject, so both are replaced first.
+ */
+function wdlConvert(convert: 'float' | 'bool' | 'string', value: string): string {
+  switch (convert) {
+    case 'float': return `float(if(empty(coalesce(${value}, '')), 0, ${value}))`;
+    case 'bool': return `bool(if(empty(coalesce(${value}, '')), false, ${value}))`;
+    case 'string': return `string(coalesce(${value}, ''))`;
+  }
+}
+
+/**
+ * Compile a simple_expr_v1 AST into a workflow definition language expression
+ * (without the leading '@'). Variables are read from the manual trigger's inputs;
+ * `name` flattens their names (default: toAutomationVariableName). As in
+ * evaluateCondition(), comparisons with a missing input (other than !=) are false.
+ *
+ * @example
+ * compileConditionToPowerAutomate(parseConditionExpression("amount > 100").ast)
+ * // and(not(equals(triggerBody()?['amount'], null)), greater(float(if(empty(coalesce(triggerBody()?['amount'], '')), 0, triggerBody()?['amount'])), 100))
+ */
+export function compileConditionToPowerAutomate(ast: ConditionNode, name: VariableNamer = toAutomationVariableName): string {
+  switch (ast.kind) {
+    case 'logical':
+      return `${ast.operator === 'AND' ? 'and' : 'or'}(${compileConditionToPowerAutomate(ast.left, name)}, ${compileConditionToPowerAutomate(ast.right, name)})`;
+    case 'not':
+      return `not(${compileConditionToPowerAutomate(ast.operand, name)})`;
+    case 'emptiness': {
+      const check = `empty(coalesce(${wdlValue(ast.operand, name)}, ''))`;
+      return ast.operator === 'IS_EMPTY' ? check : `not(${check})`;
+    }
+    case 'value':
+      return ast.value.kind === 'variable' ? wdlConvert('bool', wdlValue(ast.value, name)) : `bool(${wdlValue(ast.value, name)})`;
+    case 'comparison': {
+      const kinds = [ast.left.kind, ast.right.kind];
+      const convert = kinds.includes('number') ? 'float' : kinds.includes('boolean') ? 'bool' : 'string';
+      const operand = (node: ConditionValueNode) =>
+        node.kind === 'variable' ? wdlConvert(convert, wdlValue(node, name)) : wdlValue(node, name);
+      const text = (node: ConditionValueNode) =>
+        node.kind === 'variable' ? wdlConvert('string', wdlValue(node, name)) : wdlValue(node, name);
+      // Every variable operand must be present; converting alone would turn a missing amount into 0
+      const present = (expression: string) => {
+        const checks = [ast.left, ast.right]
+          .filter(node => node.kind === 'variable')
+          .map(node => `not(equals(${wdlValue(node, name)}, null))`);
+        return checks.length === 0 ? expression : `and(${[...checks, expression].join(', ')})`;
+      };
+      switch (ast.operator) {
+        case '=': return present(`equals(${operand(ast.left)}, ${operand(ast.right)})`);
+        case '!=': return `not(${present(`equals(${operand(ast.left)}, ${operand(ast.right)})`)})`;
+        case '>':
+        case '<':
+        case '>=':
+        case '<=':
+          return present(`${WDL_ORDERING[ast.operator]}(${operand(ast.left)}, ${operand(ast.right)})`);
+        case 'CONTAINS': return present(`contains(${text(ast.left)}, ${text(ast.right)})`);
+        case 'STARTS_WITH': return present(`startsWith(${text(ast.left)}, ${text(ast.right)})`);
+        case 'ENDS_WITH': return present(`endsWith(${text(ast.left)}, ${text(ast.right)})`);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Flow Generation
+// ============================================================================
+
+const APPROVALS_CONNECTION = 'shared_approvals';
+
+function actionName(text: string): string {
+  // Action names cannot contain most punctuation; keep them readable ASCII
+  return text.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'Step';
+}
+
+function compose(text: string, description: string): PowerAutomateAction {
+  return { type: 'Compose', runAfter: {}, description, inputs: text };
+}
+
+function chain(entries: Array<[string, PowerAutomateAction]>): Record<string, PowerAutomateAction> {
+  const actions: Record<string, PowerAutomateAction> = {};
+  entries.forEach(([name, action], i) => {
+    actions[name] = { ...action, runAfter: i === 0 ? {} : { [entries[i - 1][0]]: ['Succeeded'] } };
+  });
+  return actions;
+}
+
+interface FlowContext {
+  graph: WorkflowGraph;
+  allocate: (name: string) => string;
+  variableName: VariableNamer;
+  mappings: AutomationStepMapping[];
+  variables: Set<string>;
+  usesApprovals: boolean;
+}
+
+function stepAction(node: WorkflowGraphNode, ctx: FlowContext): [string, PowerAutomateAction] {
+  const step = node.step;
+  const name = ctx.allocate(actionName(`Step ${node.step_number} ${node.title}`));
+  const description = describeStepForAutomation(step);
+  const mapping = { step_number: node.step_number, title: node.title, step_type: node.step_type, node: name };
+
+  if (node.step_type === 'conditional' && step.condition_details) {
+    const details = step.condition_details;
+    const parsed = parseStepCondition(step);
+    let expression = 'false';
+    if (parsed.success) {
+      expression = compileConditionToPowerAutomate(parsed.ast, ctx.variableName);
+      getConditionVariables(parsed.ast).forEach(v => ctx.variables.add(ctx.variableName(v)));
+    }
+    const reason = parsed.success ? describeBranchJumps(ctx.graph, node.step_number) : parsed.message;
+    ctx.mappings.push(reason ? { ...mapping, status: 'placeholder', reason } : { ...mapping, status: 'mapped' });
+
+    const branch = (action: string | undefined, target: number | undefined) =>
+      [action, target !== undefined && `Then continue at step ${target}`].filter(Boolean).join('\n');
+    const trueText = branch(details.true_action, details.target_steps?.if_true);
+    const falseText = branch(details.false_action, details.target_steps?.if_false);
+    return [name, {
+      type: 'If',
+      runAfter: {},
+      description: parsed.success ? details.condition : `TODO: implement condition "${details.condition}"`,
+      expression: { and: [{ equals: [`@${expression}`, true] }] },
+      // Action names are unique across the whole flow, nested branches included
+      actions: chain([[ctx.allocate(`${name}_true`), compose(trueText, 'True action')]]),
+      else: { actions: falseText ? chain([[ctx.allocate(`${name}_false`), compose(falseText, 'False action')]]) : {} }
+    }];
+  }
+
+  if (node.step_type === 'hitl') {
+    ctx.usesApprovals = true;
+    ctx.mappings.push({ ...mapping, status: 'mapped' });
+    return [name, {
+      type: 'OpenApiConnectionWebhook',
+      runAfter: {},
+      description,
+      inputs: {
+        host: {
+          connectionName: APPROVALS_CONNECTION,
+          operationId: 'StartAndWaitForAnApproval',
+          apiId: `/providers/Microsoft.PowerApps/apis/${APPROVALS_CONNECTION}`
+        },
+        parameters: {
+          approvalType: 'Basic',
+          'WebhookApprovalCreationInput/title': node.title,
+          'WebhookApprovalCreationInput/assignedTo': '',
+          'WebhookApprovalCreationInput/details': description,
+          'WebhookApprovalCreationInput/enableNotifications': true
+        },
+        authentication: "@parameters('$authentication')"
+      }
+    }];
+  }
+
+  const reason = node.step_type === 'check'
+    ? 'Verification needs a concrete check (e.g. a Condition on an action output)'
+    : node.step_type === 'conditional'
+      ? 'Conditional step has no condition_details'
+      : `No deterministic Power Automate action for '${node.step_type}' steps`;
+  ctx.mappings.push({ ...mapping, status: 'placeholder', reason });
+  const prefix = node.step_type === 'check' ? 'Verify: ' : node.step_type === 'gap' ? 'GAP: ' : 'TODO: ';
+  return [name, compose(`${prefix}${description}`, node.title)];
+}
+
+/**
+ * Convert a workflow guide into a Power Automate flow definition plus a mapping report.
+ *
+ * @example
+ * const { flow, report } = exportWorkflowToPowerAutomate(content);
+ * fs.writeFileSync('definition.json', JSON.stringify({ properties: flow }, null, 2));
+ */
+export function exportWorkflowToPowerAutomate(
+  content: VideoWorkflowGuideContent,
+  options: PowerAutomateExportOptions = {}
+): PowerAutomateExportResult {
+  const { graph, issues } = analyzeWorkflowGraph(content);
+  const ctx: FlowContext = {
+    graph,
+    allocate: createNameAllocator(80, (base, n) => `${base}_${n}`),
+    variableName: createAutomationVariableNamer(),
+    mappings: [],
+    variables: new Set(),
+    usesApprovals: false
+  };
+
+  const entries: Array<[string, PowerAutomateAction]> = [];
+  for (const segment of groupStepsByPhase(graph)) {
+    const phase = segment.phase_index !== null ? content.temporal_phases[segment.phase_index] : undefined;
+    const steps = segment.nodes.map(node => stepAction(node, ctx));
+    if (!phase) {
+      entries.push(...steps);
+      continue;
+    }
+    entries.push([ctx.allocate(actionName(`Phase ${phase.phase_number} ${phase.name}`)), {
+      type: 'Scope',
+      runAfter: {},
+      description: phase.purpose,
+      actions: chain(steps)
+    }]);
+  }
+
+  const variables = [...ctx.variables].sort();
+  const definition: PowerAutomateFlowDefinition = {
+    $schema: POWER_AUTOMATE_DEFINITION_SCHEMA,
+    contentVersion: '1.0.0.0',
+    parameters: {
+      $connections: { type: 'Object', defaultValue: {} },
+      $authentication: { type: 'SecureObject', defaultValue: {} }
+    },
+    triggers: {
+      manual: {
+        type: 'Request',
+        kind: 'Button',
+        inputs: {
+          schema: {
+            type: 'object',
+            properties: Object.fromEntries(variables.map(v => [v, { type: 'string', title: v }])),
+            required: []
+          }
+        }
+      }
+    },
+    actions: chain(entries),
+    outputs: {}
+  };
+
+  return {
+    flow: {
+      displayName: options.displayName ?? content.task_summary.name,
+      definition,
+      connectionReferences: ctx.usesApprovals ? { [APPROVALS_CONNECTION]: { api: { name: APPROVALS_CONNECTION } } } : {}
+    },
+    variables,
+    report: createAutomationExportReport(ctx.mappings, issues)
+  };
+}
@@ -0,0 +1,391 @@
+/**
+ * Process Import (shared)
+ *
+ * Common pieces for importing external process definitions (BPMN 2.0, n8n).
+ * Each importer reads its format into a ProcessDefinition — a plain graph of
+ * tasks, decisions and lanes — and buildWorkflowGuideFromProcess turns that
+ * into schema 3.0 VideoWorkflowGuideContent:
+ * - Nodes are ordered topologically (following the flow from the start, loops
+ *   ignored for ordering) and numbered as steps
+ * - A decision with N outgoing branches becomes N-1 chained conditional steps;
+ *   branch conditions are converted to simple_expr_v1 where possible
+ * - Lanes become temporal_phases
+ *
+ * Anything that cannot be represented is listed in the lossiness report.
+ */
+
+import { toSimpleExpression } from './condition-expression.js';
+import { VideoWorkflowGuideContentSchema } from './video-artifacts.js';
+import type { VideoWorkflowGuideContent, VideoWorkflowStep, VideoTemporalPhase, StepType } from './video-artifacts.js';
+
+// ============================================================================
+// Process Definition
+// ============================================================================
+
+export type ProcessNodeKind =
+  | 'start'
+  | 'end'
+  | 'task'
+  | 'wait'
+  | 'check'
+  | 'gap'
+  | 'decision'
+  | 'parallel'
+  | 'merge';
+
+export interface ProcessNode {
+  id: string;
+  name: string;
+  kind: ProcessNodeKind;
+  /** Becomes the step action (falls back to the name) */
+  description?: string;
+  expected_result?: string;
+  visual_cues?: string;
+  /** ProcessLane.id */
+  lane?: string;
+}
+
+export interface ProcessEdge {
+  from: string;
+  to: string;
+  label?: string;
+  /** Source condition expressions for this branch, most reliable first */
+  expressions?: string[];
+  /** Explicit branch of a binary decision (e.g. n8n IF outputs) */
+  branch?: 'true' | 'false';
+  /** Taken when no other branch matches */
+  isDefault?: boolean;
+}
+
+export interface ProcessLane {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface ProcessDefinition {
+  name: string;
+  description?: string;
+  applications?: string[];
+  nodes: ProcessNode[];
+  edges: ProcessEdge[];
+  lanes: ProcessLane[];
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+export type ProcessImportFormat = 'bpmn' | 'n8n';
+
+export type ImportLossKind =
+  | 'element_skipped'
+  | 'condition_as_text'
+  | 'parallel_flattened'
+  | 'parameters_dropped'
+  | 'event_semantics'
+  | 'unreachable';
+
+export interface ImportLossEntry {
+  kind: ImportLossKind;
+  /** Id (BPMN) or name (n8n) of the source element */
+  source_id: string;
+  source_name?: string;
+  message: string;
+}
+
+export interface ProcessImportReport {
+  format: ProcessImportFormat;
+  steps: number;
+  phases: number;
+  /** Conditional steps whose condition is a valid simple_expr_v1 expression */
+  expression_conditions: number;
+  /** Conditional steps that kept a free-text condition */
+  text_conditions: number;
+  losses: ImportLossEntry[];
+}
+
+export type ProcessImportResult = {
+  success: true;
+  content: VideoWorkflowGuideContent;
+  report: ProcessImportReport;
+} | {
+  success: false;
+  message: string;
+};
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+/**
+ * Topological order following the flow from the start nodes. Ties are broken
+ * by depth-first discovery order so a branch's steps stay together; edges that
+ * close a loop are ignored for ordering. Nodes not reachable from a start are
+ * appended (and returned as unreachable).
+ */
+function orderNodes(
+  definition: ProcessDefinition,
+  outgoing: Map<string, ProcessEdge[]>
+): { order: ProcessNode[]; unreachable: ProcessNode[] } {
+  const byId = new Map(definition.nodes.map(node => [node.id, node]));
+  const incoming = new Set(definition.edges.map(edge => edge.to));
+  let roots = definition.nodes.filter(node => node.kind === 'start');
+  if (roots.length === 0) roots = definition.nodes.filter(node => !incoming.has(node.id));
+  if (roots.length === 0 && definition.nodes.length > 0) roots = [definition.nodes[0]];
+
+  const discovery = new Map<string, number>();
+  const backEdges = new Set<ProcessEdge>();
+  const unreachable: ProcessNode[] = [];
+
+  const visit = (rootId: string) => {
+    const onStack = new Set<string>([rootId]);
+    const stack: Array<{ id: string; next: number }> = [{ id: rootId, next: 0 }];
+    discovery.set(rootId, discovery.size);
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const edges = outgoing.get(frame.id) ?? [];
+      if (frame.next >= edges.length) {
+        onStack.delete(frame.id);
+        stack.pop();
+        continue;
+      }
+      const edge = edges[frame.next++];
+      if (onStack.has(edge.to)) backEdges.add(edge);
+      else if (!discovery.has(edge.to)) {
+        discovery.set(edge.to, discovery.size);
+        onStack.add(edge.to);
+        stack.push({ id: edge.to, next: 0 });
+      }
+    }
+  };
+
+  for (const root of roots) if (!discovery.has(root.id)) visit(root.id);
+  for (const node of definition.nodes) {
+    if (discovery.has(node.id)) continue;
+    unreachable.push(node);
+    visit(node.id);
+  }
+
+  // Kahn's algorithm over forward edges, picking the earliest-discovered ready node
+  const indegree = new Map(definition.nodes.map(node => [node.id, 0]));
+  for (const edge of definition.edges) {
+    if (!backEdges.has(edge)) indegree.set(edge.to, (indegree.get(edge.to) ?? 0) + 1);
+  }
+  const ready = definition.nodes.filter(node => indegree.get(node.id) === 0).map(node => node.id);
+  const order: ProcessNode[] = [];
+  const placed = new Set<string>();
+  while (order.length < definition.nodes.length) {
+    if (ready.length === 0) {
+      // Only possible with cycles between unreachable nodes; place the earliest remaining node
+      const rest = definition.nodes.filter(node => !placed.has(node.id));
+      ready.push(rest.reduce((a, b) => discovery.get(a.id)! <= discovery.get(b.id)! ? a : b).id);
+    }
+    ready.sort((a, b) => discovery.get(a)! - discovery.get(b)!);
+    const id = ready.shift()!;
+    if (placed.has(id)) continue;
+    placed.add(id);
+    order.push(byId.get(id)!);
+    for (const edge of outgoing.get(id) ?? []) {
+      if (backEdges.has(edge)) continue;
+      const remaining = indegree.get(edge.to)! - 1;
+      indegree.set(edge.to, remaining);
+      if (remaining === 0) ready.push(edge.to);
+    }
+  }
+
+  return { order, unreachable };
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+const STEP_TYPES: Partial<Record<ProcessNodeKind, StepType>> = { task: 'do', wait: 'hitl', check: 'check', gap: 'gap' };
+const YES_LABEL = /^(yes|y|true|ok|approved?|accepted?|valid)$/i;
+const NO_LABEL = /^(no|n|false|rejected?|declined?|invalid|else|otherwise|default)$/i;
+
+/**
+ * Branches of a decision in the order they are tested: explicit true branches,
+ * then other conditional branches, then the false/default branch last
+ */
+function orderBranches(edges: ProcessEdge[]): ProcessEdge[] {
+  const rank = (edge: ProcessEdge) => {
+    if (edge.branch === 'true' || (edge.label && YES_LABEL.test(edge.label.trim()))) return 0;
+    if (edge.branch === 'false' || edge.isDefault || (edge.label && NO_LABEL.test(edge.label.trim()))) return 2;
+    return 1;
+  };
+  return edges.map((edge, i) => ({ edge, i })).sort((a, b) => rank(a.edge) - rank(b.edge) || a.i - b.i).map(entry => entry.edge);
+}
+
+/**
+ * Build schema 3.0 workflow guide content from a process definition.
+ * `losses` holds what the format reader already dropped; ordering and
+ * condition conversion losses are appended.
+ */
+export function buildWorkflowGuideFromProcess(
+  definition: ProcessDefinition,
+  format: ProcessImportFormat,
+  losses: ImportLossEntry[] = []
+): ProcessImportResult {
+  const report: ImportLossEntry[] = [...losses];
+  const byId = new Map(definition.nodes.map(node => [node.id, node]));
+  const edges = definition.edges.filter(edge => {
+    if (byId.has(edge.from) && byId.has(edge.to)) return true;
+    report.push({ kind: 'element_skipped', source_id: `${edge.from} -> ${edge.to}`, message: 'Connection refers to an element that was not imported' });
+    return false;
+  });
+  const outgoing = new Map<string, ProcessEdge[]>();
+  for (const edge of edges) outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge]);
+
+  const { order, unreachable } = orderNodes({ ...definition, edges }, outgoing);
+
+  // Pass 1: assign step numbers
+  const firstStep = new Map<string, number>();
+  let next = 1;
+  for (const node of order) {
+    const branches = outgoing.get(node.id) ?? [];
+    if (STEP_TYPES[node.kind]) {
+      firstStep.set(node.id, next++);
+    } else if (node.kind === 'decision' && branches.length >= 2) {
+      firstStep.set(node.id, next);
+      next += branches.length - 1;
+    } else if (node.kind === 'parallel' && branches.length >= 2) {
+      report.push({ kind: 'parallel_flattened', source_id: node.id, ...(node.name ? { source_name: node.name } : {}), message: `${branches.length} parallel branches are listed one after another` });
+    }
+  }
+
+  for (const node of unreachable) {
+    if (!firstStep.has(node.id)) continue;
+    report.push({ kind: 'unreachable', source_id: node.id, ...(node.name ? { source_name: node.name } : {}), message: 'Not connected to the start of the process; placed after the connected steps' });
+  }
+
+  /** Step a flow arrives at when it reaches `id` (skipping joins and pass-through nodes); undefined at the end */
+  const resolveTarget = (id: string): number | undefined => {
+    const seen = new Set<string>();
+    let current: string | undefined = id;
+    while (current !== undefined && !seen.has(current)) {
+      seen.add(current);
+      const step = firstStep.get(current);
+      if (step !== undefined) return step;
+      current = outgoing.get(current)?.[0]?.to;
+    }
+    return undefined;
+  };
+
+  const nodeAtStep = new Map([...firstStep].map(([id, step]) => [step, byId.get(id)!]));
+  /** Branch action text: the name of the step the branch leads to */
+  const describeTarget = (step: number | undefined, targetId: string) =>
+    step === undefined ? byId.get(targetId)?.name || 'End' : nodeAtStep.get(step)?.name || `Step ${step}`;
+
+  const steps: Array<VideoWorkflowStep & { lane?: string }> = [];
+  let expressionConditions = 0;
+  let textConditions = 0;
+
+  // Pass 2: build steps
+  for (const node of order) {
+    const stepNumber = firstStep.get(node.id);
+    if (stepNumber === undefined) continue;
+    const stepType = STEP_TYPES[node.kind];
+    if (stepType) {
+      steps.push({
+        step_number: stepNumber,
+        title: node.name || node.id,
+        action: node.description || node.name || node.id,
+        expected_result: node.expected_result ?? '',
+        ...(node.visual_cues ? { visual_cues: node.visual_cues } : {}),
+        step_type: stepType,
+        lane: node.lane
+      });
+      continue;
+    }
+
+    const branches = orderBranches(outgoing.get(node.id) ?? []);
+    for (let i = 0; i < branches.length - 1; i++) {
+      const edge = branches[i];
+      const label = edge.label?.trim();
+      let condition = [
+        ...(edge.expressions ?? []).map(expression => toSimpleExpression(expression)),
+        label ? toSimpleExpression(label, { requireComparison: true }) : undefined,
+        !label || YES_LABEL.test(label) ? toSimpleExpression(node.name, { requireComparison: true }) : undefined
+      ].find((candidate): candidate is string => candidate !== undefined);
+      if (condition) {
+        expressionConditions++;
+      } else {
+        textConditions++;
+        condition = edge.expressions?.find(e => e.trim())?.trim()
+          || (label && !YES_LABEL.test(label) ? label : '')
+          || node.name
+          || `${node.id} (branch ${i + 1})`;
+        report.push({ kind: 'condition_as_text', source_id: node.id, ...(node.name ? { source_name: node.name } : {}), message: `Condition "${condition}" is not a simple_expr_v1 expression; kept as text` });
+      }
+
+      const trueStep = resolveTarget(edge.to);
+      const isLast = i === branches.length - 2;
+      const falseEdge = branches[branches.length - 1];
+      const falseStep = isLast ? resolveTarget(falseEdge.to) : stepNumber + i + 1;
+
+      steps.push({
+        step_number: stepNumber + i,
+        title: node.name || condition,
+        action: node.description || condition,
+        expected_result: '',
+        step_type: 'conditional',
+        condition_details: {
+          condition,
+          true_action: (label && !YES_LABEL.test(label) ? label : '') || describeTarget(trueStep, edge.to),
+          ...(isLast
+            ? { false_action: (falseEdge.label?.trim() && !NO_LABEL.test(falseEdge.label.trim()) ? falseEdge.label.trim() : '') || describeTarget(falseStep, falseEdge.to) }
+            : {}),
+          ...(trueStep !== undefined || falseStep !== undefined
+            ? { target_steps: { ...(trueStep !== undefined ? { if_true: trueStep } : {}), ...(falseStep !== undefined ? { if_false: falseStep } : {}) } }
+            : {}),
+          condition_language: 'simple_expr_v1'
+        },
+        lane: node.lane
+      });
+    }
+  }
+
+  if (steps.length === 0) return { success: false, message: 'The process has no tasks or decisions to import' };
+  steps.sort((a, b) => a.step_number - b.step_number);
+
+  // Lanes become phases, numbered in order of their first step
+  const laneOrder = [...new Set(steps.map(step => step.lane).filter((lane): lane is string => !!lane))];
+  const lanes = new Map(definition.lanes.map(lane => [lane.id, lane]));
+  const temporal_phases: VideoTemporalPhase[] = laneOrder.map((laneId, i) => ({
+    phase_number: i + 1,
+    name: lanes.get(laneId)?.name || laneId,
+    purpose: lanes.get(laneId)?.description ?? '',
+    key_actions: steps.filter(step => step.lane === laneId && step.step_type !== 'conditional').map(step => step.title)
+  }));
+  const step_by_step_guide: VideoWorkflowStep[] = steps.map(({ lane, ...step }) =>
+    lane ? { ...step, phase_number: laneOrder.indexOf(lane) + 1 } : step);
+
+  const parsed = VideoWorkflowGuideContentSchema.safeParse({
+    schema_version: '3.0',
+    task_summary: {
+      name: definition.name,
+      goal: definition.description || definition.name,
+      ...(definition.applications?.length ? { applications: definition.applications } : {})
+    },
+    temporal_phases,
+    step_by_step_guide
+  });
+  if (!parsed.success) {
+    return { success: false, message: `Imported content is invalid: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}` };
+  }
+
+  return {
+    success: true,
+    content: parsed.data,
+    report: {
+      format,
+      steps: step_by_step_guide.length,
+      phases: temporal_phases.length,
+      expression_conditions: expressionConditions,
+      text_conditions: textConditions,
+      losses: report
+    }
+  };
+}
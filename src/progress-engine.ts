@@ -0,0 +1,292 @@
+/**
+ * Job Progress Engine
+ *
+ * Computes a fully populated JobProgress from a Forge manifest or a Session
+ * Manager session document:
+ * - Stages are weighted (stage D, the per-segment LLM analysis, dominates the
+ *   wall clock) instead of counting every stage equally
+ * - The running stage contributes partial progress from its {n}/{N} sub-items
+ * - estimated_completion is derived from historical stage_durations or a
+ *   learned StageTimingModel (stage-timing.ts)
+ *
+ * JobProgressSchema stays the output contract; calculateProgress in
+ * validation.ts is kept for callers that only have stage_executions.
+ */
+
+import { STAGES } from './constants.js';
+import type { Stage } from './constants.js';
+import type { ForgeManifest, SessionInternalState, StageExecution, JobProgress } from './types.js';
+import { getStageLabel } from './stage-messages.js';
+import { getStageDefinition, mapStages } from './stage-registry.js';
+import { predictRemainingTime } from './stage-timing.js';
+import type { StageTimingModel, StageTimingContext, RemainingWork } from './stage-timing.js';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/** Relative weight of each stage; only the ratios matter */
+export type StageWeights = Record<Stage, number>;
+
+/**
+ * Default stage weights (STAGE_REGISTRY weights, summing to 100), based on
+ * typical pipeline runs: stage D dominates, E is the second LLM-bound stage.
+ */
+export const DEFAULT_STAGE_WEIGHTS: StageWeights = mapStages(definition => definition.weight);
+
+/** Progress within a stage, e.g. banana 3 of 10 in stage D */
+export interface StageItemProgress {
+  completed: number;
+  total: number;
+}
+
+export interface JobProgressOptions {
+  /** Per-stage weights (missing stages fall back to DEFAULT_STAGE_WEIGHTS) */
+  weights?: Partial<StageWeights>;
+  /**
+   * Sub-item progress of the running stage. When omitted for a stage that
+   * counts items (stage D) it is read from a "{n}/{N}" count in the session's
+   * processing_status.
+   */
+  stageItems?: Partial<Record<Stage, StageItemProgress>>;
+  /** stage_durations of previous jobs (seconds per stage), used for the ETA */
+  history?: Array<Record<string, number>>;
+  /**
+   * Learned stage durations; preferred over history for the ETA when they
+   * cover every remaining stage
+   */
+  timing?: { model: StageTimingModel; context?: StageTimingContext };
+  /** Reference time (default: now) */
+  now?: Date;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isManifest(source: ForgeManifest | SessionInternalState): source is ForgeManifest {
+  return 'trigger_hash' in source && 'counters' in source;
+}
+
+function toMillis(timestamp: string | undefined): number | undefined {
+  if (!timestamp) return undefined;
+  const value = new Date(timestamp).getTime();
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * Read a "{n}/{N}" sub-item count from a progress message
+ *
+ * @example
+ * parseStageItems('Inspecting banana 3/10') // { completed: 3, total: 10 }
+ */
+export function parseStageItems(text: string | undefined): StageItemProgress | undefined {
+  const match = text?.match(/(\d+)\s*\/\s*(\d+)/);
+  if (!match) return undefined;
+  const completed = Number(match[1]);
+  const total = Number(match[2]);
+  return total > 0 && completed <= total ? { completed, total } : undefined;
+}
+
+/** Fraction of a stage done, from its sub-items. Item n is in progress, so n - 1 are done. */
+function itemFraction(items: StageItemProgress | undefined): number {
+  if (!items || items.total <= 0) return 0;
+  return Math.min(Math.max(items.completed - 1, 0) / items.total, 1);
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** Stages the job will run: the trigger's options.stages when present, otherwise all */
+function plannedStages(source: ForgeManifest | SessionInternalState, executions: StageExecution[]): Stage[] {
+  const requested = isManifest(source) && Array.isArray(source.options.stages)
+    ? (source.options.stages as unknown[]).filter((stage): stage is Stage => STAGES.includes(stage as Stage))
+    : [];
+  const planned = new Set<Stage>(requested.length > 0 ? requested : STAGES);
+  executions.forEach(execution => planned.add(execution.stage));
+  return STAGES.filter(stage => planned.has(stage));
+}
+
+/** Latest execution per stage (retries replace earlier attempts) */
+function latestExecutions(executions: StageExecution[]): Map<Stage, StageExecution> {
+  const sorted = [...executions].sort((a, b) => (toMillis(a.started_at) ?? 0) - (toMillis(b.started_at) ?? 0));
+  return new Map(sorted.map(execution => [execution.stage, execution] as const));
+}
+
+// ============================================================================
+// Progress Engine
+// ============================================================================
+
+interface StageState {
+  stages: Stage[];
+  latest: Map<Stage, StageExecution>;
+  finished: boolean;
+  completed: Stage[];
+  current: Stage;
+  /** Fraction of the current stage done, from its sub-items */
+  partial: number;
+}
+
+function readStageState(source: ForgeManifest | SessionInternalState, options: JobProgressOptions): StageState {
+  const executions = source.stage_executions ?? [];
+  const stages = plannedStages(source, executions);
+  const latest = latestExecutions(executions);
+  const finished = source.status === 'completed';
+
+  const completed = stages.filter(stage => finished || latest.get(stage)?.status === 'completed');
+  const current: Stage = finished ? stages[stages.length - 1] :
+    (!isManifest(source) ? source.current_stage : undefined) ??
+    [...latest.values()].filter(execution => execution.status !== 'completed').pop()?.stage ??
+    stages.find(stage => !completed.includes(stage)) ??
+    stages[stages.length - 1];
+
+  // Sub-items of the running stage
+  const items = options.stageItems?.[current] ??
+    (getStageDefinition(current).counts_items && !isManifest(source) ? parseStageItems(source.processing_status) : undefined);
+  const running = !finished && !['completed', 'failed'].includes(latest.get(current)?.status ?? 'started');
+  const partial = running ? itemFraction(items) : 0;
+
+  return { stages, latest, finished, completed, current, partial };
+}
+
+/**
+ * Work left in a job, for predictRemainingTime (stage-timing.ts)
+ *
+ * @example
+ * const prediction = predictRemainingTime(model, getRemainingWork(session), context);
+ */
+export function getRemainingWork(
+  source: ForgeManifest | SessionInternalState,
+  options: Pick<JobProgressOptions, 'stageItems' | 'now'> = {}
+): RemainingWork {
+  const now = (options.now ?? new Date()).getTime();
+  const { stages, latest, completed, current, partial } = readStageState(source, options);
+  const started = toMillis(latest.get(current)?.started_at);
+  const remaining = stages.filter(stage => !completed.includes(stage));
+  if (!remaining.includes(current)) return { stages: remaining };
+  return {
+    stages: remaining,
+    current_stage: current,
+    ...(started !== undefined ? { current_stage_elapsed_seconds: Math.max((now - started) / 1000, 0) } : {}),
+    ...(partial > 0 ? { current_stage_fraction: partial } : {})
+  };
+}
+
+/**
+ * Job whose progress is computed. Session documents only get a processing_id
+ * once Forge accepts the job, so the caller must supply it.
+ */
+export type JobProgressSource = ForgeManifest | (SessionInternalState & { processing_id: string });
+
+/**
+ * Compute job progress from a Forge manifest or a session document
+ *
+ * @example
+ * const progress = computeJobProgress(manifest, {
+ *   history: previousJobs.map(job => job.stage_durations)
+ * });
+ * // { processing_id: 'proc_123', progress_percent: 42, current_stage: 'D',
+ * //   estimated_completion: '2025-09-08T08:41:10.000Z', ... }
+ * computeJobProgress({ ...session, processing_id: job.processing_id });
+ */
+export function computeJobProgress(source: JobProgressSource, options: JobProgressOptions = {}): JobProgress {
+  const now = (options.now ?? new Date()).getTime();
+  const weights: StageWeights = { ...DEFAULT_STAGE_WEIGHTS, ...options.weights };
+  const { stages, latest, finished, completed, current, partial } = readStageState(source, options);
+
+  const totalWeight = stages.reduce((sum, stage) => sum + Math.max(weights[stage], 0), 0);
+  const doneWeight = completed.reduce((sum, stage) => sum + Math.max(weights[stage], 0), 0) +
+    (completed.includes(current) ? 0 : Math.max(weights[current], 0) * partial);
+  const progressPercent = finished ? 100 : totalWeight > 0
+    ? Math.min(Math.round((doneWeight / totalWeight) * 100), completed.length === stages.length ? 100 : 99)
+    : 0;
+
+  // Durations of this job's finished stages
+  const stageDurations: Record<string, number> = {};
+  for (const [stage, execution] of latest) {
+    const start = toMillis(execution.started_at);
+    const end = toMillis(execution.completed_at);
+    if (start !== undefined && end !== undefined) stageDurations[stage] = Math.max(end - start, 0) / 1000;
+  }
+
+  // Elapsed time from the first stage start (before any stage: job creation / recording stop)
+  const firstStart = Math.min(...[...latest.values()].map(execution => toMillis(execution.started_at) ?? Infinity));
+  const startedAt = Number.isFinite(firstStart)
+    ? firstStart
+    : toMillis(isManifest(source) ? source.created_at : source.stopped_at ?? source.stop_time) ?? Infinity;
+  const endedAt = finished ? toMillis(source.completed_at) ?? now : now;
+  const elapsedSeconds = Number.isFinite(startedAt) ? Math.max(Math.floor((endedAt - startedAt) / 1000), 0) : 0;
+
+  const progress: JobProgress = {
+    processing_id: source.processing_id,
+    progress_percent: progressPercent,
+    current_stage: current,
+    stage_name: getStageLabel(current),
+    stages_completed: completed,
+    stages_total: stages.length,
+    elapsed_seconds: elapsedSeconds,
+    stage_durations: stageDurations
+  };
+
+  if (finished) {
+    const completedAt = toMillis(source.completed_at);
+    if (completedAt !== undefined) progress.estimated_completion = new Date(completedAt).toISOString();
+  } else if (source.status !== 'failed') {
+    const predicted = options.timing
+      ? predictRemainingTime(options.timing.model, getRemainingWork(source, options), options.timing.context)
+      : undefined;
+    const remaining = predicted && predicted.unknown_stages.length === 0 ? predicted.seconds : estimateRemainingSeconds(stages, completed, current, latest.get(current), partial, weights, options.history ?? [], now);
+    if (remaining !== undefined) progress.estimated_completion = new Date(now + remaining * 1000).toISOString();
+  }
+
+  return progress;
+}
+
+/**
+ * Seconds until the job finishes: the median historical duration of every
+ * stage still to run, minus the part of the current stage already done.
+ * Stages without history are scaled from the others by weight; without any
+ * history there is no estimate.
+ */
+function estimateRemainingSeconds(
+  stages: Stage[],
+  completed: Stage[],
+  current: Stage,
+  currentExecution: StageExecution | undefined,
+  partial: number,
+  weights: StageWeights,
+  history: Array<Record<string, number>>,
+  now: number
+): number | undefined {
+  const typical = new Map<Stage, number>();
+  for (const stage of stages) {
+    const value = median(history.map(durations => durations[stage]).filter(
+      (seconds): seconds is number => typeof seconds === 'number' && Number.isFinite(seconds) && seconds >= 0
+    ));
+    if (value !== undefined) typical.set(stage, value);
+  }
+  if (typical.size === 0) return undefined;
+
+  const knownWeight = [...typical.keys()].reduce((sum, stage) => sum + weights[stage], 0);
+  const knownSeconds = [...typical.values()].reduce((sum, seconds) => sum + seconds, 0);
+  const secondsPerWeight = knownWeight > 0 ? knownSeconds / knownWeight : 0;
+  const expected = (stage: Stage) => typical.get(stage) ?? weights[stage] * secondsPerWeight;
+
+  let remaining = 0;
+  for (const stage of stages) {
+    if (completed.includes(stage)) continue;
+    if (stage !== current || !currentExecution) {
+      remaining += expected(stage);
+      continue;
+    }
+    // Running stage: prefer sub-item progress, otherwise time already spent in it
+    const spent = Math.max((now - (toMillis(currentExecution.started_at) ?? now)) / 1000, 0);
+    const left = partial > 0 ? expected(stage) * (1 - partial) : expected(stage) - spent;
+    remaining += Math.max(left, 0);
+  }
+  return remaining;
+}
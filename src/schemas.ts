@@ -6,7 +6,8 @@
  */
 
 import { z } from 'zod';
-import { STAGES, SESSION_STATUSES, PROCESSING_STATUSES, STAGE_EXECUTION_STATUSES } from './constants.js';
+import { STAGES, PIPELINE_STAGES, SESSION_STATUSES, PROCESSING_STATUSES, STAGE_EXECUTION_STATUSES } from './constants.js';
+import { PIPELINE_FAMILIES } from './stage-registry.js';
 
 // ============================================================================
 // Bridge Command API Schemas
@@ -78,6 +79,15 @@ export const StageExecutionSchema = z.object({
   artifacts_produced: z.array(z.string())
 });
 
+export const PipelineFamilySchema = z.enum(PIPELINE_FAMILIES);
+
+// Stage executions per pipeline family; bridge_forge is StageExecutionSchema
+export const PIPELINE_STAGE_EXECUTION_SCHEMAS = {
+  bridge_forge: StageExecutionSchema,
+  video_vlm: StageExecutionSchema.extend({ stage: z.enum(PIPELINE_STAGES.video_vlm) }),
+  text_generation: StageExecutionSchema.extend({ stage: z.enum(PIPELINE_STAGES.text_generation) })
+};
+
 export const SessionInternalStateSchema = z.object({
   session_id: z.string(),
   
@@ -117,6 +127,60 @@ export const SessionInternalStateSchema = z.object({
   workflow_id: z.string().optional()
 });
 
+// ============================================================================
+// Status-Discriminated Session State (strict variant)
+// ============================================================================
+// Ships alongside the loose SessionInternalStateSchema so consumers can migrate
+// gradually. Required/forbidden fields mirror SESSION_STATE_REQUIREMENTS in
+// session-lifecycle.ts. Only canonical started_at/stopped_at are accepted here;
+// documents still carrying start_time/stop_time must be normalized first.
+
+const SessionStateBaseSchema = SessionInternalStateSchema.omit({ status: true });
+
+export const RecordingSessionStateSchema = SessionStateBaseSchema.extend({
+  status: z.literal('recording'),
+  started_at: z.string(),
+  stopped_at: z.undefined(),
+  completed_at: z.undefined(),
+  firestore_path: z.undefined(),
+  processing_id: z.undefined(),
+  error_message: z.undefined()
+});
+
+export const ProcessingSessionStateSchema = SessionStateBaseSchema.extend({
+  status: z.literal('processing'),
+  started_at: z.string(),
+  stopped_at: z.string(),
+  current_stage: z.enum(STAGES),
+  stage_executions: z.array(StageExecutionSchema),
+  completed_at: z.undefined(),
+  firestore_path: z.undefined(),
+  error_message: z.undefined()
+});
+
+export const CompletedSessionStateSchema = SessionStateBaseSchema.extend({
+  status: z.literal('completed'),
+  started_at: z.string(),
+  stopped_at: z.string(),
+  completed_at: z.string(),
+  firestore_path: z.string(),
+  processing_id: z.string(),
+  error_message: z.undefined()
+});
+
+export const FailedSessionStateSchema = SessionStateBaseSchema.extend({
+  status: z.literal('failed'),
+  error_message: z.string(),
+  firestore_path: z.undefined()
+});
+
+export const DiscriminatedSessionStateSchema = z.discriminatedUnion('status', [
+  RecordingSessionStateSchema,
+  ProcessingSessionStateSchema,
+  CompletedSessionStateSchema,
+  FailedSessionStateSchema
+]);
+
 // ============================================================================
 // Forge Pipeline Schemas
 // ============================================================================
@@ -142,6 +206,7 @@ export const ForgeCountersSchema = z.object({
 });
 
 export const ForgeManifestSchema = z.object({
+  pipeline: z.literal('bridge_forge').optional(), // Absent for bridge Forge jobs
   version: z.string(),
   processing_id: z.string(),
   trigger_hash: z.string(),
@@ -158,6 +223,19 @@ export const ForgeManifestSchema = z.object({
   errors: z.array(z.any())
 });
 
+// Manifests per pipeline family; bridge_forge is ForgeManifestSchema
+export const PIPELINE_FORGE_MANIFEST_SCHEMAS = {
+  bridge_forge: ForgeManifestSchema,
+  video_vlm: ForgeManifestSchema.extend({
+    pipeline: z.literal('video_vlm'),
+    stage_executions: z.array(PIPELINE_STAGE_EXECUTION_SCHEMAS.video_vlm)
+  }),
+  text_generation: ForgeManifestSchema.extend({
+    pipeline: z.literal('text_generation'),
+    stage_executions: z.array(PIPELINE_STAGE_EXECUTION_SCHEMAS.text_generation)
+  })
+};
+
 export const ForgeJobResponseSchema = z.object({
   status: z.enum(['completed', 'failed', 'timeout', 'connection_error']),
   session_id: z.string(),
@@ -214,6 +292,7 @@ export const ForgeTriggerSchema = z.object({
 // ============================================================================
 
 export const JobProgressSchema = z.object({
+  pipeline: z.literal('bridge_forge').optional(), // Absent for bridge Forge jobs
   processing_id: z.string(),
   progress_percent: z.number().min(0).max(100),
   current_stage: z.enum(STAGES),
@@ -225,6 +304,21 @@ export const JobProgressSchema = z.object({
   stage_durations: z.record(z.string(), z.number())
 });
 
+// Job progress per pipeline family; bridge_forge is JobProgressSchema
+export const PIPELINE_JOB_PROGRESS_SCHEMAS = {
+  bridge_forge: JobProgressSchema,
+  video_vlm: JobProgressSchema.extend({
+    pipeline: z.literal('video_vlm'),
+    current_stage: z.enum(PIPELINE_STAGES.video_vlm),
+    stages_completed: z.array(z.enum(PIPELINE_STAGES.video_vlm))
+  }),
+  text_generation: JobProgressSchema.extend({
+    pipeline: z.literal('text_generation'),
+    current_stage: z.enum(PIPELINE_STAGES.text_generation),
+    stages_completed: z.array(z.enum(PIPELINE_STAGES.text_generation))
+  })
+};
+
 // ============================================================================
 // Error Handling Schemas  
 // ============================================================================
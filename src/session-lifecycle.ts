@@ -0,0 +1,298 @@
+/**
+ * Session Lifecycle State Machine
+ *
+ * Shared definition of the session lifecycle so the Session Manager, admin panel
+ * and bridge all enforce the same transitions:
+ *
+ *   recording → processing → completed
+ *       ↓            ↓
+ *     failed       failed
+ *
+ * Each status also declares which SessionInternalState fields it requires and
+ * which it forbids (e.g. "completed" needs firestore_path, "recording" must not
+ * carry stopped_at).
+ */
+
+import { STAGES, SESSION_STATUSES } from './constants.js';
+import type { SessionStatus, Stage } from './constants.js';
+import type { SessionInternalState, StageExecution, ErrorEnvelope } from './types.js';
+import { SESSION_STATE_DEPRECATED_FIELDS } from './deprecated-fields.js';
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/**
+ * Allowed status transitions. Terminal statuses have no outgoing transitions.
+ */
+export const SESSION_TRANSITIONS: Record<SessionStatus, readonly SessionStatus[]> = {
+  recording: ['processing', 'failed'],
+  processing: ['completed', 'failed'],
+  completed: [],
+  failed: []
+};
+
+export type SessionStateField = keyof SessionInternalState;
+
+export interface SessionStateRequirements {
+  required: readonly SessionStateField[];
+  forbidden: readonly SessionStateField[];
+}
+
+/**
+ * Fields each status requires / forbids.
+ * Deprecated start_time / stop_time are accepted in place of started_at / stopped_at.
+ */
+export const SESSION_STATE_REQUIREMENTS: Record<SessionStatus, SessionStateRequirements> = {
+  recording: {
+    required: ['started_at'],
+    forbidden: ['stopped_at', 'completed_at', 'firestore_path', 'processing_id', 'error_message']
+  },
+  processing: {
+    required: ['started_at', 'stopped_at', 'current_stage', 'stage_executions'],
+    forbidden: ['completed_at', 'firestore_path', 'error_message']
+  },
+  completed: {
+    required: ['started_at', 'stopped_at', 'completed_at', 'firestore_path', 'processing_id'],
+    forbidden: ['error_message']
+  },
+  failed: {
+    required: ['error_message'],
+    forbidden: ['firestore_path']
+  }
+};
+
+/**
+ * Check whether a status transition is allowed
+ */
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return SESSION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status is terminal (no further transitions)
+ */
+export function isTerminalSessionStatus(status: SessionStatus): boolean {
+  return SESSION_TRANSITIONS[status].length === 0;
+}
+
+// ============================================================================
+// State Validation
+// ============================================================================
+
+export interface SessionStateViolation {
+  field: SessionStateField;
+  kind: 'missing' | 'forbidden';
+  message: string;
+}
+
+function hasField(state: SessionInternalState, field: SessionStateField): boolean {
+  if (state[field] !== undefined && state[field] !== null) return true;
+  // Deprecated aliases satisfy a canonical field requirement
+  const alias = SESSION_STATE_DEPRECATED_FIELDS.find(m => m.canonical === field)?.legacy as SessionStateField | undefined;
+  return alias !== undefined && state[alias] !== undefined && state[alias] !== null;
+}
+
+/**
+ * List the fields that violate the requirements of the state's status.
+ * An empty array means the state is consistent with its status.
+ */
+export function getSessionStateViolations(state: SessionInternalState): SessionStateViolation[] {
+  const requirements = SESSION_STATE_REQUIREMENTS[state.status];
+  const violations: SessionStateViolation[] = [];
+
+  for (const field of requirements.required) {
+    if (!hasField(state, field)) {
+      violations.push({
+        field,
+        kind: 'missing',
+        message: `${field} is required when status is "${state.status}"`
+      });
+    }
+  }
+
+  for (const field of requirements.forbidden) {
+    if (hasField(state, field)) {
+      violations.push({
+        field,
+        kind: 'forbidden',
+        message: `${field} must not be set when status is "${state.status}"`
+      });
+    }
+  }
+
+  return violations;
+}
+
+// ============================================================================
+// Lifecycle Events
+// ============================================================================
+
+export type SessionLifecycleEvent =
+  | {
+      // recording → processing
+      type: 'stop';
+      stopped_at: string;
+      processing_id?: string;
+    }
+  | {
+      // processing → processing (stage update, no status change)
+      type: 'stage_progress';
+      current_stage: Stage;
+      progress_percent?: number;
+      stage_executions?: StageExecution[];
+    }
+  | {
+      // processing → completed
+      type: 'complete';
+      completed_at: string;
+      firestore_path: string;
+      processing_id?: string;
+      workflow_id?: string;
+      processing_time_seconds?: number;
+    }
+  | {
+      // recording | processing → failed
+      type: 'fail';
+      error_message: string;
+    };
+
+export type SessionLifecycleEventType = SessionLifecycleEvent['type'];
+
+/**
+ * Status each event moves the session into
+ */
+export const SESSION_EVENT_TARGETS: Record<SessionLifecycleEventType, SessionStatus> = {
+  stop: 'processing',
+  stage_progress: 'processing',
+  complete: 'completed',
+  fail: 'failed'
+};
+
+export type SessionTransitionResult =
+  | { success: true; state: SessionInternalState }
+  | { success: false; error: ErrorEnvelope };
+
+function rejectTransition(
+  state: SessionInternalState,
+  event: SessionLifecycleEvent,
+  message: string,
+  details: Record<string, unknown> = {}
+): SessionTransitionResult {
+  return {
+    success: false,
+    error: {
+      code: 'invalid_request',
+      http: 400,
+      message,
+      details: {
+        session_id: state.session_id,
+        from_status: state.status,
+        event: event.type,
+        allowed_statuses: [...SESSION_TRANSITIONS[state.status]],
+        ...details
+      }
+    }
+  };
+}
+
+function applyEvent(state: SessionInternalState, event: SessionLifecycleEvent): SessionInternalState {
+  switch (event.type) {
+    case 'stop':
+      return {
+        ...state,
+        status: 'processing',
+        stopped_at: event.stopped_at,
+        current_stage: STAGES[0],
+        progress_percent: 0,
+        stage_executions: [],
+        ...(event.processing_id !== undefined && { processing_id: event.processing_id })
+      };
+    case 'stage_progress':
+      return {
+        ...state,
+        current_stage: event.current_stage,
+        ...(event.progress_percent !== undefined && { progress_percent: event.progress_percent }),
+        ...(event.stage_executions !== undefined && { stage_executions: event.stage_executions })
+      };
+    case 'complete':
+      return {
+        ...state,
+        status: 'completed',
+        completed_at: event.completed_at,
+        firestore_path: event.firestore_path,
+        progress_percent: 100,
+        workflow_ready: true,
+        ...(event.processing_id !== undefined && { processing_id: event.processing_id }),
+        ...(event.workflow_id !== undefined && { workflow_id: event.workflow_id }),
+        ...(event.processing_time_seconds !== undefined && {
+          processing_time_seconds: event.processing_time_seconds
+        })
+      };
+    case 'fail':
+      return {
+        ...state,
+        status: 'failed',
+        error_message: event.error_message
+      };
+  }
+}
+
+/**
+ * Apply a lifecycle event to a session state.
+ *
+ * Rejects (with an ErrorEnvelope) when the event is not allowed from the current
+ * status, or when the resulting state does not satisfy the requirements of its
+ * new status. The input state is never mutated.
+ *
+ * @example
+ * const result = transitionSession(session, { type: 'stop', stopped_at: new Date().toISOString() });
+ * if (!result.success) return res.status(result.error.http).json(result.error);
+ */
+export function transitionSession(
+  state: SessionInternalState,
+  event: SessionLifecycleEvent
+): SessionTransitionResult {
+  const target = SESSION_EVENT_TARGETS[event.type];
+  // stage_progress is the only self-transition; it is valid only while processing
+  const allowed = event.type === 'stage_progress'
+    ? state.status === 'processing'
+    : canTransition(state.status, target);
+
+  if (!allowed) {
+    return rejectTransition(
+      state,
+      event,
+      `Cannot apply "${event.type}" to a session in status "${state.status}"`,
+      { to_status: target }
+    );
+  }
+
+  const next = applyEvent(state, event);
+  const violations = getSessionStateViolations(next);
+  if (violations.length > 0) {
+    return rejectTransition(
+      state,
+      event,
+      violations.map(v => v.message).join('; '),
+      { to_status: target, violations }
+    );
+  }
+
+  return { success: true, state: next };
+}
+
+/**
+ * All statuses reachable from the given status (excluding itself)
+ */
+export function getReachableStatuses(from: SessionStatus): SessionStatus[] {
+  const seen = new Set<SessionStatus>();
+  const queue: SessionStatus[] = [...SESSION_TRANSITIONS[from]];
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    if (seen.has(status)) continue;
+    seen.add(status);
+    queue.push(...SESSION_TRANSITIONS[status]);
+  }
+  return SESSION_STATUSES.filter(s => seen.has(s));
+}
@@ -0,0 +1,473 @@
+/**
+ * Skill Export
+ *
+ * Shared "skill" bundle format for agents: a manifest, a self-describing
+ * instruction file (SKILL.md) and the per-step / per-item sections it was
+ * rendered from. Every section keeps its item_id and source_session_id (or,
+ * for a project overview, source_project_id) so an agent can cite where an
+ * instruction came from.
+ *
+ * The MCP server and the admin panel both call these generators; with the same
+ * input and generatedAt they produce byte-identical bundles.
+ */
+
+import { z } from 'zod';
+import { getStepPhaseIndex, StepTypeSchema } from './video-artifacts.js';
+import type { VideoWorkflowGuideContent, VideoWorkflowStep, StrictKnowledgeItem } from './video-artifacts.js';
+import type { SessionContentDoc } from './session-translations.js';
+import type { ProjectSessionWithContent } from './project.js';
+import { resolveWorkflowGuideForExport, resolveKnowledgeBaseForExport } from './export-content.js';
+import type { ExportContentOptions } from './export-content.js';
+import type { CanonicalKnowledgeBaseContent } from './deprecated-fields.js';
+import { normalizeKnowledgeItem } from './knowledge-normalization.js';
+import { codeBlock, escapeInline } from './markdown-export.js';
+
+// ============================================================================
+// Bundle Schema
+// ============================================================================
+
+export const SKILL_BUNDLE_FORMAT = 'flingoos.skill';
+export const SKILL_BUNDLE_FORMAT_VERSION = '1.0';
+
+export const SkillKindSchema = z.enum(['workflow', 'knowledge_base', 'project']);
+export type SkillKind = z.infer<typeof SkillKindSchema>;
+
+export const SkillSectionKindSchema = z.enum([
+  'overview',
+  'phase',
+  'step',
+  'notes',
+  'knowledge_item',
+  'relationships'
+]);
+export type SkillSectionKind = z.infer<typeof SkillSectionKindSchema>;
+
+export const SkillSourceSchema = z.object({
+  session_id: z.string().min(1),
+  name: z.string(),
+  recording_type: z.enum(['workflow_recording', 'teaching_session']),
+  language: z.string()
+});
+export type SkillSource = z.infer<typeof SkillSourceSchema>;
+
+export const SkillSectionSchema = z.object({
+  // Stable anchor, unique within the bundle: "{session_id}/{kind}-{n}", n = 1-based position
+  section_id: z.string().min(1),
+  kind: SkillSectionKindSchema,
+  title: z.string(),
+  body: z.string(), // Markdown
+  source_session_id: z.string().min(1).optional(),
+  source_project_id: z.string().min(1).optional(), // Project-level sections (project overview)
+  item_id: z.string().optional(), // Step/knowledge item provenance (absent on legacy content)
+  step_number: z.number().optional(),
+  step_type: StepTypeSchema.optional()
+});
+export type SkillSection = z.infer<typeof SkillSectionSchema>;
+
+export const SkillManifestSchema = z.object({
+  format: z.literal(SKILL_BUNDLE_FORMAT),
+  format_version: z.literal(SKILL_BUNDLE_FORMAT_VERSION),
+  name: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Skill name must be a lowercase slug'),
+  title: z.string(),
+  description: z.string(),
+  kind: SkillKindSchema,
+  language: z.string(), // BCP-47, or 'mul' when project sessions resolved to different languages
+  generated_at: z.string(), // ISO timestamp
+  project_id: z.string().optional(),
+  sources: z.array(SkillSourceSchema).min(1),
+  section_count: z.number().int().nonnegative()
+});
+export type SkillManifest = z.infer<typeof SkillManifestSchema>;
+
+export const SkillBundleSchema = z.object({
+  manifest: SkillManifestSchema,
+  instructions: z.string(), // SKILL.md contents
+  sections: z.array(SkillSectionSchema)
+}).superRefine((bundle, ctx) => {
+  if (bundle.manifest.section_count !== bundle.sections.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['manifest', 'section_count'],
+      message: `section_count is ${bundle.manifest.section_count} but the bundle has ${bundle.sections.length} sections`
+    });
+  }
+  // source_session_id is not checked against manifest.sources: augmented steps/items
+  // cite the session that introduced them, which need not be part of the bundle
+  const seen = new Set<string>();
+  bundle.sections.forEach((section, i) => {
+    if (seen.has(section.section_id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sections', i, 'section_id'], message: `Duplicate section_id ${section.section_id}` });
+    }
+    seen.add(section.section_id);
+    if ((section.source_session_id === undefined) === (section.source_project_id === undefined)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sections', i], message: 'Section needs exactly one of source_session_id and source_project_id' });
+    }
+  });
+});
+export type SkillBundle = z.infer<typeof SkillBundleSchema>;
+
+// ============================================================================
+// Generator Types
+// ============================================================================
+
+export interface SkillSessionInput {
+  session_id: string;
+  /** Session document (content, translations, language metadata) */
+  session: SessionContentDoc;
+}
+
+export interface SkillExportOptions extends ExportContentOptions {
+  /** ISO timestamp written to the manifest (default: now). Pass it for reproducible bundles. */
+  generatedAt?: string;
+}
+
+export interface SkillSkippedSession {
+  session_id: string;
+  message: string;
+}
+
+export type SkillExportResult = {
+  success: true;
+  bundle: SkillBundle;
+  /** Project sessions left out because their content could not be resolved */
+  skipped: SkillSkippedSession[];
+} | {
+  success: false;
+  message: string;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Lowercase slug for manifest.name (falls back to 'skill' for non-Latin titles)
+ */
+export function toSkillName(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64)
+    .replace(/-+$/, '');
+  return slug || 'skill';
+}
+
+function bulletList(items: readonly string[]): string {
+  return items.map(item => `- ${item}`).join('\n');
+}
+
+function joinBlocks(blocks: Array<string | number | false | undefined>): string {
+  return blocks.filter((block): block is string => typeof block === 'string' && block.trim() !== '').join('\n\n');
+}
+
+function stepBody(step: VideoWorkflowStep): string {
+  const details = step.condition_details;
+  const target = (n: number | undefined) => n !== undefined ? ` Then go to step ${n}.` : '';
+  return joinBlocks([
+    step.action,
+    step.expected_result && `Expected result: ${step.expected_result}`,
+    step.visual_cues && `Visual cues: ${step.visual_cues}`,
+    details && bulletList([
+      `Condition: \`${details.condition}\``,
+      `If true: ${details.true_action}${target(details.target_steps?.if_true)}`,
+      ...(details.false_action || details.target_steps?.if_false !== undefined
+        ? [`If false: ${details.false_action ?? 'continue'}${target(details.target_steps?.if_false)}`]
+        : [])
+    ])
+  ]);
+}
+
+// ============================================================================
+// Section Builders
+// ============================================================================
+
+function workflowSections(sessionId: string, content: VideoWorkflowGuideContent): SkillSection[] {
+  const summary = content.task_summary;
+  const sections: SkillSection[] = [{
+    section_id: `${sessionId}/overview`,
+    kind: 'overview',
+    title: summary.name,
+    body: joinBlocks([
+      `Goal: ${summary.goal}`,
+      summary.abstract,
+      summary.applications?.length && `Applications: ${summary.applications.join(', ')}`
+    ]),
+    source_session_id: sessionId
+  }];
+
+  content.temporal_phases.forEach((phase, phaseIndex) => {
+    const steps = content.step_by_step_guide
+      .filter(step => getStepPhaseIndex(step, content.temporal_phases) === phaseIndex)
+      .map(step => step.step_number);
+    sections.push({
+      section_id: `${sessionId}/phase-${phaseIndex + 1}`,
+      kind: 'phase',
+      title: `Phase ${phase.phase_number}: ${phase.name}`,
+      body: joinBlocks([
+        phase.purpose,
+        steps.length > 0 && `Steps: ${steps.join(', ')}`,
+        phase.success_criteria?.length && `Done when:\n${bulletList(phase.success_criteria)}`
+      ]),
+      source_session_id: sessionId
+    });
+  });
+
+  // Anchors use positions: step and phase numbers may repeat in imported or edited content
+  content.step_by_step_guide.forEach((step, stepIndex) => {
+    sections.push({
+      section_id: `${sessionId}/step-${stepIndex + 1}`,
+      kind: 'step',
+      title: `Step ${step.step_number}: ${step.title}`,
+      body: stepBody(step),
+      source_session_id: step.source_session_id ?? sessionId,
+      ...(step.item_id && { item_id: step.item_id }),
+      step_number: step.step_number,
+      step_type: step.step_type ?? 'do'
+    });
+  });
+
+  const notes = content.workflow_notes;
+  if (notes && (notes.success_criteria.length || notes.constraints.length || notes.pointers.length)) {
+    sections.push({
+      section_id: `${sessionId}/notes`,
+      kind: 'notes',
+      title: 'Notes',
+      body: joinBlocks([
+        notes.success_criteria.length > 0 && `Success criteria:\n${bulletList(notes.success_criteria)}`,
+        notes.constraints.length > 0 && `Constraints:\n${bulletList(notes.constraints)}`,
+        notes.pointers.length > 0 && `Pointers:\n${bulletList(notes.pointers)}`
+      ]),
+      source_session_id: sessionId
+    });
+  }
+
+  (content.knowledge_items ?? []).forEach((item, i) => {
+    sections.push(knowledgeItemSection(sessionId, normalizeKnowledgeItem(item).item, i));
+  });
+  return sections;
+}
+
+function knowledgeItemSection(sessionId: string, item: StrictKnowledgeItem, index: number): SkillSection {
+  return {
+    section_id: `${sessionId}/item-${index + 1}`,
+    kind: 'knowledge_item',
+    title: item.title,
+    body: joinBlocks([
+      `Type: ${item.type}${item.subtype ? ` (${item.subtype.replace(/_/g, ' ')})` : ''}${item.importance === 'critical' ? ', critical' : ''}`,
+      item.content,
+      item.code_snippet && codeBlock(item.code_snippet).join('\n').trimEnd()
+    ]),
+    source_session_id: item.source_session_id ?? sessionId,
+    ...(item.item_id && { item_id: item.item_id })
+  };
+}
+
+function knowledgeBaseSections(sessionId: string, content: CanonicalKnowledgeBaseContent): SkillSection[] {
+  const summary = content.session_summary;
+  const sections: SkillSection[] = [{
+    section_id: `${sessionId}/overview`,
+    kind: 'overview',
+    title: summary.topic,
+    body: joinBlocks([
+      content.abstract,
+      summary.subtopics.length > 0 && `Subtopics: ${summary.subtopics.join(', ')}`
+    ]),
+    source_session_id: sessionId
+  }];
+
+  const items = content.knowledge_items.map(item => normalizeKnowledgeItem(item).item);
+  items.forEach((item, i) => sections.push(knowledgeItemSection(sessionId, item, i)));
+
+  if (content.concept_relationships?.length) {
+    // Relationships reference item_ids; older data may reference titles
+    const titleFor = (ref: string) => items.find(i => i.item_id === ref || i.title === ref)?.title ?? ref;
+    sections.push({
+      section_id: `${sessionId}/relationships`,
+      kind: 'relationships',
+      title: 'Concept relationships',
+      body: bulletList(content.concept_relationships.map(rel =>
+        `${titleFor(rel.from)} ${rel.relationship.replace(/_/g, ' ')} ${titleFor(rel.to)}: ${rel.description}`
+      )),
+      source_session_id: sessionId
+    });
+  }
+  return sections;
+}
+
+// ============================================================================
+// Instruction File
+// ============================================================================
+
+const SKILL_USAGE_NOTES: Record<SkillKind, string> = {
+  workflow: 'Follow the steps in order. Decision steps say which step to continue with.',
+  knowledge_base: 'Use this knowledge when answering questions on the topic below.',
+  project: 'Follow workflow steps in order; use the knowledge sections as reference.'
+};
+
+function yamlString(text: string): string {
+  return JSON.stringify(text.replace(/\s+/g, ' ').trim());
+}
+
+function renderInstructions(manifest: Omit<SkillManifest, 'section_count'>, sections: SkillSection[]): string {
+  const lines = [
+    '---',
+    `name: ${manifest.name}`,
+    `description: ${yamlString(manifest.description)}`,
+    '---',
+    '',
+    `# ${escapeInline(manifest.title)}`,
+    '',
+    SKILL_USAGE_NOTES[manifest.kind],
+    `When you rely on a section, cite its source as [session:<id>] or [project:<id>] (and [item:<id>] when given).`,
+    ''
+  ];
+
+  for (const section of sections) {
+    const level = section.kind === 'overview' || section.kind === 'phase' ? '##' : '###';
+    const cite = [
+      section.source_session_id ? `session:${section.source_session_id}` : `project:${section.source_project_id}`,
+      section.item_id && `item:${section.item_id}`
+    ]
+      .filter(Boolean).map(ref => `[${ref}]`).join(' ');
+    lines.push(`${level} ${escapeInline(section.title)}`, '', `<!-- section: ${section.section_id} -->`, '');
+    if (section.body) lines.push(section.body, '');
+    lines.push(`_Source: ${cite}_`, '');
+  }
+
+  return lines.join('\n').replace(/\n+$/, '\n');
+}
+
+function buildBundle(
+  manifest: Omit<SkillManifest, 'section_count'>,
+  sections: SkillSection[],
+  skipped: SkillSkippedSession[] = []
+): SkillExportResult {
+  const parsed = SkillBundleSchema.safeParse({
+    manifest: { ...manifest, section_count: sections.length },
+    instructions: renderInstructions(manifest, sections),
+    sections
+  });
+  if (!parsed.success) {
+    return { success: false, message: `Invalid skill bundle: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}` };
+  }
+  return { success: true, bundle: parsed.data, skipped };
+}
+
+// ============================================================================
+// Generators
+// ============================================================================
+
+function baseManifest(options: SkillExportOptions) {
+  return {
+    format: SKILL_BUNDLE_FORMAT,
+    format_version: SKILL_BUNDLE_FORMAT_VERSION,
+    generated_at: options.generatedAt ?? new Date().toISOString()
+  } as const;
+}
+
+/**
+ * Package a workflow guide session as a skill bundle
+ *
+ * @example
+ * const result = generateWorkflowSkill({ session_id, session: doc }, { generatedAt: doc.updated_at });
+ * if (result.success) writeBundle(result.bundle);
+ */
+export function generateWorkflowSkill(input: SkillSessionInput, options: SkillExportOptions = {}): SkillExportResult {
+  const resolved = resolveWorkflowGuideForExport(input.session, options);
+  if (!resolved.success) return resolved;
+
+  const summary = resolved.content.task_summary;
+  return buildBundle({
+    ...baseManifest(options),
+    name: toSkillName(summary.name),
+    title: summary.name,
+    description: summary.abstract ?? summary.goal,
+    kind: 'workflow',
+    language: resolved.languageUsed,
+    sources: [{ session_id: input.session_id, name: summary.name, recording_type: 'workflow_recording', language: resolved.languageUsed }]
+  }, workflowSections(input.session_id, resolved.content));
+}
+
+/**
+ * Package a knowledge base (teaching session) as a skill bundle
+ */
+export function generateKnowledgeBaseSkill(input: SkillSessionInput, options: SkillExportOptions = {}): SkillExportResult {
+  const resolved = resolveKnowledgeBaseForExport(input.session, options);
+  if (!resolved.success) return resolved;
+
+  const summary = resolved.content.session_summary;
+  return buildBundle({
+    ...baseManifest(options),
+    name: toSkillName(summary.topic),
+    title: summary.topic,
+    description: resolved.content.abstract ?? summary.topic,
+    kind: 'knowledge_base',
+    language: resolved.languageUsed,
+    sources: [{ session_id: input.session_id, name: summary.topic, recording_type: 'teaching_session', language: resolved.languageUsed }]
+  }, knowledgeBaseSections(input.session_id, resolved.content));
+}
+
+export interface SkillProjectInput {
+  id: string;
+  name: string;
+  description?: string | null;
+  /** Sessions with content; pass full session documents to export translations */
+  sessions: Array<ProjectSessionWithContent & { session?: SessionContentDoc }>;
+}
+
+/**
+ * Package every session of a project into one skill bundle. Sessions whose
+ * content cannot be resolved are listed in `skipped`; the export fails only
+ * when no session could be packaged.
+ *
+ * @example
+ * const result = generateProjectSkill(mcpProject, { generatedAt: mcpProject.updated_at });
+ */
+export function generateProjectSkill(project: SkillProjectInput, options: SkillExportOptions = {}): SkillExportResult {
+  const sources: SkillSource[] = [];
+  const sections: SkillSection[] = [];
+  const skipped: SkillSkippedSession[] = [];
+
+  for (const projectSession of project.sessions) {
+    const doc: SessionContentDoc = projectSession.session ?? { content: projectSession.content };
+    const result = projectSession.recording_type === 'workflow_recording'
+      ? generateWorkflowSkill({ session_id: projectSession.session_id, session: doc }, options)
+      : generateKnowledgeBaseSkill({ session_id: projectSession.session_id, session: doc }, options);
+    if (!result.success) {
+      skipped.push({ session_id: projectSession.session_id, message: result.message });
+      continue;
+    }
+    sources.push(...result.bundle.manifest.sources);
+    sections.push(...result.bundle.sections);
+  }
+
+  if (sources.length === 0) {
+    return { success: false, message: `Project ${project.id} has no sessions that could be exported` };
+  }
+
+  const languages = new Set(sources.map(source => source.language));
+  const overview: SkillSection = {
+    section_id: `${project.id}/overview`,
+    kind: 'overview',
+    title: project.name,
+    body: joinBlocks([
+      project.description ?? undefined,
+      `Sessions:\n${bulletList(sources.map(source => `${source.name} [session:${source.session_id}]`))}`
+    ]),
+    source_project_id: project.id
+  };
+
+  return buildBundle({
+    ...baseManifest(options),
+    name: toSkillName(project.name),
+    title: project.name,
+    description: project.description || `${project.name}: ${sources.map(source => source.name).join('; ')}`,
+    kind: 'project',
+    language: languages.size === 1 ? [...languages][0] : 'mul',
+    project_id: project.id,
+    sources
+  }, [overview, ...sections], skipped);
+}
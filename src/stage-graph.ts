@@ -0,0 +1,159 @@
+/**
+ * Stage Dependency Graph
+ *
+ * Exposes, for every pipeline stage, the artifacts it needs and emits and the
+ * trigger options it reads (declared in STAGE_REGISTRY). The re-run planner
+ * uses it to work out the fewest stages to run again after an option change
+ * (e.g. "regenerate in Spanish" only re-runs synthesis and what follows) and
+ * which outputs of the previous job can be reused.
+ */
+
+import { STAGES } from './constants.js';
+import type { Stage } from './constants.js';
+import type { ForgeArtifact, ForgeManifest } from './types.js';
+import { mapStages } from './stage-registry.js';
+
+// ============================================================================
+// Graph
+// ============================================================================
+
+export interface StageNode {
+  stage: Stage;
+  /** Artifacts (artifacts_produced names) the stage reads */
+  needs: string[];
+  /** Artifacts the stage produces */
+  emits: string[];
+  /** Trigger/manifest options that change the stage's output */
+  options: string[];
+}
+
+/**
+ * Pipeline stage graph, derived from STAGE_REGISTRY (see there for what each
+ * stage does)
+ */
+export const STAGE_GRAPH: Record<Stage, StageNode> = mapStages((definition, stage) => ({
+  stage,
+  needs: [...definition.needs],
+  emits: [...definition.artifacts],
+  options: [...definition.options]
+}));
+
+/** Options that change every stage's output */
+const GLOBAL_OPTIONS = new Set(['pipeline_version', 'config_path']);
+
+function producerOf(artifact: string): Stage | undefined {
+  return STAGES.find(stage => STAGE_GRAPH[stage].emits.includes(artifact));
+}
+
+/**
+ * Stages whose artifacts a stage needs, directly or transitively, in pipeline order
+ *
+ * @example
+ * getUpstreamStages('E') // ['A', 'B', 'C', 'D']
+ */
+export function getUpstreamStages(stage: Stage): Stage[] {
+  const found = new Set<Stage>();
+  const visit = (current: Stage) => {
+    for (const artifact of STAGE_GRAPH[current].needs) {
+      const producer = producerOf(artifact);
+      if (producer && !found.has(producer)) {
+        found.add(producer);
+        visit(producer);
+      }
+    }
+  };
+  visit(stage);
+  return STAGES.filter(s => found.has(s));
+}
+
+/**
+ * Stages that read a stage's artifacts, directly or transitively, in pipeline order
+ *
+ * @example
+ * getDownstreamStages('E') // ['F', 'U']
+ */
+export function getDownstreamStages(stage: Stage): Stage[] {
+  return STAGES.filter(other => other !== stage && getUpstreamStages(other).includes(stage));
+}
+
+// ============================================================================
+// Re-run Planning
+// ============================================================================
+
+export interface RerunPlan {
+  /** Stages to run again, in pipeline order (use as TriggerOptions.stages) */
+  stages: Stage[];
+  /** Stages whose previous output is reused */
+  reused_stages: Stage[];
+  /** Previous artifacts that stay valid */
+  reused_artifacts: ForgeArtifact[];
+  /** Why each stage is re-run */
+  reasons: Partial<Record<Stage, string>>;
+  /** Requested options that differ from the previous job */
+  changed_options: string[];
+}
+
+/**
+ * Plan a partial re-run of a previous job after an option change
+ *
+ * A stage is re-run when it reads a changed option, when it needs an artifact
+ * from a stage that is re-run, or when its previous execution did not
+ * complete. Options the graph does not know about re-run every stage, as do
+ * pipeline_version and config_path. Options equal to the previous job's are
+ * ignored.
+ *
+ * @example
+ * const plan = planStageRerun(manifest, { output_language: 'es' });
+ * // plan.stages: ['E', 'F', 'U'], plan.reused_stages: ['A', 'B', 'C', 'D']
+ */
+export function planStageRerun(previous: ForgeManifest, changes: Record<string, unknown>): RerunPlan {
+  const previousOptions: Record<string, unknown> = { ...previous.session, ...previous.options };
+  const changed = Object.keys(changes).filter(
+    key => JSON.stringify(changes[key]) !== JSON.stringify(previousOptions[key])
+  );
+
+  // Only stages the previous job ran (or was asked to run) are part of the plan
+  const requested = Array.isArray(previous.options.stages) ? previous.options.stages as unknown[] : [];
+  const ranStages = new Set<Stage>(previous.stage_executions.map(execution => execution.stage));
+  const inScope = STAGES.filter(stage => requested.length === 0 || requested.includes(stage) || ranStages.has(stage));
+
+  const completed = new Set<Stage>();
+  for (const execution of previous.stage_executions) {
+    if (execution.status === 'completed') completed.add(execution.stage);
+    else completed.delete(execution.stage);
+  }
+
+  const reasons: Partial<Record<Stage, string>> = {};
+  const rerun = (stage: Stage, reason: string) => {
+    if (!reasons[stage]) reasons[stage] = reason;
+  };
+
+  const known = new Set([...GLOBAL_OPTIONS, ...STAGES.flatMap(stage => STAGE_GRAPH[stage].options)]);
+  for (const option of changed) {
+    if (GLOBAL_OPTIONS.has(option) || !known.has(option)) {
+      inScope.forEach(stage => rerun(stage, known.has(option) ? `${option} changed` : `${option} changed (not mapped to a stage)`));
+      continue;
+    }
+    inScope.filter(stage => STAGE_GRAPH[stage].options.includes(option)).forEach(stage => rerun(stage, `${option} changed`));
+  }
+  for (const stage of inScope) {
+    if (!completed.has(stage)) rerun(stage, 'previous execution did not complete');
+  }
+
+  // Propagate: a stage reading a re-run stage's artifact is re-run too (pipeline order is topological)
+  for (const stage of inScope) {
+    if (reasons[stage]) continue;
+    const stale = getUpstreamStages(stage).find(upstream => reasons[upstream] && inScope.includes(upstream));
+    if (stale) rerun(stage, `needs output of stage ${stale}`);
+  }
+
+  const stages = inScope.filter(stage => reasons[stage]);
+  const reusedStages = inScope.filter(stage => !reasons[stage]);
+  return {
+    stages,
+    reused_stages: reusedStages,
+    reused_artifacts: previous.artifacts.filter(artifact => reusedStages.includes(artifact.stage as Stage)),
+    reasons,
+    changed_options: changed
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Localized stage messages
+ *
+ * Per-language catalogs of the user-facing stage messages in stage-messages.ts,
+ * with deterministic selection for tests and screenshots:
+ * - language lookup falls back from the full tag ('pt-BR') to its base tag
+ *   ('pt', via getLanguageBaseTag) and then to English; OutputLanguages
+ *   without a catalog yet (ja, zh, ...) show English
+ * - a message is picked by an injectable random function, a seed, or a
+ *   rotation index instead of Math.random()
+ * - stage D messages can have plural forms (Intl.PluralRules categories of the
+ *   total {N}) for languages where the count changes the wording
+ *
+ * getStageMessage keeps its English, Math.random() behaviour. Catalogs cover
+ * the bridge Forge stages; video_vlm and text_generation stages are English
+ * only (getPipelineStageMessage).
+ */
+
+import { STAGE_MESSAGES, getAllStageCodes, getStageMessageKey } from './stage-messages.js';
+import type { StageCode } from './stage-messages.js';
+import { getStageDefinition } from './stage-registry.js';
+import type { StageMessageKey } from './stage-registry.js';
+import { getLanguageBaseTag } from './video-artifacts.js';
+
+// ============================================================================
+// Catalog Types
+// ============================================================================
+
+/** Message variants per plural category of {N}; `other` is required */
+export type PluralStageMessages = Partial<Record<Intl.LDMLPluralRule, string[]>> & { other: string[] };
+
+export interface StageMessageCatalog {
+  /** BCP-47 tag the catalog is written in (base tag unless regional) */
+  language: string;
+  /** Keyed by the stage's message_key in STAGE_REGISTRY */
+  messages: Record<StageMessageKey, string[] | PluralStageMessages>;
+}
+
+// ============================================================================
+// Catalogs
+// ============================================================================
+
+export const STAGE_MESSAGE_CATALOGS: Record<string, StageMessageCatalog> = {
+  en: {
+    language: 'en',
+    messages: {
+      A: STAGE_MESSAGES.A,
+      B: STAGE_MESSAGES.B,
+      C: STAGE_MESSAGES.C,
+      D: {
+        one: ["Inspecting the only banana ({n}/{N})", "Checking the one banana ({n}/{N})"],
+        other: STAGE_MESSAGES.D
+      },
+      E: STAGE_MESSAGES.E,
+      F: STAGE_MESSAGES.F,
+      U: STAGE_MESSAGES.U
+    }
+  },
+  es: {
+    language: 'es',
+    messages: {
+      A: ["El mono salió a buscar plátanos", "Recorriendo cada árbol"],
+      B: ["Ordenando los plátanos en montones", "Apilando los racimos"],
+      C: ["Pelando los datos hasta el centro", "Preparando la mezcla perfecta"],
+      D: ["Inspeccionando plátano {n}/{N}", "Revisando racimo {n}/{N}"],
+      E: ["Empacando los mejores plátanos", "Armando el racimo final"],
+      F: ["El mono revisa dos veces", "Ningún plátano se queda atrás"],
+      U: ["Llevando la cesta a la nube", "Entregando la cosecha"]
+    }
+  },
+  fr: {
+    language: 'fr',
+    messages: {
+      A: ["Le singe part à la chasse aux bananes", "On explore chaque arbre"],
+      B: ["On trie les bananes en tas", "On empile les régimes"],
+      C: ["On épluche les données", "On prépare le mélange parfait"],
+      D: ["Inspection de la banane {n}/{N}", "Vérification du régime {n}/{N}"],
+      E: ["On emballe les meilleures bananes", "On assemble le régime final"],
+      F: ["Double vérification du singe", "Aucune banane oubliée"],
+      U: ["On porte le panier dans le cloud", "Livraison de la récolte"]
+    }
+  },
+  de: {
+    language: 'de',
+    messages: {
+      A: ["Der Affe sucht Bananen", "Jeder Baum wird abgesucht"],
+      B: ["Bananen werden sortiert", "Die Stauden werden gestapelt"],
+      C: ["Die Daten werden geschält", "Die perfekte Mischung entsteht"],
+      D: ["Prüfe Banane {n}/{N}", "Kontrolliere Staude {n}/{N}"],
+      E: ["Die besten Bananen werden verpackt", "Die letzte Staude wird gebündelt"],
+      F: ["Der Affe prüft doppelt", "Keine Banane bleibt zurück"],
+      U: ["Der Korb fliegt in die Cloud", "Die Ernte wird geliefert"]
+    }
+  },
+  pt: {
+    language: 'pt',
+    messages: {
+      A: ["O macaco saiu para caçar bananas", "Vasculhando cada árvore"],
+      B: ["Separando as bananas em pilhas", "Empilhando os cachos"],
+      C: ["Descascando os dados", "Preparando a mistura perfeita"],
+      D: ["Inspecionando banana {n}/{N}", "Conferindo cacho {n}/{N}"],
+      E: ["Embalando as melhores bananas", "Montando o cacho final"],
+      F: ["O macaco confere de novo", "Nenhuma banana fica para trás"],
+      U: ["Levando a cesta para a nuvem", "Entregando a colheita"]
+    }
+  },
+  he: {
+    language: 'he',
+    messages: {
+      A: ["הקוף יצא לצוד בננות", "סורקים כל עץ"],
+      B: ["ממיינים בננות לערימות", "מסדרים את האשכולות"],
+      C: ["מקלפים את הנתונים", "מכינים את התערובת המושלמת"],
+      D: ["בודקים בננה {n}/{N}", "סוקרים אשכול {n}/{N}"],
+      E: ["אורזים את הבננות הטובות", "מרכיבים את האשכול הסופי"],
+      F: ["הקוף בודק שוב", "אף בננה לא נשארת מאחור"],
+      U: ["מעבירים את הסל לענן", "מוסרים את היבול"]
+    }
+  },
+  ar: {
+    language: 'ar',
+    messages: {
+      A: ["القرد يبحث عن الموز", "نتفقد كل شجرة"],
+      B: ["نفرز الموز في أكوام", "نرتب العناقيد"],
+      C: ["نقشر البيانات", "نحضر الخليط المثالي"],
+      D: ["نفحص الموزة {n}/{N}", "نراجع العنقود {n}/{N}"],
+      E: ["نغلف أفضل الموز", "نجمع العنقود الأخير"],
+      F: ["القرد يتحقق مرة أخرى", "لا موزة تُترك خلفنا"],
+      U: ["ننقل السلة إلى السحابة", "نسلم المحصول"]
+    }
+  },
+  ru: {
+    language: 'ru',
+    messages: {
+      A: ["Обезьяна ищет бананы", "Обыскиваем каждое дерево"],
+      B: ["Сортируем бананы по кучкам", "Складываем грозди"],
+      C: ["Очищаем данные", "Готовим идеальную смесь"],
+      D: {
+        one: ["Проверяем банан {n}/{N}", "Остался {N} банан: проверяем"],
+        few: ["Проверяем банан {n}/{N}", "Всего {N} банана, проверяем {n}-й"],
+        many: ["Проверяем банан {n}/{N}", "Всего {N} бананов, проверяем {n}-й"],
+        other: ["Проверяем банан {n}/{N}"]
+      },
+      E: ["Упаковываем лучшие бананы", "Собираем финальную гроздь"],
+      F: ["Обезьяна перепроверяет", "Ни один банан не забыт"],
+      U: ["Несём корзину в облако", "Доставляем урожай"]
+    }
+  },
+  pl: {
+    language: 'pl',
+    messages: {
+      A: ["Małpa poluje na banany", "Przeszukujemy każde drzewo"],
+      B: ["Sortujemy banany na stosy", "Układamy kiście"],
+      C: ["Obieramy dane", "Przygotowujemy idealną mieszankę"],
+      D: {
+        one: ["Sprawdzamy banana {n}/{N}", "Został {N} banan do sprawdzenia"],
+        few: ["Sprawdzamy banana {n}/{N}", "Sprawdzamy {N} banany: {n}."],
+        many: ["Sprawdzamy banana {n}/{N}", "Sprawdzamy {N} bananów: {n}."],
+        other: ["Sprawdzamy banana {n}/{N}"]
+      },
+      E: ["Pakujemy najlepsze banany", "Składamy ostatnią kiść"],
+      F: ["Małpa sprawdza jeszcze raz", "Żaden banan nie zostaje"],
+      U: ["Niesiemy kosz do chmury", "Dostarczamy zbiory"]
+    }
+  }
+};
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ *
+ * @example
+ * const random = createSeededRandom(42);
+ * getLocalizedStageMessage('A', { language: 'es', random }); // same message on every run
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface LocalizedStageMessageOptions {
+  /** BCP-47 tag or OutputLanguage (default: English) */
+  language?: string;
+  /** Current item number for {n} */
+  n?: number;
+  /** Total items for {N} (also selects the plural form) */
+  total?: number;
+  /** Pick variant `rotation % count` (e.g. a poll counter); takes precedence over `random` */
+  rotation?: number;
+  /** Random function in [0, 1) (default: Math.random); see createSeededRandom */
+  random?: () => number;
+  /** Catalogs to use instead of STAGE_MESSAGE_CATALOGS (e.g. with added languages) */
+  catalogs?: Record<string, StageMessageCatalog>;
+}
+
+/**
+ * Catalog used for a language: full tag, then base tag, then English
+ *
+ * @example
+ * resolveStageMessageCatalog('pt-BR').language // 'pt'
+ * resolveStageMessageCatalog('ja').language    // 'en'
+ */
+export function resolveStageMessageCatalog(
+  language: string | undefined,
+  catalogs: Record<string, StageMessageCatalog> = STAGE_MESSAGE_CATALOGS
+): StageMessageCatalog {
+  const exact = language && language !== 'auto' ? catalogs[language] ?? catalogs[language.toLowerCase()] : undefined;
+  const base = getLanguageBaseTag(language);
+  return exact ?? (base ? catalogs[base] : undefined) ?? catalogs.en ?? STAGE_MESSAGE_CATALOGS.en;
+}
+
+function pluralCategory(language: string, total: number | undefined): Intl.LDMLPluralRule {
+  if (total === undefined) return 'other';
+  try {
+    return new Intl.PluralRules(language).select(total);
+  } catch {
+    return 'other';
+  }
+}
+
+/** Variants for a stage, with the plural form for `total` when the entry has them */
+function variantsFor(catalog: StageMessageCatalog, stage: StageCode, total: number | undefined): string[] {
+  const entry = (catalog.messages as Record<string, string[] | PluralStageMessages>)[getStageMessageKey(stage)];
+  if (!entry) return [];
+  if (Array.isArray(entry)) return entry;
+  const forms = entry[pluralCategory(catalog.language, total)];
+  return forms && forms.length > 0 ? forms : entry.other;
+}
+
+/**
+ * Get a stage message in the user's language
+ *
+ * Stages missing from a catalog fall back to English. Without n/total the
+ * {n}/{N} placeholders are left in place, as with getStageMessage.
+ *
+ * @example
+ * getLocalizedStageMessage('D', { language: 'es', n: 3, total: 10, rotation: 0 }) // "Inspeccionando plátano 3/10"
+ * getLocalizedStageMessage('D', { language: 'ru', n: 2, total: 5, rotation: 1 })   // "Всего 5 бананов, проверяем 2-й"
+ */
+export function getLocalizedStageMessage(stage: StageCode, options: LocalizedStageMessageOptions = {}): string {
+  const catalog = resolveStageMessageCatalog(options.language, options.catalogs);
+  let messages = variantsFor(catalog, stage, options.total);
+  if (messages.length === 0) messages = variantsFor(STAGE_MESSAGE_CATALOGS.en, stage, options.total);
+  if (messages.length === 0) return `Processing stage ${stage}...`;
+
+  const index = options.rotation !== undefined
+    ? ((Math.trunc(options.rotation) % messages.length) + messages.length) % messages.length
+    : Math.min(Math.floor((options.random ?? Math.random)() * messages.length), messages.length - 1);
+  const message = messages[index];
+
+  if (options.n !== undefined && options.total !== undefined) {
+    return message.replace(/\{n\}/g, options.n.toString()).replace(/\{N\}/g, options.total.toString());
+  }
+  return message;
+}
+
+// ============================================================================
+// Catalog Validation
+// ============================================================================
+
+export interface StageMessageCatalogIssue {
+  language: string;
+  stage: StageCode;
+  message: string;
+}
+
+/**
+ * Check that every catalog has messages for all StageCodes, that plural
+ * entries have an `other` form, and that only stages that count items (D)
+ * use the {n}/{N} placeholders, in every variant
+ *
+ * @example
+ * validateStageMessageCatalogs() // [] when all shipped catalogs are complete
+ */
+export function validateStageMessageCatalogs(
+  catalogs: Record<string, StageMessageCatalog> = STAGE_MESSAGE_CATALOGS
+): StageMessageCatalogIssue[] {
+  const issues: StageMessageCatalogIssue[] = [];
+  for (const [key, catalog] of Object.entries(catalogs)) {
+    for (const stage of getAllStageCodes()) {
+      const issue = (message: string) => issues.push({ language: key, stage, message });
+      const entry = (catalog.messages as Record<string, string[] | PluralStageMessages>)[getStageMessageKey(stage)];
+      if (!entry) {
+        issue('No messages for this stage');
+        continue;
+      }
+      if (!Array.isArray(entry) && !(entry.other?.length > 0)) issue('Plural messages need a non-empty "other" form');
+      const variants = Array.isArray(entry) ? entry : Object.values(entry).flat();
+      if (variants.length === 0) issue('No messages for this stage');
+      for (const variant of variants) {
+        if (!variant.trim()) issue('Empty message');
+        const counted = getStageDefinition(stage).counts_items;
+        if (counted && !(variant.includes('{n}') || variant.includes('{N}'))) issue(`"${variant}" does not show the item count ({n} or {N})`);
+        if (!counted && /\{[nN]\}/.test(variant)) issue(`"${variant}" uses {n}/{N}, which this stage does not provide`);
+      }
+    }
+  }
+  return issues;
+}
@@ -6,9 +6,18 @@
  *
  * Each stage has multiple message variants - one is selected randomly each time
  * to keep the UX fresh and engaging.
+ *
+ * Stage codes, labels and order come from STAGE_REGISTRY (stage-registry.ts).
+ * The getPipelineStage* functions cover the video_vlm and text_generation
+ * pipeline families as well.
  */
 
-export type StageCode = 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'U';
+import { STAGES, PIPELINE_STAGES } from './constants.js';
+import type { Stage, PipelineStage } from './constants.js';
+import { STAGE_REGISTRY, PIPELINE_STAGE_REGISTRIES, mapStages } from './stage-registry.js';
+import type { PipelineFamily, PipelineStageMessageKey, StageDefinition } from './stage-registry.js';
+
+export type StageCode = Stage;
 
 export interface StageMessageMap {
   [key: string]: string[];
@@ -17,16 +26,22 @@ export interface StageMessageMap {
 /**
  * Stage display messages - banana-themed monkey workflow
  *
- * Stage meanings:
- * - A: Data collection (gathering)
- * - B: Segmentation (sorting)
- * - C: LLM prep (preparation)
- * - D: LLM analysis (inspection) - supports {n}/{N} for progress within stage
- * - E: Workflow synthesis (packing)
- * - F: Quality assessment (final check)
- * - U: Upload (delivery)
+ * Keyed by the registry's message_key (see STAGE_REGISTRY for what each stage
+ * does); every key the registry uses must have a set:
+ * - A: gathering
+ * - B: sorting
+ * - C: preparation
+ * - D: inspection - supports {n}/{N} for progress within stage
+ * - E: packing
+ * - F: final check
+ * - U: delivery
+ * - V: video check (video_vlm)
+ * - M: watching the video (video_vlm)
+ * - T: reading the text (text_generation)
+ * - G: writing it up (text_generation)
+ * - S: shaping the result (video_vlm, text_generation)
  */
-export const STAGE_MESSAGES: StageMessageMap = {
+export const STAGE_MESSAGES: StageMessageMap = ({
   A: [
     "Monkey's out hunting bananas",
     "Scouting every tree for gold",
@@ -75,8 +90,43 @@ export const STAGE_MESSAGES: StageMessageMap = {
     "Job done — bananas secured",
     "Delivering the goods",
     "Uploading to banana heaven"
+  ],
+  V: [
+    "Unwrapping the banana tape",
+    "Checking the footage is ripe",
+    "Measuring the reel",
+    "Dusting off the recording",
+    "Loading the tape into the jungle projector"
+  ],
+  M: [
+    "Monkey's watching closely",
+    "Taking notes from the treetop",
+    "Spotting every move",
+    "Rewinding the tricky bits",
+    "Studying the footage frame by frame"
+  ],
+  T: [
+    "Reading the banana scroll",
+    "Skimming the notes",
+    "Unrolling the parchment",
+    "Checking the handwriting",
+    "Sorting out the pages"
+  ],
+  G: [
+    "Monkey's writing it up",
+    "Turning notes into bananas",
+    "Scribbling in the treehouse",
+    "Drafting the banana plan",
+    "Filling the pages"
+  ],
+  S: [
+    "Shaping the bunch",
+    "Putting steps in order",
+    "Tidying up the harvest",
+    "Polishing every banana",
+    "Building the final bunch"
   ]
-};
+}) satisfies Record<PipelineStageMessageKey, string[]>;
 
 /**
  * Get a random display message for a given stage
@@ -86,6 +136,9 @@ export const STAGE_MESSAGES: StageMessageMap = {
  * @param total - Total items (for stages that support {n}/{N} like stage D)
  * @returns A user-friendly progress message
  *
+ * English only; use getLocalizedStageMessage (stage-message-catalogs.ts) for
+ * other languages or a deterministic pick.
+ *
  * @example
  * getStageMessage('A') // "Scouting every tree for gold"
  * getStageMessage('D', 3, 10) // "Inspecting banana 3/10"
@@ -95,7 +148,11 @@ export function getStageMessage(
   n?: number,
   total?: number
 ): string {
-  const messages = STAGE_MESSAGES[stage];
+  return pickStageMessage(getStageMessageKey(stage), stage, n, total);
+}
+
+function pickStageMessage(key: string, stage: string, n?: number, total?: number): string {
+  const messages = STAGE_MESSAGES[key];
   if (!messages || messages.length === 0) {
     return `Processing stage ${stage}...`;
   }
@@ -120,7 +177,7 @@ export function getStageMessage(
  * @returns Array of all messages for that stage
  */
 export function getAllStageMessages(stage: StageCode): string[] {
-  return STAGE_MESSAGES[stage] || [];
+  return STAGE_MESSAGES[getStageMessageKey(stage)] || [];
 }
 
 /**
@@ -130,7 +187,17 @@ export function getAllStageMessages(stage: StageCode): string[] {
  * @returns true if stage is supported
  */
 export function isValidStageCode(stage: string): stage is StageCode {
-  return stage in STAGE_MESSAGES;
+  return (STAGES as readonly string[]).includes(stage);
+}
+
+/**
+ * Get the message set key of a stage (the stage code when it has no registry entry)
+ *
+ * @example
+ * getStageMessageKey('D') // 'D'
+ */
+export function getStageMessageKey(stage: StageCode): string {
+  return STAGE_REGISTRY.find(definition => definition.code === stage)?.message_key ?? stage;
 }
 
 /**
@@ -139,15 +206,7 @@ export function isValidStageCode(stage: string): stage is StageCode {
  * These provide transparent, professional descriptions of what's happening
  * during each processing stage.
  */
-export const STAGE_LABELS: Record<StageCode, string> = {
-  A: "Uploading data",
-  B: "Extracting content", 
-  C: "Segmenting timeline",
-  D: "Normalizing data",
-  E: "LLM interpretation",
-  F: "Structuring workflow",
-  U: "Finalizing output"
-};
+export const STAGE_LABELS: Record<StageCode, string> = mapStages(definition => definition.label);
 
 /**
  * Get the technical label for a stage
@@ -174,10 +233,7 @@ export function getStageLabel(stage: StageCode): string {
  * getStageNumber('U') // 7
  */
 export function getStageNumber(stage: StageCode): number {
-  const map: Record<StageCode, number> = {
-    A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, U: 7
-  };
-  return map[stage] || 0;
+  return STAGES.indexOf(stage) + 1;
 }
 
 /**
@@ -186,5 +242,57 @@ export function getStageNumber(stage: StageCode): number {
  * @returns Array of all stage codes in processing order
  */
 export function getAllStageCodes(): StageCode[] {
-  return ['A', 'B', 'C', 'D', 'E', 'F', 'U'];
+  return [...STAGES];
+}
+
+// ============================================================================
+// Pipeline Families
+// ============================================================================
+
+function findPipelineStage(pipeline: PipelineFamily, stage: string): StageDefinition | undefined {
+  const registry: readonly StageDefinition[] = PIPELINE_STAGE_REGISTRIES[pipeline];
+  return registry.find(definition => definition.code === stage);
+}
+
+/**
+ * Get a random display message for a stage of any pipeline family
+ *
+ * @example
+ * getPipelineStageMessage('video_vlm', 'M') // "Monkey's watching closely"
+ * getPipelineStageMessage('bridge_forge', 'D', 3, 10) // "Inspecting banana 3/10"
+ */
+export function getPipelineStageMessage<P extends PipelineFamily>(
+  pipeline: P,
+  stage: PipelineStage<P>,
+  n?: number,
+  total?: number
+): string {
+  return pickStageMessage(findPipelineStage(pipeline, stage)?.message_key ?? stage, stage, n, total);
+}
+
+/**
+ * Get the technical label for a stage of any pipeline family
+ *
+ * @example
+ * getPipelineStageLabel('text_generation', 'G') // "LLM generation"
+ */
+export function getPipelineStageLabel<P extends PipelineFamily>(pipeline: P, stage: PipelineStage<P>): string {
+  return findPipelineStage(pipeline, stage)?.label ?? `Stage ${stage}`;
+}
+
+/**
+ * Get all stage codes of a pipeline family in order
+ *
+ * @example
+ * getPipelineStageCodes('video_vlm') // ['V', 'M', 'S', 'U']
+ */
+export function getPipelineStageCodes<P extends PipelineFamily>(pipeline: P): PipelineStage<P>[] {
+  return [...PIPELINE_STAGES[pipeline]] as PipelineStage<P>[];
+}
+
+/**
+ * Validate that a stage code belongs to a pipeline family
+ */
+export function isValidPipelineStageCode<P extends PipelineFamily>(pipeline: P, stage: string): stage is PipelineStage<P> {
+  return (PIPELINE_STAGES[pipeline] as readonly string[]).includes(stage);
 }
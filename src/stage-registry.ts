@@ -0,0 +1,328 @@
+/**
+ * Pipeline Stage Registry
+ *
+ * Single definition of the pipeline stages. STAGES and Stage (constants.ts),
+ * StageCode, STAGE_LABELS, getStageNumber and getAllStageCodes
+ * (stage-messages.ts), DEFAULT_STAGE_WEIGHTS (progress-engine.ts) and
+ * STAGE_GRAPH (stage-graph.ts) are all derived from it.
+ *
+ * Adding a stage is one entry here, in pipeline order. The compiler then
+ * requires its code in STAGES and mapStages, and its message set in
+ * STAGE_MESSAGES (unless message_key reuses an existing one), and rejects
+ * duplicate codes.
+ *
+ * Besides the bridge Forge pipeline (A-F, U), video-forge runs two other
+ * pipeline families with their own stages: video_vlm (video recordings,
+ * stage V onwards) and text_generation (text-to-context). Their registries
+ * follow the same shape; PIPELINE_STAGES (constants.ts) is checked against
+ * PIPELINE_STAGE_REGISTRIES and the per-pipeline schemas in schemas.ts are
+ * built from it.
+ */
+
+export interface StageDefinition {
+  /** Stage code stored in manifests and session documents */
+  code: string;
+  /** Technical label (admin UI) */
+  label: string;
+  /** What the stage does */
+  description: string;
+  /** Key of the user-facing message set in STAGE_MESSAGES and the message catalogs */
+  message_key: string;
+  /** Relative share of a job's wall-clock time, for progress (only ratios matter) */
+  weight: number;
+  /** Reports progress over sub-items ({n}/{N} in its messages) */
+  counts_items: boolean;
+  /** Artifacts (artifacts_produced names) the stage reads */
+  needs: readonly string[];
+  /** Artifacts the stage produces */
+  artifacts: readonly string[];
+  /** Trigger/manifest options that change the stage's output */
+  options: readonly string[];
+}
+
+// ============================================================================
+// Bridge Forge Pipeline
+// ============================================================================
+
+/**
+ * Bridge Forge pipeline stages in execution order
+ */
+export const STAGE_REGISTRY = [
+  {
+    code: 'A',
+    label: 'Uploading data',
+    description: 'Collect and upload the raw session data',
+    message_key: 'A',
+    weight: 5,
+    counts_items: false,
+    needs: [],
+    artifacts: ['stage_a_raw_data'],
+    options: ['time_range', 'device_id', 'org_id']
+  },
+  {
+    code: 'B',
+    label: 'Extracting content',
+    description: 'Extract events, frames and audio from the raw data',
+    message_key: 'B',
+    weight: 5,
+    counts_items: false,
+    needs: ['stage_a_raw_data'],
+    artifacts: ['stage_b_segments'],
+    options: ['media_processing']
+  },
+  {
+    code: 'C',
+    label: 'Segmenting timeline',
+    description: 'Split the timeline into segments and prepare them for the LLM',
+    message_key: 'C',
+    weight: 10,
+    counts_items: false,
+    needs: ['stage_b_segments'],
+    artifacts: ['stage_c_timeline'],
+    options: ['timezone']
+  },
+  {
+    code: 'D',
+    label: 'Normalizing data',
+    description: 'Normalize and analyze each segment (language-neutral)',
+    message_key: 'D',
+    weight: 45,
+    counts_items: true,
+    needs: ['stage_c_timeline'],
+    artifacts: ['stage_d_analysis'],
+    options: ['llm_enabled', 'model']
+  },
+  {
+    code: 'E',
+    label: 'LLM interpretation',
+    description: 'Synthesize the workflow from the segment analyses, in the output language',
+    message_key: 'E',
+    weight: 20,
+    counts_items: false,
+    needs: ['stage_d_analysis'],
+    artifacts: ['stage_e_workflow'],
+    options: ['output_language', 'output_format', 'model']
+  },
+  {
+    code: 'F',
+    label: 'Structuring workflow',
+    description: 'Structure the synthesized workflow and assess its quality',
+    message_key: 'F',
+    weight: 10,
+    counts_items: false,
+    needs: ['stage_e_workflow'],
+    artifacts: ['stage_f_quality'],
+    options: []
+  },
+  {
+    code: 'U',
+    label: 'Finalizing output',
+    description: 'Upload the results and publish the session',
+    message_key: 'U',
+    weight: 5,
+    counts_items: false,
+    needs: ['stage_e_workflow', 'stage_f_quality'],
+    artifacts: [],
+    options: ['visibility']
+  }
+] as const satisfies readonly StageDefinition[];
+
+// ============================================================================
+// Video VLM Pipeline
+// ============================================================================
+
+/**
+ * video-forge stages for uploaded video recordings, in execution order
+ * (stage V metadata: StageVMetadataSchema in video-artifacts.ts)
+ */
+export const VIDEO_VLM_STAGE_REGISTRY = [
+  {
+    code: 'V',
+    label: 'Validating video',
+    description: 'Check the uploaded video and estimate its duration and cost',
+    message_key: 'V',
+    weight: 5,
+    counts_items: false,
+    needs: [],
+    artifacts: ['stage_v_metadata'],
+    options: []
+  },
+  {
+    code: 'M',
+    label: 'VLM analysis',
+    description: 'Analyze the video with the vision-language model',
+    message_key: 'M',
+    weight: 70,
+    counts_items: false,
+    needs: ['stage_v_metadata'],
+    artifacts: ['stage_m_analysis'],
+    options: ['input_type', 'model']
+  },
+  {
+    code: 'S',
+    label: 'Structuring output',
+    description: 'Shape the analysis into a workflow guide or knowledge base, in the output language',
+    message_key: 'S',
+    weight: 15,
+    counts_items: false,
+    needs: ['stage_m_analysis'],
+    artifacts: ['stage_s_content'],
+    options: ['output_format', 'output_language']
+  },
+  {
+    code: 'U',
+    label: 'Finalizing output',
+    description: 'Upload the results and publish the session',
+    message_key: 'U',
+    weight: 10,
+    counts_items: false,
+    needs: ['stage_s_content'],
+    artifacts: [],
+    options: ['visibility']
+  }
+] as const satisfies readonly StageDefinition[];
+
+// ============================================================================
+// Text Generation Pipeline
+// ============================================================================
+
+/**
+ * video-forge stages for text-to-context generation (TextTriggerSchema), in
+ * execution order
+ */
+export const TEXT_GENERATION_STAGE_REGISTRY = [
+  {
+    code: 'T',
+    label: 'Validating text',
+    description: 'Check the submitted text and detect its language',
+    message_key: 'T',
+    weight: 5,
+    counts_items: false,
+    needs: [],
+    artifacts: ['stage_t_input'],
+    options: []
+  },
+  {
+    code: 'G',
+    label: 'LLM generation',
+    description: 'Generate the context from the text with the LLM',
+    message_key: 'G',
+    weight: 70,
+    counts_items: false,
+    needs: ['stage_t_input'],
+    artifacts: ['stage_g_draft'],
+    options: ['input_type', 'model', 'output_language']
+  },
+  {
+    code: 'S',
+    label: 'Structuring output',
+    description: 'Shape the generated draft into a workflow guide or knowledge base',
+    message_key: 'S',
+    weight: 15,
+    counts_items: false,
+    needs: ['stage_g_draft'],
+    artifacts: ['stage_s_content'],
+    options: ['output_format']
+  },
+  {
+    code: 'U',
+    label: 'Finalizing output',
+    description: 'Save the context and add it to the project',
+    message_key: 'U',
+    weight: 10,
+    counts_items: false,
+    needs: ['stage_s_content'],
+    artifacts: [],
+    options: ['visibility', 'project_id', 'name']
+  }
+] as const satisfies readonly StageDefinition[];
+
+// ============================================================================
+// Pipeline Families
+// ============================================================================
+
+export const PIPELINE_FAMILIES = ['bridge_forge', 'video_vlm', 'text_generation'] as const;
+export type PipelineFamily = typeof PIPELINE_FAMILIES[number];
+
+/** Stage registry of each pipeline family */
+export const PIPELINE_STAGE_REGISTRIES = {
+  bridge_forge: STAGE_REGISTRY,
+  video_vlm: VIDEO_VLM_STAGE_REGISTRY,
+  text_generation: TEXT_GENERATION_STAGE_REGISTRY
+} as const satisfies Record<PipelineFamily, readonly StageDefinition[]>;
+
+type PipelineStageRegistries = typeof PIPELINE_STAGE_REGISTRIES;
+type StageRegistry = PipelineStageRegistries['bridge_forge'];
+
+type CodesOf<T extends readonly { code: string }[]> = { readonly [K in keyof T]: T[K] extends { code: infer C } ? C : never };
+
+/** Stage codes in pipeline order, as a tuple type (usable with z.enum) */
+export type StageCodeTuple = CodesOf<StageRegistry>;
+
+/** Stage codes of a pipeline family in pipeline order, as a tuple type */
+export type PipelineStageCodeTuple<P extends PipelineFamily> = CodesOf<PipelineStageRegistries[P]>;
+
+/** Message set keys referenced by the bridge Forge registry */
+export type StageMessageKey = StageRegistry[number]['message_key'];
+
+/** Message set keys referenced by any pipeline family's registry */
+export type PipelineStageMessageKey = PipelineStageRegistries[PipelineFamily][number]['message_key'];
+
+// Compile-time check: stage codes are unique within each pipeline family
+type AssertUnique<T extends readonly unknown[]> =
+  T extends readonly [infer Head, ...infer Rest] ? (Head extends Rest[number] ? never : AssertUnique<Rest>) : true;
+const uniqueStageCodes: { [P in PipelineFamily]: AssertUnique<PipelineStageCodeTuple<P>> } = {
+  bridge_forge: true,
+  video_vlm: true,
+  text_generation: true
+};
+void uniqueStageCodes;
+
+/**
+ * Registry entry of a stage, with its 1-based position in the pipeline
+ *
+ * @example
+ * getStageDefinition('D') // { code: 'D', order: 4, label: 'Normalizing data', weight: 45, ... }
+ */
+export function getStageDefinition(code: StageRegistry[number]['code']): StageDefinition & { order: number } {
+  const index = STAGE_REGISTRY.findIndex(stage => stage.code === code);
+  return { ...STAGE_REGISTRY[index], order: index + 1 };
+}
+
+/**
+ * Build a per-stage map of the bridge Forge pipeline from the registry. The
+ * object literal names every stage, so a stage added to or removed from
+ * STAGE_REGISTRY fails to compile here instead of leaving a key missing.
+ *
+ * @example
+ * mapStages(stage => stage.label) // { A: 'Uploading data', B: 'Extracting content', ... }
+ */
+export function mapStages<T>(
+  build: (definition: StageDefinition & { order: number }, code: StageRegistry[number]['code']) => T
+): Record<StageRegistry[number]['code'], T> {
+  return {
+    A: build(getStageDefinition('A'), 'A'),
+    B: build(getStageDefinition('B'), 'B'),
+    C: build(getStageDefinition('C'), 'C'),
+    D: build(getStageDefinition('D'), 'D'),
+    E: build(getStageDefinition('E'), 'E'),
+    F: build(getStageDefinition('F'), 'F'),
+    U: build(getStageDefinition('U'), 'U')
+  };
+}
+
+/**
+ * Registry entry of a stage in any pipeline family, with its 1-based position
+ * in that pipeline
+ *
+ * @example
+ * getPipelineStageDefinition('video_vlm', 'M') // { code: 'M', order: 2, label: 'VLM analysis', weight: 70, ... }
+ */
+export function getPipelineStageDefinition<P extends PipelineFamily>(
+  pipeline: P,
+  code: PipelineStageRegistries[P][number]['code']
+): StageDefinition & { order: number } {
+  const registry: readonly StageDefinition[] = PIPELINE_STAGE_REGISTRIES[pipeline];
+  const index = registry.findIndex(stage => stage.code === code);
+  return { ...registry[index], order: index + 1 };
+}
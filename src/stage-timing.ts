@@ -0,0 +1,314 @@
+/**
+ * Stage Timing Model
+ *
+ * Learns how long each pipeline stage takes from finished Forge manifests and
+ * predicts the remaining time of a running job with a confidence interval.
+ *
+ * Samples are bucketed by input type and media size band (from
+ * StageVMetadata.duration_seconds). Predictions use the most specific bucket
+ * with enough samples and fall back to broader ones ("workflow_recording, any
+ * size", then "any input"). The model is plain JSON (StageTimingModelSchema)
+ * so the Session Manager can persist it between jobs.
+ */
+
+import { z } from 'zod';
+import { STAGES } from './constants.js';
+import type { Stage } from './constants.js';
+import type { ForgeManifest } from './types.js';
+
+// ============================================================================
+// Model Schema
+// ============================================================================
+
+/** Media size bands, by duration of the source media in seconds */
+export const MEDIA_SIZE_BANDS = [
+  { band: 'short', max_seconds: 120 },
+  { band: 'medium', max_seconds: 600 },
+  { band: 'long', max_seconds: 1800 },
+  { band: 'very_long', max_seconds: Infinity }
+] as const;
+
+export type MediaSizeBand = typeof MEDIA_SIZE_BANDS[number]['band'];
+
+/** Bucket key segment matching any input type or size band */
+const ANY = '*';
+
+/** Key for whole-job durations (ForgeCounters.processing_time_seconds) */
+const TOTAL_KEY = 'total';
+
+export const STAGE_TIMING_MODEL_VERSION = '1.0';
+
+export const StageTimingModelSchema = z.object({
+  version: z.literal(STAGE_TIMING_MODEL_VERSION),
+  updated_at: z.string().optional(),
+  /** Samples kept per stage and bucket (oldest are dropped first) */
+  max_samples: z.number().int().positive(),
+  /** Minimum samples before a bucket is used for predictions */
+  min_samples: z.number().int().positive(),
+  /** "{input_type}|{size_band}" -> stage (or "total") -> durations in seconds, oldest first */
+  buckets: z.record(z.string(), z.record(z.string(), z.array(z.number().nonnegative()))),
+  /** processing_ids already recorded, so replays do not double count */
+  recorded: z.array(z.string())
+});
+
+export type StageTimingModel = z.infer<typeof StageTimingModelSchema>;
+
+/** What the duration of a job depends on */
+export interface StageTimingContext {
+  /** e.g. 'workflow_recording' or 'teaching_session' */
+  input_type?: string;
+  /** Duration of the source media (StageVMetadata.duration_seconds) */
+  media_seconds?: number;
+}
+
+export interface StagePercentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+  samples: number;
+  /** Bucket the figures came from, e.g. "workflow_recording|medium" or "*|*" */
+  bucket: string;
+}
+
+/** Work left in a running job */
+export interface RemainingWork {
+  /** Stages not yet completed, including the current one */
+  stages: Stage[];
+  current_stage?: Stage;
+  /** Seconds already spent in the current stage */
+  current_stage_elapsed_seconds?: number;
+  /** Fraction of the current stage done (e.g. from stage D sub-items) */
+  current_stage_fraction?: number;
+}
+
+export interface RemainingTimePrediction {
+  /** Most likely remaining time (sum of stage medians) */
+  seconds: number;
+  /** Lower bound of the interval */
+  low_seconds: number;
+  /** Upper bound of the interval */
+  high_seconds: number;
+  /** Nominal coverage of [low_seconds, high_seconds] */
+  confidence: number;
+  /** Fewest samples behind any stage estimate */
+  min_samples: number;
+  /** Remaining stages with no recorded durations (not included in the totals) */
+  unknown_stages: Stage[];
+}
+
+// ============================================================================
+// Building the Model
+// ============================================================================
+
+/**
+ * Create an empty timing model
+ */
+export function createStageTimingModel(options: { maxSamples?: number; minSamples?: number } = {}): StageTimingModel {
+  return {
+    version: STAGE_TIMING_MODEL_VERSION,
+    max_samples: options.maxSamples ?? 200,
+    min_samples: options.minSamples ?? 5,
+    buckets: {},
+    recorded: []
+  };
+}
+
+/**
+ * Size band for a media duration
+ *
+ * @example
+ * getMediaSizeBand(300) // 'medium'
+ */
+export function getMediaSizeBand(mediaSeconds: number | undefined): MediaSizeBand | undefined {
+  if (mediaSeconds === undefined || !Number.isFinite(mediaSeconds) || mediaSeconds < 0) return undefined;
+  return MEDIA_SIZE_BANDS.find(({ max_seconds }) => mediaSeconds <= max_seconds)!.band;
+}
+
+/** Buckets from most to least specific */
+function bucketKeys(context: StageTimingContext): string[] {
+  const input = context.input_type || ANY;
+  const size = getMediaSizeBand(context.media_seconds) ?? ANY;
+  const keys = [`${input}|${size}`, `${input}|${ANY}`, `${ANY}|${size}`, `${ANY}|${ANY}`];
+  return keys.filter((key, index) => keys.indexOf(key) === index);
+}
+
+/**
+ * Timing context of a manifest: input type from the trigger options or session,
+ * media size from StageVMetadata when given
+ */
+export function getManifestTimingContext(manifest: ForgeManifest, mediaSeconds?: number): StageTimingContext {
+  const inputType = manifest.options.input_type ?? manifest.session.input_type;
+  return {
+    ...(typeof inputType === 'string' ? { input_type: inputType } : {}),
+    ...(mediaSeconds !== undefined ? { media_seconds: mediaSeconds } : {})
+  };
+}
+
+/**
+ * Add the stage durations of a finished manifest to the model
+ *
+ * Only completed stage executions are recorded (the latest attempt when a
+ * stage was retried). Manifests already recorded are ignored. Returns a new
+ * model; the input is not modified.
+ *
+ * @example
+ * let model = createStageTimingModel();
+ * for (const manifest of manifests) {
+ *   model = recordManifestTimings(model, manifest, getManifestTimingContext(manifest, stageV.duration_seconds));
+ * }
+ */
+export function recordManifestTimings(
+  model: StageTimingModel,
+  manifest: ForgeManifest,
+  context: StageTimingContext = getManifestTimingContext(manifest)
+): StageTimingModel {
+  if (model.recorded.includes(manifest.processing_id)) return model;
+
+  const durations = new Map<string, number>();
+  const byStart = [...manifest.stage_executions].sort((a, b) => Date.parse(a.started_at) - Date.parse(b.started_at));
+  for (const execution of byStart) {
+    if (execution.status !== 'completed' || !execution.completed_at) continue;
+    const seconds = (Date.parse(execution.completed_at) - Date.parse(execution.started_at)) / 1000;
+    if (Number.isFinite(seconds) && seconds >= 0) durations.set(execution.stage, seconds);
+  }
+  if (manifest.status === 'completed' && manifest.counters.processing_time_seconds > 0) {
+    durations.set(TOTAL_KEY, manifest.counters.processing_time_seconds);
+  }
+  if (durations.size === 0) return model;
+
+  const buckets = { ...model.buckets };
+  for (const key of bucketKeys(context)) {
+    const bucket = { ...buckets[key] };
+    for (const [stage, seconds] of durations) {
+      bucket[stage] = [...(bucket[stage] ?? []), seconds].slice(-model.max_samples);
+    }
+    buckets[key] = bucket;
+  }
+
+  return {
+    ...model,
+    updated_at: new Date().toISOString(),
+    buckets,
+    // Bounded so the persisted model does not grow with every job
+    recorded: [...model.recorded, manifest.processing_id].slice(-model.max_samples * 4)
+  };
+}
+
+// ============================================================================
+// Percentiles and Prediction
+// ============================================================================
+
+/** Linear-interpolated percentile of sorted values */
+function percentile(sorted: number[], p: number): number {
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function lookupPercentiles(model: StageTimingModel, key: string, context: StageTimingContext): StagePercentiles | undefined {
+  const keys = bucketKeys(context);
+  // Most specific bucket with enough samples; otherwise the largest one available
+  const candidates = keys
+    .map(bucket => ({ bucket, samples: model.buckets[bucket]?.[key] ?? [] }))
+    .filter(candidate => candidate.samples.length > 0);
+  const chosen = candidates.find(candidate => candidate.samples.length >= model.min_samples) ??
+    [...candidates].sort((a, b) => b.samples.length - a.samples.length)[0];
+  if (!chosen) return undefined;
+
+  const sorted = [...chosen.samples].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    samples: sorted.length,
+    bucket: chosen.bucket
+  };
+}
+
+/**
+ * Duration percentiles of one stage for a job context
+ *
+ * @example
+ * getStagePercentiles(model, 'D', { input_type: 'workflow_recording', media_seconds: 420 })
+ * // { p10: 95, p50: 160, p90: 310, samples: 48, bucket: 'workflow_recording|medium' }
+ */
+export function getStagePercentiles(model: StageTimingModel, stage: Stage, context: StageTimingContext = {}): StagePercentiles | undefined {
+  return lookupPercentiles(model, stage, context);
+}
+
+/**
+ * Whole-job duration percentiles (from ForgeCounters.processing_time_seconds)
+ */
+export function getJobDurationPercentiles(model: StageTimingModel, context: StageTimingContext = {}): StagePercentiles | undefined {
+  return lookupPercentiles(model, TOTAL_KEY, context);
+}
+
+/**
+ * Predict the remaining time of a running job
+ *
+ * Sums the p10/p50/p90 durations of the remaining stages. The current stage
+ * counts only its unfinished part (by sub-item fraction when known, otherwise
+ * by time already spent). Summing per-stage percentiles gives an interval at
+ * least as wide as the nominal 80%. Returns undefined when no remaining stage
+ * has any recorded duration.
+ *
+ * @example
+ * const prediction = predictRemainingTime(model, { stages: ['D', 'E', 'F', 'U'], current_stage: 'D', current_stage_fraction: 0.5 });
+ * formatRemainingTime(prediction) // "about 3 min left"
+ */
+export function predictRemainingTime(
+  model: StageTimingModel,
+  work: RemainingWork,
+  context: StageTimingContext = {}
+): RemainingTimePrediction | undefined {
+  let seconds = 0;
+  let low = 0;
+  let high = 0;
+  let minSamples = Infinity;
+  const unknown: Stage[] = [];
+
+  for (const stage of STAGES.filter(s => work.stages.includes(s))) {
+    const stats = getStagePercentiles(model, stage, context);
+    if (!stats) {
+      unknown.push(stage);
+      continue;
+    }
+    minSamples = Math.min(minSamples, stats.samples);
+    const fraction = stage === work.current_stage ? Math.min(Math.max(work.current_stage_fraction ?? 0, 0), 1) : 0;
+    const spent = stage === work.current_stage && !fraction ? work.current_stage_elapsed_seconds ?? 0 : 0;
+    const left = (value: number) => Math.max(value * (1 - fraction) - spent, 0);
+    seconds += left(stats.p50);
+    low += left(stats.p10);
+    high += left(stats.p90);
+  }
+
+  if (!Number.isFinite(minSamples)) return undefined;
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    seconds: round(seconds),
+    low_seconds: round(low),
+    high_seconds: round(high),
+    confidence: 0.8,
+    min_samples: minSamples,
+    unknown_stages: unknown
+  };
+}
+
+/**
+ * Short human-readable remaining time for progress displays
+ *
+ * @example
+ * formatRemainingTime({ seconds: 170, ... }) // "about 3 min left"
+ * formatRemainingTime({ seconds: 20, ... })  // "less than a minute left"
+ * formatRemainingTime(undefined)             // "estimating time left"
+ */
+export function formatRemainingTime(prediction: Pick<RemainingTimePrediction, 'seconds'> | undefined): string {
+  if (!prediction) return 'estimating time left';
+  const minutes = Math.round(prediction.seconds / 60);
+  if (minutes < 1) return 'less than a minute left';
+  if (minutes < 60) return `about ${minutes} min left`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `about ${hours} h left` : `about ${hours} h ${rest} min left`;
+}
@@ -0,0 +1,459 @@
+/**
+ * Tabular Export (CSV / XLSX)
+ *
+ * Flattens workflow steps and knowledge items into one row per step/item so
+ * operations teams can review and edit them in a spreadsheet. Column names are
+ * the content field names, which lets tabular-import.ts apply edited rows back
+ * onto the content.
+ *
+ * Every cell is a string; XLSX writes the numeric columns as numbers.
+ */
+
+import { getStepPhaseIndex } from './video-artifacts.js';
+import type {
+  VideoWorkflowGuideContent,
+  VideoWorkflowStep,
+  VideoTemporalPhase,
+  KnowledgeBaseContent,
+  KnowledgeItem
+} from './video-artifacts.js';
+import type { SessionContentDoc, FreshnessStatus } from './session-translations.js';
+import { resolveWorkflowGuideForExport, resolveKnowledgeBaseForExport } from './export-content.js';
+import type { ExportContentOptions } from './export-content.js';
+import { createZip } from './zip-writer.js';
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+export const WORKFLOW_STEP_COLUMNS = [
+  'step_number',
+  'phase_number',
+  'phase_name',
+  'step_type',
+  'title',
+  'action',
+  'expected_result',
+  'condition',
+  'true_action',
+  'false_action',
+  'if_true_step',
+  'if_false_step',
+  'visual_cues',
+  'audio_context',
+  'timestamp',
+  'item_id',
+  'source_session_id',
+  'added_at',
+  'augmentation_of_session_id'
+] as const;
+export type WorkflowStepColumn = typeof WORKFLOW_STEP_COLUMNS[number];
+
+export const KNOWLEDGE_ITEM_COLUMNS = [
+  'item_id',
+  'type',
+  'subtype',
+  'importance',
+  'title',
+  'content',
+  'related_items',
+  'code_snippet',
+  'visual_aids',
+  'audio_emphasis',
+  'timestamp',
+  'possible_duplicate_of',
+  'source_session_id',
+  'added_at',
+  'augmentation_of_session_id'
+] as const;
+export type KnowledgeItemColumn = typeof KNOWLEDGE_ITEM_COLUMNS[number];
+
+/** Columns exported for reference only; the importer ignores edits to them */
+export const TABULAR_READ_ONLY_COLUMNS: readonly string[] = [
+  'phase_name',
+  'source_session_id',
+  'added_at',
+  'augmentation_of_session_id'
+];
+
+/** Separator for list-valued cells (related_items) */
+export const TABULAR_LIST_SEPARATOR = '; ';
+
+export interface TabularData {
+  /** Sheet name for XLSX */
+  name: string;
+  columns: string[];
+  rows: string[][];
+  /** Columns written as numbers in XLSX */
+  numericColumns?: string[];
+}
+
+function cell(value: string | number | null | undefined): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Cell values for one step, keyed by column. The phase is resolved with
+ * getStepPhaseIndex, so timestamp-matched steps get their phase_number too.
+ */
+export function getWorkflowStepRowValues(
+  step: VideoWorkflowStep,
+  phases: VideoTemporalPhase[]
+): Record<WorkflowStepColumn, string> {
+  const phaseIndex = getStepPhaseIndex(step, phases);
+  const phase = phaseIndex === null ? undefined : phases[phaseIndex];
+  const details = step.condition_details;
+  return {
+    step_number: cell(step.step_number),
+    phase_number: cell(phase?.phase_number),
+    phase_name: cell(phase?.name),
+    step_type: step.step_type ?? 'do',
+    title: step.title,
+    action: step.action,
+    expected_result: step.expected_result,
+    condition: cell(details?.condition),
+    true_action: cell(details?.true_action),
+    false_action: cell(details?.false_action),
+    if_true_step: cell(details?.target_steps?.if_true),
+    if_false_step: cell(details?.target_steps?.if_false),
+    visual_cues: cell(step.visual_cues),
+    audio_context: cell(step.audio_context),
+    timestamp: cell(step.timestamp),
+    item_id: cell(step.item_id),
+    source_session_id: cell(step.source_session_id),
+    added_at: cell(step.added_at),
+    augmentation_of_session_id: cell(step.augmentation_of_session_id)
+  };
+}
+
+/**
+ * Cell values for one knowledge item, keyed by column. Types are exported as
+ * stored (legacy values are not normalized) so the round trip is lossless.
+ */
+export function getKnowledgeItemRowValues(item: KnowledgeItem): Record<KnowledgeItemColumn, string> {
+  return {
+    item_id: cell(item.item_id),
+    type: item.type,
+    subtype: cell(item.subtype),
+    importance: item.importance,
+    title: item.title,
+    content: item.content,
+    related_items: (item.related_items ?? []).join(TABULAR_LIST_SEPARATOR),
+    code_snippet: cell(item.code_snippet),
+    visual_aids: cell(item.visual_aids),
+    audio_emphasis: cell(item.audio_emphasis),
+    timestamp: cell(item.timestamp),
+    possible_duplicate_of: cell(item.possible_duplicate_of),
+    source_session_id: cell(item.source_session_id),
+    added_at: cell(item.added_at),
+    augmentation_of_session_id: cell(item.augmentation_of_session_id)
+  };
+}
+
+/**
+ * One row per step, in guide order
+ *
+ * @example
+ * const table = createWorkflowStepTable(content);
+ * const csv = renderCsv(table);
+ */
+export function createWorkflowStepTable(
+  content: Pick<VideoWorkflowGuideContent, 'temporal_phases' | 'step_by_step_guide'>
+): TabularData {
+  return {
+    name: 'Steps',
+    columns: [...WORKFLOW_STEP_COLUMNS],
+    rows: content.step_by_step_guide.map(step => {
+      const values = getWorkflowStepRowValues(step, content.temporal_phases);
+      return WORKFLOW_STEP_COLUMNS.map(column => values[column]);
+    }),
+    numericColumns: ['step_number', 'phase_number', 'if_true_step', 'if_false_step', 'timestamp']
+  };
+}
+
+/**
+ * One row per knowledge item, in stored order
+ */
+export function createKnowledgeItemTable(content: Pick<KnowledgeBaseContent, 'knowledge_items'>): TabularData {
+  return {
+    name: 'Knowledge',
+    columns: [...KNOWLEDGE_ITEM_COLUMNS],
+    rows: content.knowledge_items.map(item => {
+      const values = getKnowledgeItemRowValues(item);
+      return KNOWLEDGE_ITEM_COLUMNS.map(column => values[column]);
+    }),
+    numericColumns: ['timestamp']
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+export interface CsvOptions {
+  /** Field delimiter (default: ',') */
+  delimiter?: string;
+  /** Prepend a UTF-8 BOM so Excel detects the encoding (default: true) */
+  bom?: boolean;
+  /**
+   * Prefix text cells starting with =, +, -, @ with an apostrophe so
+   * spreadsheets do not evaluate them as formulas (default: true).
+   * parseCsv removes the prefix again. Text that already starts with
+   * apostrophes before such a character gets one more, so "'=x" survives the
+   * round trip.
+   */
+  escapeFormulas?: boolean;
+}
+
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+/**
+ * Render a table as RFC 4180 CSV (CRLF line endings, header row first)
+ */
+export function renderCsv(table: TabularData, options: CsvOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const escapeFormulas = options.escapeFormulas ?? true;
+  const numeric = new Set(table.numericColumns ?? []);
+
+  const field = (value: string, column: string) => {
+    let text = value;
+    if (escapeFormulas && !numeric.has(column) && FORMULA_START.test(text)) text = `'${text}`;
+    const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [table.columns, ...table.rows].map(row =>
+    row.map((value, i) => field(value, table.columns[i])).join(delimiter)
+  );
+  return `${options.bom ?? true ? '\uFEFF' : ''}${lines.join('\r\n')}\r\n`;
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+export interface XlsxOptions {
+  /** Modification time written into the archive (default: fixed, for deterministic output) */
+  modifiedAt?: Date;
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+function columnLetter(index: number): string {
+  let n = index + 1;
+  let letters = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+/** Excel sheet names: max 31 chars, no []:*?/\ and unique within the workbook */
+function sheetNames(tables: TabularData[]): string[] {
+  const used = new Set<string>();
+  return tables.map((table, i) => {
+    const base = table.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function worksheetXml(table: TabularData): string {
+  const numeric = new Set(table.numericColumns ?? []);
+  const lastColumn = columnLetter(Math.max(table.columns.length - 1, 0));
+  const widths = table.columns.map((column, c) => {
+    const longest = Math.max(column.length, ...table.rows.map(row => (row[c] ?? '').split('\n')[0].length));
+    return Math.min(Math.max(longest + 2, 8), 60);
+  });
+
+  const rowXml = (values: string[], r: number, header: boolean) => {
+    const cells = values.map((value, c) => {
+      const ref = `${columnLetter(c)}${r}`;
+      if (header) return `<c r="${ref}" t="inlineStr" s="1"><is><t>${xmlEscape(value)}</t></is></c>`;
+      if (value === '') return '';
+      if (numeric.has(table.columns[c]) && /^-?\d+(\.\d+)?$/.test(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr" s="2"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+    });
+    return `<row r="${r}">${cells.join('')}</row>`;
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<cols>${widths.map((width, c) => `<col min="${c + 1}" max="${c + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`,
+    '<sheetData>',
+    rowXml(table.columns, 1, true),
+    ...table.rows.map((row, i) => rowXml(row, i + 2, false)),
+    '</sheetData>',
+    `<autoFilter ref="A1:${lastColumn}${table.rows.length + 1}"/>`,
+    '</worksheet>'
+  ].join('');
+}
+
+const XLSX_STYLES = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="3">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+  '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>',
+  '</cellXfs>',
+  '</styleSheet>'
+].join('');
+
+/**
+ * Render one or more tables as an XLSX workbook (one sheet per table, bold
+ * frozen header row, autofilter). Text cells use the Text number format so
+ * Excel does not reinterpret values such as "1.10" or "03/04".
+ *
+ * @example
+ * const bytes = renderXlsx([createWorkflowStepTable(content)]);
+ */
+export function renderXlsx(tables: TabularData[], options: XlsxOptions = {}): Uint8Array {
+  const names = sheetNames(tables);
+  const sheets = tables.map((table, i) => ({ name: names[i], path: `worksheets/sheet${i + 1}.xml`, xml: worksheetXml(table) }));
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      data: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+        ...sheets.map(sheet => `<Override PartName="/xl/${sheet.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`),
+        '</Types>'
+      ].join('')
+    },
+    {
+      path: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      path: 'xl/workbook.xml',
+      data: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+        '<sheets>',
+        ...sheets.map((sheet, i) => `<sheet name="${xmlEscape(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`),
+        '</sheets>',
+        '<definedNames>',
+        ...sheets.map((sheet, i) => {
+          const table = tables[i];
+          const ref = `$A$1:$${columnLetter(Math.max(table.columns.length - 1, 0))}$${table.rows.length + 1}`;
+          return `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${xmlEscape(sheet.name.replace(/'/g, "''"))}'!${ref}</definedName>`;
+        }),
+        '</definedNames>',
+        '</workbook>'
+      ].join('')
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      data: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        ...sheets.map((sheet, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="${sheet.path}"/>`),
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+        '</Relationships>'
+      ].join('')
+    },
+    { path: 'xl/styles.xml', data: XLSX_STYLES },
+    ...sheets.map(sheet => ({ path: `xl/${sheet.path}`, data: sheet.xml }))
+  ], { modifiedAt: options.modifiedAt });
+}
+
+// ============================================================================
+// Session Exports
+// ============================================================================
+
+export type TabularFormat = 'csv' | 'xlsx';
+
+export interface TabularExportOptions extends ExportContentOptions {
+  format: TabularFormat;
+  csv?: CsvOptions;
+}
+
+export type TabularExportResult = {
+  success: true;
+  format: TabularFormat;
+  /** CSV text or XLSX bytes */
+  data: string | Uint8Array;
+  mimeType: string;
+  rowCount: number;
+  languageUsed: string;
+  freshnessStatus: FreshnessStatus;
+} | {
+  success: false;
+  message: string;
+};
+
+const TABULAR_MIME_TYPES: Record<TabularFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+function finishTabular(
+  table: TabularData,
+  resolved: { languageUsed: string; freshnessStatus: FreshnessStatus },
+  options: TabularExportOptions
+): TabularExportResult {
+  return {
+    success: true,
+    format: options.format,
+    data: options.format === 'csv' ? renderCsv(table, options.csv) : renderXlsx([table]),
+    mimeType: TABULAR_MIME_TYPES[options.format],
+    rowCount: table.rows.length,
+    languageUsed: resolved.languageUsed,
+    freshnessStatus: resolved.freshnessStatus
+  };
+}
+
+/**
+ * Export a session's workflow steps as CSV or XLSX
+ *
+ * @example
+ * const result = exportWorkflowStepsTabular(sessionDoc, { format: 'xlsx', language: 'he' });
+ * if (result.success) download(result.data, result.mimeType);
+ */
+export function exportWorkflowStepsTabular(
+  session: SessionContentDoc,
+  options: TabularExportOptions
+): TabularExportResult {
+  const resolved = resolveWorkflowGuideForExport(session, options);
+  if (!resolved.success) return resolved;
+  return finishTabular(createWorkflowStepTable(resolved.content), resolved, options);
+}
+
+/**
+ * Export a session's knowledge items as CSV or XLSX
+ */
+export function exportKnowledgeItemsTabular(
+  session: SessionContentDoc,
+  options: TabularExportOptions
+): TabularExportResult {
+  const resolved = resolveKnowledgeBaseForExport(session, options);
+  if (!resolved.success) return resolved;
+  return finishTabular(createKnowledgeItemTable(resolved.content), resolved, options);
+}
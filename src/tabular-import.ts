@@ -0,0 +1,702 @@
+/**
+ * Tabular Import (CSV / spreadsheet rows)
+ *
+ * Applies rows edited in a spreadsheet (see tabular-export.ts) back onto the
+ * content. Rows are matched to existing steps/items by item_id, falling back
+ * to step_number (steps) or title (items) when the id is empty. Only cells that
+ * differ from what the exporter wrote for the matched step/item are applied, so
+ * untouched rows leave the content byte-for-byte unchanged.
+ *
+ * Every problem is reported with its spreadsheet row number (the header is
+ * row 1) so users can fix the sheet and import again. Read the file into rows
+ * with parseCsv or parseXlsx.
+ */
+
+import {
+  VideoWorkflowGuideContentSchema,
+  KnowledgeBaseContentSchema,
+  ConditionalDetailsSchema,
+  StepTypeSchema,
+  KnowledgeItemTypeSchema,
+  KnowledgeImportanceSchema
+} from './video-artifacts.js';
+import type {
+  VideoWorkflowGuideContent,
+  VideoWorkflowStep,
+  KnowledgeBaseContent,
+  KnowledgeItem
+} from './video-artifacts.js';
+import {
+  WORKFLOW_STEP_COLUMNS,
+  KNOWLEDGE_ITEM_COLUMNS,
+  TABULAR_READ_ONLY_COLUMNS,
+  getWorkflowStepRowValues,
+  getKnowledgeItemRowValues
+} from './tabular-export.js';
+import type { WorkflowStepColumn, KnowledgeItemColumn } from './tabular-export.js';
+import { readZip } from './zip-reader.js';
+import { parseXml, xmlChildren, xmlLocalName, xmlText } from './xml-parser.js';
+import type { XmlElement, XmlNode } from './xml-parser.js';
+
+// ============================================================================
+// CSV Parsing
+// ============================================================================
+
+export interface CsvParseOptions {
+  /** Field delimiter; detected from the header line (',', ';' or tab) when omitted */
+  delimiter?: string;
+  /**
+   * Remove the apostrophe renderCsv puts before formula-like cells (default: true).
+   * Only an apostrophe followed by a formula-like start is removed, so other
+   * values starting with an apostrophe are kept as written.
+   */
+  unescapeFormulas?: boolean;
+}
+
+export type CsvParseResult = {
+  success: true;
+  rows: string[][];
+  delimiter: string;
+} | {
+  success: false;
+  message: string;
+  /** 1-based line where the problem starts */
+  line: number;
+};
+
+/** What renderCsv escapes: formula-like text, including text that already looks escaped */
+const ESCAPED_FORMULA = /^''*[=+\-@\t\r]/;
+
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === '\n' || ch === '\r')) break;
+    else if (!quoted && ch in counts) counts[ch]++;
+  }
+  return Object.entries(counts).reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, embedded newlines, CRLF or LF).
+ * A leading UTF-8 BOM is ignored. Blank lines are kept as empty rows so row
+ * numbers match the spreadsheet.
+ *
+ * @example
+ * const parsed = parseCsv(fileText);
+ * if (parsed.success) applyWorkflowStepRows(content, parsed.rows);
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const delimiter = options.delimiter ?? detectDelimiter(input);
+  const unescape = options.unescapeFormulas ?? true;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let fieldWasQuoted = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endField = () => {
+    row.push(unescape && ESCAPED_FORMULA.test(field) ? field.slice(1) : field);
+    field = '';
+    fieldWasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === '' && !fieldWasQuoted) {
+      quoted = true;
+      fieldWasQuoted = true;
+      quoteLine = line;
+    } else if (input.startsWith(delimiter, i)) {
+      endField();
+      i += delimiter.length - 1;
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) return { success: false, message: 'Unterminated quoted field', line: quoteLine };
+  if (field !== '' || row.length > 0) endRow();
+
+  return { success: true, rows, delimiter };
+}
+
+// ============================================================================
+// XLSX Parsing
+// ============================================================================
+
+export interface XlsxSheet {
+  name: string;
+  /** Cell text by row; empty rows and cells are '' so row numbers match the sheet */
+  rows: string[][];
+}
+
+export type XlsxParseResult = {
+  success: true;
+  sheets: XlsxSheet[];
+} | {
+  success: false;
+  message: string;
+};
+
+function readXmlEntry(entries: Map<string, Uint8Array>, path: string): XmlElement | string {
+  const data = entries.get(path);
+  if (!data) return `Missing ${path}`;
+  const parsed = parseXml(new TextDecoder().decode(data));
+  return parsed.success ? parsed.root : `${path}: ${parsed.message} at ${parsed.position}`;
+}
+
+/** Text of the <t> runs of a string item (<si>, <is>), skipping phonetic hints (<rPh>) */
+function stringItemText(element: XmlElement): string {
+  return element.children.map((child: XmlNode): string => {
+    if (typeof child === 'string') return xmlLocalName(element.name) === 't' ? child : '';
+    return xmlLocalName(child.name) === 'rPh' ? '' : stringItemText(child);
+  }).join('');
+}
+
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] ?? '';
+  return [...letters].reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function sheetRows(worksheet: XmlElement, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  const sheetData = xmlChildren(worksheet, 'sheetData')[0];
+  for (const rowElement of sheetData ? xmlChildren(sheetData, 'row') : []) {
+    const r = Number(rowElement.attributes.r);
+    const rowIndex = Number.isInteger(r) && r > 0 ? r - 1 : rows.length;
+    const row: string[] = [];
+    for (const c of xmlChildren(rowElement, 'c')) {
+      const at = c.attributes.r ? columnIndex(c.attributes.r) : -1;
+      const raw = xmlChildren(c, 'v').map(xmlText).join('');
+      let value: string;
+      switch (c.attributes.t) {
+        case 's': value = sharedStrings[Number(raw)] ?? ''; break;
+        case 'inlineStr': value = xmlChildren(c, 'is').map(stringItemText).join(''); break;
+        case 'b': value = raw === '1' ? 'TRUE' : 'FALSE'; break;
+        default: value = raw; // n, str, e
+      }
+      while (row.length < at) row.push('');
+      row[at < 0 ? row.length : at] = value;
+    }
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = row;
+  }
+  const width = Math.max(0, ...rows.map(row => row.length));
+  return rows.map(row => [...row, ...Array<string>(width - row.length).fill('')]);
+}
+
+/**
+ * Read the sheets of an XLSX workbook (renderXlsx output or a file saved by
+ * Excel, LibreOffice or Google Sheets) into rows for applyWorkflowStepRows /
+ * applyKnowledgeItemRows. Cells are read as stored: shared and inline strings,
+ * numbers as written in the file, booleans as TRUE/FALSE.
+ *
+ * @example
+ * const parsed = await parseXlsx(bytes);
+ * const sheet = parsed.success ? parsed.sheets.find(s => s.name === 'Steps') : undefined;
+ * if (sheet) applyWorkflowStepRows(content, sheet.rows);
+ */
+export async function parseXlsx(bytes: Uint8Array): Promise<XlsxParseResult> {
+  const zip = await readZip(bytes);
+  if (!zip.success) return { success: false, message: `Not an XLSX workbook: ${zip.message}` };
+
+  const workbook = readXmlEntry(zip.entries, 'xl/workbook.xml');
+  if (typeof workbook === 'string') return { success: false, message: workbook };
+  const rels = readXmlEntry(zip.entries, 'xl/_rels/workbook.xml.rels');
+  if (typeof rels === 'string') return { success: false, message: rels };
+
+  let sharedStrings: string[] = [];
+  if (zip.entries.has('xl/sharedStrings.xml')) {
+    const sst = readXmlEntry(zip.entries, 'xl/sharedStrings.xml');
+    if (typeof sst === 'string') return { success: false, message: sst };
+    sharedStrings = xmlChildren(sst, 'si').map(stringItemText);
+  }
+
+  const targets = new Map(xmlChildren(rels, 'Relationship').map(rel => [rel.attributes.Id, rel.attributes.Target]));
+  const sheets: XlsxSheet[] = [];
+  for (const sheet of xmlChildren(workbook, 'sheets').flatMap(list => xmlChildren(list, 'sheet'))) {
+    // r:id, whatever the relationships namespace prefix
+    const relId = Object.entries(sheet.attributes).find(([name]) => xmlLocalName(name) === 'id')?.[1];
+    const target = relId ? targets.get(relId) : undefined;
+    if (!target) return { success: false, message: `Sheet "${sheet.attributes.name}" has no worksheet part` };
+    // Targets are relative to xl/ unless absolute
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const worksheet = readXmlEntry(zip.entries, path);
+    if (typeof worksheet === 'string') return { success: false, message: worksheet };
+    sheets.push({ name: sheet.attributes.name ?? '', rows: sheetRows(worksheet, sharedStrings) });
+  }
+
+  return { success: true, sheets };
+}
+
+// ============================================================================
+// Import Results
+// ============================================================================
+
+export interface TabularRowIssue {
+  /** Spreadsheet row number (header = 1); 0 for problems not tied to a row */
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface TabularImportOptions {
+  /** Remove steps/items that have no row (default: true) */
+  removeMissing?: boolean;
+}
+
+export type TabularImportResult<T> = {
+  success: true;
+  content: T;
+  updated: number;
+  added: number;
+  removed: number;
+  /** Edits that were ignored or look suspicious; the import still succeeded */
+  warnings: TabularRowIssue[];
+} | {
+  success: false;
+  message: string;
+  errors: TabularRowIssue[];
+  warnings: TabularRowIssue[];
+};
+
+// ============================================================================
+// Shared Row Handling
+// ============================================================================
+
+interface SheetRow<C extends string> {
+  row: number;
+  /** Trimmed cell value, or undefined when the column is not in the sheet */
+  get(column: C): string | undefined;
+}
+
+type HeaderResult<C extends string> =
+  | { success: true; rows: Array<SheetRow<C>>; warnings: TabularRowIssue[] }
+  | { success: false; errors: TabularRowIssue[] };
+
+function readSheet<C extends string>(
+  sheet: string[][],
+  known: readonly C[],
+  required: readonly C[]
+): HeaderResult<C> {
+  if (sheet.length === 0) return { success: false, errors: [{ row: 1, message: 'Sheet is empty (expected a header row)' }] };
+
+  const index = new Map<string, number>();
+  const warnings: TabularRowIssue[] = [];
+  sheet[0].forEach((raw, i) => {
+    const name = raw.trim().toLowerCase();
+    if (!name) return;
+    if (!(known as readonly string[]).includes(name)) {
+      warnings.push({ row: 1, column: raw, message: `Unknown column "${raw}" ignored` });
+    } else if (index.has(name)) {
+      warnings.push({ row: 1, column: name, message: `Duplicate column "${name}"; the first one is used` });
+    } else {
+      index.set(name, i);
+    }
+  });
+
+  const missing = required.filter(column => !index.has(column));
+  if (missing.length > 0) {
+    return { success: false, errors: missing.map(column => ({ row: 1, column, message: `Missing required column "${column}"` })) };
+  }
+
+  const rows = sheet.slice(1)
+    .map((cells, i) => ({
+      row: i + 2,
+      blank: cells.every(value => value.trim() === ''),
+      get: (column: C) => {
+        const at = index.get(column);
+        return at === undefined ? undefined : (cells[at] ?? '').trim();
+      }
+    }))
+    .filter(row => !row.blank);
+  return { success: true, rows, warnings };
+}
+
+function parseNumberCell(value: string, integer: boolean): number | undefined {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return undefined;
+  const n = Number(value);
+  if (integer && !Number.isInteger(n)) return undefined;
+  return n;
+}
+
+/**
+ * Map schema issues on the content back to spreadsheet rows
+ */
+function schemaIssues(
+  issues: Array<{ path: Array<string | number>; message: string }>,
+  arrayField: string,
+  rowNumbers: number[]
+): TabularRowIssue[] {
+  return issues.map(issue => {
+    const [field, index, ...rest] = issue.path;
+    if (field === arrayField && typeof index === 'number') {
+      return { row: rowNumbers[index] ?? 0, column: rest.length > 0 ? String(rest[rest.length - 1]) : undefined, message: issue.message };
+    }
+    return { row: 0, message: `${issue.path.join('.')}: ${issue.message}` };
+  });
+}
+
+function failure<T>(errors: TabularRowIssue[], warnings: TabularRowIssue[]): TabularImportResult<T> {
+  const rows = [...new Set(errors.map(error => error.row))].filter(row => row > 0);
+  return {
+    success: false,
+    message: `${errors.length} error(s)${rows.length > 0 ? ` in row(s) ${rows.join(', ')}` : ''}`,
+    errors,
+    warnings
+  };
+}
+
+// ============================================================================
+// Workflow Steps
+// ============================================================================
+
+const CONDITION_COLUMNS: WorkflowStepColumn[] = ['condition', 'true_action', 'false_action', 'if_true_step', 'if_false_step'];
+
+/**
+ * Apply edited step rows (header row first, columns as written by
+ * createWorkflowStepTable) onto a workflow guide. Steps are returned ordered
+ * by step_number.
+ *
+ * @example
+ * const parsed = parseCsv(csvText);
+ * if (parsed.success) {
+ *   const result = applyWorkflowStepRows(content, parsed.rows);
+ *   if (!result.success) showErrors(result.errors); // [{ row: 4, column: 'step_type', message: ... }]
+ * }
+ */
+export function applyWorkflowStepRows(
+  content: VideoWorkflowGuideContent,
+  sheet: string[][],
+  options: TabularImportOptions = {}
+): TabularImportResult<VideoWorkflowGuideContent> {
+  const read = readSheet(sheet, WORKFLOW_STEP_COLUMNS, ['step_number', 'title', 'action', 'expected_result']);
+  if (!read.success) return failure(read.errors, []);
+  const { warnings } = read;
+  const errors: TabularRowIssue[] = [];
+  const phases = content.temporal_phases;
+
+  const byItemId = new Map(content.step_by_step_guide.filter(s => s.item_id).map(s => [s.item_id!, s]));
+  const matched = new Set<VideoWorkflowStep>();
+  const result: Array<{ step: VideoWorkflowStep; row: number }> = [];
+  let updated = 0;
+  let added = 0;
+
+  for (const { row, get } of read.rows) {
+    const errorCount = errors.length;
+    const fail = (column: WorkflowStepColumn, message: string) => { errors.push({ row, column, message }); };
+
+    const stepNumber = parseNumberCell(get('step_number') ?? '', true);
+    if (stepNumber === undefined || stepNumber < 1) {
+      fail('step_number', 'step_number must be a positive whole number');
+      continue;
+    }
+
+    // Match the row to an existing step
+    const itemId = get('item_id') || undefined;
+    let base = itemId ? byItemId.get(itemId) : undefined;
+    if (!base && !itemId) {
+      base = content.step_by_step_guide.find(s => !s.item_id && s.step_number === stepNumber && !matched.has(s));
+    }
+    if (base && matched.has(base)) {
+      fail('item_id', `Step ${itemId ?? stepNumber} appears in more than one row`);
+      continue;
+    }
+
+    const exported = base ? getWorkflowStepRowValues(base, phases) : undefined;
+    // A cell is applied when the column is present and differs from the export
+    const changed = (column: WorkflowStepColumn) => {
+      const value = get(column);
+      return value !== undefined && value !== (exported?.[column] ?? '');
+    };
+
+    const step: VideoWorkflowStep = base
+      ? { ...base }
+      : { step_number: stepNumber, title: '', action: '', expected_result: '', ...(itemId ? { item_id: itemId } : {}) };
+    step.step_number = stepNumber;
+
+    for (const column of ['title', 'action', 'expected_result'] as const) {
+      if (!changed(column) && base) continue;
+      const value = get(column) ?? '';
+      if (!value) fail(column, `${column} cannot be empty`);
+      else step[column] = value;
+    }
+
+    for (const column of ['visual_cues', 'audio_context'] as const) {
+      if (!changed(column)) continue;
+      const value = get(column);
+      if (value) step[column] = value;
+      else delete step[column];
+    }
+
+    if (changed('timestamp')) {
+      const value = get('timestamp') ?? '';
+      const timestamp = parseNumberCell(value, false);
+      if (!value) delete step.timestamp;
+      else if (timestamp === undefined || timestamp < 0) fail('timestamp', 'timestamp must be a number of seconds');
+      else step.timestamp = timestamp;
+    }
+
+    if (changed('phase_number')) {
+      const value = get('phase_number') ?? '';
+      const phaseNumber = parseNumberCell(value, true);
+      if (!value) step.phase_number = null;
+      else if (phaseNumber === undefined || !phases.some(p => p.phase_number === phaseNumber)) {
+        fail('phase_number', `No phase ${value} (phases: ${phases.map(p => p.phase_number).join(', ') || 'none'})`);
+      } else step.phase_number = phaseNumber;
+    }
+
+    if (changed('step_type')) {
+      const parsed = StepTypeSchema.safeParse(get('step_type') || 'do');
+      if (!parsed.success) fail('step_type', `step_type must be one of ${StepTypeSchema.options.join(', ')}`);
+      else if (parsed.data === 'do' && base?.step_type === undefined) delete step.step_type;
+      else step.step_type = parsed.data;
+    }
+
+    if (CONDITION_COLUMNS.some(changed)) {
+      const value = (column: WorkflowStepColumn) => get(column) ?? exported?.[column] ?? '';
+      if (CONDITION_COLUMNS.every(column => !value(column))) {
+        delete step.condition_details;
+      } else {
+        const targets: Array<['if_true' | 'if_false', WorkflowStepColumn]> = [['if_true', 'if_true_step'], ['if_false', 'if_false_step']];
+        const target_steps: { if_true?: number; if_false?: number } = {};
+        for (const [key, column] of targets) {
+          if (!value(column)) continue;
+          const target = parseNumberCell(value(column), true);
+          if (target === undefined) fail(column, `${column} must be a step number`);
+          else target_steps[key] = target;
+        }
+        const parsed = ConditionalDetailsSchema.safeParse({
+          condition: value('condition'),
+          true_action: value('true_action'),
+          ...(value('false_action') ? { false_action: value('false_action') } : {}),
+          ...(Object.keys(target_steps).length > 0 ? { target_steps } : {}),
+          condition_language: base?.condition_details?.condition_language
+        });
+        if (parsed.success) step.condition_details = parsed.data;
+        else {
+          for (const issue of parsed.error.issues) {
+            const column = CONDITION_COLUMNS.find(c => c === issue.path[0]) ?? 'condition';
+            fail(column, issue.message);
+          }
+        }
+      }
+    }
+
+    // conditional steps need condition_details; other step types must not have them
+    if ((step.step_type ?? 'do') === 'conditional') {
+      if (!step.condition_details && errors.length === errorCount) fail('condition', 'Conditional steps need a condition and a true_action');
+    } else if (step.condition_details) {
+      fail('condition', 'Condition columns must be empty unless step_type is conditional');
+    }
+
+    for (const column of TABULAR_READ_ONLY_COLUMNS as WorkflowStepColumn[]) {
+      if (base && changed(column)) warnings.push({ row, column, message: `${column} is read-only; the edit was ignored` });
+    }
+
+    if (errors.length > errorCount) continue;
+    if (base) {
+      matched.add(base);
+      if (WORKFLOW_STEP_COLUMNS.some(changed)) updated++;
+    } else {
+      added++;
+    }
+    result.push({ step, row });
+  }
+
+  // Cross-row checks
+  const numbers = new Map<number, number>();
+  for (const { step, row } of result) {
+    const first = numbers.get(step.step_number);
+    if (first !== undefined) errors.push({ row, column: 'step_number', message: `step_number ${step.step_number} is also used in row ${first}` });
+    else numbers.set(step.step_number, row);
+  }
+  for (const { step, row } of result) {
+    const targets = step.condition_details?.target_steps;
+    for (const [key, column] of [['if_true', 'if_true_step'], ['if_false', 'if_false_step']] as const) {
+      const target = targets?.[key];
+      if (target !== undefined && !numbers.has(target)) warnings.push({ row, column, message: `Step ${target} does not exist` });
+    }
+  }
+
+  const removeMissing = options.removeMissing ?? true;
+  const kept = removeMissing ? [] : content.step_by_step_guide.filter(s => !matched.has(s)).map(step => ({ step, row: 0 }));
+  const removed = removeMissing ? content.step_by_step_guide.filter(s => !matched.has(s)).length : 0;
+  const ordered = [...result, ...kept].sort((a, b) => a.step.step_number - b.step.step_number);
+
+  if (errors.length > 0) return failure(errors, warnings);
+
+  const next = { ...content, step_by_step_guide: ordered.map(entry => entry.step) };
+  const validated = VideoWorkflowGuideContentSchema.safeParse(next);
+  if (!validated.success) {
+    return failure(schemaIssues(validated.error.issues, 'step_by_step_guide', ordered.map(entry => entry.row)), warnings);
+  }
+
+  return { success: true, content: next, updated, added, removed, warnings };
+}
+
+// ============================================================================
+// Knowledge Items
+// ============================================================================
+
+/**
+ * Apply edited knowledge item rows (header row first, columns as written by
+ * createKnowledgeItemTable) onto a knowledge base. Items keep the row order.
+ */
+export function applyKnowledgeItemRows(
+  content: KnowledgeBaseContent,
+  sheet: string[][],
+  options: TabularImportOptions = {}
+): TabularImportResult<KnowledgeBaseContent> {
+  const read = readSheet(sheet, KNOWLEDGE_ITEM_COLUMNS, ['title', 'content']);
+  if (!read.success) return failure(read.errors, []);
+  const { warnings } = read;
+  const errors: TabularRowIssue[] = [];
+
+  const byItemId = new Map(content.knowledge_items.filter(i => i.item_id).map(i => [i.item_id!, i]));
+  const matched = new Set<KnowledgeItem>();
+  const result: Array<{ item: KnowledgeItem; row: number }> = [];
+  let updated = 0;
+  let added = 0;
+
+  for (const { row, get } of read.rows) {
+    const errorCount = errors.length;
+    const fail = (column: KnowledgeItemColumn, message: string) => { errors.push({ row, column, message }); };
+
+    const itemId = get('item_id') || undefined;
+    let base = itemId ? byItemId.get(itemId) : undefined;
+    if (!base && !itemId) {
+      base = content.knowledge_items.find(i => !i.item_id && i.title === get('title') && !matched.has(i));
+    }
+    if (base && matched.has(base)) {
+      fail('item_id', `Item ${itemId ?? get('title')} appears in more than one row`);
+      continue;
+    }
+
+    const exported = base ? getKnowledgeItemRowValues(base) : undefined;
+    const changed = (column: KnowledgeItemColumn) => {
+      const value = get(column);
+      return value !== undefined && value !== (exported?.[column] ?? '');
+    };
+
+    const item: KnowledgeItem = base
+      ? { ...base }
+      : { type: 'fact', title: '', content: '', importance: 'standard', ...(itemId ? { item_id: itemId } : {}) };
+
+    for (const column of ['title', 'content'] as const) {
+      if (!changed(column) && base) continue;
+      const value = get(column) ?? '';
+      if (!value) fail(column, `${column} cannot be empty`);
+      else item[column] = value;
+    }
+
+    if (changed('type')) {
+      const parsed = KnowledgeItemTypeSchema.safeParse(get('type'));
+      if (parsed.success) item.type = parsed.data;
+      else fail('type', `type must be one of ${KnowledgeItemTypeSchema.options.join(', ')}`);
+    }
+    if (changed('importance')) {
+      const parsed = KnowledgeImportanceSchema.safeParse(get('importance'));
+      if (parsed.success) item.importance = parsed.data;
+      else fail('importance', `importance must be one of ${KnowledgeImportanceSchema.options.join(', ')}`);
+    }
+
+    for (const column of ['subtype', 'code_snippet', 'visual_aids', 'audio_emphasis', 'possible_duplicate_of'] as const) {
+      if (!changed(column)) continue;
+      const value = get(column);
+      if (value) item[column] = value;
+      else delete item[column];
+    }
+
+    if (changed('related_items')) {
+      const ids = (get('related_items') ?? '').split(/[;\n]/).map(id => id.trim()).filter(Boolean);
+      if (ids.length > 0) item.related_items = ids;
+      else delete item.related_items;
+    }
+
+    if (changed('timestamp')) {
+      const value = get('timestamp') ?? '';
+      const timestamp = parseNumberCell(value, false);
+      if (!value) delete item.timestamp;
+      else if (timestamp === undefined || timestamp < 0) fail('timestamp', 'timestamp must be a number of seconds');
+      else item.timestamp = timestamp;
+    }
+
+    for (const column of TABULAR_READ_ONLY_COLUMNS as KnowledgeItemColumn[]) {
+      if (base && changed(column)) warnings.push({ row, column, message: `${column} is read-only; the edit was ignored` });
+    }
+
+    if (errors.length > errorCount) continue;
+    if (base) {
+      matched.add(base);
+      if (KNOWLEDGE_ITEM_COLUMNS.some(changed)) updated++;
+    } else {
+      added++;
+    }
+    result.push({ item, row });
+  }
+
+  const removeMissing = options.removeMissing ?? true;
+  const missing = content.knowledge_items.filter(i => !matched.has(i));
+  const ordered = removeMissing ? result : [...result, ...missing.map(item => ({ item, row: 0 }))];
+
+  // Cross-row checks
+  const ids = new Map<string, number>();
+  for (const { item, row } of ordered) {
+    if (!item.item_id) continue;
+    const first = ids.get(item.item_id);
+    if (first !== undefined) errors.push({ row, column: 'item_id', message: `item_id ${item.item_id} is also used in row ${first}` });
+    else ids.set(item.item_id, row);
+  }
+  for (const { item, row } of ordered) {
+    for (const id of item.related_items ?? []) {
+      if (!ids.has(id)) warnings.push({ row, column: 'related_items', message: `Item ${id} does not exist` });
+    }
+    if (item.possible_duplicate_of && !ids.has(item.possible_duplicate_of)) {
+      warnings.push({ row, column: 'possible_duplicate_of', message: `Item ${item.possible_duplicate_of} does not exist` });
+    }
+  }
+  if (removeMissing) {
+    const removedIds = new Set(missing.map(i => i.item_id).filter((id): id is string => !!id));
+    for (const relationship of content.concept_relationships ?? []) {
+      const stale = [relationship.from, relationship.to].find(id => removedIds.has(id));
+      if (stale) warnings.push({ row: 0, message: `Removed item ${stale} is still referenced by a concept relationship` });
+    }
+  }
+
+  if (errors.length > 0) return failure(errors, warnings);
+
+  const next = { ...content, knowledge_items: ordered.map(entry => entry.item) };
+  const validated = KnowledgeBaseContentSchema.safeParse(next);
+  if (!validated.success) {
+    return failure(schemaIssues(validated.error.issues, 'knowledge_items', ordered.map(entry => entry.row)), warnings);
+  }
+
+  return { success: true, content: next, updated, added, removed: removeMissing ? missing.length : 0, warnings };
+}
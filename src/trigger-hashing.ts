@@ -0,0 +1,236 @@
+/**
+ * Trigger Hashing and Idempotency Keys
+ *
+ * One definition of how a ForgeTrigger or TextTrigger is hashed and how the
+ * idempotency headers are derived, so the admin panel, Session Manager and
+ * Forge agree on whether a job is an idempotent reuse.
+ *
+ * Canonical form (before canonical JSON + SHA-256):
+ * - schema defaults are applied (a missing `source` hashes like 'on-demand')
+ * - options.stages is de-duplicated and put in pipeline order
+ * - timestamps in session.time_range are normalized to UTC ISO-8601
+ */
+
+import { STAGES } from './constants.js';
+import { ForgeTriggerSchema, TextTriggerSchema } from './schemas.js';
+import type { ForgeTrigger, TextTrigger, IdempotencyHeader } from './types.js';
+import type { ProcessingStatus } from './constants.js';
+import { canonicalJson } from './canonical-json.js';
+import { sha256Hex } from './sha256.js';
+
+export type HashableTrigger = ForgeTrigger | TextTrigger;
+
+// ============================================================================
+// Canonicalization and Hashing
+// ============================================================================
+
+function isTextTrigger(trigger: HashableTrigger): trigger is TextTrigger {
+  return 'text_session' in trigger;
+}
+
+function normalizeTimestamp(value: string): string {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+/**
+ * Canonical form of a trigger, the value that is hashed
+ *
+ * @throws ZodError when the trigger does not match its schema
+ */
+export function canonicalizeTrigger(trigger: HashableTrigger): HashableTrigger {
+  if (isTextTrigger(trigger)) return TextTriggerSchema.parse(trigger);
+
+  const parsed = ForgeTriggerSchema.parse(trigger);
+  return {
+    ...parsed,
+    session: {
+      ...parsed.session,
+      time_range: {
+        start: normalizeTimestamp(parsed.session.time_range.start),
+        end: normalizeTimestamp(parsed.session.time_range.end)
+      }
+    },
+    options: {
+      ...parsed.options,
+      stages: STAGES.filter(stage => parsed.options.stages.includes(stage))
+    }
+  };
+}
+
+/**
+ * SHA-256 of the canonical trigger (ForgeManifest.trigger_hash)
+ *
+ * @example
+ * computeTriggerHash(trigger) === manifest.trigger_hash
+ */
+export function computeTriggerHash(trigger: HashableTrigger): string {
+  return sha256Hex(canonicalJson(canonicalizeTrigger(trigger)));
+}
+
+// ============================================================================
+// Idempotency
+// ============================================================================
+
+/** Session id the idempotency key is derived from */
+function triggerSessionId(trigger: HashableTrigger): string {
+  return isTextTrigger(trigger) ? trigger.text_session.session_id : trigger.session.session_id;
+}
+
+/**
+ * Idempotency key for a trigger ("session-{session_id}")
+ */
+export function deriveIdempotencyKey(trigger: HashableTrigger): string {
+  return `session-${triggerSessionId(trigger)}`;
+}
+
+/**
+ * Idempotency headers to send with a trigger
+ *
+ * @example
+ * buildIdempotencyHeaders(trigger, { forceRerun: true })
+ * // { 'idempotency-key': 'session-abc', 'x-force-rerun': 'true' }
+ */
+export function buildIdempotencyHeaders(trigger: HashableTrigger, options: { forceRerun?: boolean } = {}): IdempotencyHeader {
+  return {
+    'idempotency-key': deriveIdempotencyKey(trigger),
+    ...(options.forceRerun ? { 'x-force-rerun': 'true' as const } : {})
+  };
+}
+
+/**
+ * Read idempotency headers from raw HTTP headers (any header name casing,
+ * case-insensitive 'true'/'false'). Returns undefined without an idempotency key.
+ */
+export function readIdempotencyHeaders(headers: Record<string, string | string[] | undefined>): IdempotencyHeader | undefined {
+  const lookup = (name: string): string | undefined => {
+    const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+    const value = Array.isArray(entry?.[1]) ? entry[1][0] : entry?.[1];
+    return value?.trim() || undefined;
+  };
+  const key = lookup('idempotency-key');
+  if (!key) return undefined;
+  const force = lookup('x-force-rerun')?.toLowerCase();
+  return {
+    'idempotency-key': key,
+    ...(force === 'true' || force === 'false' ? { 'x-force-rerun': force } : {})
+  };
+}
+
+export type IdempotencyDecisionReason =
+  | 'no_previous_job'
+  | 'same_trigger'
+  | 'force_rerun'
+  | 'trigger_changed'
+  | 'previous_failed'
+  | 'key_mismatch';
+
+export interface IdempotencyDecision {
+  /** True when the previous job's result is returned instead of starting a new job */
+  idempotent_reuse: boolean;
+  reason: IdempotencyDecisionReason;
+  idempotency_key: string;
+  trigger_hash: string;
+}
+
+/** The job previously started under the same idempotency key */
+export interface PreviousJob {
+  trigger_hash: string;
+  status: ProcessingStatus;
+}
+
+/**
+ * Decide whether a trigger reuses the previous job for its idempotency key
+ *
+ * A job is reused when a previous job exists for the key, was started by an
+ * identical trigger (same hash), has not failed, and x-force-rerun is not
+ * 'true'. Headers whose key does not match the trigger never reuse.
+ *
+ * @example
+ * const decision = decideIdempotentReuse(trigger, readIdempotencyHeaders(req.headers), previous);
+ * if (decision.idempotent_reuse) return previousResponse;
+ */
+export function decideIdempotentReuse(
+  trigger: HashableTrigger,
+  headers: IdempotencyHeader | undefined,
+  previous: PreviousJob | undefined
+): IdempotencyDecision {
+  const idempotencyKey = deriveIdempotencyKey(trigger);
+  const triggerHash = computeTriggerHash(trigger);
+  const decide = (idempotent_reuse: boolean, reason: IdempotencyDecisionReason): IdempotencyDecision =>
+    ({ idempotent_reuse, reason, idempotency_key: idempotencyKey, trigger_hash: triggerHash });
+
+  if (headers && headers['idempotency-key'] !== idempotencyKey) return decide(false, 'key_mismatch');
+  if (headers?.['x-force-rerun'] === 'true') return decide(false, 'force_rerun');
+  if (!previous) return decide(false, 'no_previous_job');
+  if (previous.trigger_hash !== triggerHash) return decide(false, 'trigger_changed');
+  if (previous.status === 'failed') return decide(false, 'previous_failed');
+  return decide(true, 'same_trigger');
+}
+
+// ============================================================================
+// Hash Difference Explanation
+// ============================================================================
+
+export interface TriggerDifference {
+  /** Dotted path in the canonical trigger, e.g. 'session.time_range.end' or 'options.stages[3]' */
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface TriggerHashComparison {
+  same_hash: boolean;
+  hash_before: string;
+  hash_after: string;
+  /** Differences between the canonical forms (empty when the hashes match) */
+  differences: TriggerDifference[];
+}
+
+function diffValues(before: unknown, after: unknown, path: string, out: TriggerDifference[]): void {
+  if (canonicalJson(before) === canonicalJson(after)) return;
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const itemPath = `${path}[${i}]`;
+      if (i >= before.length) out.push({ path: itemPath, change: 'added', after: after[i] });
+      else if (i >= after.length) out.push({ path: itemPath, change: 'removed', before: before[i] });
+      else diffValues(before[i], after[i], itemPath, out);
+    }
+    return;
+  }
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (before[key] === undefined) out.push({ path: keyPath, change: 'added', after: after[key] });
+      else if (after[key] === undefined) out.push({ path: keyPath, change: 'removed', before: before[key] });
+      else diffValues(before[key], after[key], keyPath, out);
+    }
+    return;
+  }
+  out.push({ path: path || '(root)', change: 'changed', before, after });
+}
+
+/**
+ * Explain why two triggers hash differently
+ *
+ * Compares canonical forms, so differences that canonicalization removes
+ * (stage order, timestamp offsets, omitted defaults) are not reported.
+ *
+ * @example
+ * explainTriggerHashDifference(original, retried).differences
+ * // [{ path: 'session.time_range.end', change: 'changed', before: '...08:30:00.000Z', after: '...08:31:00.000Z' }]
+ */
+export function explainTriggerHashDifference(before: HashableTrigger, after: HashableTrigger): TriggerHashComparison {
+  const canonicalBefore = canonicalizeTrigger(before);
+  const canonicalAfter = canonicalizeTrigger(after);
+  const differences: TriggerDifference[] = [];
+  diffValues(canonicalBefore, canonicalAfter, '', differences);
+  const hashBefore = sha256Hex(canonicalJson(canonicalBefore));
+  const hashAfter = sha256Hex(canonicalJson(canonicalAfter));
+  return { same_hash: hashBefore === hashAfter, hash_before: hashBefore, hash_after: hashAfter, differences };
+}
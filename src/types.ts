@@ -7,13 +7,14 @@
 
 import { z } from 'zod';
 import * as schemas from './schemas.js';
+import type { PipelineFamily } from './stage-registry.js';
 
 // ============================================================================
 // Constants (re-exported for convenience)
 // ============================================================================
 
-export { STAGES, TOTAL_STAGES } from './constants.js';
-export type { Stage, SessionStatus, ProcessingStatus, StageExecutionStatus } from './constants.js';
+export { STAGES, TOTAL_STAGES, PIPELINE_STAGES } from './constants.js';
+export type { Stage, PipelineStage, SessionStatus, ProcessingStatus, StageExecutionStatus } from './constants.js';
 
 // ============================================================================
 // Bridge Command API Types
@@ -40,14 +41,21 @@ export type SessionInternalState = z.infer<typeof schemas.SessionInternalStateSc
 // For backward compatibility, export as Session (matches current usage)
 export type Session = SessionInternalState;
 
+// Status-discriminated variants (use with narrowSessionState for exhaustive switches)
+export type RecordingSessionState = z.infer<typeof schemas.RecordingSessionStateSchema>;
+export type ProcessingSessionState = z.infer<typeof schemas.ProcessingSessionStateSchema>;
+export type CompletedSessionState = z.infer<typeof schemas.CompletedSessionStateSchema>;
+export type FailedSessionState = z.infer<typeof schemas.FailedSessionStateSchema>;
+export type DiscriminatedSessionState = z.infer<typeof schemas.DiscriminatedSessionStateSchema>;
+
 // ============================================================================
 // Forge Pipeline Types
 // ============================================================================
 
 export type ForgeArtifact = z.infer<typeof schemas.ForgeArtifactSchema>;
 export type ForgeCounters = z.infer<typeof schemas.ForgeCountersSchema>;
-export type StageExecution = z.infer<typeof schemas.StageExecutionSchema>;
-export type ForgeManifest = z.infer<typeof schemas.ForgeManifestSchema>;
+export type StageExecution<P extends PipelineFamily = 'bridge_forge'> = z.infer<typeof schemas.PIPELINE_STAGE_EXECUTION_SCHEMAS[P]>;
+export type ForgeManifest<P extends PipelineFamily = 'bridge_forge'> = z.infer<typeof schemas.PIPELINE_FORGE_MANIFEST_SCHEMAS[P]>;
 export type ForgeJobResponse = z.infer<typeof schemas.ForgeJobResponseSchema>;
 
 // Import types needed for ForgeJob
@@ -83,7 +91,7 @@ export type ForgeTrigger = z.infer<typeof schemas.ForgeTriggerSchema>;
 // Progress Calculation Types
 // ============================================================================
 
-export type JobProgress = z.infer<typeof schemas.JobProgressSchema>;
+export type JobProgress<P extends PipelineFamily = 'bridge_forge'> = z.infer<typeof schemas.PIPELINE_JOB_PROGRESS_SCHEMAS[P]>;
 
 // ============================================================================
 // Error Handling Types
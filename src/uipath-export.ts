@@ -0,0 +1,277 @@
+/**
+ * UiPath Export
+ *
+ * Deterministic conversion of a VideoWorkflowGuideContent into a UiPath XAML
+ * Sequence skeleton (Main.xaml):
+ * - Each temporal phase becomes a nested Sequence
+ * - Conditional steps become If activities; the simple_expr_v1 condition is
+ *   compiled to VB.NET and its variables are declared on the root Sequence
+ * - hitl steps become a MessageBox (OK/Cancel) so a person confirms before continuing
+ * - check steps become LogMessage activities, do/gap steps annotated Comment placeholders
+ *
+ * A Sequence cannot jump, so conditional target_steps that skip ahead/back are
+ * annotated and reported rather than wired.
+ */
+
+import type { VideoWorkflowGuideContent } from './video-artifacts.js';
+import { getConditionVariables } from './condition-expression.js';
+import type { ConditionNode, ConditionValueNode } from './condition-expression.js';
+import { analyzeWorkflowGraph } from './workflow-graph.js';
+import type { WorkflowGraph, WorkflowGraphNode } from './workflow-graph.js';
+import {
+  createAutomationExportReport,
+  createAutomationVariableNamer,
+  createNameAllocator,
+  describeBranchJumps,
+  describeStepForAutomation,
+  groupStepsByPhase,
+  parseStepCondition,
+  toAutomationVariableName
+} from './automation-export.js';
+import type { AutomationExportReport, AutomationStepMapping } from './automation-export.js';
+
+export interface UiPathExportOptions {
+  /** x:Class of the generated workflow (default: 'Main') */
+  className?: string;
+  /** DisplayName of the root Sequence (default: task_summary.name) */
+  displayName?: string;
+}
+
+export interface UiPathExportResult {
+  /** Main.xaml contents */
+  xaml: string;
+  /** Variables declared on the root Sequence (condition variables, dots replaced by '_', de-duplicated) */
+  variables: string[];
+  report: AutomationExportReport;
+}
+
+// ============================================================================
+// VB.NET Condition Compilation
+// ============================================================================
+
+function vbString(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map(line => `"${line.replace(/"/g, '""')}"`)
+    .join(' & vbLf & ');
+}
+
+type VariableNamer = (variable: string) => string;
+
+function vbLiteral(node: ConditionValueNode, name: VariableNamer): string {
+  switch (node.kind) {
+    // [Name] escapes VB keywords such as Date or Next
+    case 'variable': return `[${name(node.name)}]`;
+    case 'string': return vbString(node.value);
+    case 'number': return String(node.value);
+    case 'boolean': return node.value ? 'True' : 'False';
+  }
+}
+
+/**
+ * Compile a simple_expr_v1 AST into a VB.NET expression. Variables are declared
+ * as Object, so each use is converted (CDbl/CBool/CStr) based on the other operand.
+ * `name` flattens variable names (default: toAutomationVariableName); each is
+ * written as an escaped identifier.
+ *
+ * @example
+ * compileConditionToVB(parseConditionExpression("amount > 100 AND status = 'open'").ast)
+ * // (CDbl([amount]) > 100 AndAlso CStr([status]) = "open")
+ */
+export function compileConditionToVB(ast: ConditionNode, name: VariableNamer = toAutomationVariableName): string {
+  switch (ast.kind) {
+    case 'logical':
+      return `(${compileConditionToVB(ast.left, name)} ${ast.operator === 'AND' ? 'AndAlso' : 'OrElse'} ${compileConditionToVB(ast.right, name)})`;
+    case 'not':
+      return `Not ${compileConditionToVB(ast.operand, name)}`;
+    case 'emptiness': {
+      const check = `String.IsNullOrWhiteSpace(CStr(${vbLiteral(ast.operand, name)}))`;
+      return ast.operator === 'IS_EMPTY' ? check : `Not ${check}`;
+    }
+    case 'value':
+      return `CBool(${vbLiteral(ast.value, name)})`;
+    case 'comparison': {
+      const kinds = [ast.left.kind, ast.right.kind];
+      const convert = kinds.includes('number') ? 'CDbl' : kinds.includes('boolean') ? 'CBool' : 'CStr';
+      const operand = (node: ConditionValueNode) =>
+        node.kind === 'variable' ? `${convert}(${vbLiteral(node, name)})` : vbLiteral(node, name);
+      const text = (node: ConditionValueNode) =>
+        node.kind === 'variable' ? `If(CStr(${vbLiteral(node, name)}), "")` : vbLiteral(node, name);
+      switch (ast.operator) {
+        case '=': return `${operand(ast.left)} = ${operand(ast.right)}`;
+        case '!=': return `${operand(ast.left)} <> ${operand(ast.right)}`;
+        case '>':
+        case '<':
+        case '>=':
+        case '<=':
+          return `${operand(ast.left)} ${ast.operator} ${operand(ast.right)}`;
+        case 'CONTAINS': return `${text(ast.left)}.Contains(${text(ast.right)})`;
+        case 'STARTS_WITH': return `${text(ast.left)}.StartsWith(${text(ast.right)})`;
+        case 'ENDS_WITH': return `${text(ast.left)}.EndsWith(${text(ast.right)})`;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// XAML Generation
+// ============================================================================
+
+function xmlAttr(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '&#xA;');
+}
+
+/** InArgument<String> attribute value as a VB expression */
+function vbText(text: string): string {
+  return xmlAttr(`[${vbString(text)}]`);
+}
+
+function comment(displayName: string, text: string, indent: string): string {
+  return `${indent}<ui:Comment DisplayName="${xmlAttr(displayName)}" Text="${vbText(text)}" />`;
+}
+
+interface XamlContext {
+  graph: WorkflowGraph;
+  allocate: (name: string) => string;
+  variableName: VariableNamer;
+  mappings: AutomationStepMapping[];
+  variables: Set<string>;
+}
+
+function stepActivity(node: WorkflowGraphNode, ctx: XamlContext, indent: string): string[] {
+  const step = node.step;
+  const name = ctx.allocate(`${node.step_number}. ${node.title}`);
+  const description = describeStepForAutomation(step);
+  const mapping = { step_number: node.step_number, title: node.title, step_type: node.step_type, node: name };
+  const inner = `${indent}  `;
+
+  if (node.step_type === 'conditional' && step.condition_details) {
+    const details = step.condition_details;
+    const parsed = parseStepCondition(step);
+    const jumps = describeBranchJumps(ctx.graph, node.step_number);
+    let condition = 'False';
+    if (parsed.success) {
+      condition = compileConditionToVB(parsed.ast, ctx.variableName);
+      getConditionVariables(parsed.ast).forEach(v => ctx.variables.add(ctx.variableName(v)));
+    }
+    const reason = parsed.success ? jumps : parsed.message;
+    ctx.mappings.push(reason ? { ...mapping, status: 'placeholder', reason } : { ...mapping, status: 'mapped' });
+
+    const branch = (action: string | undefined, target: number | undefined) =>
+      [action, target !== undefined && `Then continue at step ${target}`].filter(Boolean).join('\n');
+    const lines = [
+      `${indent}<If DisplayName="${xmlAttr(name)}" Condition="${xmlAttr(`[${condition}]`)}">`,
+      `${inner}<If.Then>`,
+      `${inner}  <Sequence DisplayName="Then">`,
+      comment('True action', branch(details.true_action, details.target_steps?.if_true), `${inner}    `),
+      `${inner}  </Sequence>`,
+      `${inner}</If.Then>`
+    ];
+    if (details.false_action || details.target_steps?.if_false !== undefined) {
+      lines.push(
+        `${inner}<If.Else>`,
+        `${inner}  <Sequence DisplayName="Else">`,
+        comment('False action', branch(details.false_action, details.target_steps?.if_false), `${inner}    `),
+        `${inner}  </Sequence>`,
+        `${inner}</If.Else>`
+      );
+    }
+    if (!parsed.success) {
+      // If cannot hold a Comment directly; put the TODO at the top of the Then branch
+      lines.splice(3, 0, comment('TODO', `Implement condition: ${details.condition}`, `${inner}    `));
+    }
+    lines.push(`${indent}</If>`);
+    return lines;
+  }
+
+  if (node.step_type === 'hitl') {
+    ctx.mappings.push({ ...mapping, status: 'mapped' });
+    return [
+      `${indent}<ui:MessageBox DisplayName="${xmlAttr(name)}" Caption="${vbText(node.title)}" Text="${vbText(description)}" Buttons="OkCancel" />`
+    ];
+  }
+
+  if (node.step_type === 'check') {
+    ctx.mappings.push({ ...mapping, status: 'placeholder', reason: 'Verification needs a concrete check (e.g. Element Exists)' });
+    return [
+      `${indent}<ui:LogMessage DisplayName="${xmlAttr(name)}" Level="Info" Message="${vbText(`Verify: ${description}`)}" />`
+    ];
+  }
+
+  ctx.mappings.push({
+    ...mapping,
+    status: 'placeholder',
+    reason: node.step_type === 'conditional'
+      ? 'Conditional step has no condition_details'
+      : `No deterministic UiPath activity for '${node.step_type}' steps`
+  });
+  return [
+    `${indent}<Sequence DisplayName="${xmlAttr(name)}">`,
+    comment(node.step_type === 'gap' ? 'GAP' : 'TODO', description, `${inner}`),
+    `${indent}</Sequence>`
+  ];
+}
+
+/**
+ * Convert a workflow guide into a UiPath XAML Sequence skeleton plus a mapping report.
+ *
+ * @example
+ * const { xaml, report } = exportWorkflowToUiPath(content);
+ * fs.writeFileSync('Main.xaml', xaml);
+ */
+export function exportWorkflowToUiPath(
+  content: VideoWorkflowGuideContent,
+  options: UiPathExportOptions = {}
+): UiPathExportResult {
+  const { graph, issues } = analyzeWorkflowGraph(content);
+  const ctx: XamlContext = {
+    graph,
+    allocate: createNameAllocator(),
+    variableName: createAutomationVariableNamer(),
+    mappings: [],
+    variables: new Set()
+  };
+
+  const body: string[] = [];
+  for (const segment of groupStepsByPhase(graph)) {
+    const phase = segment.phase_index !== null ? content.temporal_phases[segment.phase_index] : undefined;
+    if (!phase) {
+      for (const node of segment.nodes) body.push(...stepActivity(node, ctx, '    '));
+      continue;
+    }
+    body.push(`    <Sequence DisplayName="${xmlAttr(ctx.allocate(`Phase ${phase.phase_number}: ${phase.name}`))}">`);
+    for (const node of segment.nodes) body.push(...stepActivity(node, ctx, '      '));
+    body.push('    </Sequence>');
+  }
+
+  const variables = [...ctx.variables].sort();
+  const xaml = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<Activity mc:Ignorable="sap sap2010" x:Class="${xmlAttr(options.className ?? 'Main')}"`,
+    '  xmlns="http://schemas.microsoft.com/netfx/2009/xaml/activities"',
+    '  xmlns:mc="http://schemas.openxmlformats.org/markup-compatibility/2006"',
+    '  xmlns:sap="http://schemas.microsoft.com/netfx/2009/xaml/activities/presentation"',
+    '  xmlns:sap2010="http://schemas.microsoft.com/netfx/2010/xaml/activities/presentation"',
+    '  xmlns:ui="http://schemas.uipath.com/workflow/activities"',
+    '  xmlns:x="http://schemas.microsoft.com/winfx/2006/xaml">',
+    `  <Sequence DisplayName="${xmlAttr(options.displayName ?? content.task_summary.name)}">`,
+    ...(variables.length > 0
+      ? [
+        '    <Sequence.Variables>',
+        ...variables.map(v => `      <Variable x:TypeArguments="x:Object" Name="${xmlAttr(v)}" />`),
+        '    </Sequence.Variables>'
+      ]
+      : []),
+    ...body,
+    '  </Sequence>',
+    '</Activity>',
+    ''
+  ].join('\n');
+
+  return { xaml, variables, report: createAutomationExportReport(ctx.mappings, issues) };
+}
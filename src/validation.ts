@@ -6,9 +6,10 @@
 
 import { z } from 'zod';
 import * as schemas from './schemas.js';
-import { STAGES, TOTAL_STAGES } from './constants.js';
-import type { StageExecution, JobProgress, Stage } from './types.js';
-import { getStageLabel } from './stage-messages.js';
+import { PIPELINE_STAGES } from './constants.js';
+import type { StageExecution, JobProgress, DiscriminatedSessionState } from './types.js';
+import type { PipelineFamily } from './stage-registry.js';
+import { getPipelineStageLabel } from './stage-messages.js';
 
 // ============================================================================
 // Validation Result Types
@@ -27,7 +28,8 @@ export type ValidationResult<T> = {
 // Safe Parse Wrapper
 // ============================================================================
 
-export function safeParse<T>(schema: z.ZodSchema<T>, data: unknown): ValidationResult<T> {
+// Input type is left open so schemas with defaults/transforms infer their output type
+export function safeParse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): ValidationResult<T> {
   const result = schema.safeParse(data);
   
   if (result.success) {
@@ -61,31 +63,90 @@ export function validateSessionInternalState(data: unknown): ValidationResult<z.
   return safeParse(schemas.SessionInternalStateSchema, data);
 }
 
-export function validateStageExecution(data: unknown): ValidationResult<z.infer<typeof schemas.StageExecutionSchema>> {
-  return safeParse(schemas.StageExecutionSchema, data);
+/**
+ * Narrow a loose SessionInternalState into its status-discriminated variant.
+ * Fails when the fields do not match what the status requires, so callers get
+ * exhaustive `switch (state.status)` checking on success.
+ *
+ * @example
+ * const result = narrowSessionState(session);
+ * if (result.success) {
+ *   switch (result.data.status) {
+ *     case 'processing': return result.data.current_stage;
+ *     case 'completed': return result.data.firestore_path;
+ *     // ...
+ *   }
+ * }
+ */
+export function narrowSessionState(data: unknown): ValidationResult<DiscriminatedSessionState> {
+  return safeParse(schemas.DiscriminatedSessionStateSchema, data);
+}
+
+// One validator per pipeline family, so the result type follows the family without casts
+const STAGE_EXECUTION_VALIDATORS: { [P in PipelineFamily]: (data: unknown) => ValidationResult<StageExecution<P>> } = {
+  bridge_forge: data => safeParse(schemas.PIPELINE_STAGE_EXECUTION_SCHEMAS.bridge_forge, data),
+  video_vlm: data => safeParse(schemas.PIPELINE_STAGE_EXECUTION_SCHEMAS.video_vlm, data),
+  text_generation: data => safeParse(schemas.PIPELINE_STAGE_EXECUTION_SCHEMAS.text_generation, data)
+};
+
+/**
+ * Validate a stage execution of a bridge Forge job, or of the given pipeline family
+ *
+ * @example
+ * validateStageExecution(data)              // stage A-U
+ * validateStageExecution(data, 'video_vlm') // stage V, M, S or U
+ */
+export function validateStageExecution(data: unknown): ValidationResult<StageExecution>;
+export function validateStageExecution<P extends PipelineFamily>(data: unknown, pipeline: P): ValidationResult<StageExecution<P>>;
+export function validateStageExecution(
+  data: unknown,
+  pipeline: PipelineFamily = 'bridge_forge'
+): ValidationResult<StageExecution<PipelineFamily>> {
+  return STAGE_EXECUTION_VALIDATORS[pipeline](data);
 }
 
 // ============================================================================
 // Progress Calculation Utilities
 // ============================================================================
 
-/**
- * Calculate progress from stage executions array
- * Based on actual Forge pipeline behavior from COMPLETE_PAYLOAD_EXTRACTION.md
- */
-export function calculateProgress(stage_executions: StageExecution[]): JobProgress {
-  const completedStages = stage_executions.filter(s => s.status === 'completed');
-  const progressPercent = Math.round((completedStages.length / TOTAL_STAGES) * 100);
+/** Stage execution fields used for progress, shared by every pipeline family */
+type ProgressExecution = Pick<StageExecution<PipelineFamily>, 'stage' | 'status' | 'started_at' | 'completed_at'>;
+
+/** JobProgress fields that are computed the same way for every pipeline family */
+interface ProgressCore<S extends string> {
+  processing_id: string;
+  progress_percent: number;
+  current_stage: S;
+  stage_name: string;
+  stages_completed: S[];
+  stages_total: number;
+  elapsed_seconds: number;
+  stage_durations: Record<string, number>;
+}
+
+function computeProgressCore<S extends string>(
+  stages: readonly S[],
+  label: (stage: S) => string,
+  stage_executions: readonly ProgressExecution[],
+  processing_id: string
+): ProgressCore<S> {
+  // Executions of stages outside the pipeline are ignored
+  const executions = stage_executions.flatMap(execution => {
+    const stage = stages.find(code => code === execution.stage);
+    return stage === undefined ? [] : [{ ...execution, stage }];
+  });
+  const completedStages = executions.filter(s => s.status === 'completed');
+  const progressPercent = Math.round((completedStages.length / stages.length) * 100);
   
   // Determine current stage (last started stage)
-  const sortedByStartTime = [...stage_executions].sort(
+  const sortedByStartTime = [...executions].sort(
     (a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime()
   );
-  const currentStage = sortedByStartTime[sortedByStartTime.length - 1]?.stage as Stage || 'A';
+  const currentStage = sortedByStartTime[sortedByStartTime.length - 1]?.stage || stages[0];
   
   // Calculate stage durations
   const stageDurations: Record<string, number> = {};
-  for (const execution of stage_executions) {
+  for (const execution of executions) {
     if (execution.completed_at) {
       const startTime = new Date(execution.started_at).getTime();
       const endTime = new Date(execution.completed_at).getTime();
@@ -99,32 +160,80 @@ export function calculateProgress(stage_executions: StageExecution[]): JobProgre
     ? Math.floor((Date.now() - new Date(firstStage.started_at).getTime()) / 1000)
     : 0;
   
-  const processing_id = stage_executions[0]?.stage || 'unknown'; // This should come from manifest
-  
   return {
     processing_id,
     progress_percent: progressPercent,
     current_stage: currentStage,
-    stage_name: getStageLabel(currentStage),
+    stage_name: label(currentStage),
     stages_completed: completedStages.map(s => s.stage),
-    stages_total: TOTAL_STAGES,
+    stages_total: stages.length,
     elapsed_seconds: elapsedSeconds,
     stage_durations: stageDurations
   };
 }
 
+// One calculator per pipeline family; bridge Forge results leave `pipeline` out
+const PROGRESS_CALCULATORS: {
+  [P in PipelineFamily]: (stage_executions: readonly ProgressExecution[], processing_id: string) => JobProgress<P>
+} = {
+  bridge_forge: (executions, processing_id) =>
+    computeProgressCore(PIPELINE_STAGES.bridge_forge, stage => getPipelineStageLabel('bridge_forge', stage), executions, processing_id),
+  video_vlm: (executions, processing_id) => ({
+    pipeline: 'video_vlm',
+    ...computeProgressCore(PIPELINE_STAGES.video_vlm, stage => getPipelineStageLabel('video_vlm', stage), executions, processing_id)
+  }),
+  text_generation: (executions, processing_id) => ({
+    pipeline: 'text_generation',
+    ...computeProgressCore(PIPELINE_STAGES.text_generation, stage => getPipelineStageLabel('text_generation', stage), executions, processing_id)
+  })
+};
+
+/**
+ * Calculate progress from stage executions array
+ * Based on actual Forge pipeline behavior from COMPLETE_PAYLOAD_EXTRACTION.md
+ *
+ * Counts every stage equally and has no ETA; use computeJobProgress
+ * (progress-engine.ts) when the manifest or session document is available.
+ * Pass the pipeline family for video-forge jobs; the result then carries it
+ * in `pipeline` (bridge Forge results leave it out).
+ *
+ * @example
+ * calculateProgress(manifest.stage_executions, manifest.processing_id)
+ * calculateProgress(videoExecutions, 'proc_456', 'video_vlm') // { pipeline: 'video_vlm', current_stage: 'M', ... }
+ */
+export function calculateProgress(stage_executions: readonly StageExecution[], processing_id: string): JobProgress;
+/** @deprecated Pass the job's processing_id; without it the result reports 'unknown' */
+export function calculateProgress(stage_executions: readonly StageExecution[]): JobProgress;
+export function calculateProgress<P extends PipelineFamily>(
+  stage_executions: readonly StageExecution<P>[],
+  processing_id: string,
+  pipeline: P
+): JobProgress<P>;
+export function calculateProgress(
+  stage_executions: readonly ProgressExecution[],
+  processing_id = 'unknown',
+  pipeline: PipelineFamily = 'bridge_forge'
+): JobProgress<PipelineFamily> {
+  return PROGRESS_CALCULATORS[pipeline](stage_executions, processing_id);
+}
+
 /**
- * Check if all stages are completed
+ * Check if all stages are completed: as many completed executions of the
+ * pipeline's stages as the pipeline has stages
  */
-export function isProcessingComplete(stage_executions: StageExecution[]): boolean {
-  const completedStages = stage_executions.filter(s => s.status === 'completed');
-  return completedStages.length === TOTAL_STAGES;
+export function isProcessingComplete(
+  stage_executions: readonly ProgressExecution[],
+  pipeline: PipelineFamily = 'bridge_forge'
+): boolean {
+  const stages: readonly string[] = PIPELINE_STAGES[pipeline];
+  const completedStages = stage_executions.filter(s => s.status === 'completed' && stages.includes(s.stage));
+  return completedStages.length === stages.length;
 }
 
 /**
  * Get failed stages
  */
-export function getFailedStages(stage_executions: StageExecution[]): StageExecution[] {
+export function getFailedStages<E extends Pick<ProgressExecution, 'status'>>(stage_executions: readonly E[]): E[] {
   return stage_executions.filter(s => s.status === 'failed');
 }
 
@@ -10,6 +10,7 @@
  */
 
 import { z } from 'zod';
+import { parseConditionExpression } from './condition-expression.js';
 
 // ============================================================================
 // Shared Enums
@@ -119,6 +120,23 @@ export const ConditionalDetailsSchema = z.object({
 });
 export type ConditionalDetails = z.infer<typeof ConditionalDetailsSchema>;
 
+/**
+ * ConditionalDetailsSchema plus a refinement that the condition parses as
+ * simple_expr_v1. Kept separate because existing data may hold free-text
+ * conditions; use this for new writes and exporters that need the AST.
+ */
+export const ValidatedConditionalDetailsSchema = ConditionalDetailsSchema.superRefine((details, ctx) => {
+  const result = parseConditionExpression(details.condition);
+  if (!result.success) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['condition'],
+      message: `Invalid ${details.condition_language} expression at position ${result.error.position}: ${result.error.message}`,
+      params: { position: result.error.position }
+    });
+  }
+});
+
 // ============================================================================
 // Video Workflow Guide Content Schema (video_workflow_guide_content.json)
 // This is for VIDEO-FORGE outputs, not bridge workflows
@@ -471,6 +489,30 @@ export const KnowledgeBaseContentSchema = z.object({
   augmentation_history: z.array(AugmentationHistoryEntrySchema).optional(),
 });
 
+// ============================================================================
+// Strict v2 Knowledge Schemas (new writes only)
+// ============================================================================
+
+// v2 vocabularies without the legacy values - use for new writes.
+// Existing data can be mapped onto these with normalizeKnowledgeBaseToV2().
+export const KnowledgeItemTypeV2Schema = z.enum(['fact', 'procedure', 'rule', 'pointer', 'example', 'identity', 'gap']);
+export type KnowledgeItemTypeV2 = z.infer<typeof KnowledgeItemTypeV2Schema>;
+
+export const KnowledgeImportanceV2Schema = z.enum(['critical', 'standard']);
+export type KnowledgeImportanceV2 = z.infer<typeof KnowledgeImportanceV2Schema>;
+
+export const StrictKnowledgeItemSchema = KnowledgeItemSchema.extend({
+  type: KnowledgeItemTypeV2Schema,
+  importance: KnowledgeImportanceV2Schema
+});
+
+export const StrictKnowledgeBaseContentSchema = KnowledgeBaseContentSchema.extend({
+  knowledge_items: z.array(StrictKnowledgeItemSchema)
+});
+
+export type StrictKnowledgeItem = z.infer<typeof StrictKnowledgeItemSchema>;
+export type StrictKnowledgeBaseContent = z.infer<typeof StrictKnowledgeBaseContentSchema>;
+
 export type SessionSummary = z.infer<typeof SessionSummarySchema>;
 export type KnowledgeItem = z.infer<typeof KnowledgeItemSchema>;
 export type ConceptRelationship = z.infer<typeof ConceptRelationshipSchema>;
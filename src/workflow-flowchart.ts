@@ -0,0 +1,220 @@
+/**
+ * Workflow Flowchart Rendering
+ *
+ * Renders a VideoWorkflowGuideContent as Mermaid or Graphviz DOT text, built on
+ * the control-flow graph from workflow-graph.ts:
+ * - Steps are grouped into one subgraph per temporal phase (via getStepPhaseIndex);
+ *   ungrouped steps are drawn outside any subgraph
+ * - Conditional steps are diamonds, hitl and gap steps get their own shapes
+ * - Conditional edges are labelled with the true/false action
+ *
+ * The admin panel, MCP tools and exports all use these so the diagram is identical.
+ */
+
+import type { VideoWorkflowGuideContent, StepType } from './video-artifacts.js';
+import { buildWorkflowGraph, WORKFLOW_GRAPH_END } from './workflow-graph.js';
+import type { WorkflowGraph, WorkflowGraphEdge, WorkflowGraphTarget } from './workflow-graph.js';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+export interface FlowchartOptions {
+  /** Layout direction (default: 'top-down') */
+  direction?: 'top-down' | 'left-right';
+  /** Truncate node and edge labels to this many characters (default: 60) */
+  maxLabelLength?: number;
+  /** Draw Start/End nodes (default: true) */
+  includeStartEnd?: boolean;
+}
+
+const DEFAULT_MAX_LABEL_LENGTH = 60;
+
+/**
+ * Shape per step type, for both output formats
+ */
+export const FLOWCHART_STEP_SHAPES: Record<StepType, { mermaid: [string, string]; dot: string; dotStyle?: string }> = {
+  do: { mermaid: ['[', ']'], dot: 'box' },
+  check: { mermaid: ['(', ')'], dot: 'box', dotStyle: 'rounded' },
+  conditional: { mermaid: ['{', '}'], dot: 'diamond' },
+  hitl: { mermaid: ['[/', '/]'], dot: 'parallelogram' },
+  gap: { mermaid: ['{{', '}}'], dot: 'hexagon', dotStyle: 'dashed' }
+};
+
+// ============================================================================
+// Shared Layout Model
+// ============================================================================
+
+interface FlowchartNode {
+  id: string;
+  label: string;
+  step_type: StepType;
+}
+
+interface FlowchartCluster {
+  id: string;
+  label: string;
+  nodes: FlowchartNode[];
+}
+
+interface FlowchartEdge {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+interface FlowchartModel {
+  clusters: FlowchartCluster[];
+  ungrouped: FlowchartNode[];
+  edges: FlowchartEdge[];
+  includeStartEnd: boolean;
+}
+
+const START_ID = 'start';
+const END_ID = 'end_node';
+
+function truncate(text: string, max: number): string {
+  const single = text.replace(/\s+/g, ' ').trim();
+  return single.length > max ? `${single.slice(0, Math.max(0, max - 1)).trimEnd()}…` : single;
+}
+
+function stepNodeId(stepNumber: number): string {
+  // Step numbers may be fractional (e.g. 2.5 inserted by edits)
+  return `step_${String(stepNumber).replace(/[^0-9]/g, '_')}`;
+}
+
+function targetId(target: WorkflowGraphTarget): string {
+  return target === WORKFLOW_GRAPH_END ? END_ID : stepNodeId(target);
+}
+
+function edgeLabel(edge: WorkflowGraphEdge, max: number): string | undefined {
+  if (edge.kind === 'next') return undefined;
+  const prefix = edge.kind === 'if_true' ? 'Yes' : 'No';
+  return edge.label ? truncate(`${prefix}: ${edge.label}`, max) : prefix;
+}
+
+function buildModel(content: VideoWorkflowGuideContent, graph: WorkflowGraph, options: FlowchartOptions): FlowchartModel {
+  const max = options.maxLabelLength ?? DEFAULT_MAX_LABEL_LENGTH;
+  const includeStartEnd = options.includeStartEnd ?? true;
+
+  const clusters: FlowchartCluster[] = content.temporal_phases.map((phase, i) => ({
+    id: `phase_${i + 1}`,
+    label: truncate(`${phase.phase_number}. ${phase.name}`, max),
+    nodes: []
+  }));
+  const ungrouped: FlowchartNode[] = [];
+
+  for (const node of graph.nodes) {
+    const flowNode: FlowchartNode = {
+      id: stepNodeId(node.step_number),
+      label: truncate(`${node.step_number}. ${node.title}`, max),
+      step_type: node.step_type
+    };
+    if (node.phase_index !== null) clusters[node.phase_index].nodes.push(flowNode);
+    else ungrouped.push(flowNode);
+  }
+
+  const edges: FlowchartEdge[] = [];
+  if (includeStartEnd) {
+    edges.push({ from: START_ID, to: graph.entry !== null ? stepNodeId(graph.entry) : END_ID });
+  }
+  for (const edge of graph.edges) {
+    if (edge.to === WORKFLOW_GRAPH_END && !includeStartEnd) continue;
+    const label = edgeLabel(edge, max);
+    edges.push({ from: stepNodeId(edge.from), to: targetId(edge.to), ...(label && { label }) });
+  }
+
+  return { clusters: clusters.filter(c => c.nodes.length > 0), ungrouped, edges, includeStartEnd };
+}
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+function mermaidText(text: string): string {
+  return `"${text.replace(/"/g, '#quot;')}"`;
+}
+
+function mermaidNode(node: FlowchartNode): string {
+  const [open, close] = FLOWCHART_STEP_SHAPES[node.step_type].mermaid;
+  return `${node.id}${open}${mermaidText(node.label)}${close}`;
+}
+
+/**
+ * Render a workflow guide as a Mermaid flowchart
+ *
+ * @example
+ * const mermaid = renderWorkflowMermaid(content);
+ * // flowchart TD
+ * //   start(["Start"])
+ * //   subgraph phase_1["1. Review"]
+ * //     step_1["1. Open the invoice"]
+ * //   ...
+ */
+export function renderWorkflowMermaid(content: VideoWorkflowGuideContent, options: FlowchartOptions = {}): string {
+  const model = buildModel(content, buildWorkflowGraph(content), options);
+  const lines = [`flowchart ${options.direction === 'left-right' ? 'LR' : 'TD'}`];
+
+  if (model.includeStartEnd) lines.push(`  ${START_ID}(["Start"])`);
+  for (const cluster of model.clusters) {
+    lines.push(`  subgraph ${cluster.id}[${mermaidText(cluster.label)}]`);
+    for (const node of cluster.nodes) lines.push(`    ${mermaidNode(node)}`);
+    lines.push('  end');
+  }
+  for (const node of model.ungrouped) lines.push(`  ${mermaidNode(node)}`);
+  if (model.includeStartEnd) lines.push(`  ${END_ID}(["End"])`);
+
+  for (const edge of model.edges) {
+    lines.push(edge.label
+      ? `  ${edge.from} -->|${mermaidText(edge.label)}| ${edge.to}`
+      : `  ${edge.from} --> ${edge.to}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// Graphviz DOT
+// ============================================================================
+
+function dotText(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function dotNode(node: FlowchartNode): string {
+  const shape = FLOWCHART_STEP_SHAPES[node.step_type];
+  const style = shape.dotStyle ? `, style=${shape.dotStyle}` : '';
+  return `${node.id} [label=${dotText(node.label)}, shape=${shape.dot}${style}];`;
+}
+
+/**
+ * Render a workflow guide as a Graphviz DOT digraph (phases become clusters)
+ */
+export function renderWorkflowDot(content: VideoWorkflowGuideContent, options: FlowchartOptions = {}): string {
+  const model = buildModel(content, buildWorkflowGraph(content), options);
+  const lines = [
+    'digraph workflow {',
+    `  rankdir=${options.direction === 'left-right' ? 'LR' : 'TB'};`,
+    '  node [fontname="Helvetica"];',
+    '  edge [fontname="Helvetica"];'
+  ];
+
+  if (model.includeStartEnd) lines.push(`  ${START_ID} [label="Start", shape=oval];`);
+  model.clusters.forEach((cluster, i) => {
+    lines.push(`  subgraph cluster_${i + 1} {`);
+    lines.push(`    label=${dotText(cluster.label)};`);
+    for (const node of cluster.nodes) lines.push(`    ${dotNode(node)}`);
+    lines.push('  }');
+  });
+  for (const node of model.ungrouped) lines.push(`  ${dotNode(node)}`);
+  if (model.includeStartEnd) lines.push(`  ${END_ID} [label="End", shape=oval];`);
+
+  for (const edge of model.edges) {
+    lines.push(edge.label
+      ? `  ${edge.from} -> ${edge.to} [label=${dotText(edge.label)}];`
+      : `  ${edge.from} -> ${edge.to};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
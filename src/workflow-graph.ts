@@ -0,0 +1,325 @@
+/**
+ * Workflow Control-Flow Graph
+ *
+ * Turns VideoWorkflowGuideContent into a directed graph of steps:
+ * - Non-conditional steps flow to the next step in guide order (the last step flows to END)
+ * - Conditional steps get an if_true and an if_false edge; condition_details.target_steps
+ *   overrides the fall-through target for either branch
+ *
+ * The analysis reports dangling targets, unreachable steps, cycles, steps that can
+ * never reach END, and gaps/duplicates in step numbering. Exporters and the flowchart
+ * view consume the graph directly.
+ */
+
+import { getStepPhaseIndex } from './video-artifacts.js';
+import type { VideoWorkflowGuideContent, VideoWorkflowStep, StepType } from './video-artifacts.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Sentinel target for edges that leave the workflow */
+export const WORKFLOW_GRAPH_END = 'end' as const;
+export type WorkflowGraphTarget = number | typeof WORKFLOW_GRAPH_END;
+
+export type WorkflowGraphEdgeKind = 'next' | 'if_true' | 'if_false';
+
+export interface WorkflowGraphNode {
+  step_number: number;
+  /** Index in step_by_step_guide */
+  index: number;
+  title: string;
+  /** Defaults to 'do' for steps without a step_type */
+  step_type: StepType;
+  /** Phase array index via getStepPhaseIndex, null when ungrouped */
+  phase_index: number | null;
+  step: VideoWorkflowStep;
+}
+
+export interface WorkflowGraphEdge {
+  from: number;
+  to: WorkflowGraphTarget;
+  kind: WorkflowGraphEdgeKind;
+  /** True/false action text for conditional branches */
+  label?: string;
+  /** Whether the target came from condition_details.target_steps (vs. fall-through) */
+  explicit: boolean;
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowGraphNode[];
+  edges: WorkflowGraphEdge[];
+  /** step_number of the first step, null for an empty guide */
+  entry: number | null;
+}
+
+export type WorkflowGraphIssueCode =
+  | 'step_number_gap'
+  | 'duplicate_step_number'
+  | 'dangling_target'
+  | 'unreachable_step'
+  | 'cycle'
+  | 'non_terminating';
+
+export interface WorkflowGraphIssue {
+  code: WorkflowGraphIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Index in step_by_step_guide of the offending step */
+  step_index?: number;
+  step_number?: number;
+  details?: Record<string, unknown>;
+}
+
+export interface WorkflowGraphAnalysis {
+  graph: WorkflowGraph;
+  issues: WorkflowGraphIssue[];
+  /** No error-severity issues (warnings such as intentional loops are allowed) */
+  valid: boolean;
+}
+
+// ============================================================================
+// Graph Construction
+// ============================================================================
+
+function isConditional(step: VideoWorkflowStep): boolean {
+  return step.step_type === 'conditional' && step.condition_details !== undefined;
+}
+
+function buildGraph(content: VideoWorkflowGuideContent): { graph: WorkflowGraph; issues: WorkflowGraphIssue[] } {
+  const issues: WorkflowGraphIssue[] = [];
+  const nodes: WorkflowGraphNode[] = [];
+  const seen = new Set<number>();
+
+  content.step_by_step_guide.forEach((step, index) => {
+    const stepNumber = step.step_number;
+    if (seen.has(stepNumber)) {
+      issues.push({
+        code: 'duplicate_step_number',
+        severity: 'error',
+        message: `Step number ${stepNumber} is used more than once`,
+        step_index: index,
+        step_number: stepNumber
+      });
+      return;
+    }
+    seen.add(stepNumber);
+    nodes.push({
+      step_number: stepNumber,
+      index,
+      title: step.title,
+      step_type: step.step_type ?? 'do',
+      phase_index: getStepPhaseIndex(step, content.temporal_phases),
+      step
+    });
+  });
+
+  // Steps are numbered 1, 2, 3, ...; a gap usually means a step was deleted or merged
+  const gaps: Array<{ from: number; to: number }> = [];
+  let previous = 0;
+  for (const stepNumber of [...seen].sort((a, b) => a - b)) {
+    if (stepNumber > previous + 1) gaps.push({ from: previous + 1, to: Math.ceil(stepNumber) - 1 });
+    previous = stepNumber;
+  }
+  if (gaps.length > 0) {
+    issues.push({
+      code: 'step_number_gap',
+      severity: 'warning',
+      message: `Step numbering skips ${gaps.map(gap => gap.from === gap.to ? gap.from : `${gap.from}-${gap.to}`).join(', ')}`,
+      details: { gaps }
+    });
+  }
+
+  const edges: WorkflowGraphEdge[] = [];
+
+  nodes.forEach((node, i) => {
+    const fallThrough: WorkflowGraphTarget = nodes[i + 1]?.step_number ?? WORKFLOW_GRAPH_END;
+
+    if (!isConditional(node.step)) {
+      edges.push({ from: node.step_number, to: fallThrough, kind: 'next', explicit: false });
+      return;
+    }
+
+    const details = node.step.condition_details!;
+    const branches: Array<[WorkflowGraphEdgeKind, number | undefined, string | undefined]> = [
+      ['if_true', details.target_steps?.if_true, details.true_action],
+      ['if_false', details.target_steps?.if_false, details.false_action]
+    ];
+
+    for (const [kind, target, label] of branches) {
+      if (target !== undefined && !seen.has(target)) {
+        issues.push({
+          code: 'dangling_target',
+          severity: 'error',
+          message: `Step ${node.step_number} ${kind} targets step ${target}, which does not exist`,
+          step_index: node.index,
+          step_number: node.step_number,
+          details: { branch: kind, target }
+        });
+        continue;
+      }
+      edges.push({
+        from: node.step_number,
+        to: target ?? fallThrough,
+        kind,
+        ...(label && { label }),
+        explicit: target !== undefined
+      });
+    }
+  });
+
+  return {
+    graph: { nodes, edges, entry: nodes[0]?.step_number ?? null },
+    issues
+  };
+}
+
+/**
+ * Build the control-flow graph of a workflow guide.
+ * Steps with a duplicate step_number are left out; dangling branch
+ * targets produce no edge. Use analyzeWorkflowGraph() to get those reported.
+ */
+export function buildWorkflowGraph(content: VideoWorkflowGuideContent): WorkflowGraph {
+  return buildGraph(content).graph;
+}
+
+/**
+ * Successor edges of a step, in branch order (if_true before if_false)
+ */
+export function getStepSuccessors(graph: WorkflowGraph, stepNumber: number): WorkflowGraphEdge[] {
+  return graph.edges.filter(edge => edge.from === stepNumber);
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+function adjacency(graph: WorkflowGraph): Map<number, number[]> {
+  const map = new Map<number, number[]>(graph.nodes.map(n => [n.step_number, []]));
+  for (const edge of graph.edges) {
+    if (edge.to !== WORKFLOW_GRAPH_END) map.get(edge.from)!.push(edge.to);
+  }
+  return map;
+}
+
+// Tarjan's strongly connected components; returns components that form a cycle
+function findCycles(graph: WorkflowGraph, adj: Map<number, number[]>): number[][] {
+  let counter = 0;
+  const index = new Map<number, number>();
+  const low = new Map<number, number>();
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+  const cycles: number[][] = [];
+
+  const visit = (v: number) => {
+    index.set(v, counter);
+    low.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+
+    for (const w of adj.get(v)!) {
+      if (!index.has(w)) {
+        visit(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+
+    if (low.get(v) === index.get(v)) {
+      const component: number[] = [];
+      let w: number;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+      if (component.length > 1 || adj.get(v)!.includes(v)) {
+        cycles.push(component.sort((a, b) => a - b));
+      }
+    }
+  };
+
+  for (const node of graph.nodes) {
+    if (!index.has(node.step_number)) visit(node.step_number);
+  }
+  return cycles;
+}
+
+/**
+ * Build the graph and report structural problems.
+ *
+ * Errors: duplicate step_number, dangling targets, steps that can never reach
+ * the end of the workflow. Warnings: gaps in step numbering, unreachable steps
+ * and cycles that can still exit (loops are sometimes intentional, e.g.
+ * "repeat for each row").
+ *
+ * @example
+ * const { graph, issues, valid } = analyzeWorkflowGraph(content);
+ * if (!valid) issues.filter(i => i.severity === 'error').forEach(i => console.warn(i.message));
+ */
+export function analyzeWorkflowGraph(content: VideoWorkflowGuideContent): WorkflowGraphAnalysis {
+  const { graph, issues } = buildGraph(content);
+  const adj = adjacency(graph);
+  const byNumber = new Map(graph.nodes.map(n => [n.step_number, n]));
+
+  // Reachability from the entry step
+  const reachable = new Set<number>();
+  if (graph.entry !== null) {
+    const queue = [graph.entry];
+    while (queue.length > 0) {
+      const v = queue.shift()!;
+      if (reachable.has(v)) continue;
+      reachable.add(v);
+      queue.push(...adj.get(v)!);
+    }
+  }
+  for (const node of graph.nodes) {
+    if (!reachable.has(node.step_number)) {
+      issues.push({
+        code: 'unreachable_step',
+        severity: 'warning',
+        message: `Step ${node.step_number} cannot be reached from step ${graph.entry}`,
+        step_index: node.index,
+        step_number: node.step_number
+      });
+    }
+  }
+
+  // Which steps can reach END (reverse reachability)
+  const terminates = new Set<number>();
+  const reverse = new Map<number, number[]>(graph.nodes.map(n => [n.step_number, []]));
+  const queue: number[] = [];
+  for (const edge of graph.edges) {
+    if (edge.to === WORKFLOW_GRAPH_END) queue.push(edge.from);
+    else reverse.get(edge.to)!.push(edge.from);
+  }
+  while (queue.length > 0) {
+    const v = queue.shift()!;
+    if (terminates.has(v)) continue;
+    terminates.add(v);
+    queue.push(...reverse.get(v)!);
+  }
+
+  for (const cycle of findCycles(graph, adj)) {
+    const canExit = cycle.some(v => terminates.has(v));
+    const first = byNumber.get(cycle[0])!;
+    issues.push({
+      code: canExit ? 'cycle' : 'non_terminating',
+      severity: canExit ? 'warning' : 'error',
+      message: canExit
+        ? `Steps ${cycle.join(', ')} form a loop`
+        : `Steps ${cycle.join(', ')} form a loop that never reaches the end of the workflow`,
+      step_index: first.index,
+      step_number: first.step_number,
+      details: { steps: cycle }
+    });
+  }
+
+  return {
+    graph,
+    issues,
+    valid: !issues.some(issue => issue.severity === 'error')
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Workflow Guide Schema Migrations
+ *
+ * Registry of pure migration functions that upgrade VideoWorkflowGuideContent
+ * between schema versions (see WorkflowSchemaVersionSchema):
+ * - 1.0 → 2.0: tools_used → applications, quick_reference → workflow_notes, step_type filled in
+ * - 2.0 → 3.0: legacy conditional text → condition_details
+ *
+ * Every migration reports the fields it changed so the admin panel and MCP tools
+ * can show (and log) exactly what an upgrade did, and warns about what it
+ * could not convert.
+ */
+
+import { WorkflowSchemaVersionSchema } from './video-artifacts.js';
+import type {
+  VideoWorkflowGuideContent,
+  VideoWorkflowStep,
+  VideoWorkflowNotes,
+  StepType,
+  ConditionalDetails,
+  WorkflowSchemaVersion
+} from './video-artifacts.js';
+import { normalizeDeprecatedFields, VIDEO_TASK_SUMMARY_DEPRECATED_FIELDS } from './deprecated-fields.js';
+import { toSimpleExpression } from './condition-expression.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const WORKFLOW_SCHEMA_VERSIONS = WorkflowSchemaVersionSchema.options;
+export const LATEST_WORKFLOW_SCHEMA_VERSION: WorkflowSchemaVersion =
+  WORKFLOW_SCHEMA_VERSIONS[WORKFLOW_SCHEMA_VERSIONS.length - 1];
+
+export interface WorkflowMigrationChange {
+  /** Field path, e.g. "step_by_step_guide[2].step_type" */
+  path: string;
+  kind: 'added' | 'removed' | 'renamed' | 'modified';
+  description: string;
+  from_version: WorkflowSchemaVersion;
+  to_version: WorkflowSchemaVersion;
+}
+
+export type WorkflowMigrationStepChange = Omit<WorkflowMigrationChange, 'from_version' | 'to_version'>;
+
+/** Something a migration left unconverted (the content is still valid) */
+export interface WorkflowMigrationWarning {
+  path: string;
+  message: string;
+  from_version: WorkflowSchemaVersion;
+  to_version: WorkflowSchemaVersion;
+}
+
+export type WorkflowMigrationStepWarning = Omit<WorkflowMigrationWarning, 'from_version' | 'to_version'>;
+
+export interface WorkflowGuideMigration {
+  from: WorkflowSchemaVersion;
+  to: WorkflowSchemaVersion;
+  description: string;
+  /** Pure function - must not mutate its input */
+  migrate: (content: VideoWorkflowGuideContent) => {
+    content: VideoWorkflowGuideContent;
+    changes: WorkflowMigrationStepChange[];
+    warnings?: WorkflowMigrationStepWarning[];
+  };
+}
+
+export type WorkflowMigrationResult = {
+  success: true;
+  content: VideoWorkflowGuideContent;
+  fromVersion: WorkflowSchemaVersion;
+  toVersion: WorkflowSchemaVersion;
+  changes: WorkflowMigrationChange[];
+  warnings: WorkflowMigrationWarning[];
+} | {
+  success: false;
+  message: string;
+};
+
+// ============================================================================
+// Legacy Text Heuristics
+// ============================================================================
+
+const CONDITIONAL_TEXT = /^\s*if\b|\bif\b.+\b(then|otherwise|else)\b/i;
+const CHECK_TEXT = /^\s*(verify|check|confirm|ensure|validate|make sure)\b/i;
+
+// "If <condition>, [then] <true action>[. Otherwise <false action>]"
+const LEGACY_CONDITIONAL = /^\s*if\s+(.+?)(?:\s*,\s*then\s+|\s*,\s*|\s+then\s+)(.+?)(?:\s*[.;,]\s*(?:otherwise|else)\s*[,:]?\s*(.+?))?\s*\.?\s*$/i;
+
+/**
+ * Infer a step type for pre-2.0 steps from their title and action text
+ */
+export function inferStepType(step: Pick<VideoWorkflowStep, 'title' | 'action'>): StepType {
+  if (CONDITIONAL_TEXT.test(step.action) || CONDITIONAL_TEXT.test(step.title)) return 'conditional';
+  if (CHECK_TEXT.test(step.title) || CHECK_TEXT.test(step.action)) return 'check';
+  return 'do';
+}
+
+/**
+ * Build condition_details from the free-text action of a legacy conditional step.
+ * Falls back to the title as condition and the action as true_action when the
+ * text does not follow the "If X, then Y. Otherwise Z" shape.
+ *
+ * The condition is converted to simple_expr_v1 (toSimpleExpression); returns
+ * undefined when it is natural language that does not convert, e.g.
+ * "the invoice total is over 100". The title fallback must be a comparison,
+ * so a title such as "Approve" is not read as a variable.
+ *
+ * @example
+ * deriveConditionDetails({ title: 'Route', action: 'If amount > 10000, then forward to finance' })
+ * // { condition: 'amount > 10000', true_action: 'forward to finance', condition_language: 'simple_expr_v1' }
+ */
+export function deriveConditionDetails(step: Pick<VideoWorkflowStep, 'title' | 'action'>): ConditionalDetails | undefined {
+  const match = LEGACY_CONDITIONAL.exec(step.action);
+  if (match) {
+    const condition = toSimpleExpression(match[1]);
+    if (condition === undefined) return undefined;
+    return {
+      condition,
+      true_action: match[2].trim(),
+      ...(match[3] && { false_action: match[3].trim() }),
+      condition_language: 'simple_expr_v1'
+    };
+  }
+  const condition = toSimpleExpression(step.title, { requireComparison: true });
+  if (condition === undefined || !step.action.trim()) return undefined;
+  return {
+    condition,
+    true_action: step.action.trim(),
+    condition_language: 'simple_expr_v1'
+  };
+}
+
+function quickReferenceToNotes(content: VideoWorkflowGuideContent): VideoWorkflowNotes | undefined {
+  const ref = content.quick_reference;
+  if (!ref) return undefined;
+  return {
+    success_criteria: [...ref.verification_steps],
+    constraints: [...ref.prerequisites],
+    pointers: [...ref.key_commands, ...ref.common_issues]
+  };
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+const migrateV1ToV2: WorkflowGuideMigration = {
+  from: '1.0',
+  to: '2.0',
+  description: 'Rename tools_used to applications, convert quick_reference to workflow_notes, fill step_type',
+  migrate: (input) => {
+    const changes: WorkflowMigrationStepChange[] = [];
+
+    const summary = normalizeDeprecatedFields(input.task_summary, VIDEO_TASK_SUMMARY_DEPRECATED_FIELDS, 'task_summary');
+    for (const path of summary.legacyFields) {
+      changes.push({ path, kind: 'renamed', description: `${path} moved to task_summary.applications` });
+    }
+
+    const content: VideoWorkflowGuideContent = { ...input, task_summary: summary.data };
+
+    if (!content.workflow_notes && content.quick_reference) {
+      content.workflow_notes = quickReferenceToNotes(content);
+      delete content.quick_reference;
+      changes.push({
+        path: 'quick_reference',
+        kind: 'renamed',
+        description: 'quick_reference converted to workflow_notes (verification_steps → success_criteria, prerequisites → constraints, key_commands + common_issues → pointers)'
+      });
+    }
+
+    content.step_by_step_guide = input.step_by_step_guide.map((step, i) => {
+      if (step.step_type) return step;
+      const step_type = inferStepType(step);
+      changes.push({
+        path: `step_by_step_guide[${i}].step_type`,
+        kind: 'added',
+        description: `step_type inferred as "${step_type}"`
+      });
+      return { ...step, step_type };
+    });
+
+    return { content, changes };
+  }
+};
+
+const migrateV2ToV3: WorkflowGuideMigration = {
+  from: '2.0',
+  to: '3.0',
+  description: 'Map legacy conditional text into condition_details',
+  migrate: (input) => {
+    const changes: WorkflowMigrationStepChange[] = [];
+    const warnings: WorkflowMigrationStepWarning[] = [];
+
+    const step_by_step_guide = input.step_by_step_guide.map((step, i) => {
+      if (step.step_type !== 'conditional' || step.condition_details) return step;
+      const condition_details = deriveConditionDetails(step);
+      if (!condition_details) {
+        warnings.push({
+          path: `step_by_step_guide[${i}]`,
+          message: `Condition is not a simple_expr_v1 expression, left as text: "${step.action}"`
+        });
+        return step;
+      }
+      changes.push({
+        path: `step_by_step_guide[${i}].condition_details`,
+        kind: 'added',
+        description: `condition_details derived from step text (condition: "${condition_details.condition}")`
+      });
+      return { ...step, condition_details };
+    });
+
+    return { content: { ...input, step_by_step_guide }, changes, warnings };
+  }
+};
+
+/**
+ * Ordered registry of migrations; each entry upgrades exactly one version.
+ */
+export const WORKFLOW_GUIDE_MIGRATIONS: readonly WorkflowGuideMigration[] = [
+  migrateV1ToV2,
+  migrateV2ToV3
+];
+
+// ============================================================================
+// Migration Runner
+// ============================================================================
+
+function versionIndex(version: WorkflowSchemaVersion): number {
+  return WORKFLOW_SCHEMA_VERSIONS.indexOf(version);
+}
+
+/**
+ * Upgrade workflow guide content to the target schema version.
+ * The input is never mutated. Downgrades are rejected.
+ *
+ * @param content - Parsed workflow guide content (schema_version defaults to '1.0')
+ * @param targetVersion - Version to migrate to (defaults to the latest)
+ * @returns Migrated content plus a report of every changed field and of what
+ *   was left unconverted
+ *
+ * @example
+ * const result = migrateWorkflowGuide(content);
+ * if (result.success) {
+ *   result.changes.forEach(c => console.log(`${c.path}: ${c.description}`));
+ * }
+ */
+export function migrateWorkflowGuide(
+  content: VideoWorkflowGuideContent,
+  targetVersion: WorkflowSchemaVersion = LATEST_WORKFLOW_SCHEMA_VERSION
+): WorkflowMigrationResult {
+  const fromVersion: WorkflowSchemaVersion = content.schema_version ?? '1.0';
+
+  if (versionIndex(targetVersion) < versionIndex(fromVersion)) {
+    return {
+      success: false,
+      message: `Cannot downgrade workflow guide from ${fromVersion} to ${targetVersion}`
+    };
+  }
+
+  let current = structuredClone(content);
+  let version = fromVersion;
+  const changes: WorkflowMigrationChange[] = [];
+  const warnings: WorkflowMigrationWarning[] = [];
+
+  while (version !== targetVersion) {
+    const migration = WORKFLOW_GUIDE_MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      return { success: false, message: `No migration registered from schema version ${version}` };
+    }
+
+    const result = migration.migrate(current);
+    current = { ...result.content, schema_version: migration.to };
+    changes.push(
+      ...result.changes.map(change => ({ ...change, from_version: migration.from, to_version: migration.to })),
+      {
+        path: 'schema_version',
+        kind: 'modified',
+        description: `schema_version ${migration.from} → ${migration.to}`,
+        from_version: migration.from,
+        to_version: migration.to
+      }
+    );
+    warnings.push(...(result.warnings ?? []).map(warning => ({ ...warning, from_version: migration.from, to_version: migration.to })));
+    version = migration.to;
+  }
+
+  return { success: true, content: current, fromVersion, toVersion: targetVersion, changes, warnings };
+}
@@ -0,0 +1,196 @@
+/**
+ * Minimal XML Parser
+ *
+ * Small non-validating XML parser for importing external process definitions
+ * (BPMN 2.0). Supports elements, attributes, text, CDATA and the predefined and
+ * numeric character entities. Comments, processing instructions and DOCTYPE
+ * declarations are skipped; namespaces are kept as written in the tag name
+ * (use xmlLocalName to ignore prefixes).
+ */
+
+export interface XmlElement {
+  /** Qualified name as written, e.g. 'bpmn:task' */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+/** Elements or text content */
+export type XmlNode = XmlElement | string;
+
+export type XmlParseResult =
+  | { success: true; root: XmlElement }
+  | { success: false; message: string; position: number };
+
+class XmlSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/** Character references must name a Unicode scalar value (no surrogates) */
+function decodeCharacterReference(match: string, codePoint: number, position: number): string {
+  if (!Number.isInteger(codePoint) || codePoint < 1 || codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF)) {
+    throw new XmlSyntaxError(`Invalid character reference ${match}`, position);
+  }
+  return String.fromCodePoint(codePoint);
+}
+
+function decodeEntities(text: string, position: number): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return decodeCharacterReference(match, parseInt(entity.slice(2), 16), position);
+    if (entity.startsWith('#')) return decodeCharacterReference(match, parseInt(entity.slice(1), 10), position);
+    const value = ENTITIES[entity];
+    if (value === undefined) throw new XmlSyntaxError(`Unknown entity ${match}`, position);
+    return value;
+  });
+}
+
+const NAME = /[A-Za-z_:][\w.:-]*/y;
+
+/**
+ * Parse an XML document into an element tree
+ *
+ * @example
+ * const parsed = parseXml('<a x="1"><b>text</b></a>');
+ * // { success: true, root: { name: 'a', attributes: { x: '1' }, children: [{ name: 'b', ... }] } }
+ */
+export function parseXml(text: string): XmlParseResult {
+  let pos = 0;
+
+  const fail = (message: string): never => { throw new XmlSyntaxError(message, pos); };
+  const skipTo = (terminator: string) => {
+    const end = text.indexOf(terminator, pos);
+    if (end < 0) fail(`Expected '${terminator}'`);
+    pos = end + terminator.length;
+  };
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const readName = (): string => {
+    NAME.lastIndex = pos;
+    const match = NAME.exec(text);
+    if (!match) fail('Expected a name');
+    pos += match![0].length;
+    return match![0];
+  };
+
+  /** Skip comments, processing instructions and DOCTYPE at the current position */
+  const skipMarkup = (): boolean => {
+    if (text.startsWith('<!--', pos)) skipTo('-->');
+    else if (text.startsWith('<?', pos)) skipTo('?>');
+    else if (text.startsWith('<!DOCTYPE', pos)) {
+      const bracket = text.indexOf('[', pos);
+      const close = text.indexOf('>', pos);
+      if (bracket >= 0 && bracket < close) skipTo(']');
+      skipTo('>');
+    } else return false;
+    return true;
+  };
+
+  const parseElement = (): XmlElement => {
+    pos++; // '<'
+    const name = readName();
+    const attributes: Record<string, string> = {};
+    for (;;) {
+      skipWhitespace();
+      if (text.startsWith('/>', pos)) {
+        pos += 2;
+        return { name, attributes, children: [] };
+      }
+      if (text[pos] === '>') {
+        pos++;
+        break;
+      }
+      const attribute = readName();
+      skipWhitespace();
+      if (text[pos] !== '=') fail(`Expected '=' after attribute ${attribute}`);
+      pos++;
+      skipWhitespace();
+      const quote = text[pos];
+      if (quote !== '"' && quote !== "'") fail(`Expected quoted value for attribute ${attribute}`);
+      const end = text.indexOf(quote, pos + 1);
+      if (end < 0) fail(`Unterminated value for attribute ${attribute}`);
+      attributes[attribute] = decodeEntities(text.slice(pos + 1, end), pos);
+      pos = end + 1;
+    }
+
+    const children: XmlNode[] = [];
+    for (;;) {
+      if (pos >= text.length) fail(`Unclosed element <${name}>`);
+      if (text.startsWith('</', pos)) {
+        pos += 2;
+        const closing = readName();
+        if (closing !== name) fail(`Expected </${name}> but found </${closing}>`);
+        skipWhitespace();
+        if (text[pos] !== '>') fail(`Expected '>' to close </${closing}`);
+        pos++;
+        return { name, attributes, children };
+      }
+      if (text.startsWith('<![CDATA[', pos)) {
+        const end = text.indexOf(']]>', pos);
+        if (end < 0) fail('Unterminated CDATA section');
+        children.push(text.slice(pos + 9, end));
+        pos = end + 3;
+      } else if (skipMarkup()) {
+        continue;
+      } else if (text[pos] === '<') {
+        children.push(parseElement());
+      } else {
+        const end = text.indexOf('<', pos);
+        const raw = text.slice(pos, end < 0 ? text.length : end);
+        children.push(decodeEntities(raw, pos));
+        pos += raw.length;
+      }
+    }
+  };
+
+  try {
+    for (;;) {
+      skipWhitespace();
+      if (pos >= text.length) fail('No root element');
+      if (!skipMarkup()) break;
+    }
+    if (text[pos] !== '<') fail('Expected a root element');
+    const root = parseElement();
+    for (;;) {
+      skipWhitespace();
+      if (pos >= text.length) break;
+      if (!skipMarkup()) fail('Unexpected content after the root element');
+    }
+    return { success: true, root };
+  } catch (error) {
+    if (error instanceof XmlSyntaxError) return { success: false, message: error.message, position: error.position };
+    throw error;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Tag or attribute name without its namespace prefix ('bpmn:task' -> 'task')
+ */
+export function xmlLocalName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon < 0 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Child elements, optionally only those with the given local name
+ */
+export function xmlChildren(element: XmlElement, localName?: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement =>
+    typeof child !== 'string' && (localName === undefined || xmlLocalName(child.name) === localName));
+}
+
+/**
+ * Concatenated text content of an element and its descendants, trimmed
+ */
+export function xmlText(element: XmlElement): string {
+  const collect = (node: XmlNode): string => typeof node === 'string' ? node : node.children.map(collect).join('');
+  return collect(element).trim();
+}
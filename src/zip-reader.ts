@@ -0,0 +1,100 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Reads ZIP archives such as XLSX workbooks saved by spreadsheet apps. Supports
+ * stored and deflated entries; deflate uses the platform DecompressionStream
+ * (browsers, Node 18+, edge runtimes), so no zlib dependency is needed.
+ * Encrypted, multi-disk and ZIP64 archives are rejected.
+ */
+
+import { crc32 } from './zip-writer.js';
+
+export type ZipReadResult = {
+  success: true;
+  /** Entry data by path ('xl/workbook.xml'); directories are left out */
+  entries: Map<string, Uint8Array>;
+} | {
+  success: false;
+  message: string;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 65535 bytes
+  const last = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let pos = view.byteLength - 22; pos >= last; pos--) {
+    if (view.getUint32(pos, true) === END_OF_CENTRAL_DIRECTORY) return pos;
+  }
+  return -1;
+}
+
+/**
+ * Read every file entry of a ZIP archive, checking sizes and CRC-32
+ *
+ * @example
+ * const zip = await readZip(new Uint8Array(await file.arrayBuffer()));
+ * const workbook = zip.success ? zip.entries.get('xl/workbook.xml') : undefined;
+ */
+export async function readZip(bytes: Uint8Array): Promise<ZipReadResult> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length >= 22 ? findEndOfCentralDirectory(view) : -1;
+  if (end < 0) return { success: false, message: 'Not a ZIP archive (no end of central directory record)' };
+
+  const count = view.getUint16(end + 10, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  if (view.getUint16(end + 4, true) !== 0 || centralOffset === 0xffffffff || count === 0xffff) {
+    return { success: false, message: 'Multi-disk and ZIP64 archives are not supported' };
+  }
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  let pos = centralOffset;
+  try {
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(pos, true) !== CENTRAL_DIRECTORY_HEADER) {
+        return { success: false, message: `Corrupt central directory at byte ${pos}` };
+      }
+      const flags = view.getUint16(pos + 8, true);
+      const method = view.getUint16(pos + 10, true);
+      const crc = view.getUint32(pos + 16, true);
+      const compressedSize = view.getUint32(pos + 20, true);
+      const size = view.getUint32(pos + 24, true);
+      const nameLength = view.getUint16(pos + 28, true);
+      const extraLength = view.getUint16(pos + 30, true);
+      const commentLength = view.getUint16(pos + 32, true);
+      const localOffset = view.getUint32(pos + 42, true);
+      const path = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+      pos += 46 + nameLength + extraLength + commentLength;
+
+      if (path.endsWith('/')) continue;
+      if (flags & 1) return { success: false, message: `${path}: encrypted entries are not supported` };
+      if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+        return { success: false, message: `${path}: missing local file header` };
+      }
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const raw = bytes.subarray(start, start + compressedSize);
+      if (raw.length !== compressedSize) return { success: false, message: `${path}: entry is truncated` };
+
+      let data: Uint8Array;
+      if (method === 0) data = raw;
+      else if (method === 8) data = await inflateRaw(raw);
+      else return { success: false, message: `${path}: compression method ${method} is not supported` };
+
+      if (data.length !== size || crc32(data) !== crc) return { success: false, message: `${path}: CRC or size mismatch` };
+      entries.set(path, data);
+    }
+  } catch (error) {
+    // RangeError past the end of the buffer, or invalid deflate data
+    return { success: false, message: `Corrupt ZIP archive: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  return { success: true, entries };
+}
@@ -0,0 +1,130 @@
+/**
+ * Minimal ZIP Writer
+ *
+ * Pure-TypeScript ZIP archive writer for OOXML exports (DOCX, XLSX). Entries are
+ * stored without compression, which every OOXML consumer accepts, so no zlib
+ * dependency is needed in browsers or edge runtimes.
+ *
+ * Output is deterministic: the same entries produce the same bytes (timestamps
+ * default to 1980-01-01, the earliest DOS date).
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, forward slashes (e.g. 'word/document.xml') */
+  path: string;
+  /** Strings are written as UTF-8 */
+  data: Uint8Array | string;
+}
+
+export interface ZipOptions {
+  /** Modification time written for every entry, as UTC (default: 1980-01-01 00:00) */
+  modifiedAt?: Date;
+}
+
+// ============================================================================
+// CRC-32
+// ============================================================================
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE 802.3) checksum, as used by ZIP and PNG
+ *
+ * @example
+ * crc32(new TextEncoder().encode('123456789')) // 0xcbf43926
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ============================================================================
+// Archive
+// ============================================================================
+
+function dosDateTime(date: Date | undefined): { time: number; date: number } {
+  if (!date) return { time: 0, date: (1 << 5) | 1 };
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate()
+  };
+}
+
+/**
+ * Build a ZIP archive (stored entries, UTF-8 file names)
+ *
+ * @example
+ * const bytes = createZip([
+ *   { path: '[Content_Types].xml', data: contentTypes },
+ *   { path: 'word/document.xml', data: documentXml }
+ * ]);
+ */
+export function createZip(entries: ZipEntry[], options: ZipOptions = {}): Uint8Array {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(options.modifiedAt);
+  const UTF8_FLAG = 0x0800;
+
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+
+  const u16 = (v: number) => { view.setUint16(pos, v, true); pos += 2; };
+  const u32 = (v: number) => { view.setUint32(pos, v >>> 0, true); pos += 4; };
+  const bytes = (b: Uint8Array) => { out.set(b, pos); pos += b.length; };
+
+  const offsets: number[] = [];
+  for (const f of files) {
+    offsets.push(pos);
+    u32(0x04034b50);
+    u16(20); u16(UTF8_FLAG); u16(0); // version needed, flags, method (stored)
+    u16(stamp.time); u16(stamp.date);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0);
+    bytes(f.name);
+    bytes(f.data);
+  }
+
+  const centralOffset = pos;
+  files.forEach((f, i) => {
+    u32(0x02014b50);
+    u16(20); u16(20); u16(UTF8_FLAG); u16(0); // made by, needed, flags, method
+    u16(stamp.time); u16(stamp.date);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0); u16(0); // name, extra, comment lengths
+    u16(0); u16(0); u32(0); // disk, internal attrs, external attrs
+    u32(offsets[i]);
+    bytes(f.name);
+  });
+
+  const centralLength = pos - centralOffset;
+  u32(0x06054b50);
+  u16(0); u16(0);
+  u16(files.length); u16(files.length);
+  u32(centralLength);
+  u32(centralOffset);
+  u16(0);
+
+  return out;
+}